@@ -0,0 +1,102 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { theme } from '../config/theme';
+import { ActivityDay } from '../services/streaks';
+import { toLocalDateKey, fromDateKey, addDays } from '../utils/dates';
+
+interface ActivityHeatmapProps {
+  days: ActivityDay[];
+  weeks?: number;
+}
+
+const CELL_SIZE = 14;
+const CELL_GAP = 3;
+
+// Calendar heatmap of daily learning activity, one column per week
+export function ActivityHeatmap({ days, weeks = 12 }: ActivityHeatmapProps) {
+  const today = toLocalDateKey();
+  const byDate = new Map(days.map(day => [day.activity_date, day]));
+
+  // Start on the Sunday that puts today in the last column
+  const start = addDays(today, -((weeks - 1) * 7 + fromDateKey(today).getDay()));
+
+  const getCellColor = (date: string) => {
+    if (date > today) return 'transparent';
+
+    const day = byDate.get(date);
+    if (!day || day.activity_count === 0) {
+      return day?.frozen ? theme.colors.info + '60' : theme.colors.gray[100];
+    }
+    if (day.activity_count === 1) return theme.colors.primary + '50';
+    if (day.activity_count <= 3) return theme.colors.primary + '90';
+    return theme.colors.primary;
+  };
+
+  const columns = [];
+  for (let week = 0; week < weeks; week++) {
+    const cells = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      const date = addDays(start, week * 7 + weekday);
+      cells.push(
+        <View
+          key={date}
+          style={[styles.cell, { backgroundColor: getCellColor(date) }]}
+        />
+      );
+    }
+    columns.push(
+      <View key={week} style={styles.column}>
+        {cells}
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      <View style={styles.grid}>{columns}</View>
+      <View style={styles.legend}>
+        <Text style={styles.legendText}>Less</Text>
+        {[theme.colors.gray[100], theme.colors.primary + '50', theme.colors.primary + '90', theme.colors.primary].map(color => (
+          <View key={color} style={[styles.cell, styles.legendCell, { backgroundColor: color }]} />
+        ))}
+        <Text style={styles.legendText}>More</Text>
+        <View style={[styles.cell, styles.legendCell, styles.legendFreeze, { backgroundColor: theme.colors.info + '60' }]} />
+        <Text style={styles.legendText}>Freeze</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  column: {
+    marginRight: CELL_GAP,
+  },
+  cell: {
+    width: CELL_SIZE,
+    height: CELL_SIZE,
+    borderRadius: theme.borderRadius.sm,
+    marginBottom: CELL_GAP,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: theme.spacing.sm,
+  },
+  legendCell: {
+    marginBottom: 0,
+    marginHorizontal: 2,
+  },
+  legendFreeze: {
+    marginLeft: theme.spacing.md,
+  },
+  legendText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginHorizontal: theme.spacing.xs,
+  },
+});
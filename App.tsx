@@ -3,14 +3,20 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import 'react-native-gesture-handler';
 
 import { AuthProvider } from './src/contexts/AuthContext';
+import { NetworkProvider } from './src/contexts/NetworkContext';
+import { BookmarksProvider } from './src/contexts/BookmarksContext';
 import AppNavigator from './src/navigation/AppNavigator';
 
 export default function App() {
   return (
     <GestureHandlerRootView style={{ flex: 1 }}>
-      <AuthProvider>
-        <AppNavigator />
-      </AuthProvider>
+      <NetworkProvider>
+        <AuthProvider>
+          <BookmarksProvider>
+            <AppNavigator />
+          </BookmarksProvider>
+        </AuthProvider>
+      </NetworkProvider>
     </GestureHandlerRootView>
   );
 }
@@ -1,12 +1,14 @@
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, LinkingOptions } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth, useCan } from '../contexts/AuthContext';
 import { theme } from '../config/theme';
 import { Loading } from '../components/UI';
+import { withCapability } from '../components/RequireCapability';
+import { JOIN_LINK_PREFIX } from '../utils/joinCodes';
 
 // Screens
 import LoginScreen from '../screens/auth/LoginScreen';
@@ -14,8 +16,24 @@ import SignUpScreen from '../screens/auth/SignUpScreen';
 import DashboardScreen from '../screens/main/DashboardScreen';
 import LessonsScreen from '../screens/main/LessonsScreen';
 import LessonDetailScreen from '../screens/main/LessonDetailScreen';
+import PathOverviewScreen from '../screens/main/PathOverviewScreen';
+import DownloadsScreen from '../screens/main/DownloadsScreen';
+import MyNotesScreen from '../screens/main/MyNotesScreen';
+import FeedbackInboxScreen from '../screens/main/FeedbackInboxScreen';
+import MyLessonsScreen from '../screens/main/MyLessonsScreen';
+import LessonEditorScreen from '../screens/main/LessonEditorScreen';
+import LessonVersionsScreen from '../screens/main/LessonVersionsScreen';
+import ReviewQueueScreen from '../screens/main/ReviewQueueScreen';
+import LessonReviewScreen from '../screens/main/LessonReviewScreen';
+import ClassroomsScreen from '../screens/main/ClassroomsScreen';
+import JoinClassroomScreen from '../screens/main/JoinClassroomScreen';
+import ClassroomDetailScreen from '../screens/main/ClassroomDetailScreen';
+import StudentProgressScreen from '../screens/main/StudentProgressScreen';
+import NewAssignmentScreen from '../screens/main/NewAssignmentScreen';
+import AssignmentGradingScreen from '../screens/main/AssignmentGradingScreen';
 import DomainsScreen from '../screens/main/DomainsScreen';
 import ProfileScreen from '../screens/main/ProfileScreen';
+import RoleRequestsScreen from '../screens/main/RoleRequestsScreen';
 
 // Types
 import {
@@ -23,12 +41,50 @@ import {
   AuthStackParamList,
   MainTabParamList,
   LessonsStackParamList,
+  AuthoringStackParamList,
+  ClassroomsStackParamList,
 } from '../types';
 
 const RootStack = createStackNavigator<RootStackParamList>();
 const AuthStack = createStackNavigator<AuthStackParamList>();
 const MainTab = createBottomTabNavigator<MainTabParamList>();
 const LessonsStack = createStackNavigator<LessonsStackParamList>();
+const AuthoringStack = createStackNavigator<AuthoringStackParamList>();
+const ClassroomsStack = createStackNavigator<ClassroomsStackParamList>();
+
+// Guarded as well as left out of the tabs, since a screen can still be
+// reached by a deep link or restored navigation state
+const GuardedMyLessons = withCapability(MyLessonsScreen, 'author_lessons');
+const GuardedLessonEditor = withCapability(LessonEditorScreen, 'author_lessons');
+// Reviewers roll lessons back too
+const GuardedLessonVersions = withCapability(LessonVersionsScreen, ['author_lessons', 'review_lessons']);
+const GuardedReviewQueue = withCapability(ReviewQueueScreen, 'review_lessons');
+const GuardedLessonReview = withCapability(LessonReviewScreen, 'review_lessons');
+const GuardedJoinClassroom = withCapability(JoinClassroomScreen, 'join_classrooms');
+const GuardedStudentProgress = withCapability(StudentProgressScreen, 'manage_classrooms');
+const GuardedNewAssignment = withCapability(NewAssignmentScreen, 'manage_classrooms');
+const GuardedAssignmentGrading = withCapability(AssignmentGradingScreen, 'manage_classrooms');
+const GuardedRoleRequests = withCapability(RoleRequestsScreen, 'manage_roles');
+
+// Join links, e.g. codesprouts://join/K7MQ2X, open the join screen with the
+// code filled in. Signed out users land on the login screen instead.
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [JOIN_LINK_PREFIX],
+  config: {
+    screens: {
+      MainTabs: {
+        screens: {
+          Classrooms: {
+            initialRouteName: 'ClassroomList',
+            screens: {
+              JoinClassroom: 'join/:code',
+            },
+          },
+        },
+      },
+    },
+  },
+};
 
 function AuthNavigator() {
   return (
@@ -54,11 +110,62 @@ function LessonsNavigator() {
     >
       <LessonsStack.Screen name="LessonsList" component={LessonsScreen} />
       <LessonsStack.Screen name="LessonDetail" component={LessonDetailScreen} />
+      <LessonsStack.Screen name="PathOverview" component={PathOverviewScreen} />
+      <LessonsStack.Screen name="Downloads" component={DownloadsScreen} />
+      <LessonsStack.Screen name="MyNotes" component={MyNotesScreen} />
+      <LessonsStack.Screen name="FeedbackInbox" component={FeedbackInboxScreen} />
     </LessonsStack.Navigator>
   );
 }
 
+// Writing and reviewing lessons. Reviewers who don't write lessons start
+// at the review queue.
+function AuthoringNavigator() {
+  const can = useCan();
+
+  return (
+    <AuthoringStack.Navigator
+      initialRouteName={can('author_lessons') ? 'MyLessons' : 'ReviewQueue'}
+      screenOptions={{
+        headerShown: false,
+        cardStyle: { backgroundColor: theme.colors.background },
+      }}
+    >
+      <AuthoringStack.Screen name="MyLessons" component={GuardedMyLessons} />
+      <AuthoringStack.Screen name="LessonEditor" component={GuardedLessonEditor} />
+      <AuthoringStack.Screen name="LessonVersions" component={GuardedLessonVersions} />
+      <AuthoringStack.Screen name="ReviewQueue" component={GuardedReviewQueue} />
+      <AuthoringStack.Screen name="LessonReview" component={GuardedLessonReview} />
+    </AuthoringStack.Navigator>
+  );
+}
+
+// Classrooms the user teaches or has joined. ClassroomDetail checks per
+// classroom whether the user teaches it.
+function ClassroomsNavigator() {
+  return (
+    <ClassroomsStack.Navigator
+      screenOptions={{
+        headerShown: false,
+        cardStyle: { backgroundColor: theme.colors.background },
+      }}
+    >
+      <ClassroomsStack.Screen name="ClassroomList" component={ClassroomsScreen} />
+      <ClassroomsStack.Screen name="JoinClassroom" component={GuardedJoinClassroom} />
+      <ClassroomsStack.Screen name="ClassroomDetail" component={ClassroomDetailScreen} />
+      <ClassroomsStack.Screen name="StudentProgress" component={GuardedStudentProgress} />
+      <ClassroomsStack.Screen name="NewAssignment" component={GuardedNewAssignment} />
+      <ClassroomsStack.Screen name="AssignmentGrading" component={GuardedAssignmentGrading} />
+    </ClassroomsStack.Navigator>
+  );
+}
+
+// Tabs beyond the learner's own depend on what the user's role allows
 function MainNavigator() {
+  const can = useCan();
+  const showAuthoring = can('author_lessons') || can('review_lessons');
+  const showClassrooms = can('manage_classrooms') || can('join_classrooms');
+
   return (
     <MainTab.Navigator
       screenOptions={({ route }) => ({
@@ -73,6 +180,12 @@ function MainNavigator() {
             case 'Lessons':
               iconName = focused ? 'book' : 'book-outline';
               break;
+            case 'Classrooms':
+              iconName = focused ? 'people' : 'people-outline';
+              break;
+            case 'Authoring':
+              iconName = focused ? 'create' : 'create-outline';
+              break;
             case 'Domains':
               iconName = focused ? 'globe' : 'globe-outline';
               break;
@@ -110,6 +223,20 @@ function MainNavigator() {
         component={LessonsNavigator}
         options={{ tabBarLabel: 'Learn' }}
       />
+      {showClassrooms && (
+        <MainTab.Screen
+          name="Classrooms"
+          component={ClassroomsNavigator}
+          options={{ tabBarLabel: 'Classes' }}
+        />
+      )}
+      {showAuthoring && (
+        <MainTab.Screen
+          name="Authoring"
+          component={AuthoringNavigator}
+          options={{ tabBarLabel: 'Authoring' }}
+        />
+      )}
       <MainTab.Screen 
         name="Domains" 
         component={DomainsScreen}
@@ -132,7 +259,7 @@ export default function AppNavigator() {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       <RootStack.Navigator
         screenOptions={{
           headerShown: false,
@@ -140,7 +267,10 @@ export default function AppNavigator() {
         }}
       >
         {user ? (
-          <RootStack.Screen name="MainTabs" component={MainNavigator} />
+          <>
+            <RootStack.Screen name="MainTabs" component={MainNavigator} />
+            <RootStack.Screen name="RoleRequests" component={GuardedRoleRequests} />
+          </>
         ) : (
           <RootStack.Screen name="AuthStack" component={AuthNavigator} />
         )}
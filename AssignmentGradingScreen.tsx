@@ -0,0 +1,325 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+
+import {
+  AssignmentService,
+  Assignment,
+  AssignmentSubmission,
+  assignmentTitle,
+} from '../../services/assignments';
+import { ClassroomService, RosterEntry, personName } from '../../services/classrooms';
+import { Card, Button, Loading, ErrorMessage } from '../../components/UI';
+import {
+  AssignmentStatus,
+  getAssignmentStatus,
+  formatDueLabel,
+  summarizeSubmissions,
+} from '../../utils/assignmentStatus';
+import { theme } from '../../config/theme';
+import { ClassroomsStackParamList } from '../../types';
+
+type AssignmentGradingScreenNavigationProp = StackNavigationProp<ClassroomsStackParamList, 'AssignmentGrading'>;
+type AssignmentGradingScreenRouteProp = RouteProp<ClassroomsStackParamList, 'AssignmentGrading'>;
+
+interface Props {
+  navigation: AssignmentGradingScreenNavigationProp;
+  route: AssignmentGradingScreenRouteProp;
+}
+
+// Listed in this order, so whoever needs following up comes first
+const gradingStatuses: { [status in AssignmentStatus]: { label: string; color: string; order: number } } = {
+  overdue: { label: 'Missing', color: theme.colors.error, order: 0 },
+  submitted_late: { label: 'Late', color: theme.colors.warning, order: 1 },
+  upcoming: { label: 'Not yet', color: theme.colors.gray[500], order: 2 },
+  submitted: { label: 'On time', color: theme.colors.success, order: 3 },
+};
+
+// Who submitted an assignment, when, and whether it was late
+export default function AssignmentGradingScreen({ navigation, route }: Props) {
+  const { classroomId, assignmentId } = route.params;
+  const [assignment, setAssignment] = useState<Assignment | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [submissions, setSubmissions] = useState<AssignmentSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSubmissions = async () => {
+    try {
+      setError(null);
+
+      const [assignmentsResult, rosterResult, submissionsResult] = await Promise.all([
+        AssignmentService.getClassroomAssignments(classroomId),
+        ClassroomService.getRoster(classroomId),
+        AssignmentService.getSubmissions([assignmentId]),
+      ]);
+
+      if (!assignmentsResult.success || !rosterResult.success || !submissionsResult.success) {
+        setError(assignmentsResult.error || rosterResult.error || submissionsResult.error || 'Failed to load submissions');
+        return;
+      }
+
+      setAssignment((assignmentsResult.data || []).find(entry => entry.id === assignmentId) || null);
+      setRoster(rosterResult.data || []);
+      setSubmissions(submissionsResult.data || []);
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading submissions:', err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSubmissions();
+    }, [classroomId, assignmentId])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadSubmissions();
+  };
+
+  const handleDelete = () => {
+    if (!assignment) return;
+
+    Alert.alert('Delete Assignment', `Delete “${assignmentTitle(assignment)}” and its submissions? This can't be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await AssignmentService.deleteAssignment(assignment.id);
+          if (result.success) {
+            navigation.goBack();
+          } else {
+            Alert.alert('Error', result.error || 'Failed to delete assignment');
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return <Loading text="Loading submissions..." />;
+  }
+
+  if (error || !assignment) {
+    return <ErrorMessage message={error || 'Assignment not found'} onRetry={loadSubmissions} />;
+  }
+
+  const summary = summarizeSubmissions(assignment.due_at, roster.map(member => member.user_id), submissions);
+  const rows = roster
+    .map(member => {
+      const submission = submissions.find(entry => entry.user_id === member.user_id) || null;
+      return { member, submission, status: getAssignmentStatus(assignment.due_at, submission) };
+    })
+    .sort((a, b) => gradingStatuses[a.status].order - gradingStatuses[b.status].order);
+
+  const stats: { label: string; value: number; color: string }[] = [
+    { label: 'On time', value: summary.onTime, color: theme.colors.success },
+    { label: 'Late', value: summary.late, color: theme.colors.warning },
+    { label: 'Missing', value: summary.missing, color: theme.colors.error },
+    { label: 'Not yet', value: summary.pending, color: theme.colors.text.secondary },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Submissions</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <Card style={styles.summaryCard}>
+          <Text style={styles.kind}>{assignment.exercise_id ? 'Exercise' : 'Lesson'}</Text>
+          <Text style={styles.title}>{assignmentTitle(assignment)}</Text>
+          <Text style={styles.due}>
+            {formatDueLabel(assignment.due_at)} · {new Date(assignment.due_at).toLocaleDateString()}
+          </Text>
+
+          <View style={styles.statsRow}>
+            {stats.map(stat => (
+              <View key={stat.label} style={styles.stat}>
+                <Text style={[styles.statValue, { color: stat.color }]}>{stat.value}</Text>
+                <Text style={styles.statLabel}>{stat.label}</Text>
+              </View>
+            ))}
+          </View>
+        </Card>
+
+        {rows.length === 0 && (
+          <Text style={styles.emptyText}>No learners have joined this classroom yet.</Text>
+        )}
+
+        {rows.map(({ member, submission, status }) => {
+          const { label, color } = gradingStatuses[status];
+
+          return (
+            <TouchableOpacity
+              key={member.user_id}
+              style={styles.studentRow}
+              onPress={() => navigation.navigate('StudentProgress', { classroomId, studentId: member.user_id })}
+            >
+              <View style={styles.studentInfo}>
+                <Text style={styles.studentName} numberOfLines={1}>
+                  {personName(member.profiles, member.profiles?.email || 'Learner')}
+                </Text>
+                <Text style={styles.studentMeta}>
+                  {submission
+                    ? `Submitted ${new Date(submission.submitted_at).toLocaleString()}`
+                    : 'Not submitted'}
+                </Text>
+              </View>
+              <View style={[styles.statusBadge, { backgroundColor: color + '20' }]}>
+                <Text style={[styles.statusText, { color }]}>{label}</Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+
+        <View style={styles.footer}>
+          <Button title="Delete Assignment" onPress={handleDelete} variant="danger" />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  summaryCard: {
+    margin: theme.spacing.lg,
+  },
+  kind: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.light,
+    textTransform: 'uppercase',
+  },
+  title: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.xs,
+  },
+  due: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xs,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.lg,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+  },
+  statLabel: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  studentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  studentInfo: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  studentName: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  studentMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+  },
+  statusText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  footer: {
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xl,
+  },
+});
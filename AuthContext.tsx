@@ -1,5 +1,6 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
 import { AuthService } from '../services/auth';
+import { Capability, userCan } from '../services/permissions';
 import { AuthUser, AuthState } from '../types';
 
 interface AuthContextType extends AuthState {
@@ -174,3 +175,9 @@ export function useAuth(): AuthContextType {
   }
   return context;
 }
+
+// What the signed in user's role lets them do, e.g. can('author_lessons')
+export function useCan(): (capability: Capability) => boolean {
+  const { user } = useAuth();
+  return useCallback((capability: Capability) => userCan(user, capability), [user]);
+}
@@ -0,0 +1,107 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { BadgeTier } from '../config/badgeCatalog';
+import { BadgeStatus } from '../services/badges';
+
+const tierColors: { [tier in BadgeTier]: string } = {
+  bronze: '#B45309',
+  silver: theme.colors.gray[500],
+  gold: theme.colors.warning,
+};
+
+interface BadgeRowProps {
+  status: BadgeStatus;
+}
+
+// Full-width badge with name, description and unlock date
+export function BadgeRow({ status }: BadgeRowProps) {
+  const { badge, unlocked_at } = status;
+  const color = unlocked_at ? tierColors[badge.tier] : theme.colors.text.light;
+
+  return (
+    <View style={styles.row}>
+      <View style={[styles.rowIcon, { backgroundColor: color + '20' }]}>
+        <Ionicons name={unlocked_at ? badge.icon : 'lock-closed'} size={24} color={color} />
+      </View>
+      <View style={styles.rowContent}>
+        <Text style={styles.rowTitle}>{badge.name}</Text>
+        <Text style={styles.rowDescription}>
+          {unlocked_at
+            ? `${badge.description} · ${new Date(unlocked_at).toLocaleDateString()}`
+            : badge.description}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+interface BadgeTileProps {
+  status: BadgeStatus;
+}
+
+// Compact badge for grids; locked badges are greyed out
+export function BadgeTile({ status }: BadgeTileProps) {
+  const { badge, unlocked_at } = status;
+  const color = unlocked_at ? tierColors[badge.tier] : theme.colors.gray[300];
+
+  return (
+    <View style={[styles.tile, !unlocked_at && styles.tileLocked]}>
+      <View style={[styles.tileIcon, { borderColor: color }]}>
+        <Ionicons name={badge.icon} size={28} color={color} />
+      </View>
+      <Text style={styles.tileTitle} numberOfLines={2}>{badge.name}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: theme.spacing.md,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.xs,
+  },
+  rowDescription: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  tile: {
+    width: '30%',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  tileLocked: {
+    opacity: 0.5,
+  },
+  tileIcon: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    borderWidth: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  tileTitle: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+  },
+});
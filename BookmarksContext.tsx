@@ -0,0 +1,88 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { BookmarksService, LessonBookmark } from '../services/bookmarks';
+import { useAuth } from './AuthContext';
+import { useNetwork } from './NetworkContext';
+
+interface BookmarksContextType {
+  bookmarks: LessonBookmark[]; // newest first
+  bookmarkedIds: Set<string>;
+  toggleBookmark: (lessonId: string) => Promise<{ success: boolean; error?: string }>;
+  refreshBookmarks: () => Promise<void>;
+}
+
+const BookmarksContext = createContext<BookmarksContextType | undefined>(undefined);
+
+interface BookmarksProviderProps {
+  children: ReactNode;
+}
+
+export function BookmarksProvider({ children }: BookmarksProviderProps) {
+  const { user } = useAuth();
+  const { isOnline } = useNetwork();
+  const [bookmarks, setBookmarks] = useState<LessonBookmark[]>([]);
+  const userId = user?.id;
+
+  const refreshBookmarks = useCallback(async () => {
+    if (!userId) {
+      setBookmarks([]);
+      return;
+    }
+
+    const result = await BookmarksService.getBookmarks(userId);
+    if (result.success) {
+      setBookmarks(result.data!);
+    } else {
+      console.error('Error loading bookmarks:', result.error);
+    }
+  }, [userId]);
+
+  // Load on sign-in and reconnect, and follow changes from other devices
+  useEffect(() => {
+    refreshBookmarks();
+    if (!userId || !isOnline) return;
+
+    const subscription = BookmarksService.onRemoteChange(userId, refreshBookmarks);
+    return () => subscription.unsubscribe();
+  }, [userId, isOnline, refreshBookmarks]);
+
+  const bookmarkedIds = useMemo(() => new Set(bookmarks.map(bookmark => bookmark.lesson_id)), [bookmarks]);
+
+  const toggleBookmark = async (lessonId: string) => {
+    if (!userId) {
+      return { success: false, error: 'Sign in to save lessons' };
+    }
+
+    // Show the change right away
+    const bookmarked = !bookmarkedIds.has(lessonId);
+    setBookmarks(current => bookmarked
+      ? [{ user_id: userId, lesson_id: lessonId, created_at: new Date().toISOString() }, ...current]
+      : current.filter(bookmark => bookmark.lesson_id !== lessonId)
+    );
+
+    const result = await BookmarksService.setBookmarked(userId, lessonId, bookmarked);
+    if (!result.success) {
+      await refreshBookmarks();
+      return { success: false, error: result.error };
+    }
+
+    setBookmarks(result.data!);
+    return { success: true };
+  };
+
+  const value: BookmarksContextType = {
+    bookmarks,
+    bookmarkedIds,
+    toggleBookmark,
+    refreshBookmarks,
+  };
+
+  return <BookmarksContext.Provider value={value}>{children}</BookmarksContext.Provider>;
+}
+
+export function useBookmarks(): BookmarksContextType {
+  const context = useContext(BookmarksContext);
+  if (context === undefined) {
+    throw new Error('useBookmarks must be used within a BookmarksProvider');
+  }
+  return context;
+}
@@ -0,0 +1,786 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  Share,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { CompositeNavigationProp, RouteProp, useFocusEffect } from '@react-navigation/native';
+
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  ClassroomService,
+  Classroom,
+  RosterEntry,
+  personName,
+} from '../../services/classrooms';
+import {
+  AssignmentService,
+  Assignment,
+  AssignmentSubmission,
+  assignmentTitle,
+} from '../../services/assignments';
+import { LessonsService } from '../../services/lessons';
+import { PathsService, LearningPath } from '../../services/paths';
+import { Card, Button, Loading, ErrorMessage } from '../../components/UI';
+import {
+  StudentLessonProgress,
+  getAssignedLessonIds,
+  groupProgressByStudent,
+  summarizeStudentProgress,
+} from '../../utils/classroomProgress';
+import {
+  AssignmentStatus,
+  getAssignmentStatus,
+  formatDueLabel,
+  summarizeSubmissions,
+} from '../../utils/assignmentStatus';
+import { formatJoinCode, buildJoinLink } from '../../utils/joinCodes';
+import { theme } from '../../config/theme';
+import { ClassroomsStackParamList, MainTabParamList } from '../../types';
+
+type ClassroomDetailScreenNavigationProp = CompositeNavigationProp<
+  StackNavigationProp<ClassroomsStackParamList, 'ClassroomDetail'>,
+  BottomTabNavigationProp<MainTabParamList>
+>;
+type ClassroomDetailScreenRouteProp = RouteProp<ClassroomsStackParamList, 'ClassroomDetail'>;
+
+interface Props {
+  navigation: ClassroomDetailScreenNavigationProp;
+  route: ClassroomDetailScreenRouteProp;
+}
+
+const assignmentStatuses: { [status in AssignmentStatus]: { label: string; color: string } } = {
+  submitted: { label: 'Submitted', color: theme.colors.success },
+  submitted_late: { label: 'Submitted late', color: theme.colors.warning },
+  overdue: { label: 'Overdue', color: theme.colors.error },
+  upcoming: { label: 'Upcoming', color: theme.colors.info },
+};
+
+// A classroom as its teacher runs it (join code, assigned paths, roster) or
+// as a learner follows it (assigned paths and their own progress)
+export default function ClassroomDetailScreen({ navigation, route }: Props) {
+  const { user } = useAuth();
+  const { classroomId } = route.params;
+  const [classroom, setClassroom] = useState<Classroom | null>(null);
+  const [assignedPaths, setAssignedPaths] = useState<LearningPath[]>([]);
+  const [allPaths, setAllPaths] = useState<LearningPath[]>([]);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [progressRows, setProgressRows] = useState<StudentLessonProgress[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [submissions, setSubmissions] = useState<AssignmentSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [updatingPathId, setUpdatingPathId] = useState<string | null>(null);
+  const [changingCode, setChangingCode] = useState(false);
+
+  const isTeacher = !!user && classroom?.teacher_id === user.id;
+
+  const loadClassroom = async () => {
+    if (!user) return;
+
+    try {
+      setError(null);
+
+      const [classroomResult, assignedResult, assignmentsResult] = await Promise.all([
+        ClassroomService.getClassroom(classroomId),
+        ClassroomService.getAssignedPaths(classroomId),
+        AssignmentService.getClassroomAssignments(classroomId),
+      ]);
+
+      if (!classroomResult.success || !classroomResult.data) {
+        setError(classroomResult.error || 'Failed to load classroom');
+        return;
+      }
+      if (!assignedResult.success || !assignmentsResult.success) {
+        setError(assignedResult.error || assignmentsResult.error || 'Failed to load classroom');
+        return;
+      }
+
+      // The teacher's copy holds every learner's submissions, a learner's only their own
+      const classroomAssignments = assignmentsResult.data || [];
+      const submissionsResult = await AssignmentService.getSubmissions(
+        classroomAssignments.map(assignment => assignment.id)
+      );
+
+      setClassroom(classroomResult.data);
+      setAssignedPaths(assignedResult.data || []);
+      setAssignments(classroomAssignments);
+      setSubmissions(submissionsResult.data || []);
+
+      if (classroomResult.data.teacher_id === user.id) {
+        const [rosterResult, pathsResult] = await Promise.all([
+          ClassroomService.getRoster(classroomId),
+          PathsService.fetchPaths(),
+        ]);
+
+        if (!rosterResult.success) {
+          setError(rosterResult.error || 'Failed to load the roster');
+          return;
+        }
+
+        const members = rosterResult.data || [];
+        const progressResult = await ClassroomService.getStudentsProgress(members.map(member => member.user_id));
+
+        setRoster(members);
+        setAllPaths(pathsResult.data || []);
+        setProgressRows(progressResult.data || []);
+      } else {
+        const progressResult = await LessonsService.getAllUserProgress(user.id);
+        setProgressRows((progressResult.data || []) as StudentLessonProgress[]);
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading classroom:', err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  // Reload on focus to pick up progress made in the classroom's paths
+  useFocusEffect(
+    useCallback(() => {
+      loadClassroom();
+    }, [user, classroomId])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadClassroom();
+  };
+
+  const handleShareCode = async () => {
+    if (!classroom) return;
+
+    try {
+      await Share.share({
+        title: classroom.name,
+        message: `Join ${classroom.name} on CodeSprouts with the code ${formatJoinCode(classroom.join_code)}, or open ${buildJoinLink(classroom.join_code)}`,
+      });
+    } catch (err) {
+      Alert.alert('Error', 'Failed to share the join code');
+    }
+  };
+
+  const handleNewCode = () => {
+    Alert.alert(
+      'New Join Code',
+      'The current code and links will stop working. Learners who already joined stay in the classroom.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'New Code',
+          onPress: async () => {
+            setChangingCode(true);
+            const result = await ClassroomService.regenerateJoinCode(classroomId);
+            setChangingCode(false);
+            if (result.success) {
+              setClassroom(current => (current ? { ...current, join_code: result.data! } : current));
+            } else {
+              Alert.alert('Error', result.error || 'Failed to change the join code');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAssignPath = async (path: LearningPath) => {
+    setUpdatingPathId(path.id);
+    try {
+      const result = await ClassroomService.assignPath(classroomId, path.id);
+      if (result.success) {
+        setAssignedPaths(current => [...current, path]);
+      } else {
+        Alert.alert('Error', result.error || 'Failed to assign path');
+      }
+    } finally {
+      setUpdatingPathId(null);
+    }
+  };
+
+  const handleUnassignPath = (path: LearningPath) => {
+    Alert.alert('Remove Path', `Stop assigning “${path.title}” to this classroom? Learners keep their progress.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          setUpdatingPathId(path.id);
+          const result = await ClassroomService.unassignPath(classroomId, path.id);
+          setUpdatingPathId(null);
+          if (result.success) {
+            setAssignedPaths(current => current.filter(assigned => assigned.id !== path.id));
+          } else {
+            Alert.alert('Error', result.error || 'Failed to unassign path');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRemoveStudent = (member: RosterEntry) => {
+    const name = personName(member.profiles, 'this learner');
+    Alert.alert('Remove Learner', `Remove ${name} from the classroom? They can rejoin with the join code.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await ClassroomService.removeMember(classroomId, member.user_id);
+          if (result.success) {
+            setRoster(current => current.filter(entry => entry.user_id !== member.user_id));
+          } else {
+            Alert.alert('Error', result.error || 'Failed to remove learner');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleLeave = () => {
+    if (!user || !classroom) return;
+
+    Alert.alert('Leave Classroom', `Leave ${classroom.name}? Your teacher will no longer see your progress.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await ClassroomService.removeMember(classroomId, user.id);
+          if (result.success) {
+            navigation.goBack();
+          } else {
+            Alert.alert('Error', result.error || 'Failed to leave classroom');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDelete = () => {
+    if (!classroom) return;
+
+    Alert.alert('Delete Classroom', `Delete ${classroom.name}? Its roster and assigned paths will be removed. This can't be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await ClassroomService.deleteClassroom(classroomId);
+          if (result.success) {
+            navigation.goBack();
+          } else {
+            Alert.alert('Error', result.error || 'Failed to delete classroom');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderProgressBar = (percent: number) => (
+    <View style={styles.progressBar}>
+      <View
+        style={[
+          styles.progressFill,
+          {
+            width: `${percent}%`,
+            backgroundColor: percent === 100 ? theme.colors.success : theme.colors.primary,
+          },
+        ]}
+      />
+    </View>
+  );
+
+  if (loading) {
+    return <Loading text="Loading classroom..." />;
+  }
+
+  if (error || !classroom) {
+    return <ErrorMessage message={error || 'Classroom not found'} onRetry={loadClassroom} />;
+  }
+
+  const assignedIds = assignedPaths.map(path => path.id);
+  const unassignedPaths = allPaths.filter(path => !assignedIds.includes(path.id));
+  const assignedLessonIds = getAssignedLessonIds(assignedPaths);
+  const progressByStudent = groupProgressByStudent(progressRows);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Classroom</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <View style={styles.titleBlock}>
+          <Text style={styles.title}>{classroom.name}</Text>
+          <Text style={styles.subtitle}>
+            {isTeacher
+              ? `${roster.length} ${roster.length === 1 ? 'learner' : 'learners'}`
+              : `Taught by ${personName(classroom.profiles, 'your teacher')}`}
+          </Text>
+        </View>
+
+        {isTeacher && (
+          <Card style={styles.card}>
+            <Text style={styles.cardLabel}>Join code</Text>
+            <Text style={styles.joinCode} selectable>{formatJoinCode(classroom.join_code)}</Text>
+            <Text style={styles.cardHint}>
+              Learners enter this code in the Classes tab, or open the link you share.
+            </Text>
+            <View style={styles.cardActions}>
+              <Button
+                title="New Code"
+                onPress={handleNewCode}
+                variant="outline"
+                size="small"
+                loading={changingCode}
+                style={styles.cardAction}
+              />
+              <Button
+                title="Share"
+                onPress={handleShareCode}
+                size="small"
+                style={styles.cardAction}
+              />
+            </View>
+          </Card>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Assigned paths</Text>
+          {assignedPaths.length === 0 && (
+            <Text style={styles.emptyText}>
+              {isTeacher
+                ? 'Assign a learning path so your learners know what to work on.'
+                : 'Your teacher hasn’t assigned any paths yet.'}
+            </Text>
+          )}
+          {assignedPaths.map(path => {
+            // A learner's own progress rows; teachers see the roster below instead
+            const summary = isTeacher ? null : summarizeStudentProgress(path.lesson_ids, progressRows);
+
+            return (
+              <TouchableOpacity
+                key={path.id}
+                style={styles.pathRow}
+                disabled={isTeacher}
+                onPress={() => navigation.navigate('Lessons', { screen: 'PathOverview', params: { pathId: path.id } })}
+              >
+                <Ionicons
+                  name={(path.icon as keyof typeof Ionicons.glyphMap) || 'map-outline'}
+                  size={22}
+                  color={theme.colors.primary}
+                />
+                <View style={styles.pathInfo}>
+                  <Text style={styles.pathTitle} numberOfLines={1}>{path.title}</Text>
+                  {!summary ? (
+                    <Text style={styles.pathMeta}>{path.lesson_ids.length} lessons</Text>
+                  ) : (
+                    <>
+                      <Text style={styles.pathMeta}>
+                        {summary.completedCount} of {summary.total} lessons complete
+                      </Text>
+                      {renderProgressBar(summary.percent)}
+                    </>
+                  )}
+                </View>
+                {isTeacher ? (
+                  <TouchableOpacity
+                    onPress={() => handleUnassignPath(path)}
+                    disabled={updatingPathId === path.id}
+                    style={styles.rowAction}
+                    accessibilityLabel={`Remove ${path.title}`}
+                  >
+                    <Ionicons name="close-circle-outline" size={22} color={theme.colors.text.light} />
+                  </TouchableOpacity>
+                ) : (
+                  <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+                )}
+              </TouchableOpacity>
+            );
+          })}
+
+          {isTeacher && unassignedPaths.length > 0 && (
+            <View style={styles.chips}>
+              {unassignedPaths.map(path => (
+                <TouchableOpacity
+                  key={path.id}
+                  style={styles.chip}
+                  onPress={() => handleAssignPath(path)}
+                  disabled={updatingPathId === path.id}
+                >
+                  <Ionicons name="add" size={16} color={theme.colors.primary} />
+                  <Text style={styles.chipText}>{path.title}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Assignments</Text>
+            {isTeacher && (
+              <TouchableOpacity onPress={() => navigation.navigate('NewAssignment', { classroomId })}>
+                <Text style={styles.sectionAction}>New assignment</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {assignments.length === 0 && (
+            <Text style={styles.emptyText}>
+              {isTeacher
+                ? 'Assign a lesson or an exercise with a due date.'
+                : 'Nothing is due right now.'}
+            </Text>
+          )}
+          {assignments.map(assignment => {
+            const assignmentSubmissions = submissions.filter(submission => submission.assignment_id === assignment.id);
+
+            if (isTeacher) {
+              const summary = summarizeSubmissions(
+                assignment.due_at,
+                roster.map(member => member.user_id),
+                assignmentSubmissions
+              );
+
+              return (
+                <TouchableOpacity
+                  key={assignment.id}
+                  style={styles.pathRow}
+                  onPress={() => navigation.navigate('AssignmentGrading', { classroomId, assignmentId: assignment.id })}
+                >
+                  <Ionicons
+                    name={assignment.exercise_id ? 'code-slash-outline' : 'book-outline'}
+                    size={22}
+                    color={theme.colors.primary}
+                  />
+                  <View style={styles.pathInfo}>
+                    <Text style={styles.pathTitle} numberOfLines={1}>{assignmentTitle(assignment)}</Text>
+                    <Text style={styles.pathMeta}>
+                      {formatDueLabel(assignment.due_at)} · {summary.onTime + summary.late} of {roster.length} submitted
+                      {summary.late > 0 ? ` · ${summary.late} late` : ''}
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+                </TouchableOpacity>
+              );
+            }
+
+            const submission = assignmentSubmissions.find(entry => entry.user_id === user?.id);
+            const status = assignmentStatuses[getAssignmentStatus(assignment.due_at, submission)];
+
+            return (
+              <TouchableOpacity
+                key={assignment.id}
+                style={styles.pathRow}
+                onPress={() => navigation.navigate('Lessons', { screen: 'LessonDetail', params: { lessonId: assignment.lesson_id } })}
+              >
+                <Ionicons
+                  name={assignment.exercise_id ? 'code-slash-outline' : 'book-outline'}
+                  size={22}
+                  color={theme.colors.primary}
+                />
+                <View style={styles.pathInfo}>
+                  <Text style={styles.pathTitle} numberOfLines={1}>{assignmentTitle(assignment)}</Text>
+                  <Text style={styles.pathMeta}>
+                    {submission
+                      ? `Submitted ${new Date(submission.submitted_at).toLocaleDateString()}`
+                      : formatDueLabel(assignment.due_at)}
+                  </Text>
+                </View>
+                <View style={[styles.statusBadge, { backgroundColor: status.color + '20' }]}>
+                  <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {isTeacher && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Roster</Text>
+            {roster.length === 0 && (
+              <Text style={styles.emptyText}>Share the join code to get learners on the roster.</Text>
+            )}
+            {roster.map(member => {
+              const summary = summarizeStudentProgress(assignedLessonIds, progressByStudent[member.user_id] || []);
+
+              return (
+                <TouchableOpacity
+                  key={member.user_id}
+                  style={styles.studentRow}
+                  onPress={() => navigation.navigate('StudentProgress', { classroomId, studentId: member.user_id })}
+                  onLongPress={() => handleRemoveStudent(member)}
+                >
+                  <View style={styles.studentInfo}>
+                    <Text style={styles.studentName} numberOfLines={1}>
+                      {personName(member.profiles, member.profiles?.email || 'Learner')}
+                    </Text>
+                    <Text style={styles.studentMeta}>
+                      {summary.total > 0
+                        ? `${summary.completedCount} of ${summary.total} lessons`
+                        : 'No paths assigned'}
+                      {summary.lastActiveAt
+                        ? ` · Active ${new Date(summary.lastActiveAt).toLocaleDateString()}`
+                        : ' · Not started'}
+                    </Text>
+                  </View>
+                  {summary.total > 0 && <Text style={styles.studentPercent}>{summary.percent}%</Text>}
+                  <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+                </TouchableOpacity>
+              );
+            })}
+            {roster.length > 0 && (
+              <Text style={styles.rosterHint}>Press and hold a learner to remove them.</Text>
+            )}
+          </View>
+        )}
+
+        <View style={styles.footer}>
+          {isTeacher ? (
+            <Button title="Delete Classroom" onPress={handleDelete} variant="danger" />
+          ) : (
+            <Button title="Leave Classroom" onPress={handleLeave} variant="outline" />
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  titleBlock: {
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.lg,
+  },
+  title: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  subtitle: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xs,
+  },
+  card: {
+    marginHorizontal: theme.spacing.lg,
+    marginTop: theme.spacing.lg,
+  },
+  cardLabel: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.light,
+    textTransform: 'uppercase',
+  },
+  joinCode: {
+    fontSize: theme.fontSize.xxxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.primary,
+    letterSpacing: 4,
+    marginVertical: theme.spacing.sm,
+  },
+  cardHint: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+  },
+  cardActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: theme.spacing.md,
+  },
+  cardAction: {
+    marginLeft: theme.spacing.sm,
+  },
+  section: {
+    marginTop: theme.spacing.lg,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingRight: theme.spacing.lg,
+  },
+  sectionAction: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    paddingHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    paddingHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  pathRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  pathInfo: {
+    flex: 1,
+    marginHorizontal: theme.spacing.md,
+  },
+  pathTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  pathMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  progressBar: {
+    height: 6,
+    backgroundColor: theme.colors.gray[200],
+    borderRadius: theme.borderRadius.sm,
+    overflow: 'hidden',
+    marginTop: theme.spacing.xs,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: theme.borderRadius.sm,
+  },
+  statusBadge: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+  },
+  statusText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  rowAction: {
+    padding: theme.spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.md,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  chipText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.primary,
+    marginLeft: theme.spacing.xs,
+  },
+  studentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  studentInfo: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  studentName: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  studentMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  studentPercent: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginRight: theme.spacing.sm,
+  },
+  rosterHint: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.light,
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.sm,
+  },
+  footer: {
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xl,
+  },
+});
@@ -0,0 +1,334 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { useAuth, useCan } from '../../contexts/AuthContext';
+import {
+  ClassroomService,
+  Classroom,
+  TaughtClassroom,
+  personName,
+} from '../../services/classrooms';
+import { Card, Button, Input, Loading, ErrorMessage, EmptyState } from '../../components/UI';
+import { theme } from '../../config/theme';
+import { ClassroomsStackParamList } from '../../types';
+
+type ClassroomsScreenNavigationProp = StackNavigationProp<ClassroomsStackParamList, 'ClassroomList'>;
+
+interface Props {
+  navigation: ClassroomsScreenNavigationProp;
+}
+
+// Classrooms the user teaches and those they've joined
+export default function ClassroomsScreen({ navigation }: Props) {
+  const { user } = useAuth();
+  const can = useCan();
+  const canTeach = can('manage_classrooms');
+  const canJoin = can('join_classrooms');
+  const [taught, setTaught] = useState<TaughtClassroom[]>([]);
+  const [joined, setJoined] = useState<Classroom[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const loadClassrooms = async () => {
+    if (!user) return;
+
+    try {
+      setError(null);
+      const [taughtResult, joinedResult] = await Promise.all([
+        canTeach ? ClassroomService.getTaughtClassrooms(user.id) : null,
+        canJoin ? ClassroomService.getJoinedClassrooms(user.id) : null,
+      ]);
+
+      if (taughtResult && !taughtResult.success) {
+        setError(taughtResult.error || 'Failed to load classrooms');
+        return;
+      }
+      if (joinedResult && !joinedResult.success) {
+        setError(joinedResult.error || 'Failed to load classrooms');
+        return;
+      }
+
+      setTaught(taughtResult?.data || []);
+      setJoined(joinedResult?.data || []);
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading classrooms:', err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  // Reload on focus to pick up classrooms joined or left elsewhere
+  useFocusEffect(
+    useCallback(() => {
+      loadClassrooms();
+    }, [user])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadClassrooms();
+  };
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    setCreating(true);
+    try {
+      const result = await ClassroomService.createClassroom(user.id, name);
+      if (result.success) {
+        setName('');
+        setShowCreate(false);
+        navigation.navigate('ClassroomDetail', { classroomId: result.data!.id });
+      } else {
+        Alert.alert('Could Not Create', result.error || 'Failed to create classroom');
+      }
+    } catch (err) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const renderClassroom = (classroom: Classroom, meta: string) => (
+    <TouchableOpacity
+      key={classroom.id}
+      style={styles.classroomRow}
+      onPress={() => navigation.navigate('ClassroomDetail', { classroomId: classroom.id })}
+    >
+      <View style={styles.classroomIcon}>
+        <Ionicons name="people" size={20} color={theme.colors.primary} />
+      </View>
+      <View style={styles.classroomInfo}>
+        <Text style={styles.classroomName} numberOfLines={1}>{classroom.name}</Text>
+        <Text style={styles.classroomMeta} numberOfLines={1}>{meta}</Text>
+      </View>
+      <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return <Loading text="Loading classrooms..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={loadClassrooms} />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>Classrooms</Text>
+          {canJoin && (
+            <TouchableOpacity
+              onPress={() => navigation.navigate('JoinClassroom', {})}
+              style={styles.headerButton}
+              accessibilityLabel="Join a classroom"
+            >
+              <Ionicons name="enter-outline" size={24} color={theme.colors.primary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {canTeach && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Teaching</Text>
+              {!showCreate && (
+                <TouchableOpacity onPress={() => setShowCreate(true)}>
+                  <Text style={styles.sectionAction}>New classroom</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {showCreate && (
+              <Card style={styles.createCard}>
+                <Input
+                  label="Classroom name"
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="e.g. Form 3 Computer Studies"
+                  autoCapitalize="sentences"
+                />
+                <View style={styles.createActions}>
+                  <Button
+                    title="Cancel"
+                    onPress={() => {
+                      setShowCreate(false);
+                      setName('');
+                    }}
+                    variant="outline"
+                    size="small"
+                    style={styles.createButton}
+                  />
+                  <Button
+                    title="Create"
+                    onPress={handleCreate}
+                    size="small"
+                    loading={creating}
+                    disabled={creating || !name.trim()}
+                    style={styles.createButton}
+                  />
+                </View>
+              </Card>
+            )}
+
+            {taught.length > 0 ? (
+              taught.map(classroom => {
+                const count = classroom.classroom_members?.[0]?.count ?? 0;
+                return renderClassroom(classroom, `${count} ${count === 1 ? 'learner' : 'learners'}`);
+              })
+            ) : (
+              !showCreate && (
+                <Text style={styles.emptyText}>
+                  Create a classroom, then share its join code with your learners.
+                </Text>
+              )
+            )}
+          </View>
+        )}
+
+        {canJoin && (
+          <View style={styles.section}>
+            {canTeach && <Text style={styles.sectionTitle}>Joined</Text>}
+            {joined.length > 0 ? (
+              joined.map(classroom =>
+                renderClassroom(classroom, `Taught by ${personName(classroom.profiles, 'your teacher')}`)
+              )
+            ) : (
+              <EmptyState
+                title="No Classrooms Yet"
+                message="Ask your teacher for a join code, or open the link they shared."
+                actionText="Join a Classroom"
+                onAction={() => navigation.navigate('JoinClassroom', {})}
+              />
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingBottom: theme.spacing.xl,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.lg,
+    paddingBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  headerButton: {
+    padding: theme.spacing.sm,
+  },
+  section: {
+    marginBottom: theme.spacing.lg,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingRight: theme.spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    paddingHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  sectionAction: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  createCard: {
+    marginHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.md,
+  },
+  createActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+  },
+  createButton: {
+    marginLeft: theme.spacing.sm,
+  },
+  classroomRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  classroomIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.primary + '15',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: theme.spacing.md,
+  },
+  classroomInfo: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  classroomName: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  classroomMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    paddingHorizontal: theme.spacing.lg,
+  },
+});
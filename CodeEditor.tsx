@@ -0,0 +1,76 @@
+import React from 'react';
+import { View, Text, TextInput, ScrollView, StyleSheet } from 'react-native';
+import { theme } from '../config/theme';
+import { monospaceFont } from './CodeSnippet';
+
+interface CodeEditorProps {
+  value: string;
+  onChangeText: (text: string) => void;
+  minLines?: number;
+  editable?: boolean;
+}
+
+const LINE_HEIGHT = 20;
+
+// Plain-text code editor with a line number gutter
+export function CodeEditor({ value, onChangeText, minLines = 8, editable = true }: CodeEditorProps) {
+  const lineCount = Math.max(value.split('\n').length, minLines);
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.scrollContent}>
+        <View style={styles.gutter}>
+          {Array.from({ length: lineCount }, (_, index) => (
+            <Text key={index} style={styles.lineNumber}>{index + 1}</Text>
+          ))}
+        </View>
+        <TextInput
+          value={value}
+          onChangeText={onChangeText}
+          editable={editable}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          spellCheck={false}
+          textAlignVertical="top"
+          scrollEnabled={false}
+          style={[styles.input, { minHeight: lineCount * LINE_HEIGHT }]}
+        />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.code.background,
+    borderRadius: theme.borderRadius.lg,
+    paddingVertical: theme.spacing.sm,
+  },
+  scrollContent: {
+    flexGrow: 1,
+  },
+  gutter: {
+    paddingHorizontal: theme.spacing.sm,
+    borderRightWidth: 1,
+    borderRightColor: theme.colors.gray[700],
+  },
+  lineNumber: {
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    lineHeight: LINE_HEIGHT,
+    color: theme.colors.code.lineNumber,
+    textAlign: 'right',
+    minWidth: 20,
+  },
+  input: {
+    flex: 1,
+    minWidth: 280,
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    lineHeight: LINE_HEIGHT,
+    color: theme.colors.code.text,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 0,
+  },
+});
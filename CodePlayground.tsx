@@ -0,0 +1,166 @@
+import React, { useState, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { ConsoleLevel, RunResult, DEFAULT_RUN_TIMEOUT_MS } from '../utils/sandbox';
+import { Button } from './UI';
+import { CodeEditor } from './CodeEditor';
+import { SandboxRunner, SandboxRunnerHandle } from './SandboxRunner';
+import { monospaceFont } from './CodeSnippet';
+
+interface CodePlaygroundProps {
+  initialCode?: string;
+  timeoutMs?: number;
+  onRun?: (code: string, result: RunResult) => void;
+  // Extra actions rendered next to the Run button (e.g. Submit for exercises).
+  // `run` uses the playground's sandbox to run any script.
+  actions?: (code: string, run: SandboxRunnerHandle['run']) => React.ReactNode;
+}
+
+const logColors: { [level in ConsoleLevel]: string } = {
+  log: theme.colors.code.text,
+  info: theme.colors.code.function,
+  warn: theme.colors.code.number,
+  error: theme.colors.error,
+};
+
+// Editable JavaScript with a sandboxed Run button and console output
+export function CodePlayground({
+  initialCode = '',
+  timeoutMs = DEFAULT_RUN_TIMEOUT_MS,
+  onRun,
+  actions,
+}: CodePlaygroundProps) {
+  const runner = useRef<SandboxRunnerHandle>(null);
+  const [code, setCode] = useState(initialCode);
+  const [result, setResult] = useState<RunResult | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const handleRun = async () => {
+    if (!runner.current) return;
+
+    setRunning(true);
+    try {
+      const runResult = await runner.current.run(code, timeoutMs);
+      setResult(runResult);
+      onRun?.(code, runResult);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const runInSandbox: SandboxRunnerHandle['run'] = (source, runTimeoutMs = timeoutMs, harness) =>
+    runner.current
+      ? runner.current.run(source, runTimeoutMs, harness)
+      : Promise.resolve({ logs: [], error: 'The code runner is not ready', timedOut: false, durationMs: 0 });
+
+  const handleReset = () => {
+    setCode(initialCode);
+    setResult(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <SandboxRunner ref={runner} />
+
+      <View style={styles.toolbar}>
+        <Text style={styles.toolbarTitle}>JavaScript</Text>
+        <TouchableOpacity onPress={handleReset} style={styles.resetButton}>
+          <Ionicons name="refresh" size={16} color={theme.colors.text.secondary} />
+          <Text style={styles.resetText}>Reset</Text>
+        </TouchableOpacity>
+      </View>
+
+      <CodeEditor value={code} onChangeText={setCode} />
+
+      <View style={styles.actions}>
+        <Button
+          title="Run"
+          onPress={handleRun}
+          loading={running}
+          size="small"
+          style={styles.runButton}
+        />
+        {actions?.(code, runInSandbox)}
+      </View>
+
+      {result && (
+        <View style={styles.console}>
+          <Text style={styles.consoleTitle}>
+            Console · {result.durationMs}ms
+          </Text>
+          {result.logs.length === 0 && !result.error && (
+            <Text style={styles.consoleEmpty}>No output</Text>
+          )}
+          {result.logs.map((entry, index) => (
+            <Text key={index} style={[styles.consoleLine, { color: logColors[entry.level] }]}>
+              {entry.message}
+            </Text>
+          ))}
+          {result.error && (
+            <Text style={[styles.consoleLine, { color: theme.colors.error }]}>
+              {result.error}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: theme.spacing.md,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.sm,
+  },
+  toolbarTitle: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.secondary,
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  resetText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginLeft: theme.spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.sm,
+  },
+  runButton: {
+    minWidth: 96,
+    marginRight: theme.spacing.sm,
+  },
+  console: {
+    backgroundColor: theme.colors.gray[900],
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    marginTop: theme.spacing.sm,
+  },
+  consoleTitle: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.code.lineNumber,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.sm,
+  },
+  consoleEmpty: {
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.code.lineNumber,
+    fontStyle: 'italic',
+  },
+  consoleLine: {
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { View, Text, ScrollView, StyleSheet, Platform } from 'react-native';
+import { theme } from '../config/theme';
+import { highlightCode, TokenType } from '../utils/syntaxHighlight';
+
+export const monospaceFont = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+const tokenColors: { [type in TokenType]: string } = {
+  keyword: theme.colors.code.keyword,
+  string: theme.colors.code.string,
+  comment: theme.colors.code.comment,
+  number: theme.colors.code.number,
+  function: theme.colors.code.function,
+  tag: theme.colors.code.tag,
+  plain: theme.colors.code.text,
+};
+
+interface CodeSnippetProps {
+  code: string;
+  language?: string;
+  caption?: string;
+  showLineNumbers?: boolean;
+}
+
+// Read-only, syntax-highlighted code with line numbers
+export function CodeSnippet({ code, language, caption, showLineNumbers = true }: CodeSnippetProps) {
+  const lines = useMemo(() => highlightCode(code, language), [code, language]);
+
+  return (
+    <View style={styles.container}>
+      {language && <Text style={styles.language}>{language}</Text>}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={styles.code}>
+          {lines.map((tokens, index) => (
+            <View key={index} style={styles.line}>
+              {showLineNumbers && (
+                <Text style={styles.lineNumber}>{index + 1}</Text>
+              )}
+              <Text style={styles.lineText}>
+                {tokens.map((token, tokenIndex) => (
+                  <Text key={tokenIndex} style={{ color: tokenColors[token.type] }}>
+                    {token.text}
+                  </Text>
+                ))}
+              </Text>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+      {caption && <Text style={styles.caption}>{caption}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.code.background,
+    borderRadius: theme.borderRadius.lg,
+    paddingVertical: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  language: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.code.lineNumber,
+    textTransform: 'uppercase',
+    marginHorizontal: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  code: {
+    paddingHorizontal: theme.spacing.md,
+  },
+  line: {
+    flexDirection: 'row',
+  },
+  lineNumber: {
+    width: 28,
+    marginRight: theme.spacing.sm,
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    lineHeight: 20,
+    color: theme.colors.code.lineNumber,
+    textAlign: 'right',
+  },
+  lineText: {
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    lineHeight: 20,
+    color: theme.colors.code.text,
+  },
+  caption: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.code.comment,
+    marginTop: theme.spacing.sm,
+    marginHorizontal: theme.spacing.md,
+  },
+});
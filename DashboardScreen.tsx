@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -11,13 +11,23 @@ import { StatusBar } from 'expo-status-bar';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { CompositeNavigationProp } from '@react-navigation/native';
+import { CompositeNavigationProp, useFocusEffect } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { StackNavigationProp } from '@react-navigation/stack';
 
-import { useAuth } from '../../contexts/AuthContext';
+import { useAuth, useCan } from '../../contexts/AuthContext';
 import { LessonsService } from '../../services/lessons';
+import { StreakService, StreakInfo, ActivityDay } from '../../services/streaks';
+import { BadgesService, BadgeStatus } from '../../services/badges';
+import { LevelingService } from '../../services/leveling';
+import { RecommendationsService, DashboardLearning } from '../../services/recommendations';
+import { AssignmentService, StudentAssignment, assignmentTitle } from '../../services/assignments';
 import { Card, Loading, ErrorMessage } from '../../components/UI';
+import { ActivityHeatmap } from '../../components/ActivityHeatmap';
+import { BadgeRow } from '../../components/BadgeItem';
+import { PendingSyncIndicator } from '../../components/PendingSyncIndicator';
+import { describeRecommendation } from '../../utils/lessonRecommendations';
+import { splitOpenAssignments, formatDueLabel } from '../../utils/assignmentStatus';
 import { theme } from '../../config/theme';
 import { MainTabParamList, RootStackParamList, UserStats } from '../../types';
 
@@ -30,9 +40,18 @@ interface Props {
   navigation: DashboardScreenNavigationProp;
 }
 
+// Overdue assignments are all listed; upcoming ones up to this many
+const UPCOMING_ASSIGNMENTS_LIMIT = 3;
+
 export default function DashboardScreen({ navigation }: Props) {
   const { user } = useAuth();
+  const can = useCan();
   const [userStats, setUserStats] = useState<UserStats | null>(null);
+  const [streak, setStreak] = useState<StreakInfo | null>(null);
+  const [activity, setActivity] = useState<ActivityDay[]>([]);
+  const [recentBadges, setRecentBadges] = useState<BadgeStatus[]>([]);
+  const [learning, setLearning] = useState<DashboardLearning | null>(null);
+  const [assignments, setAssignments] = useState<StudentAssignment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [refreshing, setRefreshing] = useState(false);
@@ -49,6 +68,21 @@ export default function DashboardScreen({ navigation }: Props) {
       } else {
         setError(result.error || 'Failed to load user statistics');
       }
+
+      const [streakResult, activityResult, badgesResult] = await Promise.all([
+        StreakService.getStreak(user.id),
+        StreakService.getActivityHistory(user.id),
+        BadgesService.getEarnedBadges(user.id),
+      ]);
+      if (streakResult.success) {
+        setStreak(streakResult.data!);
+      }
+      if (activityResult.success) {
+        setActivity(activityResult.data || []);
+      }
+      if (badgesResult.success) {
+        setRecentBadges((badgesResult.data || []).slice(0, 3));
+      }
     } catch (err) {
       setError('An unexpected error occurred');
     } finally {
@@ -60,9 +94,40 @@ export default function DashboardScreen({ navigation }: Props) {
     loadUserStats();
   }, [user]);
 
+  // What to learn next changes as lessons are worked on elsewhere in the app
+  const loadLearning = async () => {
+    if (!user) return;
+
+    const result = await RecommendationsService.getDashboardLearning(user.id);
+    if (result.success) {
+      setLearning(result.data!);
+    } else {
+      console.error('Error loading recommendations:', result.error);
+    }
+  };
+
+  // Completing a lesson elsewhere in the app submits its assignments
+  const loadAssignments = async () => {
+    if (!user || !can('join_classrooms')) return;
+
+    const result = await AssignmentService.getStudentAssignments(user.id);
+    if (result.success) {
+      setAssignments(result.data || []);
+    } else {
+      console.error('Error loading assignments:', result.error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadLearning();
+      loadAssignments();
+    }, [user])
+  );
+
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadUserStats();
+    await Promise.all([loadUserStats(), loadLearning(), loadAssignments()]);
     setRefreshing(false);
   };
 
@@ -80,10 +145,20 @@ export default function DashboardScreen({ navigation }: Props) {
     return user?.email?.split('@')[0] || 'Student';
   };
 
+  const openLesson = (lessonId: string) =>
+    navigation.navigate('Lessons', { screen: 'LessonDetail', params: { lessonId } });
+
   if (loading) {
     return <Loading text="Loading dashboard..." />;
   }
 
+  const levelInfo = userStats ? LevelingService.getLevelInfo(userStats.totalXP) : null;
+  const openAssignments = splitOpenAssignments(assignments, assignment => !!assignment.submission);
+  const dueAssignments = [
+    ...openAssignments.overdue,
+    ...openAssignments.upcoming.slice(0, UPCOMING_ASSIGNMENTS_LIMIT),
+  ];
+
   return (
     <SafeAreaView style={styles.container}>
       <StatusBar style="dark" />
@@ -104,6 +179,12 @@ export default function DashboardScreen({ navigation }: Props) {
               🔥 {userStats.streakDays} day streak
             </Text>
           )}
+          {streak && (
+            <Text style={styles.streakDetail}>
+              Longest: {streak.longestStreak} days · ❄️ {streak.freezesAvailable} freeze{streak.freezesAvailable === 1 ? '' : 's'}
+            </Text>
+          )}
+          <PendingSyncIndicator style={styles.syncIndicator} />
         </View>
 
         {/* Progress Overview */}
@@ -127,9 +208,116 @@ export default function DashboardScreen({ navigation }: Props) {
                 <Text style={styles.progressLabel}>Badges</Text>
               </View>
             </View>
+            {levelInfo && (
+              <View style={styles.levelProgress}>
+                <View style={styles.levelBar}>
+                  <View style={[styles.levelFill, { width: `${Math.round(levelInfo.progress * 100)}%` }]} />
+                </View>
+                <Text style={styles.levelText}>
+                  {levelInfo.xpIntoLevel} / {levelInfo.xpForNextLevel} XP to level {levelInfo.level + 1}
+                </Text>
+              </View>
+            )}
           </Card>
         )}
 
+        {/* Assignments */}
+        {dueAssignments.length > 0 && (
+          <View style={styles.learningSection}>
+            <Text style={styles.sectionTitle}>Assignments</Text>
+            <Card style={styles.recommendationsCard}>
+              {dueAssignments.map((assignment, index) => {
+                const overdue = openAssignments.overdue.includes(assignment);
+
+                return (
+                  <TouchableOpacity
+                    key={assignment.id}
+                    style={index > 0 ? { ...styles.recommendationRow, ...styles.recommendationDivider } : styles.recommendationRow}
+                    onPress={() => openLesson(assignment.lesson_id)}
+                  >
+                    <View style={styles.recommendationInfo}>
+                      <Text style={styles.recommendationTitle} numberOfLines={1}>
+                        {assignmentTitle(assignment)}
+                      </Text>
+                      <Text style={styles.recommendationReason} numberOfLines={1}>
+                        <Text style={overdue ? styles.assignmentOverdue : undefined}>
+                          {formatDueLabel(assignment.due_at)}
+                        </Text>
+                        {assignment.classrooms ? ` · ${assignment.classrooms.name}` : ''}
+                      </Text>
+                    </View>
+                    <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+                  </TouchableOpacity>
+                );
+              })}
+            </Card>
+          </View>
+        )}
+
+        {/* Continue Learning */}
+        {learning?.continueLearning && (
+          <View style={styles.learningSection}>
+            <Text style={styles.sectionTitle}>Continue Learning</Text>
+            <TouchableOpacity onPress={() => openLesson(learning.continueLearning!.lesson.id)}>
+              <Card>
+                <Text style={styles.continueCategory}>{learning.continueLearning.lesson.category}</Text>
+                <Text style={styles.continueTitle}>{learning.continueLearning.lesson.title}</Text>
+                <View style={styles.continueProgress}>
+                  <View style={styles.continueBar}>
+                    <View
+                      style={[
+                        styles.continueFill,
+                        { width: `${Math.round(learning.continueLearning.progress.progress)}%` },
+                      ]}
+                    />
+                  </View>
+                  <Text style={styles.continuePercent}>
+                    {Math.round(learning.continueLearning.progress.progress)}%
+                  </Text>
+                </View>
+                <View style={styles.continueAction}>
+                  <Text style={styles.continueActionText}>Continue</Text>
+                  <Ionicons name="arrow-forward" size={18} color={theme.colors.primary} />
+                </View>
+              </Card>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Recommended Next */}
+        {learning && learning.recommendations.length > 0 && (
+          <View style={styles.learningSection}>
+            <Text style={styles.sectionTitle}>Recommended Next</Text>
+            <Card style={styles.recommendationsCard}>
+              {learning.recommendations.map((recommendation, index) => (
+                <TouchableOpacity
+                  key={recommendation.lesson.id}
+                  style={index > 0 ? { ...styles.recommendationRow, ...styles.recommendationDivider } : styles.recommendationRow}
+                  onPress={() => openLesson(recommendation.lesson.id)}
+                >
+                  <View style={styles.recommendationInfo}>
+                    <Text style={styles.recommendationTitle} numberOfLines={1}>
+                      {recommendation.lesson.title}
+                    </Text>
+                    <Text style={styles.recommendationReason} numberOfLines={1}>
+                      {describeRecommendation(recommendation)} · {recommendation.lesson.difficulty} · +{recommendation.lesson.xp_reward} XP
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+                </TouchableOpacity>
+              ))}
+            </Card>
+          </View>
+        )}
+
+        {/* Learning Activity */}
+        <View style={styles.activitySection}>
+          <Text style={styles.sectionTitle}>Learning Activity</Text>
+          <Card>
+            <ActivityHeatmap days={activity} />
+          </Card>
+        </View>
+
         {/* Main Action Cards */}
         <View style={styles.actionCards}>
           <TouchableOpacity
@@ -172,20 +360,12 @@ export default function DashboardScreen({ navigation }: Props) {
         {/* Recent Achievements */}
         <View style={styles.achievementsSection}>
           <Text style={styles.sectionTitle}>Recent Achievements</Text>
-          {userStats && userStats.completedLessons > 0 ? (
-            <Card style={styles.achievementCard}>
-              <View style={styles.achievement}>
-                <View style={styles.achievementIcon}>
-                  <Ionicons name="trophy" size={24} color={theme.colors.warning} />
-                </View>
-                <View style={styles.achievementContent}>
-                  <Text style={styles.achievementTitle}>Lesson Master</Text>
-                  <Text style={styles.achievementDescription}>
-                    Completed {userStats.completedLessons} coding lessons
-                  </Text>
-                </View>
-              </View>
-            </Card>
+          {recentBadges.length > 0 ? (
+            recentBadges.map(status => (
+              <Card key={status.badge.id} style={styles.achievementCard}>
+                <BadgeRow status={status} />
+              </Card>
+            ))
           ) : (
             <Card style={styles.achievementCard}>
               <View style={styles.emptyAchievements}>
@@ -218,6 +398,9 @@ const styles = StyleSheet.create({
   scrollContent: {
     padding: theme.spacing.lg,
   },
+  syncIndicator: {
+    marginTop: theme.spacing.sm,
+  },
   header: {
     marginBottom: theme.spacing.xl,
   },
@@ -235,9 +418,97 @@ const styles = StyleSheet.create({
     fontSize: theme.fontSize.md,
     color: theme.colors.text.secondary,
   },
+  streakDetail: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.light,
+    marginTop: theme.spacing.xs,
+  },
   progressCard: {
     marginBottom: theme.spacing.xl,
   },
+  learningSection: {
+    marginBottom: theme.spacing.xl,
+  },
+  continueCategory: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.secondary,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.xs,
+  },
+  continueTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.md,
+  },
+  continueProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  continueBar: {
+    flex: 1,
+    height: 8,
+    backgroundColor: theme.colors.gray[200],
+    borderRadius: theme.borderRadius.md,
+    marginRight: theme.spacing.md,
+    overflow: 'hidden',
+  },
+  continueFill: {
+    height: '100%',
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+  },
+  continuePercent: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  continueAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    marginTop: theme.spacing.md,
+  },
+  continueActionText: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.primary,
+    marginRight: theme.spacing.xs,
+  },
+  recommendationsCard: {
+    paddingVertical: theme.spacing.sm,
+  },
+  recommendationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+  },
+  recommendationDivider: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.gray[100],
+  },
+  recommendationInfo: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  recommendationTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginBottom: 2,
+  },
+  recommendationReason: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  assignmentOverdue: {
+    color: theme.colors.error,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  activitySection: {
+    marginBottom: theme.spacing.xl,
+  },
   progressContent: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -256,6 +527,26 @@ const styles = StyleSheet.create({
     color: theme.colors.text.white,
     opacity: 0.8,
   },
+  levelProgress: {
+    marginTop: theme.spacing.lg,
+  },
+  levelBar: {
+    height: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    borderRadius: theme.borderRadius.sm,
+    overflow: 'hidden',
+    marginBottom: theme.spacing.xs,
+  },
+  levelFill: {
+    height: '100%',
+    backgroundColor: theme.colors.text.white,
+  },
+  levelText: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.white,
+    opacity: 0.8,
+    textAlign: 'center',
+  },
   actionCards: {
     marginBottom: theme.spacing.xl,
   },
@@ -298,26 +589,6 @@ const styles = StyleSheet.create({
   achievementCard: {
     marginBottom: theme.spacing.md,
   },
-  achievement: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  achievementIcon: {
-    marginRight: theme.spacing.md,
-  },
-  achievementContent: {
-    flex: 1,
-  },
-  achievementTitle: {
-    fontSize: theme.fontSize.md,
-    fontWeight: theme.fontWeight.semibold,
-    color: theme.colors.text.primary,
-    marginBottom: theme.spacing.xs,
-  },
-  achievementDescription: {
-    fontSize: theme.fontSize.sm,
-    color: theme.colors.text.secondary,
-  },
   emptyAchievements: {
     alignItems: 'center',
     paddingVertical: theme.spacing.xl,
@@ -14,12 +14,15 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { Picker } from '@react-native-picker/picker';
 
+import { useAuth } from '../../contexts/AuthContext';
 import { DomainsService } from '../../services/domains';
+import { BadgesService } from '../../services/badges';
 import { Card, Button, Loading, ErrorMessage } from '../../components/UI';
 import { theme } from '../../config/theme';
 import { DomainExtension, DomainSearchResult, KenicRegistrar } from '../../types';
 
 export default function DomainsScreen() {
+  const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedExtension, setSelectedExtension] = useState<DomainExtension>('.me.ke');
   const [searchResult, setSearchResult] = useState<DomainSearchResult | null>(null);
@@ -46,6 +49,9 @@ export default function DomainsScreen() {
       
       if (result.success) {
         setSearchResult(result.data!);
+        if (user) {
+          BadgesService.recordDomainSearch(user.id);
+        }
         if (result.data!.available) {
           // Show all registrars when domain is available
           const { registrars: allRegistrars } = DomainsService.getRegistrarsPaginated(1, 20);
@@ -0,0 +1,262 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { LessonCacheService, CachedLessonInfo, StorageUsage } from '../../services/lessonCache';
+import { Card, Button, Loading, EmptyState } from '../../components/UI';
+import { theme } from '../../config/theme';
+import { LessonsStackParamList } from '../../types';
+
+type DownloadsScreenNavigationProp = StackNavigationProp<LessonsStackParamList, 'Downloads'>;
+
+interface Props {
+  navigation: DownloadsScreenNavigationProp;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Lessons downloaded for offline use and the storage they take up
+export default function DownloadsScreen({ navigation }: Props) {
+  const [downloads, setDownloads] = useState<CachedLessonInfo[]>([]);
+  const [usage, setUsage] = useState<StorageUsage>({ lessonCount: 0, bytes: 0 });
+  const [loading, setLoading] = useState(true);
+
+  const loadDownloads = async () => {
+    try {
+      const [downloadList, storageUsage] = await Promise.all([
+        LessonCacheService.getDownloads(),
+        LessonCacheService.getStorageUsage(),
+      ]);
+      setDownloads(downloadList);
+      setUsage(storageUsage);
+    } catch (err) {
+      console.error('Error loading downloads:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadDownloads();
+    }, [])
+  );
+
+  const handleRemove = (download: CachedLessonInfo) => {
+    Alert.alert(
+      'Remove Download',
+      `Remove "${download.title}" from this device? You'll need a connection to open it again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await LessonCacheService.removeLesson(download.lesson_id);
+            loadDownloads();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRemoveAll = () => {
+    Alert.alert(
+      'Remove All Downloads',
+      `Free up ${formatBytes(usage.bytes)} by removing every downloaded lesson?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove All',
+          style: 'destructive',
+          onPress: async () => {
+            await LessonCacheService.clearAll();
+            loadDownloads();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderDownload = ({ item: download }: { item: CachedLessonInfo }) => (
+    <TouchableOpacity
+      style={styles.downloadRow}
+      onPress={() => navigation.navigate('LessonDetail', { lessonId: download.lesson_id })}
+    >
+      <Ionicons name="document-text-outline" size={22} color={theme.colors.primary} />
+      <View style={styles.downloadInfo}>
+        <Text style={styles.downloadTitle} numberOfLines={1}>{download.title}</Text>
+        <Text style={styles.downloadMeta}>
+          {formatBytes(download.size)} · Downloaded {new Date(download.downloaded_at).toLocaleDateString()}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => handleRemove(download)} style={styles.removeButton}>
+        <Ionicons name="trash-outline" size={20} color={theme.colors.error} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return <Loading text="Loading downloads..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Downloads</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <FlatList
+        data={downloads}
+        renderItem={renderDownload}
+        keyExtractor={(item) => item.lesson_id}
+        ListHeaderComponent={
+          <Card style={styles.usageCard}>
+            <View style={styles.usageRow}>
+              <Ionicons name="phone-portrait-outline" size={28} color={theme.colors.primary} />
+              <View style={styles.usageInfo}>
+                <Text style={styles.usageValue}>{formatBytes(usage.bytes)}</Text>
+                <Text style={styles.usageLabel}>
+                  used by {usage.lessonCount} downloaded {usage.lessonCount === 1 ? 'lesson' : 'lessons'}
+                </Text>
+              </View>
+            </View>
+            <Text style={styles.usageHint}>
+              Downloaded lessons open without a connection and update automatically when they change.
+            </Text>
+          </Card>
+        }
+        ListEmptyComponent={
+          <EmptyState
+            title="No Downloads"
+            message="Download lessons or whole learning paths to keep learning without a connection."
+          />
+        }
+        ListFooterComponent={
+          downloads.length > 0 ? (
+            <Button
+              title="Remove All Downloads"
+              onPress={handleRemoveAll}
+              variant="danger"
+              style={styles.removeAllButton}
+            />
+          ) : null
+        }
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: theme.spacing.xl,
+  },
+  usageCard: {
+    margin: theme.spacing.lg,
+  },
+  usageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  usageInfo: {
+    marginLeft: theme.spacing.md,
+  },
+  usageValue: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  usageLabel: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  usageHint: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+    marginTop: theme.spacing.md,
+  },
+  downloadRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  downloadInfo: {
+    flex: 1,
+    marginLeft: theme.spacing.md,
+  },
+  downloadTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  downloadMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  removeButton: {
+    padding: theme.spacing.sm,
+  },
+  removeAllButton: {
+    margin: theme.spacing.lg,
+  },
+});
@@ -0,0 +1,228 @@
+import React, { useState, useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { ExerciseBlock } from '../utils/lessonContent';
+import { RunResult, DEFAULT_RUN_TIMEOUT_MS } from '../utils/sandbox';
+import {
+  ExerciseResult,
+  TestCaseResult,
+  buildHarness,
+  formatValue,
+  validateExercise,
+} from '../utils/exerciseGrading';
+import { Button } from './UI';
+import { CodePlayground } from './CodePlayground';
+import { SandboxRunnerHandle } from './SandboxRunner';
+import { RichText } from './LessonContentView';
+import { monospaceFont } from './CodeSnippet';
+
+interface ExerciseViewProps {
+  exercise: ExerciseBlock;
+  passed?: boolean; // passed on an earlier submission
+  onSubmit: (code: string, run: RunResult) => Promise<ExerciseResult | null>;
+}
+
+// Coding exercise: edit and run freely, then submit to be graded against the
+// examples and hidden tests
+export function ExerciseView({ exercise, passed = false, onSubmit }: ExerciseViewProps) {
+  const problems = useMemo(() => validateExercise(exercise), [exercise]);
+  const [result, setResult] = useState<ExerciseResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const formatCall = (args: unknown[]) =>
+    `${exercise.functionName}(${args.map(formatValue).join(', ')})`;
+
+  const handleSubmit = async (code: string, run: SandboxRunnerHandle['run']) => {
+    setSubmitting(true);
+    try {
+      const runResult = await run(code, exercise.timeoutMs ?? DEFAULT_RUN_TIMEOUT_MS, buildHarness(exercise));
+      setResult(await onSubmit(code, runResult));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderCase = (testCase: TestCaseResult) => {
+    const label = testCase.hidden
+      ? `Hidden test ${testCase.index + 1 - (exercise.examples?.length || 0)}`
+      : formatCall(testCase.args);
+
+    return (
+      <View key={testCase.index} style={styles.case}>
+        <View style={styles.caseHeader}>
+          <Ionicons
+            name={testCase.passed ? 'checkmark-circle' : 'close-circle'}
+            size={18}
+            color={testCase.passed ? theme.colors.success : theme.colors.error}
+          />
+          <Text style={[styles.caseLabel, !testCase.hidden && styles.code]} numberOfLines={2}>
+            {label}
+          </Text>
+        </View>
+        {testCase.description && <Text style={styles.caseDescription}>{testCase.description}</Text>}
+        {testCase.error && <Text style={styles.caseError}>{testCase.error}</Text>}
+        {testCase.diff && <Text style={styles.caseDiff}>{testCase.diff}</Text>}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{exercise.title}</Text>
+        {passed && !result && (
+          <View style={styles.passedBadge}>
+            <Ionicons name="checkmark-circle" size={16} color={theme.colors.success} />
+            <Text style={styles.passedText}>Passed</Text>
+          </View>
+        )}
+      </View>
+      <RichText text={exercise.prompt} style={styles.prompt} />
+
+      {problems.length === 0 && exercise.examples && exercise.examples.length > 0 && (
+        <View style={styles.examples}>
+          <Text style={styles.sectionLabel}>Examples</Text>
+          {exercise.examples.map((example, index) => (
+            <Text key={index} style={[styles.example, styles.code]}>
+              {formatCall(example.args)} → {formatValue(example.expected)}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {problems.length > 0 && (
+        <Text style={styles.invalidText}>This exercise can't be graded yet: {problems[0]}</Text>
+      )}
+
+      <CodePlayground
+        initialCode={exercise.starterCode}
+        timeoutMs={exercise.timeoutMs}
+        actions={problems.length > 0 ? undefined : (code, run) => (
+          <Button
+            title="Submit"
+            onPress={() => handleSubmit(code, run)}
+            loading={submitting}
+            variant="outline"
+            size="small"
+          />
+        )}
+      />
+
+      {result && (
+        <View>
+          <View style={[styles.resultBanner, { backgroundColor: (result.passed ? theme.colors.success : theme.colors.error) + '20' }]}>
+            <Text style={[styles.resultText, { color: result.passed ? theme.colors.success : theme.colors.error }]}>
+              {result.passed ? 'All tests passed' : 'Not quite'} · {result.passedCount} / {result.total} tests
+            </Text>
+          </View>
+          {result.error && <Text style={styles.caseError}>{result.error}</Text>}
+          {result.cases.map(renderCase)}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  passedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  passedText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.success,
+    marginLeft: theme.spacing.xs,
+  },
+  prompt: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    lineHeight: 22,
+    marginVertical: theme.spacing.sm,
+  },
+  examples: {
+    marginBottom: theme.spacing.md,
+  },
+  sectionLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.xs,
+  },
+  example: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.xs,
+  },
+  code: {
+    fontFamily: monospaceFont,
+  },
+  invalidText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.error,
+    marginBottom: theme.spacing.sm,
+  },
+  resultBanner: {
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    marginBottom: theme.spacing.sm,
+  },
+  resultText: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    textAlign: 'center',
+  },
+  case: {
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  caseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  caseLabel: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  caseDescription: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginLeft: 26,
+    marginTop: theme.spacing.xs,
+  },
+  caseError: {
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.error,
+    marginLeft: 26,
+    marginTop: theme.spacing.xs,
+  },
+  caseDiff: {
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.primary,
+    marginLeft: 26,
+    marginTop: theme.spacing.xs,
+  },
+});
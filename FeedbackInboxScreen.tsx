@@ -0,0 +1,373 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  FeedbackService,
+  AuthorInbox,
+  LessonRating,
+  LessonReport,
+  PROBLEM_KINDS,
+} from '../../services/feedback';
+import { Card, Loading, ErrorMessage, EmptyState } from '../../components/UI';
+import { StarRating, RatingSummary } from '../../components/StarRating';
+import { theme } from '../../config/theme';
+import { LessonsStackParamList } from '../../types';
+
+type FeedbackInboxScreenNavigationProp = StackNavigationProp<LessonsStackParamList, 'FeedbackInbox'>;
+
+interface Props {
+  navigation: FeedbackInboxScreenNavigationProp;
+}
+
+type InboxTab = 'reports' | 'feedback';
+
+const problemLabel = (report: LessonReport) =>
+  PROBLEM_KINDS.find(option => option.value === report.kind)?.label || 'Problem';
+
+// What learners think of an author's lessons: problem reports to act on,
+// written feedback, and each lesson's average rating
+export default function FeedbackInboxScreen({ navigation }: Props) {
+  const { user } = useAuth();
+  const [inbox, setInbox] = useState<AuthorInbox | null>(null);
+  const [tab, setTab] = useState<InboxTab>('reports');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInbox = async () => {
+    if (!user) return;
+
+    try {
+      setError(null);
+      const result = await FeedbackService.getAuthorInbox(user.id);
+      if (result.success) {
+        setInbox(result.data!);
+      } else {
+        setError(result.error || 'Failed to load feedback');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading feedback inbox:', err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadInbox();
+    }, [user])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadInbox();
+  };
+
+  const handleToggleResolved = async (report: LessonReport) => {
+    const result = await FeedbackService.setReportResolved(report.id, !report.resolved_at);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update report');
+      return;
+    }
+
+    setInbox(current => current && {
+      ...current,
+      reports: current.reports.map(existing => existing.id === report.id ? result.data! : existing),
+    });
+  };
+
+  const openLesson = (lessonId: string) => navigation.navigate('LessonDetail', { lessonId });
+
+  const renderReport = ({ item: report }: { item: LessonReport }) => (
+    <View style={[styles.itemRow, !!report.resolved_at && styles.itemResolved]}>
+      <View style={styles.itemHeader}>
+        <View style={styles.kindBadge}>
+          <Text style={styles.kindText}>{problemLabel(report)}</Text>
+        </View>
+        <Text style={styles.itemDate}>{new Date(report.created_at).toLocaleDateString()}</Text>
+      </View>
+      <TouchableOpacity onPress={() => openLesson(report.lesson_id)}>
+        <Text style={styles.lessonLink} numberOfLines={1}>{report.lessons?.title || 'Lesson'}</Text>
+      </TouchableOpacity>
+      {!!report.details && <Text style={styles.itemText}>{report.details}</Text>}
+      <TouchableOpacity style={styles.resolveButton} onPress={() => handleToggleResolved(report)}>
+        <Ionicons
+          name={report.resolved_at ? 'refresh-outline' : 'checkmark-done-outline'}
+          size={16}
+          color={theme.colors.primary}
+        />
+        <Text style={styles.resolveText}>{report.resolved_at ? 'Reopen' : 'Mark resolved'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderFeedback = ({ item: rating }: { item: LessonRating }) => (
+    <View style={styles.itemRow}>
+      <View style={styles.itemHeader}>
+        <StarRating value={rating.rating} size={16} />
+        <Text style={styles.itemDate}>{new Date(rating.updated_at).toLocaleDateString()}</Text>
+      </View>
+      <TouchableOpacity onPress={() => openLesson(rating.lesson_id)}>
+        <Text style={styles.lessonLink} numberOfLines={1}>{rating.lessons?.title || 'Lesson'}</Text>
+      </TouchableOpacity>
+      <Text style={styles.itemText}>{rating.feedback}</Text>
+    </View>
+  );
+
+  if (loading) {
+    return <Loading text="Loading feedback..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={loadInbox} />;
+  }
+
+  const openReportCount = inbox?.reports.filter(report => !report.resolved_at).length ?? 0;
+
+  const header = (
+    <View>
+      {inbox && inbox.lessons.length > 0 && (
+        <Card style={styles.lessonsCard}>
+          <Text style={styles.cardTitle}>Your Lessons</Text>
+          {inbox.lessons.map(lesson => (
+            <TouchableOpacity key={lesson.id} style={styles.lessonRow} onPress={() => openLesson(lesson.id)}>
+              <Text style={styles.lessonTitle} numberOfLines={1}>{lesson.title}</Text>
+              {lesson.rating_count > 0 ? (
+                <RatingSummary average={lesson.rating_average} count={lesson.rating_count} />
+              ) : (
+                <Text style={styles.unrated}>No ratings yet</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </Card>
+      )}
+
+      <View style={styles.tabs}>
+        <TouchableOpacity
+          style={[styles.tab, tab === 'reports' && styles.tabActive]}
+          onPress={() => setTab('reports')}
+        >
+          <Text style={[styles.tabText, tab === 'reports' && styles.tabTextActive]}>
+            Reports{openReportCount > 0 ? ` (${openReportCount})` : ''}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, tab === 'feedback' && styles.tabActive]}
+          onPress={() => setTab('feedback')}
+        >
+          <Text style={[styles.tabText, tab === 'feedback' && styles.tabTextActive]}>Feedback</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const empty = !inbox || inbox.lessons.length === 0 ? (
+    <EmptyState
+      title="No Published Lessons"
+      message="Ratings, feedback and problem reports on lessons you author will show up here."
+    />
+  ) : tab === 'reports' ? (
+    <EmptyState title="No Reports" message="Nobody has reported a problem with your lessons." />
+  ) : (
+    <EmptyState title="No Feedback Yet" message="Written feedback from learners who rate your lessons will show up here." />
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Feedback Inbox</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {tab === 'reports' ? (
+        <FlatList
+          data={inbox?.reports || []}
+          renderItem={renderReport}
+          keyExtractor={(item) => item.id}
+          ListHeaderComponent={header}
+          ListEmptyComponent={empty}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        <FlatList
+          data={inbox?.feedback || []}
+          renderItem={renderFeedback}
+          keyExtractor={(item) => `${item.user_id}-${item.lesson_id}`}
+          ListHeaderComponent={header}
+          ListEmptyComponent={empty}
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: theme.spacing.xl,
+  },
+  lessonsCard: {
+    margin: theme.spacing.lg,
+    marginBottom: 0,
+  },
+  cardTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  lessonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.gray[100],
+  },
+  lessonTitle: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    marginRight: theme.spacing.md,
+  },
+  unrated: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.light,
+  },
+  tabs: {
+    flexDirection: 'row',
+    margin: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+    padding: theme.spacing.xs,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.gray[200],
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+  },
+  tabActive: {
+    backgroundColor: theme.colors.background,
+  },
+  tabText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.secondary,
+  },
+  tabTextActive: {
+    color: theme.colors.text.primary,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  itemRow: {
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  itemResolved: {
+    opacity: 0.6,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.xs,
+  },
+  kindBadge: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.error + '20',
+  },
+  kindText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.error,
+  },
+  itemDate: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.light,
+  },
+  lessonLink: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+    marginBottom: theme.spacing.xs,
+  },
+  itemText: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    lineHeight: 22,
+  },
+  resolveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    marginTop: theme.spacing.sm,
+  },
+  resolveText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+    marginLeft: theme.spacing.xs,
+  },
+});
@@ -0,0 +1,36 @@
+import React, { useMemo } from 'react';
+import { Text, StyleSheet, TextStyle } from 'react-native';
+import { theme } from '../config/theme';
+import { highlightMatches } from '../utils/lessonSearch';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[]; // search terms, see getSearchTerms
+  style?: TextStyle;
+  numberOfLines?: number;
+}
+
+// Text with the words that match a search marked
+export function HighlightedText({ text, terms, style, numberOfLines }: HighlightedTextProps) {
+  const segments = useMemo(() => highlightMatches(text, terms), [text, terms]);
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <Text key={index} style={styles.match}>{segment.text}</Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  match: {
+    backgroundColor: theme.colors.warning + '40',
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+});
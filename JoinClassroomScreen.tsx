@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+
+import { ClassroomService } from '../../services/classrooms';
+import { Card, Button, Input } from '../../components/UI';
+import { isValidJoinCode, formatJoinCode, normalizeJoinCode } from '../../utils/joinCodes';
+import { theme } from '../../config/theme';
+import { ClassroomsStackParamList } from '../../types';
+
+type JoinClassroomScreenNavigationProp = StackNavigationProp<ClassroomsStackParamList, 'JoinClassroom'>;
+type JoinClassroomScreenRouteProp = RouteProp<ClassroomsStackParamList, 'JoinClassroom'>;
+
+interface Props {
+  navigation: JoinClassroomScreenNavigationProp;
+  route: JoinClassroomScreenRouteProp;
+}
+
+// Join a classroom with a code, typed in or carried by a join link
+export default function JoinClassroomScreen({ navigation, route }: Props) {
+  const linkedCode = route.params?.code;
+  const [code, setCode] = useState(linkedCode ? formatJoinCode(normalizeJoinCode(linkedCode)) : '');
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A join link opened while this screen is already showing updates the params
+  useEffect(() => {
+    if (linkedCode) {
+      setCode(formatJoinCode(normalizeJoinCode(linkedCode)));
+      setError(null);
+    }
+  }, [linkedCode]);
+
+  const handleJoin = async () => {
+    setJoining(true);
+    setError(null);
+    try {
+      const result = await ClassroomService.joinClassroom(code);
+      if (result.success) {
+        navigation.replace('ClassroomDetail', { classroomId: result.data!.id });
+      } else {
+        setError(result.error || 'Failed to join classroom');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        {navigation.canGoBack() ? (
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.backButton}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerRight} />
+        )}
+        <Text style={styles.headerTitle}>Join a Classroom</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Card>
+          <View style={styles.iconCircle}>
+            <Ionicons name="people" size={28} color={theme.colors.primary} />
+          </View>
+          <Text style={styles.title}>
+            {linkedCode ? 'You were invited to a classroom' : 'Enter your join code'}
+          </Text>
+          <Text style={styles.subtitle}>
+            Your teacher's code is 6 letters and numbers, like K7M-Q2X. Your progress in the
+            classroom's paths will be shared with them.
+          </Text>
+
+          <Input
+            label="Join code"
+            value={code}
+            onChangeText={text => {
+              setCode(text);
+              setError(null);
+            }}
+            placeholder="K7M-Q2X"
+            autoCapitalize="characters"
+            error={error || undefined}
+          />
+
+          <Button
+            title="Join Classroom"
+            onPress={handleJoin}
+            loading={joining}
+            disabled={joining || !isValidJoinCode(code)}
+          />
+        </Card>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+  },
+  scrollContent: {
+    padding: theme.spacing.lg,
+  },
+  iconCircle: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: theme.colors.primary + '15',
+    justifyContent: 'center',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  subtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    lineHeight: 20,
+    marginBottom: theme.spacing.lg,
+  },
+});
@@ -0,0 +1,442 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Switch, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { Button } from './UI';
+import { monospaceFont } from './CodeSnippet';
+import { CalloutVariant, ContentBlock, LessonContent, LessonSection } from '../utils/lessonContent';
+import { EDITABLE_BLOCK_TYPES, emptyBlock, emptySection, moveItem } from '../utils/lessonDraft';
+
+const CALLOUT_VARIANTS: { value: CalloutVariant; label: string }[] = [
+  { value: 'note', label: 'Note' },
+  { value: 'tip', label: 'Tip' },
+  { value: 'warning', label: 'Warning' },
+];
+
+const blockLabel = (block: ContentBlock) => {
+  if (block.type === 'quiz') return 'Quiz';
+  if (block.type === 'exercise') return 'Exercise';
+  return EDITABLE_BLOCK_TYPES.find(option => option.value === block.type)?.label || block.type;
+};
+
+interface IconButtonProps {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+  color?: string;
+}
+
+function IconButton({ icon, label, onPress, disabled, color = theme.colors.text.secondary }: IconButtonProps) {
+  return (
+    <TouchableOpacity onPress={onPress} disabled={disabled} style={styles.iconButton} accessibilityLabel={label}>
+      <Ionicons name={icon} size={18} color={disabled ? theme.colors.gray[300] : color} />
+    </TouchableOpacity>
+  );
+}
+
+interface BlockFieldsProps {
+  block: ContentBlock;
+  onChange: (block: ContentBlock) => void;
+}
+
+// The inputs for one block, by type
+function BlockFields({ block, onChange }: BlockFieldsProps) {
+  switch (block.type) {
+    case 'heading':
+      return (
+        <TextInput
+          value={block.text}
+          onChangeText={text => onChange({ ...block, text })}
+          placeholder="Subheading"
+          placeholderTextColor={theme.colors.text.light}
+          style={[styles.input, styles.headingInput]}
+        />
+      );
+    case 'paragraph':
+      return (
+        <TextInput
+          value={block.text}
+          onChangeText={text => onChange({ ...block, text })}
+          placeholder="Text. Use **bold** and `code` for emphasis."
+          placeholderTextColor={theme.colors.text.light}
+          multiline
+          style={[styles.input, styles.multilineInput]}
+        />
+      );
+    case 'code':
+    case 'playground':
+      return (
+        <View>
+          <TextInput
+            value={block.language || ''}
+            onChangeText={language => onChange({ ...block, language: language.trim() || undefined })}
+            placeholder="Language, e.g. javascript"
+            placeholderTextColor={theme.colors.text.light}
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[styles.input, styles.fieldSpacing]}
+          />
+          <TextInput
+            value={block.code}
+            onChangeText={code => onChange({ ...block, code })}
+            placeholder={block.type === 'playground' ? 'Starting code learners can edit and run' : 'Code'}
+            placeholderTextColor={theme.colors.text.light}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            style={[styles.input, styles.multilineInput, styles.codeInput]}
+          />
+          {block.type === 'code' && (
+            <TextInput
+              value={block.caption || ''}
+              onChangeText={caption => onChange({ ...block, caption: caption || undefined })}
+              placeholder="Caption (optional)"
+              placeholderTextColor={theme.colors.text.light}
+              style={[styles.input, styles.fieldSpacingTop]}
+            />
+          )}
+        </View>
+      );
+    case 'callout':
+      return (
+        <View>
+          <View style={styles.chips}>
+            {CALLOUT_VARIANTS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, block.variant === option.value && styles.chipSelected]}
+                onPress={() => onChange({ ...block, variant: option.value })}
+              >
+                <Text style={[styles.chipText, block.variant === option.value && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TextInput
+            value={block.text}
+            onChangeText={text => onChange({ ...block, text })}
+            placeholder="Callout text"
+            placeholderTextColor={theme.colors.text.light}
+            multiline
+            style={[styles.input, styles.multilineInput]}
+          />
+        </View>
+      );
+    case 'image':
+      return (
+        <View>
+          <TextInput
+            value={block.uri}
+            onChangeText={uri => onChange({ ...block, uri: uri.trim() })}
+            placeholder="https://example.com/diagram.png"
+            placeholderTextColor={theme.colors.text.light}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+            style={[styles.input, styles.fieldSpacing]}
+          />
+          <TextInput
+            value={block.alt || ''}
+            onChangeText={alt => onChange({ ...block, alt: alt || undefined })}
+            placeholder="Description for screen readers"
+            placeholderTextColor={theme.colors.text.light}
+            style={[styles.input, styles.fieldSpacing]}
+          />
+          <TextInput
+            value={block.caption || ''}
+            onChangeText={caption => onChange({ ...block, caption: caption || undefined })}
+            placeholder="Caption (optional)"
+            placeholderTextColor={theme.colors.text.light}
+            style={styles.input}
+          />
+        </View>
+      );
+    case 'quiz':
+      return (
+        <Text style={styles.readOnlyText}>
+          {block.title || 'Quiz'} · {block.questions.length} {block.questions.length === 1 ? 'question' : 'questions'}
+        </Text>
+      );
+    case 'exercise':
+      return <Text style={styles.readOnlyText}>{block.title}</Text>;
+    default:
+      return null;
+  }
+}
+
+interface SectionEditorProps {
+  section: LessonSection;
+  index: number;
+  count: number;
+  onChange: (section: LessonSection) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+function SectionEditor({ section, index, count, onChange, onMove, onRemove }: SectionEditorProps) {
+  const updateBlocks = (blocks: ContentBlock[]) => onChange({ ...section, blocks });
+
+  const updateBlock = (blockIndex: number, block: ContentBlock) =>
+    updateBlocks(section.blocks.map((existing, i) => (i === blockIndex ? block : existing)));
+
+  const removeBlock = (blockIndex: number) => {
+    const block = section.blocks[blockIndex];
+    const remove = () => updateBlocks(section.blocks.filter((_, i) => i !== blockIndex));
+
+    // Quizzes and exercises can't be recreated in the editor
+    if (block.type === 'quiz' || block.type === 'exercise') {
+      Alert.alert(`Remove ${blockLabel(block)}`, 'It can\'t be added back from the editor.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: remove },
+      ]);
+    } else {
+      remove();
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionNumber}>Section {index + 1}</Text>
+        <View style={styles.actions}>
+          <IconButton icon="arrow-up" label="Move section up" onPress={() => onMove(-1)} disabled={index === 0} />
+          <IconButton icon="arrow-down" label="Move section down" onPress={() => onMove(1)} disabled={index === count - 1} />
+          <IconButton icon="trash-outline" label="Remove section" onPress={onRemove} color={theme.colors.error} />
+        </View>
+      </View>
+
+      <TextInput
+        value={section.title}
+        onChangeText={title => onChange({ ...section, title })}
+        placeholder="Section title"
+        placeholderTextColor={theme.colors.text.light}
+        style={[styles.input, styles.sectionTitleInput]}
+      />
+
+      <View style={styles.requiredRow}>
+        <Text style={styles.requiredLabel}>Required to complete the lesson</Text>
+        <Switch
+          value={section.required !== false}
+          onValueChange={required => onChange({ ...section, required })}
+          trackColor={{ true: theme.colors.primary, false: theme.colors.gray[300] }}
+        />
+      </View>
+
+      {section.blocks.map((block, blockIndex) => (
+        <View key={blockIndex} style={styles.block}>
+          <View style={styles.blockHeader}>
+            <Text style={styles.blockType}>{blockLabel(block)}</Text>
+            <View style={styles.actions}>
+              <IconButton
+                icon="arrow-up"
+                label="Move block up"
+                onPress={() => updateBlocks(moveItem(section.blocks, blockIndex, -1))}
+                disabled={blockIndex === 0}
+              />
+              <IconButton
+                icon="arrow-down"
+                label="Move block down"
+                onPress={() => updateBlocks(moveItem(section.blocks, blockIndex, 1))}
+                disabled={blockIndex === section.blocks.length - 1}
+              />
+              <IconButton
+                icon="close"
+                label="Remove block"
+                onPress={() => removeBlock(blockIndex)}
+                color={theme.colors.error}
+              />
+            </View>
+          </View>
+          <BlockFields block={block} onChange={updated => updateBlock(blockIndex, updated)} />
+        </View>
+      ))}
+
+      <Text style={styles.addLabel}>Add</Text>
+      <View style={styles.chips}>
+        {EDITABLE_BLOCK_TYPES.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={styles.chip}
+            onPress={() => updateBlocks([...section.blocks, emptyBlock(option.value)])}
+          >
+            <Text style={styles.chipText}>+ {option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+interface LessonContentEditorProps {
+  content: LessonContent;
+  onChange: (content: LessonContent) => void;
+}
+
+// Edits lesson content as sections (pages) of blocks
+export function LessonContentEditor({ content, onChange }: LessonContentEditorProps) {
+  const { sections } = content;
+  const updateSections = (updated: LessonSection[]) => onChange({ ...content, sections: updated });
+
+  const removeSection = (index: number) => {
+    const remove = () => updateSections(sections.filter((_, i) => i !== index));
+    if (sections[index].blocks.length === 0) {
+      remove();
+      return;
+    }
+
+    Alert.alert('Remove Section', `Remove “${sections[index].title || `Section ${index + 1}`}” and everything in it?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: remove },
+    ]);
+  };
+
+  return (
+    <View>
+      {sections.map((section, index) => (
+        <SectionEditor
+          key={`${section.id}-${index}`}
+          section={section}
+          index={index}
+          count={sections.length}
+          onChange={updated => updateSections(sections.map((existing, i) => (i === index ? updated : existing)))}
+          onMove={direction => updateSections(moveItem(sections, index, direction))}
+          onRemove={() => removeSection(index)}
+        />
+      ))}
+
+      <Button
+        title="Add Section"
+        onPress={() => updateSections([...sections, emptySection(sections.length + 1)])}
+        variant="outline"
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+    borderRadius: theme.borderRadius.lg,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+    backgroundColor: theme.colors.background,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.sm,
+  },
+  sectionNumber: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.secondary,
+    textTransform: 'uppercase',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  iconButton: {
+    padding: theme.spacing.xs,
+    marginLeft: theme.spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.gray[300],
+    borderRadius: theme.borderRadius.md,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    backgroundColor: theme.colors.background,
+  },
+  sectionTitleInput: {
+    fontWeight: theme.fontWeight.semibold,
+  },
+  headingInput: {
+    fontWeight: theme.fontWeight.semibold,
+  },
+  multilineInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  codeInput: {
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    backgroundColor: theme.colors.gray[50],
+  },
+  fieldSpacing: {
+    marginBottom: theme.spacing.sm,
+  },
+  fieldSpacingTop: {
+    marginTop: theme.spacing.sm,
+  },
+  requiredRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: theme.spacing.sm,
+  },
+  requiredLabel: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  block: {
+    paddingTop: theme.spacing.sm,
+    marginTop: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.gray[100],
+  },
+  blockHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.xs,
+  },
+  blockType: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.primary,
+    textTransform: 'uppercase',
+  },
+  readOnlyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+  },
+  addLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.gray[200],
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontWeight: theme.fontWeight.medium,
+  },
+  chipTextSelected: {
+    color: theme.colors.text.white,
+  },
+});
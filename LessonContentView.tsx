@@ -0,0 +1,348 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, Image, StyleSheet, TouchableOpacity, StyleProp, TextStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { LessonContent, LessonSection, ContentBlock, CalloutVariant } from '../utils/lessonContent';
+import { CodeSnippet, monospaceFont } from './CodeSnippet';
+import { CodePlayground } from './CodePlayground';
+
+interface RichTextProps {
+  text: string;
+  style?: StyleProp<TextStyle>;
+}
+
+// Text with **bold** and `inline code` spans
+export function RichText({ text, style }: RichTextProps) {
+  const parts = text.split(/(\*\*[^*]+\*\*|`[^`]+`)/g).filter(Boolean);
+
+  return (
+    <Text style={style}>
+      {parts.map((part, index) => {
+        if (part.startsWith('**') && part.endsWith('**')) {
+          return <Text key={index} style={styles.bold}>{part.slice(2, -2)}</Text>;
+        }
+        if (part.startsWith('`') && part.endsWith('`')) {
+          return <Text key={index} style={styles.inlineCode}>{part.slice(1, -1)}</Text>;
+        }
+        return part;
+      })}
+    </Text>
+  );
+}
+
+const calloutStyles: { [variant in CalloutVariant]: { icon: keyof typeof Ionicons.glyphMap; color: string; title: string } } = {
+  note: { icon: 'information-circle', color: theme.colors.info, title: 'Note' },
+  tip: { icon: 'bulb', color: theme.colors.success, title: 'Tip' },
+  warning: { icon: 'warning', color: theme.colors.warning, title: 'Warning' },
+};
+
+interface ContentBlockViewProps {
+  block: ContentBlock;
+}
+
+// Default rendering for a single content block
+export function ContentBlockView({ block }: ContentBlockViewProps) {
+  switch (block.type) {
+    case 'heading':
+      return <Text style={block.level === 3 ? styles.subheading : styles.heading}>{block.text}</Text>;
+    case 'paragraph':
+      return <RichText text={block.text} style={styles.paragraph} />;
+    case 'code':
+      return <CodeSnippet code={block.code} language={block.language} caption={block.caption} />;
+    case 'playground':
+      return <CodePlayground initialCode={block.code} />;
+    case 'image':
+      return (
+        <View style={styles.imageContainer}>
+          <Image
+            source={{ uri: block.uri }}
+            style={styles.image}
+            resizeMode="contain"
+            accessibilityLabel={block.alt}
+          />
+          {(block.caption || block.alt) && (
+            <Text style={styles.imageCaption}>{block.caption || block.alt}</Text>
+          )}
+        </View>
+      );
+    case 'callout': {
+      const callout = calloutStyles[block.variant] || calloutStyles.note;
+      return (
+        <View style={[styles.callout, { borderLeftColor: callout.color, backgroundColor: callout.color + '15' }]}>
+          <View style={styles.calloutHeader}>
+            <Ionicons name={callout.icon} size={18} color={callout.color} />
+            <Text style={[styles.calloutTitle, { color: callout.color }]}>{block.title || callout.title}</Text>
+          </View>
+          <RichText text={block.text} style={styles.calloutText} />
+        </View>
+      );
+    }
+    case 'quiz':
+      return (
+        <View style={styles.activity}>
+          <Text style={styles.activityTitle}>{block.title || 'Quiz'}</Text>
+          {block.questions.map((question, index) => (
+            <Text key={question.id} style={styles.activityText}>
+              {index + 1}. {question.prompt}
+            </Text>
+          ))}
+        </View>
+      );
+    case 'exercise':
+      return (
+        <View style={styles.activity}>
+          <Text style={styles.activityTitle}>{block.title}</Text>
+          <RichText text={block.prompt} style={styles.activityText} />
+          <CodePlayground initialCode={block.starterCode} />
+        </View>
+      );
+    default:
+      return null;
+  }
+}
+
+interface LessonContentViewProps {
+  content: LessonContent;
+  initialSectionIndex?: number;
+  completedSectionIds?: string[];
+  onSectionChange?: (section: LessonSection, index: number) => void;
+  // Override how a block is rendered; return undefined to use the default
+  renderBlock?: (block: ContentBlock, section: LessonSection, index: number) => React.ReactNode | undefined;
+  // Shown after the current section's blocks
+  renderSectionFooter?: (section: LessonSection) => React.ReactNode;
+}
+
+// Renders lesson content one section (page) at a time
+export function LessonContentView({
+  content,
+  initialSectionIndex = 0,
+  completedSectionIds = [],
+  onSectionChange,
+  renderBlock,
+  renderSectionFooter,
+}: LessonContentViewProps) {
+  const { sections } = content;
+  const [sectionIndex, setSectionIndex] = useState(
+    Math.min(Math.max(initialSectionIndex, 0), Math.max(sections.length - 1, 0))
+  );
+  const section = sections[sectionIndex];
+
+  useEffect(() => {
+    if (section) {
+      onSectionChange?.(section, sectionIndex);
+    }
+  }, [section?.id]);
+
+  if (!section) {
+    return null;
+  }
+
+  const goToSection = (index: number) => {
+    if (index >= 0 && index < sections.length) {
+      setSectionIndex(index);
+    }
+  };
+
+  return (
+    <View>
+      {sections.length > 1 && (
+        <View style={styles.pageDots}>
+          {sections.map((s, index) => (
+            <TouchableOpacity
+              key={s.id}
+              onPress={() => goToSection(index)}
+              style={[
+                styles.pageDot,
+                completedSectionIds.includes(s.id) && styles.pageDotCompleted,
+                index === sectionIndex && styles.pageDotActive,
+              ]}
+            />
+          ))}
+        </View>
+      )}
+
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>{section.title}</Text>
+        {completedSectionIds.includes(section.id) && (
+          <Ionicons name="checkmark-circle" size={20} color={theme.colors.success} />
+        )}
+      </View>
+
+      {section.blocks.map((block, index) => {
+        const custom = renderBlock?.(block, section, index);
+        return (
+          <View key={`${section.id}-${index}`}>
+            {custom !== undefined ? custom : <ContentBlockView block={block} />}
+          </View>
+        );
+      })}
+
+      {renderSectionFooter?.(section)}
+
+      {sections.length > 1 && (
+        <View style={styles.pager}>
+          <TouchableOpacity
+            onPress={() => goToSection(sectionIndex - 1)}
+            disabled={sectionIndex === 0}
+            style={[styles.pagerButton, sectionIndex === 0 && styles.pagerButtonDisabled]}
+          >
+            <Ionicons name="chevron-back" size={18} color={theme.colors.primary} />
+            <Text style={styles.pagerText}>Previous</Text>
+          </TouchableOpacity>
+          <Text style={styles.pagerCount}>{sectionIndex + 1} / {sections.length}</Text>
+          <TouchableOpacity
+            onPress={() => goToSection(sectionIndex + 1)}
+            disabled={sectionIndex === sections.length - 1}
+            style={[styles.pagerButton, sectionIndex === sections.length - 1 && styles.pagerButtonDisabled]}
+          >
+            <Text style={styles.pagerText}>Next</Text>
+            <Ionicons name="chevron-forward" size={18} color={theme.colors.primary} />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bold: {
+    fontWeight: theme.fontWeight.bold,
+  },
+  inlineCode: {
+    fontFamily: monospaceFont,
+    backgroundColor: theme.colors.gray[100],
+    color: theme.colors.accent,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.md,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  heading: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  subheading: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  paragraph: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    lineHeight: 24,
+    marginBottom: theme.spacing.md,
+  },
+  imageContainer: {
+    marginBottom: theme.spacing.md,
+  },
+  image: {
+    width: '100%',
+    height: 200,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.gray[100],
+  },
+  imageCaption: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.xs,
+  },
+  callout: {
+    borderLeftWidth: 4,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  calloutHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  calloutTitle: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    marginLeft: theme.spacing.xs,
+  },
+  calloutText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.primary,
+    lineHeight: 20,
+  },
+  activity: {
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  activityTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  activityText: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    lineHeight: 22,
+    marginBottom: theme.spacing.sm,
+  },
+  pageDots: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  pageDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.colors.gray[300],
+    marginHorizontal: 3,
+  },
+  pageDotCompleted: {
+    backgroundColor: theme.colors.success + '80',
+  },
+  pageDotActive: {
+    width: 20,
+    backgroundColor: theme.colors.primary,
+  },
+  pager: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingTop: theme.spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.gray[200],
+  },
+  pagerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.sm,
+  },
+  pagerButtonDisabled: {
+    opacity: 0.3,
+  },
+  pagerText: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+    marginHorizontal: theme.spacing.xs,
+  },
+  pagerCount: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+});
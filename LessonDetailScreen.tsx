@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -14,10 +14,37 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RouteProp } from '@react-navigation/native';
 
 import { useAuth } from '../../contexts/AuthContext';
-import { LessonsService } from '../../services/lessons';
+import { useBookmarks } from '../../contexts/BookmarksContext';
+import { LessonsService, LessonProgress } from '../../services/lessons';
+import { LevelingService, LevelUpEvent } from '../../services/leveling';
+import { PathsService } from '../../services/paths';
+import { LessonCacheService } from '../../services/lessonCache';
+import { NotesService } from '../../services/notes';
+import { FeedbackService, LessonRating, ProblemKind } from '../../services/feedback';
 import { Card, Button, Loading, ErrorMessage } from '../../components/UI';
+import { LevelUpModal } from '../../components/LevelUpModal';
+import { LessonContentView, ContentBlockView } from '../../components/LessonContentView';
+import { NoteEditor, NoteDraft } from '../../components/NoteEditor';
+import { NotedBlock, NoteCard } from '../../components/NotedBlock';
+import { RateLessonCard } from '../../components/RateLessonCard';
+import { ReportProblemSheet } from '../../components/ReportProblemSheet';
+import { QuizView } from '../../components/QuizView';
+import { QuizService } from '../../services/quizzes';
+import { ExerciseView } from '../../components/ExerciseView';
+import { PendingSyncIndicator } from '../../components/PendingSyncIndicator';
+import { ExerciseService } from '../../services/exercises';
+import { parseLessonContent, LessonSection, ContentBlock } from '../../utils/lessonContent';
+import { QuizResponses } from '../../utils/quizGrading';
+import { RunResult } from '../../utils/sandbox';
+import { LessonNote, isNotableBlock, getBlockQuote } from '../../utils/studyNotes';
+import {
+  SectionUpdate,
+  getCompletedSectionIds,
+  getRequiredSections,
+  getResumeSectionIndex,
+} from '../../utils/sectionProgress';
 import { theme } from '../../config/theme';
-import { Lesson, UserProgress, LessonsStackParamList } from '../../types';
+import { Lesson, LessonsStackParamList } from '../../types';
 
 type LessonDetailScreenNavigationProp = StackNavigationProp<LessonsStackParamList, 'LessonDetail'>;
 type LessonDetailScreenRouteProp = RouteProp<LessonsStackParamList, 'LessonDetail'>;
@@ -27,14 +54,44 @@ interface Props {
   route: LessonDetailScreenRouteProp;
 }
 
+// The note being written or edited and what it's attached to
+interface NoteEditorState {
+  section: LessonSection;
+  blockIndex: number | null;
+  note: LessonNote | null;
+  initial: NoteDraft;
+  isCode: boolean;
+}
+
 export default function LessonDetailScreen({ navigation, route }: Props) {
   const { user } = useAuth();
+  const { bookmarkedIds, toggleBookmark } = useBookmarks();
   const { lessonId } = route.params;
+  const isBookmarked = bookmarkedIds.has(lessonId);
   const [lesson, setLesson] = useState<Lesson | null>(null);
-  const [progress, setProgress] = useState<UserProgress | null>(null);
+  const [progress, setProgress] = useState<LessonProgress | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState(false);
+  const [missingPrerequisites, setMissingPrerequisites] = useState<Lesson[]>([]);
+  const [downloaded, setDownloaded] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [levelUp, setLevelUp] = useState<LevelUpEvent | null>(null);
+  const levelUpRef = useRef<LevelUpEvent | null>(null);
+  const [notes, setNotes] = useState<LessonNote[]>([]);
+  const [noteEditor, setNoteEditor] = useState<NoteEditorState | null>(null);
+  const [savingNote, setSavingNote] = useState(false);
+  const [myRating, setMyRating] = useState<LessonRating | null>(null);
+  const [showReport, setShowReport] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const currentSection = useRef<LessonSection | null>(null);
+
+  const progressRef = useRef<LessonProgress | null>(null);
+  const sectionQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const content = useMemo(() => parseLessonContent(lesson?.content), [lesson?.content]);
+  const completedSectionIds = getCompletedSectionIds(content, progress?.section_progress);
+  const requiredSectionCount = getRequiredSections(content).length;
 
   const loadLessonData = async () => {
     if (!user) return;
@@ -47,12 +104,35 @@ export default function LessonDetailScreen({ navigation, route }: Props) {
       
       if (lessonResult.success && lessonResult.data) {
         setLesson(lessonResult.data);
+        setDownloaded(await LessonCacheService.isDownloaded(lessonId));
+
+        const notesResult = await NotesService.getLessonNotes(user.id, lessonId);
+        if (notesResult.success) {
+          setNotes(notesResult.data!);
+        }
         
         // Fetch user progress
         const progressResult = await LessonsService.getUserProgress(user.id, lessonId);
         if (progressResult.success) {
+          progressRef.current = progressResult.data;
           setProgress(progressResult.data);
         }
+
+        // Finished lessons can be rated
+        if (progressResult.success && progressResult.data?.completed) {
+          const ratingResult = await FeedbackService.getMyRating(user.id, lessonId);
+          if (ratingResult.success) {
+            setMyRating(ratingResult.data!);
+          }
+        }
+
+        // Lessons stay locked until their prerequisites are complete
+        if (progressResult.success && !progressResult.data) {
+          const prerequisitesResult = await PathsService.getMissingPrerequisites(user.id, lessonId);
+          if (prerequisitesResult.success) {
+            setMissingPrerequisites(prerequisitesResult.data || []);
+          }
+        }
       } else {
         setError(lessonResult.error || 'Failed to load lesson');
       }
@@ -68,44 +148,311 @@ export default function LessonDetailScreen({ navigation, route }: Props) {
     loadLessonData();
   }, [user, lessonId]);
 
-  const handleStartLesson = async () => {
+  // Completing a lesson can level the learner up; celebrate instead of alerting
+  useEffect(() => {
+    const subscription = LevelingService.onLevelUp((event) => {
+      levelUpRef.current = event;
+      setLevelUp(event);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Only mentions XP the completion actually awarded: none for a lesson
+  // completed before, or while the completion is waiting to sync
+  const showCompletionMessage = (completed: LessonProgress) => {
+    if (levelUpRef.current) return;
+    const xpAwarded = completed.xp_awarded || 0;
+    Alert.alert(
+      'Congratulations!',
+      xpAwarded > 0
+        ? `You completed this lesson and earned ${xpAwarded} XP!`
+        : 'You completed this lesson!'
+    );
+  };
+
+  const handleToggleBookmark = async () => {
+    const result = await toggleBookmark(lessonId);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update bookmark');
+    }
+  };
+
+  const handleToggleDownload = async () => {
+    if (!lesson) return;
+
+    setDownloading(true);
+    try {
+      if (downloaded) {
+        await LessonCacheService.removeLesson(lesson.id);
+        setDownloaded(false);
+      } else {
+        const result = await LessonCacheService.downloadLessons([lesson.id]);
+        if (result.success) {
+          setDownloaded(true);
+        } else {
+          Alert.alert('Error', result.error || 'Failed to download lesson');
+        }
+      }
+    } catch (err) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleCloseLevelUp = () => {
+    levelUpRef.current = null;
+    setLevelUp(null);
+  };
+
+  // Section updates are applied one at a time so quick paging can't reorder them
+  const recordSection = (sectionId: string, update: SectionUpdate) => {
+    if (!user || !lesson) return sectionQueue.current;
+
+    sectionQueue.current = sectionQueue.current.then(async () => {
+      try {
+        const wasCompleted = progressRef.current?.completed;
+        const result = await LessonsService.updateSectionProgress(user.id, lesson, sectionId, update);
+        if (result.success) {
+          progressRef.current = result.data!;
+          setProgress(result.data!);
+          if (result.data!.completed && !wasCompleted) {
+            showCompletionMessage(result.data!);
+          }
+        } else {
+          Alert.alert('Error', result.error || 'Failed to update progress');
+        }
+      } catch (err) {
+        Alert.alert('Error', 'An unexpected error occurred');
+      }
+    });
+    return sectionQueue.current;
+  };
+
+  const handleSectionChange = (section: LessonSection) => {
+    currentSection.current = section;
+    // Only track sections once the lesson has been started
+    if (progressRef.current && !progressRef.current.completed) {
+      recordSection(section.id, { viewed: true });
+    }
+  };
+
+  const handleSubmitQuiz = async (section: LessonSection, quizId: string, responses: QuizResponses) => {
+    if (!user || !lesson) return null;
+
+    const quiz = section.blocks.find(block => block.type === 'quiz' && block.id === quizId);
+    if (!quiz || quiz.type !== 'quiz') return null;
+
+    const result = await QuizService.submitAttempt(user.id, lesson.id, quiz, responses);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to submit quiz');
+      return null;
+    }
+
+    if (result.data!.result.passed) {
+      await recordSection(section.id, { passedActivityId: quiz.id });
+    }
+    return result.data!.result;
+  };
+
+  const handleSubmitExercise = async (section: LessonSection, exerciseId: string, code: string, run: RunResult) => {
+    if (!user || !lesson) return null;
+
+    const exercise = section.blocks.find(block => block.type === 'exercise' && block.id === exerciseId);
+    if (!exercise || exercise.type !== 'exercise') return null;
+
+    const result = await ExerciseService.submit(user.id, lesson.id, exercise, code, run);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to submit exercise');
+      return null;
+    }
+
+    if (result.data!.result.passed) {
+      await recordSection(section.id, { passedActivityId: exercise.id });
+    }
+    return result.data!.result;
+  };
+
+  const handleRateLesson = async (rating: number, feedback: string) => {
+    if (!user || !lesson) return false;
+
+    const result = await FeedbackService.rateLesson(user.id, lesson.id, rating, feedback);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to save rating');
+      return false;
+    }
+
+    setMyRating(result.data!);
+    return true;
+  };
+
+  const handleReportProblem = async (kind: ProblemKind, details: string) => {
     if (!user || !lesson) return;
 
-    setUpdating(true);
+    setReporting(true);
     try {
-      const result = await LessonsService.updateProgress(user.id, lesson.id, 10);
+      const result = await FeedbackService.reportProblem(
+        user.id,
+        lesson.id,
+        kind,
+        details,
+        currentSection.current?.id ?? null
+      );
       if (result.success) {
-        setProgress(result.data!);
-        Alert.alert('Lesson Started', 'You have started this lesson. Good luck!');
+        setShowReport(false);
+        Alert.alert('Thanks!', 'Your report has been sent to the lesson\'s author.');
       } else {
-        Alert.alert('Error', result.error || 'Failed to start lesson');
+        Alert.alert('Error', result.error || 'Failed to send report');
       }
     } catch (err) {
       Alert.alert('Error', 'An unexpected error occurred');
     } finally {
-      setUpdating(false);
+      setReporting(false);
+    }
+  };
+
+  const openNewNote = (section: LessonSection, blockIndex: number | null) => {
+    const block = blockIndex === null ? null : section.blocks[blockIndex];
+    setNoteEditor({
+      section,
+      blockIndex,
+      note: null,
+      initial: { quote: block ? getBlockQuote(block) : null, body: '', color: 'yellow' },
+      isCode: block?.type === 'code',
+    });
+  };
+
+  const openNote = (note: LessonNote, section: LessonSection) => {
+    setNoteEditor({
+      section,
+      blockIndex: note.block_index,
+      note,
+      initial: { quote: note.quote, body: note.body, color: note.color },
+      isCode: note.block_type === 'code',
+    });
+  };
+
+  const handleSaveNote = async (draft: NoteDraft) => {
+    if (!user || !lesson || !noteEditor) return;
+
+    const { section, blockIndex, note } = noteEditor;
+    setSavingNote(true);
+    try {
+      const result = note
+        ? await NotesService.updateNote(note, draft)
+        : await NotesService.addNote(user.id, lesson, {
+            ...draft,
+            section_id: section.id,
+            section_title: section.title,
+            block_index: blockIndex,
+            block_type: blockIndex === null ? null : section.blocks[blockIndex]?.type ?? null,
+          });
+      if (result.success) {
+        setNotes(current => [result.data!, ...current.filter(existing => existing.id !== result.data!.id)]);
+        setNoteEditor(null);
+      } else {
+        Alert.alert('Error', result.error || 'Failed to save note');
+      }
+    } catch (err) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  const handleDeleteNote = (note: LessonNote) => {
+    Alert.alert(
+      'Delete Note',
+      'Delete this note and its highlight?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await NotesService.deleteNote(note);
+            if (result.success) {
+              setNotes(current => current.filter(existing => existing.id !== note.id));
+              setNoteEditor(null);
+            } else {
+              Alert.alert('Error', result.error || 'Failed to delete note');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Notes on a block that's since been removed from the section are shown
+  // with the section's own notes
+  const isSectionNote = (note: LessonNote, section: LessonSection) => {
+    const block = note.block_index === null ? undefined : section.blocks[note.block_index];
+    return !block || !isNotableBlock(block);
+  };
+
+  const renderSectionNotes = (section: LessonSection) => (
+    <View style={styles.sectionNotes}>
+      {notes
+        .filter(note => note.section_id === section.id && isSectionNote(note, section))
+        .map(note => (
+          <NoteCard key={note.id} note={note} onPress={() => openNote(note, section)} />
+        ))}
+      <TouchableOpacity style={styles.addNoteButton} onPress={() => openNewNote(section, null)}>
+        <Ionicons name="create-outline" size={18} color={theme.colors.primary} />
+        <Text style={styles.addNoteText}>Add a note to this section</Text>
+      </TouchableOpacity>
+      <Text style={styles.noteHint}>Long-press a passage or code snippet to highlight it.</Text>
+    </View>
+  );
+
+  const renderContentBlock = (block: ContentBlock, section: LessonSection, index: number) => {
+    if (block.type === 'quiz') {
+      return (
+        <QuizView
+          quiz={block}
+          passed={!!progress?.section_progress?.[section.id]?.passed.includes(block.id)}
+          onSubmit={(responses) => handleSubmitQuiz(section, block.id, responses)}
+        />
+      );
+    }
+    if (block.type === 'exercise') {
+      return (
+        <ExerciseView
+          exercise={block}
+          passed={!!progress?.section_progress?.[section.id]?.passed.includes(block.id)}
+          onSubmit={(code, run) => handleSubmitExercise(section, block.id, code, run)}
+        />
+      );
     }
+    if (isNotableBlock(block)) {
+      return (
+        <NotedBlock
+          notes={notes.filter(note => note.section_id === section.id && note.block_index === index)}
+          onLongPress={() => openNewNote(section, index)}
+          onPressNote={(note) => openNote(note, section)}
+        >
+          <ContentBlockView block={block} />
+        </NotedBlock>
+      );
+    }
+    return undefined;
   };
 
-  const handleContinueLesson = async () => {
-    if (!user || !lesson || !progress) return;
+  const handleStartLesson = async () => {
+    if (!user || !lesson) return;
 
     setUpdating(true);
     try {
-      const newProgress = Math.min(progress.progress + 20, 100);
-      const result = await LessonsService.updateProgress(user.id, lesson.id, newProgress);
+      const firstSection = content.sections[getResumeSectionIndex(content, null)];
+      const result = firstSection
+        ? await LessonsService.updateSectionProgress(user.id, lesson, firstSection.id, { viewed: true })
+        : await LessonsService.updateProgress(user.id, lesson.id, 0);
       if (result.success) {
+        progressRef.current = result.data!;
         setProgress(result.data!);
-        if (newProgress >= 100) {
-          Alert.alert(
-            'Congratulations!', 
-            `You completed this lesson and earned ${lesson.xp_reward} XP!`
-          );
-        } else {
-          Alert.alert('Progress Updated', `Lesson progress: ${Math.round(newProgress)}%`);
-        }
+        Alert.alert('Lesson Started', 'You have started this lesson. Good luck!');
       } else {
-        Alert.alert('Error', result.error || 'Failed to update progress');
+        Alert.alert('Error', result.error || 'Failed to start lesson');
       }
     } catch (err) {
       Alert.alert('Error', 'An unexpected error occurred');
@@ -129,11 +476,9 @@ export default function LessonDetailScreen({ navigation, route }: Props) {
             try {
               const result = await LessonsService.completeLesson(user.id, lesson.id);
               if (result.success) {
+                progressRef.current = result.data!;
                 setProgress(result.data!);
-                Alert.alert(
-                  'Congratulations!', 
-                  `You completed this lesson and earned ${lesson.xp_reward} XP!`
-                );
+                showCompletionMessage(result.data!);
               } else {
                 Alert.alert('Error', result.error || 'Failed to complete lesson');
               }
@@ -169,6 +514,27 @@ export default function LessonDetailScreen({ navigation, route }: Props) {
   };
 
   const getActionButton = () => {
+    if (!progress && missingPrerequisites.length > 0) {
+      return (
+        <Card>
+          <View style={styles.lockedHeader}>
+            <Ionicons name="lock-closed" size={20} color={theme.colors.text.secondary} />
+            <Text style={styles.lockedTitle}>Complete these lessons first</Text>
+          </View>
+          {missingPrerequisites.map(prerequisite => (
+            <TouchableOpacity
+              key={prerequisite.id}
+              style={styles.prerequisiteRow}
+              onPress={() => navigation.push('LessonDetail', { lessonId: prerequisite.id })}
+            >
+              <Text style={styles.prerequisiteTitle}>{prerequisite.title}</Text>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+            </TouchableOpacity>
+          ))}
+        </Card>
+      );
+    }
+
     if (!progress) {
       return (
         <Button
@@ -182,29 +548,42 @@ export default function LessonDetailScreen({ navigation, route }: Props) {
 
     if (progress.completed) {
       return (
-        <View style={styles.completedContainer}>
-          <Ionicons name="checkmark-circle" size={24} color={theme.colors.success} />
-          <Text style={styles.completedText}>Lesson Completed!</Text>
+        <>
+          <View style={styles.completedContainer}>
+            <Ionicons name="checkmark-circle" size={24} color={theme.colors.success} />
+            <Text style={styles.completedText}>Lesson Completed!</Text>
+          </View>
+          <RateLessonCard
+            rating={myRating?.rating ?? null}
+            feedback={myRating?.feedback ?? null}
+            onSubmit={handleRateLesson}
+          />
+        </>
+      );
+    }
+
+    // Structured lessons complete themselves once every required section is done
+    if (requiredSectionCount > 0) {
+      const completedRequired = getRequiredSections(content)
+        .filter(section => completedSectionIds.includes(section.id)).length;
+      return (
+        <View style={styles.sectionsRemaining}>
+          <Ionicons name="layers-outline" size={20} color={theme.colors.text.secondary} />
+          <Text style={styles.sectionsRemainingText}>
+            {completedRequired} of {requiredSectionCount} sections complete
+          </Text>
         </View>
       );
     }
 
     return (
-      <View style={styles.actionsContainer}>
-        <Button
-          title="Continue Learning"
-          onPress={handleContinueLesson}
-          loading={updating}
-          style={[styles.actionButton, { flex: 1, marginRight: theme.spacing.sm }]}
-        />
-        <Button
-          title="Complete"
-          onPress={handleCompleteLesson}
-          loading={updating}
-          variant="secondary"
-          style={[styles.actionButton, { flex: 1 }]}
-        />
-      </View>
+      <Button
+        title="Complete"
+        onPress={handleCompleteLesson}
+        loading={updating}
+        variant="secondary"
+        style={styles.actionButton}
+      />
     );
   };
 
@@ -244,10 +623,36 @@ export default function LessonDetailScreen({ navigation, route }: Props) {
           <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
         </TouchableOpacity>
         <Text style={styles.headerTitle}>Lesson Details</Text>
-        <View style={styles.headerRight} />
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            onPress={handleToggleBookmark}
+            style={styles.headerAction}
+            accessibilityLabel={isBookmarked ? 'Remove from saved' : 'Save for later'}
+          >
+            <Ionicons
+              name={isBookmarked ? 'bookmark' : 'bookmark-outline'}
+              size={24}
+              color={theme.colors.primary}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={handleToggleDownload}
+            disabled={downloading}
+            style={styles.headerAction}
+            accessibilityLabel={downloaded ? 'Remove download' : 'Download for offline use'}
+          >
+            <Ionicons
+              name={downloaded ? 'cloud-done' : 'cloud-download-outline'}
+              size={24}
+              color={downloading ? theme.colors.text.light : theme.colors.primary}
+            />
+          </TouchableOpacity>
+        </View>
       </View>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <PendingSyncIndicator style={styles.syncIndicator} />
+
         {/* Lesson Header */}
         <Card style={styles.lessonHeader}>
           <View style={styles.lessonMeta}>
@@ -312,8 +717,15 @@ export default function LessonDetailScreen({ navigation, route }: Props) {
         {/* Lesson Content */}
         <Card style={styles.contentCard}>
           <Text style={styles.contentTitle}>Lesson Content</Text>
-          {lesson.content ? (
-            <Text style={styles.contentText}>{lesson.content}</Text>
+          {content.sections.length > 0 ? (
+            <LessonContentView
+              content={content}
+              initialSectionIndex={getResumeSectionIndex(content, progress?.section_progress)}
+              completedSectionIds={completedSectionIds}
+              onSectionChange={handleSectionChange}
+              renderBlock={renderContentBlock}
+              renderSectionFooter={renderSectionNotes}
+            />
           ) : (
             <Text style={styles.placeholderText}>
               This lesson content will be available soon. The lesson structure is ready 
@@ -325,8 +737,37 @@ export default function LessonDetailScreen({ navigation, route }: Props) {
         {/* Action Buttons */}
         <View style={styles.actionSection}>
           {getActionButton()}
+          <TouchableOpacity style={styles.reportButton} onPress={() => setShowReport(true)}>
+            <Ionicons name="flag-outline" size={16} color={theme.colors.text.secondary} />
+            <Text style={styles.reportText}>Report a problem</Text>
+          </TouchableOpacity>
         </View>
       </ScrollView>
+
+      <LevelUpModal
+        event={levelUp}
+        xpEarned={progress?.xp_awarded}
+        onClose={handleCloseLevelUp}
+      />
+
+      <ReportProblemSheet
+        visible={showReport}
+        sectionTitle={content.sections.length > 1 ? currentSection.current?.title : undefined}
+        submitting={reporting}
+        onSubmit={handleReportProblem}
+        onClose={() => setShowReport(false)}
+      />
+
+      <NoteEditor
+        visible={!!noteEditor}
+        title={noteEditor?.section.title || ''}
+        initial={noteEditor?.initial || { quote: null, body: '', color: 'yellow' }}
+        isCode={noteEditor?.isCode}
+        saving={savingNote}
+        onSave={handleSaveNote}
+        onDelete={noteEditor?.note ? () => handleDeleteNote(noteEditor.note!) : undefined}
+        onClose={() => setNoteEditor(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -355,8 +796,36 @@ const styles = StyleSheet.create({
     fontWeight: theme.fontWeight.semibold,
     color: theme.colors.text.primary,
   },
-  headerRight: {
-    width: 40,
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerAction: {
+    marginLeft: theme.spacing.md,
+  },
+  lockedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  lockedTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  prerequisiteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.gray[100],
+  },
+  prerequisiteTitle: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.primary,
   },
   scrollView: {
     flex: 1,
@@ -372,6 +841,10 @@ const styles = StyleSheet.create({
     color: theme.colors.text.primary,
     marginBottom: theme.spacing.lg,
   },
+  syncIndicator: {
+    marginHorizontal: theme.spacing.lg,
+    marginTop: theme.spacing.md,
+  },
   lessonHeader: {
     margin: theme.spacing.lg,
   },
@@ -466,17 +939,30 @@ const styles = StyleSheet.create({
     color: theme.colors.text.primary,
     marginBottom: theme.spacing.md,
   },
-  contentText: {
-    fontSize: theme.fontSize.md,
-    color: theme.colors.text.primary,
-    lineHeight: 24,
-  },
   placeholderText: {
     fontSize: theme.fontSize.md,
     color: theme.colors.text.secondary,
     lineHeight: 24,
     fontStyle: 'italic',
   },
+  sectionNotes: {
+    marginTop: theme.spacing.sm,
+  },
+  addNoteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+  },
+  addNoteText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  noteHint: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.light,
+  },
   actionSection: {
     padding: theme.spacing.lg,
     paddingTop: 0,
@@ -484,10 +970,29 @@ const styles = StyleSheet.create({
   actionButton: {
     marginBottom: theme.spacing.md,
   },
-  actionsContainer: {
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: theme.spacing.sm,
+  },
+  reportText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginLeft: theme.spacing.xs,
+  },
+  sectionsRemaining: {
     flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: theme.spacing.md,
     marginBottom: theme.spacing.md,
   },
+  sectionsRemainingText: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.secondary,
+    marginLeft: theme.spacing.sm,
+  },
   completedContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,131 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { theme } from '../config/theme';
+import { LessonDiff, SectionChangeKind, hasChanges } from '../utils/lessonVersions';
+
+const sectionStyles: { [kind in SectionChangeKind]: { label: string; color: string } } = {
+  added: { label: 'Added', color: theme.colors.success },
+  removed: { label: 'Removed', color: theme.colors.error },
+  changed: { label: 'Changed', color: theme.colors.warning },
+  moved: { label: 'Moved', color: theme.colors.info },
+};
+
+interface LessonDiffViewProps {
+  diff: LessonDiff;
+  emptyText?: string;
+}
+
+// What changed between two versions of a lesson: its details, then each
+// section that was added, removed, changed or moved, with the blocks that
+// were added or removed
+export function LessonDiffView({ diff, emptyText = 'No changes.' }: LessonDiffViewProps) {
+  if (!hasChanges(diff)) {
+    return <Text style={styles.emptyText}>{emptyText}</Text>;
+  }
+
+  return (
+    <View>
+      {diff.fields.map(change => (
+        <View key={change.field} style={styles.fieldChange}>
+          <Text style={styles.fieldLabel}>{change.label}</Text>
+          {!!change.before && <Text style={[styles.line, styles.removed]} numberOfLines={3}>− {change.before}</Text>}
+          {!!change.after && <Text style={[styles.line, styles.added]} numberOfLines={3}>+ {change.after}</Text>}
+        </View>
+      ))}
+
+      {diff.sections.map((change, index) => {
+        const kind = sectionStyles[change.kind];
+        return (
+          <View key={`${change.kind}-${index}`} style={styles.sectionChange}>
+            <View style={styles.sectionHeader}>
+              <View style={[styles.kindBadge, { backgroundColor: kind.color + '20' }]}>
+                <Text style={[styles.kindText, { color: kind.color }]}>{kind.label}</Text>
+              </View>
+              <Text style={styles.sectionTitle} numberOfLines={1}>{change.title}</Text>
+            </View>
+            {!!change.previousTitle && (
+              <Text style={styles.note}>Renamed from “{change.previousTitle}”</Text>
+            )}
+            {change.requiredChanged && (
+              <Text style={styles.note}>Changed whether it's required</Text>
+            )}
+            {change.blocks.map((block, blockIndex) => (
+              <Text
+                key={blockIndex}
+                style={[styles.line, block.kind === 'added' ? styles.added : styles.removed]}
+                numberOfLines={2}
+              >
+                {block.kind === 'added' ? '+' : '−'} {block.summary}
+              </Text>
+            ))}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+  },
+  fieldChange: {
+    marginBottom: theme.spacing.md,
+  },
+  fieldLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.xs,
+  },
+  sectionChange: {
+    paddingTop: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.gray[100],
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.xs,
+  },
+  kindBadge: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+    marginRight: theme.spacing.sm,
+  },
+  kindText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  note: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.xs,
+  },
+  line: {
+    fontSize: theme.fontSize.sm,
+    lineHeight: 20,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    marginBottom: 2,
+    borderRadius: theme.borderRadius.sm,
+  },
+  added: {
+    color: theme.colors.success,
+    backgroundColor: theme.colors.success + '10',
+  },
+  removed: {
+    color: theme.colors.error,
+    backgroundColor: theme.colors.error + '10',
+  },
+});
@@ -0,0 +1,743 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  AuthoringService,
+  AuthoredLesson,
+  LessonRevision,
+  LessonWorkspace,
+  PublishStatus,
+} from '../../services/authoring';
+import { LessonsService } from '../../services/lessons';
+import { Card, Button, Input, Loading, ErrorMessage } from '../../components/UI';
+import { LessonContentEditor } from '../../components/LessonContentEditor';
+import { LessonPreview } from '../../components/LessonPreview';
+import { LessonDiffView } from '../../components/LessonDiffView';
+import {
+  LessonDraft,
+  DraftErrors,
+  DIFFICULTY_LEVELS,
+  emptyDraft,
+  draftFromLesson,
+  validateLessonDetails,
+  getPublishIssues,
+} from '../../utils/lessonDraft';
+import { diffLessons, hasChanges } from '../../utils/lessonVersions';
+import { theme } from '../../config/theme';
+import { AuthoringStackParamList } from '../../types';
+
+type LessonEditorScreenNavigationProp = StackNavigationProp<AuthoringStackParamList, 'LessonEditor'>;
+type LessonEditorScreenRouteProp = RouteProp<AuthoringStackParamList, 'LessonEditor'>;
+
+interface Props {
+  navigation: LessonEditorScreenNavigationProp;
+  route: LessonEditorScreenRouteProp;
+}
+
+const statusBanners: {
+  [status in PublishStatus]: { icon: keyof typeof Ionicons.glyphMap; color: string; text: string };
+} = {
+  draft: {
+    icon: 'create-outline',
+    color: theme.colors.warning,
+    text: 'Draft. Only you and reviewers can see this lesson.',
+  },
+  in_review: {
+    icon: 'hourglass-outline',
+    color: theme.colors.info,
+    text: 'Waiting for review. Learners will see it once it\'s approved.',
+  },
+  published: {
+    icon: 'globe-outline',
+    color: theme.colors.success,
+    text: 'Published. Changes you make are reviewed before learners see them.',
+  },
+  archived: {
+    icon: 'archive-outline',
+    color: theme.colors.gray[500],
+    text: 'Archived. Hidden from the catalog; learners who started it keep access.',
+  },
+};
+
+// Write a new lesson or edit one of the instructor's own. Changes are saved
+// to the lesson's revision and only reach learners once a reviewer approves
+// them.
+export default function LessonEditorScreen({ navigation, route }: Props) {
+  const { user } = useAuth();
+  const lessonId: string | undefined = route.params?.lessonId;
+  const [lesson, setLesson] = useState<AuthoredLesson | null>(null);
+  const [revision, setRevision] = useState<LessonRevision | null>(null);
+  const [draft, setDraft] = useState<LessonDraft>(emptyDraft);
+  const [errors, setErrors] = useState<DraftErrors>({});
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(!!lessonId);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const leaving = useRef(false);
+
+  useEffect(() => {
+    loadLesson();
+    LessonsService.getCategories().then(result => {
+      if (result.success) {
+        setCategories(result.data!.filter(Boolean).sort());
+      }
+    });
+  }, [lessonId]);
+
+  // Ask before leaving with unsaved changes
+  useEffect(() => {
+    return navigation.addListener('beforeRemove', (e) => {
+      if (!dirty || leaving.current) return;
+
+      e.preventDefault();
+      Alert.alert('Discard Changes?', 'Your unsaved changes to this lesson will be lost.', [
+        { text: 'Keep Editing', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => navigation.dispatch(e.data.action) },
+      ]);
+    });
+  }, [navigation, dirty]);
+
+  const loadLesson = async () => {
+    if (!lessonId || !user) return;
+
+    try {
+      setError(null);
+      const result = await AuthoringService.getWorkspace(lessonId);
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to load lesson');
+        return;
+      }
+      if (result.data.lesson.author_id !== user.id) {
+        setError('You can only edit lessons you wrote');
+        return;
+      }
+
+      applyWorkspace(result.data);
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading lesson:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDraft = (changes: Partial<LessonDraft>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setDirty(true);
+    // Clear errors on the fields being edited
+    const edited = Object.keys(changes) as (keyof LessonDraft)[];
+    if (edited.some(field => errors[field])) {
+      setErrors(current => {
+        const remaining = { ...current };
+        edited.forEach(field => delete remaining[field]);
+        return remaining;
+      });
+    }
+  };
+
+  // Pick up the saved revision, including the ids given to new sections
+  const applyRevision = (saved: LessonRevision) => {
+    setRevision(saved);
+    setDraft(draftFromLesson(saved));
+    setDirty(false);
+  };
+
+  const applyWorkspace = (workspace: LessonWorkspace) => {
+    setLesson(workspace.lesson);
+    applyRevision(workspace.revision);
+  };
+
+  // Save the draft, creating the lesson the first time. Returns the
+  // lesson's id once saved.
+  const saveDraft = async (): Promise<string | null> => {
+    if (!user) return null;
+
+    const detailErrors = validateLessonDetails(draft);
+    setErrors(detailErrors);
+    if (Object.keys(detailErrors).length > 0) {
+      Alert.alert('Check the Details', 'Fix the highlighted fields before saving.');
+      return null;
+    }
+
+    if (lesson) {
+      const result = await AuthoringService.saveRevision(lesson.id, draft);
+      if (!result.success) {
+        Alert.alert('Could Not Save', result.error || 'Failed to save lesson');
+        return null;
+      }
+      applyRevision(result.data!);
+      return lesson.id;
+    }
+
+    const result = await AuthoringService.createLesson(user.id, draft);
+    if (!result.success) {
+      Alert.alert('Could Not Save', result.error || 'Failed to save lesson');
+      return null;
+    }
+    applyWorkspace(result.data!);
+    return result.data!.lesson.id;
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveDraft();
+    } catch (err) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    const issues = getPublishIssues(draft);
+    if (issues.length > 0) {
+      Alert.alert('Not Ready for Review', issues.join('\n'));
+      return;
+    }
+
+    const message = lesson?.current_version
+      ? 'A reviewer will check your changes. Learners keep seeing the published version until they\'re approved.'
+      : `A reviewer will check “${draft.title.trim()}” before learners can find and take it.`;
+
+    Alert.alert('Submit for Review', message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Submit',
+        onPress: async () => {
+          setSaving(true);
+          try {
+            const savedId = lesson?.id || (await saveDraft());
+            if (!savedId) return;
+
+            const result = await AuthoringService.submitForReview(savedId, draft);
+            if (result.success) {
+              applyWorkspace(result.data!);
+              Alert.alert('Submitted', 'Your lesson is waiting for review.');
+            } else {
+              Alert.alert('Could Not Submit', result.error || 'Failed to submit for review');
+            }
+          } catch (err) {
+            Alert.alert('Error', 'An unexpected error occurred');
+          } finally {
+            setSaving(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleWithdraw = async () => {
+    if (!lesson) return;
+
+    setSaving(true);
+    try {
+      const result = await AuthoringService.withdrawFromReview(lesson.id);
+      if (result.success) {
+        applyWorkspace(result.data!);
+      } else {
+        Alert.alert('Error', result.error || 'Failed to withdraw from review');
+      }
+    } catch (err) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleArchive = (archived: boolean) => {
+    if (!lesson) return;
+
+    const title = archived ? 'Archive Lesson' : 'Restore Lesson';
+    const message = archived
+      ? 'The lesson will be hidden from the catalog. Learners who started it keep access and their progress.'
+      : 'The lesson will be back in the catalog for everyone.';
+
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: archived ? 'Archive' : 'Restore',
+        style: archived ? 'destructive' : 'default',
+        onPress: async () => {
+          setSaving(true);
+          try {
+            const result = await AuthoringService.setArchived(lesson.id, archived);
+            if (result.success) {
+              setLesson(result.data!.lesson);
+            } else {
+              Alert.alert('Error', result.error || `Failed to ${archived ? 'archive' : 'restore'} lesson`);
+            }
+          } catch (err) {
+            Alert.alert('Error', 'An unexpected error occurred');
+          } finally {
+            setSaving(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDelete = () => {
+    if (!lesson) return;
+
+    Alert.alert('Delete Draft', `Delete “${lesson.title}”? This can't be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await AuthoringService.deleteDraft(lesson.id);
+          if (result.success) {
+            leaving.current = true;
+            navigation.goBack();
+          } else {
+            Alert.alert('Error', result.error || 'Failed to delete draft');
+          }
+        },
+      },
+    ]);
+  };
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity
+        onPress={() => navigation.goBack()}
+        style={styles.backButton}
+      >
+        <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>{lessonId ? 'Edit Lesson' : 'New Lesson'}</Text>
+      {!loading && !error ? (
+        <TouchableOpacity
+          onPress={() => setShowPreview(true)}
+          style={styles.headerRight}
+          accessibilityLabel="Preview"
+        >
+          <Ionicons name="eye-outline" size={24} color={theme.colors.primary} />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.headerRight} />
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return <Loading text="Loading lesson..." />;
+  }
+
+  if (error) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar style="dark" />
+        {renderHeader()}
+        <ErrorMessage message={error} onRetry={loadLesson} />
+      </SafeAreaView>
+    );
+  }
+
+  const status = lesson?.status || 'draft';
+  const banner = statusBanners[status];
+  const inReview = revision?.status === 'in_review';
+  const everPublished = !!lesson?.current_version;
+  // Changes waiting to be submitted, compared with what learners see
+  const pendingChanges = !!lesson && !!revision && hasChanges(diffLessons(lesson, revision));
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+      {renderHeader()}
+
+      <KeyboardAvoidingView
+        style={styles.keyboardAvoid}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={[styles.statusBanner, { backgroundColor: banner.color + '15' }]}>
+            <Ionicons name={banner.icon} size={16} color={banner.color} />
+            <Text style={[styles.statusText, { color: banner.color }]}>
+              {everPublished && status !== 'draft' ? `Version ${lesson!.current_version}. ` : ''}
+              {banner.text}
+              {dirty ? ' Unsaved changes.' : ''}
+            </Text>
+          </View>
+
+          {everPublished && (
+            <TouchableOpacity
+              style={styles.historyLink}
+              onPress={() => navigation.navigate('LessonVersions', { lessonId: lesson!.id })}
+            >
+              <Ionicons name="time-outline" size={16} color={theme.colors.primary} />
+              <Text style={styles.historyText}>Version history</Text>
+              <Ionicons name="chevron-forward" size={16} color={theme.colors.primary} />
+            </TouchableOpacity>
+          )}
+
+          {!!revision?.review_note && !inReview && (
+            <Card style={{ ...styles.card, ...styles.reviewNoteCard }}>
+              <Text style={styles.reviewNoteTitle}>Changes requested</Text>
+              <Text style={styles.reviewNoteText}>{revision.review_note}</Text>
+            </Card>
+          )}
+
+          {inReview ? (
+            <Card style={styles.card}>
+              <Text style={styles.cardTitle}>Waiting for Review</Text>
+              <Text style={styles.hint}>
+                These changes can't be edited while a reviewer looks at them. Withdraw them to keep editing.
+              </Text>
+              <LessonDiffView diff={diffLessons(everPublished ? lesson : null, revision!)} />
+            </Card>
+          ) : (
+            <>
+              {/* Details */}
+              <Card style={styles.card}>
+                <Text style={styles.cardTitle}>Details</Text>
+
+                <Input
+                  label="Title"
+                  value={draft.title}
+                  onChangeText={title => updateDraft({ title })}
+                  placeholder="e.g. Your First Loop"
+                  error={errors.title}
+                />
+
+                <Text style={styles.label}>Description</Text>
+                <TextInput
+                  value={draft.description}
+                  onChangeText={description => updateDraft({ description })}
+                  placeholder="What learners will be able to do afterwards"
+                  placeholderTextColor={theme.colors.text.light}
+                  multiline
+                  style={styles.descriptionInput}
+                />
+
+                <Input
+                  label="Category"
+                  value={draft.category}
+                  onChangeText={category => updateDraft({ category })}
+                  placeholder="e.g. JavaScript"
+                  error={errors.category}
+                />
+                {categories.length > 0 && (
+                  <View style={styles.chips}>
+                    {categories.map(category => (
+                      <TouchableOpacity
+                        key={category}
+                        style={[styles.chip, draft.category.trim() === category && styles.chipSelected]}
+                        onPress={() => updateDraft({ category })}
+                      >
+                        <Text style={[styles.chipText, draft.category.trim() === category && styles.chipTextSelected]}>
+                          {category}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
+                <Text style={styles.label}>Difficulty</Text>
+                <View style={styles.chips}>
+                  {DIFFICULTY_LEVELS.map(difficulty => (
+                    <TouchableOpacity
+                      key={difficulty}
+                      style={[styles.chip, draft.difficulty === difficulty && styles.chipSelected]}
+                      onPress={() => updateDraft({ difficulty })}
+                    >
+                      <Text style={[styles.chipText, draft.difficulty === difficulty && styles.chipTextSelected]}>
+                        {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {errors.difficulty && <Text style={styles.errorText}>{errors.difficulty}</Text>}
+
+                <View style={styles.row}>
+                  <Input
+                    label="Duration"
+                    value={draft.duration}
+                    onChangeText={duration => updateDraft({ duration })}
+                    placeholder="15 min"
+                    error={errors.duration}
+                    style={{ ...styles.rowInput, marginRight: theme.spacing.sm }}
+                  />
+                  <Input
+                    label="XP Reward"
+                    value={draft.xp_reward}
+                    onChangeText={xp_reward => updateDraft({ xp_reward })}
+                    placeholder="50"
+                    keyboardType="numeric"
+                    error={errors.xp_reward}
+                    style={styles.rowInput}
+                  />
+                </View>
+              </Card>
+
+              {/* Content */}
+              <Card style={styles.card}>
+                <Text style={styles.cardTitle}>Content</Text>
+                <Text style={styles.hint}>
+                  Each section is a page of the lesson. Learners complete a lesson by working through its required sections.
+                </Text>
+                <LessonContentEditor
+                  content={draft.content}
+                  onChange={content => updateDraft({ content })}
+                />
+              </Card>
+            </>
+          )}
+
+          <View style={styles.actions}>
+            <Button
+              title="Preview"
+              onPress={() => setShowPreview(true)}
+              variant="secondary"
+              style={styles.actionButton}
+            />
+            {inReview ? (
+              <Button
+                title="Withdraw from Review"
+                onPress={handleWithdraw}
+                variant="outline"
+                loading={saving}
+                disabled={saving}
+                style={styles.actionButton}
+              />
+            ) : (
+              <>
+                <Button
+                  title={everPublished ? 'Save Changes' : 'Save Draft'}
+                  onPress={handleSave}
+                  variant="outline"
+                  loading={saving}
+                  disabled={saving || (!!lesson && !dirty)}
+                  style={styles.actionButton}
+                />
+                <Button
+                  title="Submit for Review"
+                  onPress={handleSubmit}
+                  disabled={saving || (everPublished && !dirty && !pendingChanges)}
+                  style={styles.actionButton}
+                />
+              </>
+            )}
+            {status === 'published' && (
+              <Button
+                title="Archive"
+                onPress={() => handleArchive(true)}
+                variant="danger"
+                disabled={saving}
+                style={styles.actionButton}
+              />
+            )}
+            {status === 'archived' && (
+              <Button
+                title="Restore"
+                onPress={() => handleArchive(false)}
+                variant="outline"
+                disabled={saving}
+                style={styles.actionButton}
+              />
+            )}
+            {lesson && status === 'draft' && !everPublished && (
+              <TouchableOpacity onPress={handleDelete} style={styles.deleteButton}>
+                <Text style={styles.deleteText}>Delete draft</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <LessonPreview
+        visible={showPreview}
+        draft={draft}
+        onClose={() => setShowPreview(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+    alignItems: 'flex-end',
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: theme.spacing.xl,
+  },
+  statusBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: theme.spacing.lg,
+    marginTop: theme.spacing.md,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    marginLeft: theme.spacing.sm,
+  },
+  card: {
+    margin: theme.spacing.lg,
+    marginBottom: 0,
+  },
+  historyLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: theme.spacing.lg,
+    marginTop: theme.spacing.md,
+  },
+  historyText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+    marginLeft: theme.spacing.xs,
+  },
+  reviewNoteCard: {
+    borderLeftWidth: 4,
+    borderLeftColor: theme.colors.warning,
+  },
+  reviewNoteTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.xs,
+  },
+  reviewNoteText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+  },
+  cardTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.md,
+  },
+  label: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.xs,
+  },
+  descriptionInput: {
+    minHeight: 80,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[300],
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    backgroundColor: theme.colors.background,
+    textAlignVertical: 'top',
+    marginBottom: theme.spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.gray[200],
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontWeight: theme.fontWeight.medium,
+  },
+  chipTextSelected: {
+    color: theme.colors.text.white,
+  },
+  errorText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.error,
+    marginBottom: theme.spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.sm,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: theme.spacing.md,
+  },
+  actions: {
+    padding: theme.spacing.lg,
+  },
+  actionButton: {
+    marginBottom: theme.spacing.sm,
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+  },
+  deleteText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.error,
+    fontWeight: theme.fontWeight.medium,
+  },
+});
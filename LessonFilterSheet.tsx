@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { Button } from './UI';
+import {
+  LessonFilters,
+  NumberRange,
+  DEFAULT_LESSON_FILTERS,
+  SORT_OPTIONS,
+  STATUS_OPTIONS,
+  DURATION_RANGES,
+  XP_RANGES,
+  isSameRange,
+} from '../utils/lessonFilters';
+
+interface LessonFilterSheetProps {
+  visible: boolean;
+  filters: LessonFilters;
+  categories: string[];
+  difficulties: string[];
+  onApply: (filters: LessonFilters) => void;
+  onClose: () => void;
+}
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+function Chip({ label, selected, onPress }: ChipProps) {
+  return (
+    <TouchableOpacity style={[styles.chip, selected && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+// Bottom sheet for the catalog's sort order and filters. Changes are kept in
+// a draft until applied.
+export function LessonFilterSheet({ visible, filters, categories, difficulties, onApply, onClose }: LessonFilterSheetProps) {
+  const [draft, setDraft] = useState<LessonFilters>(filters);
+
+  useEffect(() => {
+    if (visible) setDraft(filters);
+  }, [visible]);
+
+  const update = (changes: Partial<LessonFilters>) => setDraft(current => ({ ...current, ...changes }));
+
+  // Tapping the selected range again clears it
+  const toggleRange = (current: NumberRange, range: NumberRange) =>
+    isSameRange(current, range) ? { min: null, max: null } : range;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Sort & Filter</Text>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close">
+              <Ionicons name="close" size={24} color={theme.colors.text.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionTitle}>Sort by</Text>
+            <View style={styles.chips}>
+              {SORT_OPTIONS.map(option => (
+                <Chip
+                  key={option.value}
+                  label={option.label}
+                  selected={draft.sort === option.value}
+                  onPress={() => update({ sort: option.value })}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>Status</Text>
+            <View style={styles.chips}>
+              {STATUS_OPTIONS.map(option => (
+                <Chip
+                  key={option.value}
+                  label={option.label}
+                  selected={draft.statuses.includes(option.value)}
+                  onPress={() => update({ statuses: toggle(draft.statuses, option.value) })}
+                />
+              ))}
+              <Chip
+                label="Saved"
+                selected={draft.savedOnly}
+                onPress={() => update({ savedOnly: !draft.savedOnly })}
+              />
+            </View>
+
+            {categories.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Categories</Text>
+                <View style={styles.chips}>
+                  {categories.map(category => (
+                    <Chip
+                      key={category}
+                      label={category}
+                      selected={draft.categories.includes(category)}
+                      onPress={() => update({ categories: toggle(draft.categories, category) })}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+
+            {difficulties.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Difficulty</Text>
+                <View style={styles.chips}>
+                  {difficulties.map(difficulty => (
+                    <Chip
+                      key={difficulty}
+                      label={difficulty}
+                      selected={draft.difficulties.includes(difficulty)}
+                      onPress={() => update({ difficulties: toggle(draft.difficulties, difficulty) })}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.sectionTitle}>Duration</Text>
+            <View style={styles.chips}>
+              {DURATION_RANGES.map(option => (
+                <Chip
+                  key={option.label}
+                  label={option.label}
+                  selected={isSameRange(draft.duration, option.range)}
+                  onPress={() => update({ duration: toggleRange(draft.duration, option.range) })}
+                />
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>XP Reward</Text>
+            <View style={styles.chips}>
+              {XP_RANGES.map(option => (
+                <Chip
+                  key={option.label}
+                  label={option.label}
+                  selected={isSameRange(draft.xp, option.range)}
+                  onPress={() => update({ xp: toggleRange(draft.xp, option.range) })}
+                />
+              ))}
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <Button
+              title="Reset"
+              variant="outline"
+              onPress={() => setDraft(DEFAULT_LESSON_FILTERS)}
+              style={styles.footerButton}
+            />
+            <Button
+              title="Show Lessons"
+              onPress={() => onApply(draft)}
+              style={{ ...styles.footerButton, ...styles.applyButton }}
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: theme.colors.background,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    ...theme.shadows.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  sectionTitle: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.gray[200],
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontWeight: theme.fontWeight.medium,
+    textTransform: 'capitalize',
+  },
+  chipTextSelected: {
+    color: theme.colors.text.white,
+  },
+  footer: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.lg,
+  },
+  footerButton: {
+    flex: 1,
+  },
+  applyButton: {
+    marginLeft: theme.spacing.md,
+  },
+});
@@ -0,0 +1,193 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { Card } from './UI';
+import { LessonContentView } from './LessonContentView';
+import { LessonDraft, getDraftContent } from '../utils/lessonDraft';
+
+interface LessonPreviewProps {
+  visible: boolean;
+  draft: LessonDraft;
+  onClose: () => void;
+}
+
+const getDifficultyColor = (difficulty: string) => {
+  switch (difficulty.toLowerCase()) {
+    case 'beginner':
+      return theme.colors.success;
+    case 'intermediate':
+      return theme.colors.warning;
+    case 'advanced':
+      return theme.colors.error;
+    default:
+      return theme.colors.primary;
+  }
+};
+
+// The draft as learners will see it on the lesson screen, before it's saved
+export function LessonPreview({ visible, draft, onClose }: LessonPreviewProps) {
+  const content = getDraftContent(draft);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton} accessibilityLabel="Close preview">
+            <Ionicons name="close" size={24} color={theme.colors.text.primary} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Preview</Text>
+          <View style={styles.headerRight} />
+        </View>
+
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <View style={styles.banner}>
+            <Ionicons name="eye-outline" size={16} color={theme.colors.info} />
+            <Text style={styles.bannerText}>Learners will see this once the lesson is published</Text>
+          </View>
+
+          <Card style={styles.lessonHeader}>
+            <View style={styles.lessonMeta}>
+              <View style={[styles.difficultyBadge, { backgroundColor: getDifficultyColor(draft.difficulty) }]}>
+                <Text style={styles.difficultyText}>{draft.difficulty}</Text>
+              </View>
+              <Text style={styles.xpReward}>+{Number(draft.xp_reward) || 0} XP</Text>
+            </View>
+
+            <Text style={styles.lessonTitle}>{draft.title.trim() || 'Untitled lesson'}</Text>
+
+            {!!draft.description.trim() && (
+              <Text style={styles.lessonDescription}>{draft.description.trim()}</Text>
+            )}
+
+            <View style={styles.infoRow}>
+              <Ionicons name="folder-outline" size={18} color={theme.colors.text.secondary} />
+              <Text style={styles.infoText}>{draft.category.trim() || 'No category'}</Text>
+            </View>
+            {!!draft.duration.trim() && (
+              <View style={styles.infoRow}>
+                <Ionicons name="time-outline" size={18} color={theme.colors.text.secondary} />
+                <Text style={styles.infoText}>{draft.duration.trim()}</Text>
+              </View>
+            )}
+          </Card>
+
+          <Card style={styles.contentCard}>
+            <Text style={styles.contentTitle}>Lesson Content</Text>
+            {content.sections.length > 0 ? (
+              <LessonContentView content={content} />
+            ) : (
+              <Text style={styles.emptyText}>This lesson has no content yet.</Text>
+            )}
+          </Card>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  closeButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: theme.spacing.lg,
+    marginTop: theme.spacing.md,
+    padding: theme.spacing.sm,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.info + '15',
+  },
+  bannerText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.info,
+    marginLeft: theme.spacing.sm,
+  },
+  lessonHeader: {
+    margin: theme.spacing.lg,
+  },
+  lessonMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  difficultyBadge: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.lg,
+  },
+  difficultyText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.white,
+    textTransform: 'uppercase',
+  },
+  xpReward: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.primary,
+  },
+  lessonTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.md,
+    lineHeight: 32,
+  },
+  lessonDescription: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.lg,
+    lineHeight: 24,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  infoText: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.secondary,
+    marginLeft: theme.spacing.sm,
+  },
+  contentCard: {
+    margin: theme.spacing.lg,
+    marginTop: 0,
+  },
+  contentTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.md,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.secondary,
+  },
+});
@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { AuthoringService, LessonWorkspace } from '../../services/authoring';
+import { ReviewService } from '../../services/lessonReview';
+import { Card, Button, Loading, ErrorMessage } from '../../components/UI';
+import { LessonDiffView } from '../../components/LessonDiffView';
+import { LessonPreview } from '../../components/LessonPreview';
+import { draftFromLesson } from '../../utils/lessonDraft';
+import { diffLessons } from '../../utils/lessonVersions';
+import { theme } from '../../config/theme';
+import { AuthoringStackParamList } from '../../types';
+
+type LessonReviewScreenNavigationProp = StackNavigationProp<AuthoringStackParamList, 'LessonReview'>;
+type LessonReviewScreenRouteProp = RouteProp<AuthoringStackParamList, 'LessonReview'>;
+
+interface Props {
+  navigation: LessonReviewScreenNavigationProp;
+  route: LessonReviewScreenRouteProp;
+}
+
+// Review a lesson waiting in the queue: what changed since the published
+// version, a preview as learners will see it, then approve or send it back
+export default function LessonReviewScreen({ navigation, route }: Props) {
+  const { user } = useAuth();
+  const { lessonId } = route.params;
+  const [workspace, setWorkspace] = useState<LessonWorkspace | null>(null);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+
+  useEffect(() => {
+    loadLesson();
+  }, [lessonId]);
+
+  const loadLesson = async () => {
+    try {
+      setError(null);
+      const result = await AuthoringService.getWorkspace(lessonId);
+      if (result.success) {
+        setWorkspace(result.data!);
+      } else {
+        setError(result.error || 'Failed to load lesson');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading lesson for review:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = () => {
+    if (!workspace) return;
+
+    Alert.alert('Approve', `Publish these changes to “${workspace.revision.title}”? Learners see them straight away.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Approve',
+        onPress: async () => {
+          setSubmitting(true);
+          try {
+            const result = await ReviewService.approve(workspace, note);
+            if (result.success) {
+              Alert.alert('Approved', `Version ${result.data} is now live.`);
+              navigation.goBack();
+            } else {
+              Alert.alert('Could Not Approve', result.error || 'Failed to approve lesson');
+            }
+          } catch (err) {
+            Alert.alert('Error', 'An unexpected error occurred');
+          } finally {
+            setSubmitting(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRequestChanges = async () => {
+    if (!workspace) return;
+
+    if (!note.trim()) {
+      Alert.alert('Add a Note', 'Let the author know what to change.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await ReviewService.requestChanges(workspace.lesson.id, note);
+      if (result.success) {
+        Alert.alert('Sent Back', 'The author can see your note and make changes.');
+        navigation.goBack();
+      } else {
+        Alert.alert('Error', result.error || 'Failed to request changes');
+      }
+    } catch (err) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity
+        onPress={() => navigation.goBack()}
+        style={styles.backButton}
+      >
+        <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>Review Lesson</Text>
+      {workspace ? (
+        <TouchableOpacity
+          onPress={() => setShowPreview(true)}
+          style={styles.headerRight}
+          accessibilityLabel="Preview"
+        >
+          <Ionicons name="eye-outline" size={24} color={theme.colors.primary} />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.headerRight} />
+      )}
+    </View>
+  );
+
+  if (loading) {
+    return <Loading text="Loading lesson..." />;
+  }
+
+  if (error || !workspace) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar style="dark" />
+        {renderHeader()}
+        <ErrorMessage message={error || 'Lesson not found'} onRetry={loadLesson} />
+      </SafeAreaView>
+    );
+  }
+
+  const { lesson, revision } = workspace;
+  const isUpdate = !!lesson.current_version;
+  const waiting = revision.status === 'in_review';
+  const ownLesson = lesson.author_id === user?.id;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+      {renderHeader()}
+
+      <KeyboardAvoidingView
+        style={styles.keyboardAvoid}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <Card style={styles.card}>
+            <Text style={styles.lessonTitle}>{revision.title}</Text>
+            <Text style={styles.meta}>
+              {isUpdate ? `Changes to version ${lesson.current_version}` : 'New lesson'}
+              {revision.submitted_at ? ` · Submitted ${new Date(revision.submitted_at).toLocaleDateString()}` : ''}
+            </Text>
+          </Card>
+
+          <Card style={styles.card}>
+            <Text style={styles.cardTitle}>{isUpdate ? 'What Changed' : 'Contents'}</Text>
+            <LessonDiffView diff={diffLessons(isUpdate ? lesson : null, revision)} />
+            <Button
+              title="Preview as a Learner"
+              onPress={() => setShowPreview(true)}
+              variant="secondary"
+              style={styles.previewButton}
+            />
+          </Card>
+
+          {waiting && !ownLesson ? (
+            <Card style={styles.card}>
+              <Text style={styles.cardTitle}>Your Review</Text>
+              <TextInput
+                value={note}
+                onChangeText={setNote}
+                placeholder="A note for the author. Required when asking for changes."
+                placeholderTextColor={theme.colors.text.light}
+                multiline
+                style={styles.noteInput}
+              />
+              <Button
+                title="Approve and Publish"
+                onPress={handleApprove}
+                loading={submitting}
+                disabled={submitting}
+                style={styles.actionButton}
+              />
+              <Button
+                title="Request Changes"
+                onPress={handleRequestChanges}
+                variant="outline"
+                disabled={submitting}
+                style={styles.actionButton}
+              />
+            </Card>
+          ) : (
+            <Text style={styles.notice}>
+              {ownLesson
+                ? 'You wrote this lesson, so another reviewer needs to review it.'
+                : 'This lesson is no longer waiting for review.'}
+            </Text>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      <LessonPreview
+        visible={showPreview}
+        draft={draftFromLesson(revision)}
+        onClose={() => setShowPreview(false)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+    alignItems: 'flex-end',
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: theme.spacing.xl,
+  },
+  card: {
+    margin: theme.spacing.lg,
+    marginBottom: 0,
+  },
+  lessonTitle: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  meta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xs,
+  },
+  cardTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.md,
+  },
+  previewButton: {
+    marginTop: theme.spacing.md,
+  },
+  noteInput: {
+    minHeight: 100,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[300],
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    backgroundColor: theme.colors.background,
+    textAlignVertical: 'top',
+    marginBottom: theme.spacing.md,
+  },
+  actionButton: {
+    marginBottom: theme.spacing.sm,
+  },
+  notice: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    margin: theme.spacing.lg,
+  },
+});
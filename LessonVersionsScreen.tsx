@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { AuthoringService, LessonVersion, LessonWorkspace } from '../../services/authoring';
+import { Button, Loading, ErrorMessage, EmptyState } from '../../components/UI';
+import { LessonDiffView } from '../../components/LessonDiffView';
+import { diffLessons } from '../../utils/lessonVersions';
+import { theme } from '../../config/theme';
+import { AuthoringStackParamList } from '../../types';
+
+type LessonVersionsScreenNavigationProp = StackNavigationProp<AuthoringStackParamList, 'LessonVersions'>;
+type LessonVersionsScreenRouteProp = RouteProp<AuthoringStackParamList, 'LessonVersions'>;
+
+interface Props {
+  navigation: LessonVersionsScreenNavigationProp;
+  route: LessonVersionsScreenRouteProp;
+}
+
+// Every published version of a lesson, what changed in each, and rolling
+// back to an earlier one
+export default function LessonVersionsScreen({ navigation, route }: Props) {
+  const { user } = useAuth();
+  const { lessonId } = route.params;
+  const [workspace, setWorkspace] = useState<LessonWorkspace | null>(null);
+  const [versions, setVersions] = useState<LessonVersion[]>([]);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadVersions();
+  }, [lessonId]);
+
+  const loadVersions = async () => {
+    try {
+      setError(null);
+      const [workspaceResult, versionsResult] = await Promise.all([
+        AuthoringService.getWorkspace(lessonId),
+        AuthoringService.getVersions(lessonId),
+      ]);
+
+      if (!workspaceResult.success || !versionsResult.success) {
+        setError(workspaceResult.error || versionsResult.error || 'Failed to load version history');
+        return;
+      }
+
+      setWorkspace(workspaceResult.data!);
+      setVersions(versionsResult.data!);
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading lesson versions:', err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadVersions();
+  };
+
+  const handleRollback = (version: LessonVersion) => {
+    if (!workspace) return;
+
+    Alert.alert(
+      'Roll Back',
+      `Publish version ${version.version} again? It becomes a new version, and learners see it straight away. Their progress is kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Roll Back',
+          style: 'destructive',
+          onPress: async () => {
+            setRollingBack(true);
+            try {
+              const result = await AuthoringService.rollback(workspace.lesson, version);
+              if (result.success) {
+                setExpanded(null);
+                await loadVersions();
+              } else {
+                Alert.alert('Could Not Roll Back', result.error || 'Failed to roll back lesson');
+              }
+            } catch (err) {
+              Alert.alert('Error', 'An unexpected error occurred');
+            } finally {
+              setRollingBack(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const lesson = workspace?.lesson;
+  const isAuthor = !!lesson && lesson.author_id === user?.id;
+  // Rolling back publishes straight away, so not while other changes wait
+  // for review or the lesson is archived
+  const canRollBack = isAuthor && lesson!.status === 'published' && workspace!.revision.status !== 'in_review';
+
+  const renderVersion = ({ item: version, index }: { item: LessonVersion; index: number }) => {
+    const isCurrent = version.version === lesson?.current_version;
+    const isExpanded = expanded === version.version;
+    const previous = versions[index + 1] || null;
+
+    return (
+      <View style={styles.versionRow}>
+        <TouchableOpacity
+          style={styles.versionHeader}
+          onPress={() => setExpanded(isExpanded ? null : version.version)}
+        >
+          <View style={styles.versionInfo}>
+            <View style={styles.versionTitleRow}>
+              <Text style={styles.versionTitle}>Version {version.version}</Text>
+              {isCurrent && (
+                <View style={styles.currentBadge}>
+                  <Text style={styles.currentText}>Live</Text>
+                </View>
+              )}
+            </View>
+            <Text style={styles.versionMeta}>{new Date(version.created_at).toLocaleString()}</Text>
+            {!!version.note && <Text style={styles.versionNote}>{version.note}</Text>}
+          </View>
+          <Ionicons
+            name={isExpanded ? 'chevron-up' : 'chevron-down'}
+            size={18}
+            color={theme.colors.text.light}
+          />
+        </TouchableOpacity>
+
+        {isExpanded && (
+          <View style={styles.versionDetails}>
+            <LessonDiffView
+              diff={diffLessons(previous, version)}
+              emptyText="Same content as the previous version."
+            />
+            {canRollBack && !isCurrent && (
+              <Button
+                title={`Roll Back to Version ${version.version}`}
+                onPress={() => handleRollback(version)}
+                variant="outline"
+                loading={rollingBack}
+                disabled={rollingBack}
+                style={styles.rollbackButton}
+              />
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return <Loading text="Loading version history..." />;
+    }
+
+    if (error) {
+      return <ErrorMessage message={error} onRetry={loadVersions} />;
+    }
+
+    return (
+      <FlatList
+        data={versions}
+        renderItem={renderVersion}
+        keyExtractor={(item) => item.id}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        ListHeaderComponent={
+          lesson ? <Text style={styles.lessonTitle} numberOfLines={2}>{lesson.title}</Text> : null
+        }
+        ListEmptyComponent={
+          <EmptyState
+            title="No Versions Yet"
+            message="A version is saved each time a reviewer approves this lesson."
+          />
+        }
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Version History</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+    alignItems: 'flex-end',
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: theme.spacing.xl,
+  },
+  lessonTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.secondary,
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+  },
+  versionRow: {
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+  },
+  versionInfo: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  versionTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  versionTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  currentBadge: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.success + '20',
+    marginLeft: theme.spacing.sm,
+  },
+  currentText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.success,
+  },
+  versionMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  versionNote: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.xs,
+  },
+  versionDetails: {
+    paddingHorizontal: theme.spacing.lg,
+    paddingBottom: theme.spacing.md,
+  },
+  rollbackButton: {
+    marginTop: theme.spacing.sm,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,6 +7,8 @@ import {
   RefreshControl,
   TouchableOpacity,
   Alert,
+  ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -15,10 +17,20 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { CompositeNavigationProp } from '@react-navigation/native';
 
 import { useAuth } from '../../contexts/AuthContext';
-import { LessonsService } from '../../services/lessons';
+import { useNetwork } from '../../contexts/NetworkContext';
+import { useBookmarks } from '../../contexts/BookmarksContext';
+import { PendingSyncIndicator } from '../../components/PendingSyncIndicator';
+import { LessonsService, LessonCursor } from '../../services/lessons';
+import { PathsService, LearningPath } from '../../services/paths';
+import { PrerequisiteMap, calculatePathProgress, isLessonLocked } from '../../utils/learningPaths';
+import { LessonSearchResult, getSearchTerms } from '../../utils/lessonSearch';
+import { HighlightedText } from '../../components/HighlightedText';
+import { RatingSummary } from '../../components/StarRating';
+import { LessonFilterSheet } from '../../components/LessonFilterSheet';
+import { LessonFilters, CatalogLesson, DEFAULT_LESSON_FILTERS, countActiveFilters } from '../../utils/lessonFilters';
 import { Card, Loading, ErrorMessage, EmptyState } from '../../components/UI';
 import { theme } from '../../config/theme';
-import { Lesson, UserProgress, LessonFilter, LessonsStackParamList } from '../../types';
+import { Lesson, UserProgress, LessonsStackParamList } from '../../types';
 
 type LessonsScreenNavigationProp = StackNavigationProp<LessonsStackParamList, 'LessonsList'>;
 
@@ -28,34 +40,56 @@ interface Props {
 
 export default function LessonsScreen({ navigation }: Props) {
   const { user } = useAuth();
-  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const { isOnline } = useNetwork();
+  const { bookmarkedIds, toggleBookmark } = useBookmarks();
+  const [lessons, setLessons] = useState<CatalogLesson[]>([]);
   const [userProgress, setUserProgress] = useState<{ [key: string]: UserProgress }>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [categories, setCategories] = useState<string[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [selectedDifficulty, setSelectedDifficulty] = useState<string | null>(null);
+  const [difficulties, setDifficulties] = useState<string[]>([]);
+  const [filters, setFilters] = useState<LessonFilters>(DEFAULT_LESSON_FILTERS);
+  const [filtersLoaded, setFiltersLoaded] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  // Changes with the saved list while the Saved filter is on, to reload it
+  const savedKey = filters.savedOnly ? Array.from(bookmarkedIds).sort().join(',') : '';
+  const [paths, setPaths] = useState<LearningPath[]>([]);
+  const [prerequisites, setPrerequisites] = useState<PrerequisiteMap>({});
+  const [nextCursor, setNextCursor] = useState<LessonCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Bumped whenever the list restarts, so pages from an older filter are dropped
+  const listRequest = useRef(0);
+  // The list request whose next page is loading, so onEndReached firing again
+  // before the next render doesn't fetch the same page twice
+  const pageRequest = useRef<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<LessonSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const searchRequest = useRef(0);
+  const searchTerms = useMemo(() => getSearchTerms(searchQuery), [searchQuery]);
+  const isSearching = searchTerms.length > 0;
 
   const loadLessons = async () => {
-    if (!user) return;
+    if (!user || !filtersLoaded) return;
+    const request = ++listRequest.current;
+    // A page still loading for the previous list is dropped when it arrives
+    setLoadingMore(false);
 
     try {
       setError(null);
-      
-      // Build filter
-      const filter: LessonFilter = {};
-      if (selectedCategory) filter.category = selectedCategory;
-      if (selectedDifficulty) filter.difficulty = selectedDifficulty;
 
-      // Fetch lessons
-      const lessonsResult = await LessonsService.fetchLessons(filter);
+      // Fetch the first page of lessons
+      const lessonsResult = await LessonsService.fetchLessonsPage(filters, null, undefined, user.id);
+      if (request !== listRequest.current) return;
       
       if (lessonsResult.success) {
-        setLessons(lessonsResult.data || []);
+        setLessons(lessonsResult.data!.lessons);
+        setNextCursor(lessonsResult.data!.nextCursor);
         
         // Fetch user progress for all lessons
         const progressResult = await LessonsService.getAllUserProgress(user.id);
+        if (request !== listRequest.current) return;
         if (progressResult.success) {
           const progressMap: { [key: string]: UserProgress } = {};
           (progressResult.data || []).forEach(p => {
@@ -67,35 +101,160 @@ export default function LessonsScreen({ navigation }: Props) {
         setError(lessonsResult.error || 'Failed to load lessons');
       }
     } catch (err) {
+      if (request !== listRequest.current) return;
       setError('An unexpected error occurred');
       console.error('Error loading lessons:', err);
     } finally {
-      setLoading(false);
+      if (request === listRequest.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  // Infinite scroll: fetch the page after the last one loaded
+  const loadMoreLessons = async () => {
+    if (!user || !nextCursor || pageRequest.current === listRequest.current) return;
+    const request = listRequest.current;
+    pageRequest.current = request;
+    setLoadingMore(true);
+
+    try {
+      const lessonsResult = await LessonsService.fetchLessonsPage(filters, nextCursor, undefined, user.id);
+      if (request !== listRequest.current) return;
+
+      if (lessonsResult.success) {
+        setLessons(current => [...current, ...lessonsResult.data!.lessons]);
+        setNextCursor(lessonsResult.data!.nextCursor);
+      } else {
+        console.error('Error loading more lessons:', lessonsResult.error);
+      }
+    } catch (err) {
+      console.error('Error loading more lessons:', err);
+    } finally {
+      if (pageRequest.current === request) {
+        pageRequest.current = null;
+      }
+      // A newer list already reset loadingMore when it started
+      if (request === listRequest.current) {
+        setLoadingMore(false);
+      }
     }
   };
 
-  const loadCategories = async () => {
+  const loadPaths = async () => {
     try {
-      const categoriesResult = await LessonsService.getCategories();
+      const [pathsResult, prerequisitesResult] = await Promise.all([
+        PathsService.fetchPaths(),
+        PathsService.getPrerequisites(),
+      ]);
+      if (pathsResult.success) {
+        setPaths(pathsResult.data || []);
+      }
+      if (prerequisitesResult.success) {
+        setPrerequisites(prerequisitesResult.data!);
+      }
+    } catch (err) {
+      console.error('Error loading learning paths:', err);
+    }
+  };
+
+  const loadFilterOptions = async () => {
+    try {
+      const [categoriesResult, difficultiesResult] = await Promise.all([
+        LessonsService.getCategories(),
+        LessonsService.getDifficultyLevels(),
+      ]);
       if (categoriesResult.success) {
         setCategories(categoriesResult.data || []);
       }
+      if (difficultiesResult.success) {
+        setDifficulties(difficultiesResult.data || []);
+      }
     } catch (err) {
-      console.error('Error loading categories:', err);
+      console.error('Error loading filter options:', err);
     }
   };
 
+  // Start from the filters chosen last session
+  useEffect(() => {
+    LessonsService.getSavedFilters().then(saved => {
+      setFilters(saved);
+      setFiltersLoaded(true);
+    });
+  }, []);
+
+  const applyFilters = (next: LessonFilters) => {
+    setFilters(next);
+    setShowFilters(false);
+    LessonsService.saveFilters(next);
+  };
+
+  const toggleCategory = (category: string | null) => {
+    applyFilters({
+      ...filters,
+      categories: category === null
+        ? []
+        : filters.categories.includes(category)
+          ? filters.categories.filter(item => item !== category)
+          : [...filters.categories, category],
+    });
+  };
+
   useEffect(() => {
     loadLessons();
-    loadCategories();
-  }, [user, selectedCategory, selectedDifficulty]);
+  }, [user, filters, filtersLoaded, isOnline, savedKey]);
+
+  useEffect(() => {
+    loadPaths();
+    loadFilterOptions();
+  }, [user, isOnline]);
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const request = ++searchRequest.current;
+    if (!isSearching) {
+      setSearchResults(null);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(async () => {
+      const searchResult = await LessonsService.searchLessons(searchQuery, filters, user?.id);
+      if (request !== searchRequest.current) return;
+
+      if (searchResult.success) {
+        setSearchResults(searchResult.data!);
+      } else {
+        console.error('Error searching lessons:', searchResult.error);
+        setSearchResults([]);
+      }
+      setSearching(false);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [searchQuery, filters, isOnline, savedKey]);
 
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadLessons();
+    await Promise.all([loadLessons(), loadPaths()]);
     setRefreshing(false);
   };
 
+  const activeFilterCount = countActiveFilters(filters);
+
+  const resultsById = useMemo(() => {
+    const map: { [lessonId: string]: LessonSearchResult } = {};
+    (searchResults || []).forEach(result => {
+      map[result.lesson.id] = result;
+    });
+    return map;
+  }, [searchResults]);
+
+  const completedIds = new Set(
+    Object.values(userProgress).filter(p => p.completed).map(p => p.lesson_id)
+  );
+
   const handleLessonPress = (lesson: Lesson) => {
     if (!user) {
       Alert.alert('Authentication Required', 'Please sign in to access lessons.');
@@ -104,6 +263,17 @@ export default function LessonsScreen({ navigation }: Props) {
     navigation.navigate('LessonDetail', { lessonId: lesson.id });
   };
 
+  const handleToggleBookmark = async (lesson: Lesson) => {
+    const result = await toggleBookmark(lesson.id);
+    if (!result.success) {
+      Alert.alert('Error', result.error || 'Failed to update bookmark');
+    }
+  };
+
+  const handlePathPress = (path: LearningPath) => {
+    navigation.navigate('PathOverview', { pathId: path.id });
+  };
+
   const getDifficultyColor = (difficulty: string) => {
     switch (difficulty.toLowerCase()) {
       case 'beginner':
@@ -124,14 +294,17 @@ export default function LessonsScreen({ navigation }: Props) {
     return 'CodeSprouts';
   };
 
-  const renderLessonCard = ({ item: lesson }: { item: Lesson }) => {
+  const renderLessonCard = ({ item: lesson }: { item: CatalogLesson }) => {
     const progress = userProgress[lesson.id];
     const progressPercentage = progress ? progress.progress : 0;
     const isCompleted = progress?.completed || false;
+    const isLocked = !progress && isLessonLocked(lesson.id, prerequisites, completedIds);
+    const searchResult = isSearching ? resultsById[lesson.id] : undefined;
+    const isBookmarked = bookmarkedIds.has(lesson.id);
 
     return (
       <TouchableOpacity onPress={() => handleLessonPress(lesson)}>
-        <Card style={styles.lessonCard}>
+        <Card style={isLocked ? { ...styles.lessonCard, ...styles.lessonCardLocked } : styles.lessonCard}>
           <View style={styles.lessonHeader}>
             <View style={styles.lessonMeta}>
               <View style={[
@@ -145,16 +318,47 @@ export default function LessonsScreen({ navigation }: Props) {
                   <Ionicons name="checkmark-circle" size={20} color={theme.colors.success} />
                 </View>
               )}
+              {isLocked && (
+                <View style={styles.completedBadge}>
+                  <Ionicons name="lock-closed" size={18} color={theme.colors.text.light} />
+                </View>
+              )}
+            </View>
+            <View style={styles.lessonActions}>
+              <Text style={styles.xpReward}>+{lesson.xp_reward} XP</Text>
+              <TouchableOpacity
+                onPress={() => handleToggleBookmark(lesson)}
+                style={styles.bookmarkButton}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                accessibilityLabel={isBookmarked ? 'Remove from saved' : 'Save for later'}
+              >
+                <Ionicons
+                  name={isBookmarked ? 'bookmark' : 'bookmark-outline'}
+                  size={20}
+                  color={theme.colors.primary}
+                />
+              </TouchableOpacity>
             </View>
-            <Text style={styles.xpReward}>+{lesson.xp_reward} XP</Text>
           </View>
 
-          <Text style={styles.lessonTitle}>{lesson.title}</Text>
+          <HighlightedText style={styles.lessonTitle} text={lesson.title} terms={searchTerms} />
           
           {lesson.description && (
-            <Text style={styles.lessonDescription} numberOfLines={2}>
-              {lesson.description}
-            </Text>
+            <HighlightedText
+              style={styles.lessonDescription}
+              text={lesson.description}
+              terms={searchTerms}
+              numberOfLines={2}
+            />
+          )}
+
+          {searchResult?.snippet && (
+            <HighlightedText
+              style={styles.searchSnippet}
+              text={searchResult.snippet}
+              terms={searchTerms}
+              numberOfLines={2}
+            />
           )}
 
           <View style={styles.lessonDetails}>
@@ -174,6 +378,12 @@ export default function LessonsScreen({ navigation }: Props) {
               <Ionicons name="person-outline" size={16} color={theme.colors.text.secondary} />
               <Text style={styles.detailText}>{getAuthorName(lesson)}</Text>
             </View>
+
+            {!!lesson.rating_count && (
+              <View style={styles.detailRow}>
+                <RatingSummary average={lesson.rating_average} count={lesson.rating_count} />
+              </View>
+            )}
           </View>
 
           {progressPercentage > 0 && (
@@ -200,12 +410,106 @@ export default function LessonsScreen({ navigation }: Props) {
   const renderHeader = () => (
     <View>
       <View style={styles.header}>
-        <Text style={styles.title}>Coding Lessons</Text>
+        <View style={styles.titleRow}>
+          <Text style={styles.title}>Coding Lessons</Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={() => setShowFilters(true)}
+              style={styles.headerButton}
+              accessibilityLabel="Sort and filter"
+            >
+              <Ionicons name="options-outline" size={24} color={theme.colors.primary} />
+              {activeFilterCount > 0 && (
+                <View style={styles.filterBadge}>
+                  <Text style={styles.filterBadgeText}>{activeFilterCount}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('MyNotes')}
+              style={styles.headerButton}
+              accessibilityLabel="My notes"
+            >
+              <Ionicons name="document-text-outline" size={24} color={theme.colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate('Downloads')} style={styles.downloadsButton}>
+              <Ionicons name="cloud-download-outline" size={24} color={theme.colors.primary} />
+            </TouchableOpacity>
+          </View>
+        </View>
         <Text style={styles.subtitle}>
           Master programming skills with our comprehensive lessons
         </Text>
+
+        <View style={styles.searchBar}>
+          <Ionicons name="search" size={18} color={theme.colors.text.secondary} />
+          <TextInput
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            placeholder="Search lessons"
+            placeholderTextColor={theme.colors.text.light}
+            style={styles.searchInput}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {searchQuery.length > 0 && (
+            <TouchableOpacity onPress={() => setSearchQuery('')} accessibilityLabel="Clear search">
+              <Ionicons name="close-circle" size={18} color={theme.colors.text.light} />
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
 
+      {!isOnline && (
+        <View style={styles.offlineBanner}>
+          <Ionicons name="cloud-offline-outline" size={18} color={theme.colors.warning} />
+          <Text style={styles.offlineText}>You're offline. Showing downloaded lessons.</Text>
+        </View>
+      )}
+      <PendingSyncIndicator style={styles.syncIndicator} />
+
+      {/* Learning Paths */}
+      {paths.length > 0 && (
+        <View style={styles.pathsContainer}>
+          <Text style={styles.filtersTitle}>Learning Paths</Text>
+          <FlatList
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            data={paths}
+            keyExtractor={(path) => path.id}
+            renderItem={({ item: path }) => {
+              const pathProgress = calculatePathProgress(path.lesson_ids, prerequisites, completedIds);
+              return (
+                <TouchableOpacity style={styles.pathCard} onPress={() => handlePathPress(path)}>
+                  <Ionicons
+                    name={(path.icon as keyof typeof Ionicons.glyphMap) || 'map-outline'}
+                    size={24}
+                    color={theme.colors.primary}
+                  />
+                  <Text style={styles.pathTitle} numberOfLines={2}>{path.title}</Text>
+                  <Text style={styles.pathMeta}>
+                    {pathProgress.completedCount}/{pathProgress.total} lessons
+                  </Text>
+                  <View style={styles.progressBar}>
+                    <View
+                      style={[
+                        styles.progressFill,
+                        {
+                          width: `${pathProgress.percent}%`,
+                          backgroundColor: pathProgress.completed ? theme.colors.success : theme.colors.primary,
+                        },
+                      ]}
+                    />
+                  </View>
+                </TouchableOpacity>
+              );
+            }}
+            contentContainerStyle={styles.filtersContent}
+          />
+        </View>
+      )}
+
       {/* Filters */}
       <View style={styles.filtersContainer}>
         <Text style={styles.filtersTitle}>Categories</Text>
@@ -213,23 +517,47 @@ export default function LessonsScreen({ navigation }: Props) {
           horizontal
           showsHorizontalScrollIndicator={false}
           data={[{ name: 'All', value: null }, ...categories.map(c => ({ name: c, value: c }))]}
-          keyExtractor={(item) => item.value || 'all'}
-          renderItem={({ item }) => (
+          ListHeaderComponent={
             <TouchableOpacity
-              style={[
-                styles.filterChip,
-                selectedCategory === item.value && styles.filterChipActive
-              ]}
-              onPress={() => setSelectedCategory(item.value)}
+              style={[styles.filterChip, styles.savedChip, filters.savedOnly && styles.filterChipActive]}
+              onPress={() => applyFilters({ ...filters, savedOnly: !filters.savedOnly })}
             >
+              <Ionicons
+                name={filters.savedOnly ? 'bookmark' : 'bookmark-outline'}
+                size={14}
+                color={filters.savedOnly ? theme.colors.text.white : theme.colors.text.secondary}
+              />
               <Text style={[
                 styles.filterChipText,
-                selectedCategory === item.value && styles.filterChipTextActive
+                styles.savedChipText,
+                filters.savedOnly && styles.filterChipTextActive
               ]}>
-                {item.name}
+                Saved
               </Text>
             </TouchableOpacity>
-          )}
+          }
+          keyExtractor={(item) => item.value || 'all'}
+          renderItem={({ item }) => {
+            const isActive = item.value === null
+              ? filters.categories.length === 0
+              : filters.categories.includes(item.value);
+            return (
+              <TouchableOpacity
+                style={[
+                  styles.filterChip,
+                  isActive && styles.filterChipActive
+                ]}
+                onPress={() => toggleCategory(item.value)}
+              >
+                <Text style={[
+                  styles.filterChipText,
+                  isActive && styles.filterChipTextActive
+                ]}>
+                  {item.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          }}
           contentContainerStyle={styles.filtersContent}
         />
       </View>
@@ -248,17 +576,46 @@ export default function LessonsScreen({ navigation }: Props) {
         <ErrorMessage message={error} onRetry={loadLessons} />
       ) : (
         <FlatList
-          data={lessons}
+          data={isSearching ? (searchResults || []).map(result => result.lesson) : lessons}
           renderItem={renderLessonCard}
           keyExtractor={(item) => item.id}
-          ListHeaderComponent={renderHeader}
+          // Rendered inline rather than passed as a component so the search
+          // input isn't remounted (and unfocused) on every keystroke
+          ListHeaderComponent={renderHeader()}
+          ListFooterComponent={
+            loadingMore || searching ? (
+              <ActivityIndicator style={styles.listFooter} color={theme.colors.primary} />
+            ) : null
+          }
+          onEndReached={isSearching ? undefined : loadMoreLessons}
+          onEndReachedThreshold={0.5}
           ListEmptyComponent={
-            <EmptyState
-              title="No Lessons Found"
-              message={"We couldn't find any lessons matching your criteria. Try adjusting your filters or check back later."}
-              actionText="Refresh"
-              onAction={loadLessons}
-            />
+            isSearching ? (
+              searching ? null : (
+                <EmptyState
+                  title="No Results"
+                  message={`No lessons match "${searchQuery.trim()}".${isOnline ? '' : ' Only downloaded lessons can be searched offline.'}`}
+                  actionText="Clear Search"
+                  onAction={() => setSearchQuery('')}
+                />
+              )
+            ) : (
+              filters.savedOnly && countActiveFilters(filters) === 1 ? (
+                <EmptyState
+                  title="No Saved Lessons"
+                  message="Tap the bookmark on any lesson to save it for later."
+                  actionText="Show All Lessons"
+                  onAction={() => applyFilters({ ...filters, savedOnly: false })}
+                />
+              ) : (
+                <EmptyState
+                  title="No Lessons Found"
+                  message={"We couldn't find any lessons matching your criteria. Try adjusting your filters or check back later."}
+                  actionText="Refresh"
+                  onAction={loadLessons}
+                />
+              )
+            )
           }
           contentContainerStyle={styles.listContent}
           refreshControl={
@@ -267,6 +624,15 @@ export default function LessonsScreen({ navigation }: Props) {
           showsVerticalScrollIndicator={false}
         />
       )}
+
+      <LessonFilterSheet
+        visible={showFilters}
+        filters={filters}
+        categories={categories}
+        difficulties={difficulties}
+        onApply={applyFilters}
+        onClose={() => setShowFilters(false)}
+      />
     </SafeAreaView>
   );
 }
@@ -279,21 +645,116 @@ const styles = StyleSheet.create({
   listContent: {
     flexGrow: 1,
   },
+  listFooter: {
+    paddingVertical: theme.spacing.lg,
+  },
   header: {
     padding: theme.spacing.lg,
     paddingBottom: theme.spacing.md,
   },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.sm,
+  },
   title: {
     fontSize: theme.fontSize.xxl,
     fontWeight: theme.fontWeight.bold,
     color: theme.colors.text.primary,
-    marginBottom: theme.spacing.sm,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    padding: theme.spacing.sm,
+  },
+  filterBadge: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    minWidth: 16,
+    height: 16,
+    borderRadius: 8,
+    paddingHorizontal: 3,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.error,
+  },
+  filterBadgeText: {
+    fontSize: 10,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.white,
+  },
+  downloadsButton: {
+    padding: theme.spacing.sm,
+    marginRight: -theme.spacing.sm,
+  },
+  syncIndicator: {
+    marginHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.md,
+  },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.md,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.warning + '15',
+  },
+  offlineText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.primary,
+    marginLeft: theme.spacing.sm,
   },
   subtitle: {
     fontSize: theme.fontSize.md,
     color: theme.colors.text.secondary,
     lineHeight: 22,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: theme.spacing.sm,
+    marginLeft: theme.spacing.sm,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+  },
+  pathsContainer: {
+    marginBottom: theme.spacing.lg,
+  },
+  pathCard: {
+    width: 160,
+    padding: theme.spacing.md,
+    marginRight: theme.spacing.sm,
+    borderRadius: theme.borderRadius.lg,
+    backgroundColor: theme.colors.background,
+    ...theme.shadows.sm,
+  },
+  pathTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.sm,
+    minHeight: 40,
+  },
+  pathMeta: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginVertical: theme.spacing.sm,
+  },
   filtersContainer: {
     marginBottom: theme.spacing.md,
   },
@@ -314,6 +775,13 @@ const styles = StyleSheet.create({
     borderRadius: theme.borderRadius.full,
     backgroundColor: theme.colors.gray[200],
   },
+  savedChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  savedChipText: {
+    marginLeft: theme.spacing.xs,
+  },
   filterChipActive: {
     backgroundColor: theme.colors.primary,
   },
@@ -325,10 +793,20 @@ const styles = StyleSheet.create({
   filterChipTextActive: {
     color: theme.colors.text.white,
   },
+  lessonActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bookmarkButton: {
+    marginLeft: theme.spacing.sm,
+  },
   lessonCard: {
     marginHorizontal: theme.spacing.lg,
     marginBottom: theme.spacing.md,
   },
+  lessonCardLocked: {
+    opacity: 0.6,
+  },
   lessonHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -372,6 +850,12 @@ const styles = StyleSheet.create({
     marginBottom: theme.spacing.md,
     lineHeight: 22,
   },
+  searchSnippet: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+    marginBottom: theme.spacing.md,
+  },
   lessonDetails: {
     marginBottom: theme.spacing.md,
   },
@@ -0,0 +1,117 @@
+import React from 'react';
+import { View, Text, StyleSheet, Modal } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { LevelUpEvent } from '../services/leveling';
+import { Button } from './UI';
+
+interface LevelUpModalProps {
+  event: LevelUpEvent | null;
+  xpEarned?: number;
+  onClose: () => void;
+}
+
+// Celebration shown when an XP award takes the learner to a new level
+export function LevelUpModal({ event, xpEarned, onClose }: LevelUpModalProps) {
+  return (
+    <Modal
+      visible={!!event}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        {event && (
+          <View style={styles.container}>
+            <LinearGradient
+              colors={theme.colors.gradient.secondary}
+              style={styles.badge}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 1 }}
+            >
+              <Ionicons name="star" size={36} color={theme.colors.text.white} />
+              <Text style={styles.badgeLevel}>{event.level}</Text>
+            </LinearGradient>
+
+            <Text style={styles.title}>Level Up!</Text>
+            <Text style={styles.message}>
+              You reached level {event.level}
+              {xpEarned ? ` and earned ${xpEarned} XP` : ''}.
+            </Text>
+
+            <View style={styles.progressBar}>
+              <View style={[styles.progressFill, { width: `${Math.round(event.levelInfo.progress * 100)}%` }]} />
+            </View>
+            <Text style={styles.progressText}>
+              {event.levelInfo.xpToNextLevel} XP to level {event.level + 1}
+            </Text>
+
+            <Button title="Keep Learning" onPress={onClose} style={styles.button} />
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: theme.spacing.xl,
+  },
+  container: {
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.borderRadius.xxl,
+    padding: theme.spacing.xl,
+    alignItems: 'center',
+    ...theme.shadows.lg,
+  },
+  badge: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  badgeLevel: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.white,
+  },
+  title: {
+    fontSize: theme.fontSize.xxxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  message: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.lg,
+  },
+  progressBar: {
+    alignSelf: 'stretch',
+    height: 8,
+    backgroundColor: theme.colors.gray[200],
+    borderRadius: theme.borderRadius.md,
+    overflow: 'hidden',
+    marginBottom: theme.spacing.sm,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: theme.colors.accent,
+  },
+  progressText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.lg,
+  },
+  button: {
+    alignSelf: 'stretch',
+  },
+});
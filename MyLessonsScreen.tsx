@@ -0,0 +1,267 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { useAuth, useCan } from '../../contexts/AuthContext';
+import { AuthoringService, AuthoredLessonSummary, PublishStatus } from '../../services/authoring';
+import { Loading, ErrorMessage, EmptyState } from '../../components/UI';
+import { theme } from '../../config/theme';
+import { AuthoringStackParamList } from '../../types';
+
+type MyLessonsScreenNavigationProp = StackNavigationProp<AuthoringStackParamList, 'MyLessons'>;
+
+interface Props {
+  navigation: MyLessonsScreenNavigationProp;
+}
+
+const statusStyles: { [status in PublishStatus]: { label: string; color: string } } = {
+  draft: { label: 'Draft', color: theme.colors.warning },
+  in_review: { label: 'In Review', color: theme.colors.info },
+  published: { label: 'Published', color: theme.colors.success },
+  archived: { label: 'Archived', color: theme.colors.gray[500] },
+};
+
+// Where a published lesson's pending changes are, if anywhere
+const getRevisionHint = (lesson: AuthoredLessonSummary): string | null => {
+  const revision = lesson.lesson_revisions;
+  if (!revision) return null;
+  if (revision.status === 'in_review') {
+    return lesson.status === 'in_review' ? null : 'Changes in review';
+  }
+  return revision.review_note ? 'Changes requested' : null;
+};
+
+// The lessons an instructor has written, drafts included
+export default function MyLessonsScreen({ navigation }: Props) {
+  const { user } = useAuth();
+  const [lessons, setLessons] = useState<AuthoredLessonSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const can = useCan();
+
+  const loadLessons = async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const result = await AuthoringService.getAuthoredLessons(user.id);
+      if (result.success) {
+        setLessons(result.data!);
+      } else {
+        setError(result.error || 'Failed to load your lessons');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading authored lessons:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload on focus to pick up changes saved in the editor
+  useFocusEffect(
+    useCallback(() => {
+      loadLessons();
+    }, [user])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadLessons();
+    setRefreshing(false);
+  };
+
+  const renderLesson = ({ item: lesson }: { item: AuthoredLessonSummary }) => {
+    const status = statusStyles[lesson.status] || statusStyles.draft;
+    const revisionHint = getRevisionHint(lesson);
+    return (
+      <TouchableOpacity
+        style={styles.lessonRow}
+        onPress={() => navigation.navigate('LessonEditor', { lessonId: lesson.id })}
+      >
+        <View style={styles.lessonInfo}>
+          <Text style={styles.lessonTitle} numberOfLines={1}>{lesson.title}</Text>
+          <Text style={styles.lessonMeta} numberOfLines={1}>
+            {lesson.category} · Edited {new Date(lesson.lesson_revisions?.updated_at || lesson.updated_at).toLocaleDateString()}
+          </Text>
+          {revisionHint && <Text style={styles.revisionHint}>{revisionHint}</Text>}
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: status.color + '20' }]}>
+          <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return <Loading text="Loading your lessons..." />;
+    }
+
+    if (error) {
+      return <ErrorMessage message={error} onRetry={loadLessons} />;
+    }
+
+    return (
+      <FlatList
+        data={lessons}
+        renderItem={renderLesson}
+        keyExtractor={(item) => item.id}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        ListHeaderComponent={
+          can('review_lessons') ? (
+            <TouchableOpacity style={styles.reviewLink} onPress={() => navigation.navigate('ReviewQueue')}>
+              <Ionicons name="checkmark-done-outline" size={20} color={theme.colors.primary} />
+              <Text style={styles.reviewLinkText}>Review queue</Text>
+              <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+            </TouchableOpacity>
+          ) : null
+        }
+        ListEmptyComponent={
+          <EmptyState
+            title="No Lessons Yet"
+            message="Lessons you write start as drafts that only you can see until a reviewer approves them."
+            actionText="Write a Lesson"
+            onAction={() => navigation.navigate('LessonEditor', {})}
+          />
+        }
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        {navigation.canGoBack() ? (
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.backButton}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerRight} />
+        )}
+        <Text style={styles.headerTitle}>My Lessons</Text>
+        <TouchableOpacity
+          onPress={() => navigation.navigate('LessonEditor', {})}
+          style={styles.headerRight}
+          accessibilityLabel="New lesson"
+        >
+          <Ionicons name="add" size={26} color={theme.colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+    alignItems: 'flex-end',
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: theme.spacing.xl,
+  },
+  reviewLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+    backgroundColor: theme.colors.background,
+  },
+  reviewLinkText: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  lessonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  lessonInfo: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  lessonTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  lessonMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  revisionHint: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.info,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+    marginRight: theme.spacing.sm,
+  },
+  statusText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+  },
+});
@@ -0,0 +1,277 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TextInput,
+  TouchableOpacity,
+  Share,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { NotesService } from '../../services/notes';
+import { Loading, EmptyState } from '../../components/UI';
+import { HighlightedText } from '../../components/HighlightedText';
+import { highlightColors } from '../../components/NoteEditor';
+import { getSearchTerms } from '../../utils/lessonSearch';
+import { LessonNote, searchNotes, groupNotesByLesson, notesToMarkdown } from '../../utils/studyNotes';
+import { theme } from '../../config/theme';
+import { LessonsStackParamList } from '../../types';
+
+type MyNotesScreenNavigationProp = StackNavigationProp<LessonsStackParamList, 'MyNotes'>;
+
+interface Props {
+  navigation: MyNotesScreenNavigationProp;
+}
+
+// Every note and highlight the learner has made, grouped by lesson
+export default function MyNotesScreen({ navigation }: Props) {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState<LessonNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const loadNotes = async () => {
+    if (!user) return;
+
+    try {
+      const result = await NotesService.getNotes(user.id);
+      if (result.success) {
+        setNotes(result.data!);
+      } else {
+        console.error('Error loading notes:', result.error);
+      }
+    } catch (err) {
+      console.error('Error loading notes:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadNotes();
+    }, [user])
+  );
+
+  const searchTerms = useMemo(() => getSearchTerms(searchQuery), [searchQuery]);
+  const matchingNotes = useMemo(() => searchNotes(notes, searchQuery), [notes, searchQuery]);
+  const sections = useMemo(
+    () => groupNotesByLesson(matchingNotes).map(group => ({ ...group, data: group.notes })),
+    [matchingNotes]
+  );
+
+  // Exports what's listed, so a search exports just its matches
+  const handleExport = async () => {
+    try {
+      await Share.share({
+        title: 'My Notes',
+        message: notesToMarkdown(matchingNotes),
+      });
+    } catch (err) {
+      Alert.alert('Error', 'Failed to export notes');
+    }
+  };
+
+  const renderNote = ({ item: note }: { item: LessonNote }) => (
+    <TouchableOpacity
+      style={styles.noteRow}
+      onPress={() => navigation.navigate('LessonDetail', { lessonId: note.lesson_id })}
+    >
+      <Text style={styles.sectionTitle} numberOfLines={1}>{note.section_title}</Text>
+      {!!note.quote && (
+        <View style={[styles.quote, { borderLeftColor: highlightColors[note.color] }]}>
+          <HighlightedText
+            text={note.quote}
+            terms={searchTerms}
+            style={styles.quoteText}
+            numberOfLines={4}
+          />
+        </View>
+      )}
+      {!!note.body && (
+        <HighlightedText text={note.body} terms={searchTerms} style={styles.noteBody} />
+      )}
+      <Text style={styles.noteDate}>{new Date(note.updated_at).toLocaleDateString()}</Text>
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return <Loading text="Loading notes..." />;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>My Notes</Text>
+        <TouchableOpacity
+          onPress={handleExport}
+          disabled={matchingNotes.length === 0}
+          style={styles.exportButton}
+          accessibilityLabel="Export notes as Markdown"
+        >
+          <Ionicons
+            name="share-outline"
+            size={24}
+            color={matchingNotes.length === 0 ? theme.colors.text.light : theme.colors.primary}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color={theme.colors.text.secondary} />
+        <TextInput
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          placeholder="Search your notes"
+          placeholderTextColor={theme.colors.text.light}
+          style={styles.searchInput}
+          returnKeyType="search"
+          autoCorrect={false}
+        />
+        {searchQuery.length > 0 && (
+          <TouchableOpacity onPress={() => setSearchQuery('')} accessibilityLabel="Clear search">
+            <Ionicons name="close-circle" size={18} color={theme.colors.text.light} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <SectionList
+        sections={sections}
+        renderItem={renderNote}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.lessonTitle} numberOfLines={1}>{section.lessonTitle}</Text>
+        )}
+        keyExtractor={(item) => item.id}
+        stickySectionHeadersEnabled={false}
+        ListEmptyComponent={
+          searchTerms.length > 0 ? (
+            <EmptyState
+              title="No Matching Notes"
+              message="Try different words, or clear the search to see all of your notes."
+            />
+          ) : (
+            <EmptyState
+              title="No Notes Yet"
+              message="Long-press a passage or code snippet while reading a lesson to highlight it and add a note."
+            />
+          )
+        }
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  exportButton: {
+    padding: theme.spacing.sm,
+    marginRight: -theme.spacing.sm,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: theme.spacing.lg,
+    marginBottom: 0,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: theme.spacing.sm,
+    marginLeft: theme.spacing.sm,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: theme.spacing.xl,
+  },
+  lessonTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    paddingHorizontal: theme.spacing.lg,
+    paddingTop: theme.spacing.lg,
+    paddingBottom: theme.spacing.sm,
+  },
+  noteRow: {
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  sectionTitle: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.secondary,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.xs,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    paddingLeft: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  quoteText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+    lineHeight: 20,
+  },
+  noteBody: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    lineHeight: 22,
+  },
+  noteDate: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.light,
+    marginTop: theme.spacing.xs,
+  },
+});
@@ -0,0 +1,70 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { NetworkService } from '../services/network';
+import { LessonCacheService } from '../services/lessonCache';
+import { SyncQueueService } from '../services/syncQueue';
+import { SyncService } from '../services/sync';
+
+interface NetworkContextType {
+  isOnline: boolean;
+  pendingSyncCount: number; // writes waiting in the offline outbox
+  syncNow: () => Promise<void>;
+}
+
+const NetworkContext = createContext<NetworkContextType | undefined>(undefined);
+
+interface NetworkProviderProps {
+  children: ReactNode;
+}
+
+export function NetworkProvider({ children }: NetworkProviderProps) {
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const wasOnline = useRef<boolean | null>(null);
+
+  useEffect(() => {
+    // Refresh downloaded lessons on app start and whenever the connection
+    // comes back, in case their content changed on the server
+    const handleChange = (online: boolean) => {
+      setIsOnline(online);
+      if (online && wasOnline.current !== true) {
+        LessonCacheService.refreshDownloads().then(result => {
+          if (!result.success) {
+            console.error('Error refreshing downloads:', result.error);
+          }
+        });
+      }
+      wasOnline.current = online;
+    };
+
+    const subscription = NetworkService.onChange(handleChange);
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Replay queued offline writes and track how many are left
+  useEffect(() => {
+    SyncQueueService.getPendingCount().then(setPendingSyncCount);
+    const subscription = SyncQueueService.onChange(setPendingSyncCount);
+    const stopSync = SyncService.start();
+
+    return () => {
+      subscription.unsubscribe();
+      stopSync();
+    };
+  }, []);
+
+  const value: NetworkContextType = {
+    isOnline,
+    pendingSyncCount,
+    syncNow: () => SyncService.flush(),
+  };
+
+  return <NetworkContext.Provider value={value}>{children}</NetworkContext.Provider>;
+}
+
+export function useNetwork(): NetworkContextType {
+  const context = useContext(NetworkContext);
+  if (context === undefined) {
+    throw new Error('useNetwork must be used within a NetworkProvider');
+  }
+  return context;
+}
@@ -0,0 +1,378 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp } from '@react-navigation/native';
+
+import { AssignmentService } from '../../services/assignments';
+import { LessonsService } from '../../services/lessons';
+import { Card, Button, Input, Loading, ErrorMessage } from '../../components/UI';
+import { ExerciseBlock, parseLessonContent } from '../../utils/lessonContent';
+import { CatalogLesson } from '../../utils/lessonFilters';
+import { dueAtEndOfDay, getDueDateOptions, getAssignableExercises } from '../../utils/assignmentStatus';
+import { theme } from '../../config/theme';
+import { ClassroomsStackParamList } from '../../types';
+
+type NewAssignmentScreenNavigationProp = StackNavigationProp<ClassroomsStackParamList, 'NewAssignment'>;
+type NewAssignmentScreenRouteProp = RouteProp<ClassroomsStackParamList, 'NewAssignment'>;
+
+interface Props {
+  navigation: NewAssignmentScreenNavigationProp;
+  route: NewAssignmentScreenRouteProp;
+}
+
+const LESSON_RESULTS_LIMIT = 20;
+
+// Assign a lesson, or one exercise in it, to a classroom with a due date
+export default function NewAssignmentScreen({ navigation, route }: Props) {
+  const { classroomId } = route.params;
+  const dueDateOptions = getDueDateOptions();
+  const [lessons, setLessons] = useState<CatalogLesson[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [lesson, setLesson] = useState<CatalogLesson | null>(null);
+  const [exercises, setExercises] = useState<ExerciseBlock[]>([]);
+  const [exercise, setExercise] = useState<ExerciseBlock | null>(null);
+  const [dueDateKey, setDueDateKey] = useState(dueDateOptions[2].dateKey);
+  const [saving, setSaving] = useState(false);
+
+  const loadLessons = async () => {
+    try {
+      setError(null);
+      const result = await LessonsService.fetchLessons();
+      if (result.success) {
+        setLessons(result.data || []);
+      } else {
+        setError(result.error || 'Failed to load lessons');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLessons();
+  }, []);
+
+  const handleSelectLesson = async (selected: CatalogLesson) => {
+    setLesson(selected);
+    setExercise(null);
+    setExercises([]);
+
+    // The catalog leaves out lesson content, which lists the exercises
+    const result = await LessonsService.getLesson(selected.id);
+    if (result.success && result.data) {
+      setExercises(getAssignableExercises(parseLessonContent(result.data.content)));
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!lesson) return;
+
+    setSaving(true);
+    try {
+      const result = await AssignmentService.createAssignment(
+        classroomId,
+        lesson.id,
+        exercise,
+        dueAtEndOfDay(dueDateKey)
+      );
+      if (result.success) {
+        navigation.goBack();
+      } else {
+        Alert.alert('Could Not Assign', result.error || 'Failed to create assignment');
+      }
+    } catch (err) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading text="Loading lessons..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={loadLessons} />;
+  }
+
+  const search = query.trim().toLowerCase();
+  const matchingLessons = lessons
+    .filter(candidate => !search || candidate.title.toLowerCase().includes(search))
+    .slice(0, LESSON_RESULTS_LIMIT);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>New Assignment</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.stepTitle}>1. Lesson</Text>
+        {lesson ? (
+          <Card style={styles.selectedCard}>
+            <View style={styles.selectedRow}>
+              <View style={styles.selectedInfo}>
+                <Text style={styles.selectedTitle}>{lesson.title}</Text>
+                <Text style={styles.selectedMeta}>{lesson.category} · {lesson.difficulty}</Text>
+              </View>
+              <TouchableOpacity onPress={() => setLesson(null)}>
+                <Text style={styles.changeText}>Change</Text>
+              </TouchableOpacity>
+            </View>
+          </Card>
+        ) : (
+          <>
+            <Input
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search lessons"
+              autoCapitalize="none"
+            />
+            <Card style={styles.listCard}>
+              {matchingLessons.length === 0 ? (
+                <Text style={styles.emptyText}>No lessons match “{query.trim()}”.</Text>
+              ) : (
+                matchingLessons.map((candidate, index) => (
+                  <TouchableOpacity
+                    key={candidate.id}
+                    style={index > 0 ? { ...styles.optionRow, ...styles.optionDivider } : styles.optionRow}
+                    onPress={() => handleSelectLesson(candidate)}
+                  >
+                    <View style={styles.selectedInfo}>
+                      <Text style={styles.optionTitle} numberOfLines={1}>{candidate.title}</Text>
+                      <Text style={styles.selectedMeta}>{candidate.category} · {candidate.difficulty}</Text>
+                    </View>
+                    <Ionicons name="add-circle-outline" size={22} color={theme.colors.primary} />
+                  </TouchableOpacity>
+                ))
+              )}
+            </Card>
+          </>
+        )}
+
+        {lesson && (
+          <>
+            <Text style={styles.stepTitle}>2. What to submit</Text>
+            <Card style={styles.listCard}>
+              {[null, ...exercises].map((option, index) => {
+                const selected = (option?.id ?? null) === (exercise?.id ?? null);
+
+                return (
+                  <TouchableOpacity
+                    key={option?.id ?? 'lesson'}
+                    style={index > 0 ? { ...styles.optionRow, ...styles.optionDivider } : styles.optionRow}
+                    onPress={() => setExercise(option)}
+                  >
+                    <Ionicons
+                      name={selected ? 'radio-button-on' : 'radio-button-off'}
+                      size={20}
+                      color={selected ? theme.colors.primary : theme.colors.gray[400]}
+                    />
+                    <View style={styles.optionInfo}>
+                      <Text style={styles.optionTitle}>{option ? option.title || 'Exercise' : 'The whole lesson'}</Text>
+                      <Text style={styles.optionMeta}>
+                        {option ? 'Submitted when the exercise is passed' : 'Submitted when the lesson is completed'}
+                      </Text>
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+            </Card>
+
+            <Text style={styles.stepTitle}>3. Due</Text>
+            <View style={styles.chips}>
+              {dueDateOptions.map(option => {
+                const selected = option.dateKey === dueDateKey;
+
+                return (
+                  <TouchableOpacity
+                    key={option.dateKey}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => setDueDateKey(option.dateKey)}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.dueHint}>
+              Due by the end of {new Date(dueAtEndOfDay(dueDateKey)).toLocaleDateString()}. Work submitted
+              after that is marked late.
+            </Text>
+
+            <Button
+              title="Assign"
+              onPress={handleCreate}
+              loading={saving}
+              disabled={saving}
+              style={styles.assignButton}
+            />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: theme.spacing.lg,
+    paddingBottom: theme.spacing.xl,
+  },
+  stepTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  selectedCard: {
+    marginBottom: theme.spacing.sm,
+  },
+  selectedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  selectedInfo: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  selectedTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  selectedMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+    textTransform: 'capitalize',
+  },
+  optionMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  changeText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+  },
+  listCard: {
+    paddingVertical: theme.spacing.xs,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    paddingVertical: theme.spacing.md,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.md,
+  },
+  optionDivider: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.gray[100],
+  },
+  optionInfo: {
+    flex: 1,
+    marginLeft: theme.spacing.md,
+  },
+  optionTitle: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.full,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[300],
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  chipSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '15',
+  },
+  chipText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: theme.colors.primary,
+    fontWeight: theme.fontWeight.semibold,
+  },
+  dueHint: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    lineHeight: 20,
+    marginTop: theme.spacing.xs,
+  },
+  assignButton: {
+    marginTop: theme.spacing.xl,
+  },
+});
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { Button } from './UI';
+import { monospaceFont } from './CodeSnippet';
+import { HighlightColor, HIGHLIGHT_COLORS } from '../utils/studyNotes';
+
+export const highlightColors: { [color in HighlightColor]: string } = {
+  yellow: '#FDE68A',
+  green: '#BBF7D0',
+  blue: '#BFDBFE',
+  pink: '#FBCFE8',
+};
+
+export interface NoteDraft {
+  quote: string | null;
+  body: string;
+  color: HighlightColor;
+}
+
+interface NoteEditorProps {
+  visible: boolean;
+  title: string; // what the note is attached to, e.g. the section title
+  initial: NoteDraft;
+  isCode?: boolean; // the quote is code
+  saving?: boolean;
+  onSave: (draft: NoteDraft) => void;
+  onDelete?: () => void; // shown when editing an existing note
+  onClose: () => void;
+}
+
+// Bottom sheet for writing a note. The highlighted passage can be trimmed
+// down to the part that matters.
+export function NoteEditor({ visible, title, initial, isCode, saving, onSave, onDelete, onClose }: NoteEditorProps) {
+  const [draft, setDraft] = useState<NoteDraft>(initial);
+
+  useEffect(() => {
+    if (visible) setDraft(initial);
+  }, [visible]);
+
+  const update = (changes: Partial<NoteDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  const quote = draft.quote?.trim() ? draft.quote : null;
+  const canSave = !!quote || draft.body.trim().length > 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>{onDelete ? 'Edit Note' : 'Add Note'}</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>{title}</Text>
+            </View>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close">
+              <Ionicons name="close" size={24} color={theme.colors.text.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {draft.quote !== null && (
+              <>
+                <Text style={styles.label}>Highlight</Text>
+                <TextInput
+                  value={draft.quote}
+                  onChangeText={text => update({ quote: text })}
+                  multiline
+                  style={[
+                    styles.quoteInput,
+                    { backgroundColor: highlightColors[draft.color] },
+                    isCode && styles.codeInput,
+                  ]}
+                  autoCapitalize="none"
+                  autoCorrect={!isCode}
+                />
+                <View style={styles.colors}>
+                  {HIGHLIGHT_COLORS.map(color => (
+                    <TouchableOpacity
+                      key={color}
+                      onPress={() => update({ color })}
+                      style={[
+                        styles.colorSwatch,
+                        { backgroundColor: highlightColors[color] },
+                        draft.color === color && styles.colorSwatchSelected,
+                      ]}
+                      accessibilityLabel={`${color} highlight`}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.label}>Note</Text>
+            <TextInput
+              value={draft.body}
+              onChangeText={text => update({ body: text })}
+              placeholder="Write a note..."
+              placeholderTextColor={theme.colors.text.light}
+              multiline
+              style={styles.bodyInput}
+            />
+          </ScrollView>
+
+          <View style={styles.footer}>
+            {onDelete && (
+              <Button
+                title="Delete"
+                variant="danger"
+                onPress={onDelete}
+                style={styles.footerButton}
+              />
+            )}
+            <Button
+              title="Save"
+              onPress={() => onSave({ ...draft, quote, body: draft.body.trim() })}
+              disabled={!canSave}
+              loading={saving}
+              style={onDelete ? { ...styles.footerButton, ...styles.saveButton } : styles.footerButton}
+            />
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    maxHeight: '85%',
+    backgroundColor: theme.colors.background,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    ...theme.shadows.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.md,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  subtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  label: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  quoteInput: {
+    maxHeight: 160,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    textAlignVertical: 'top',
+  },
+  codeInput: {
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+  },
+  colors: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.sm,
+  },
+  colorSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: theme.borderRadius.full,
+    marginRight: theme.spacing.sm,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorSwatchSelected: {
+    borderColor: theme.colors.text.primary,
+  },
+  bodyInput: {
+    minHeight: 100,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[300],
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    textAlignVertical: 'top',
+  },
+  footer: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.lg,
+  },
+  footerButton: {
+    flex: 1,
+  },
+  saveButton: {
+    marginLeft: theme.spacing.md,
+  },
+});
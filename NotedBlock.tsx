@@ -0,0 +1,83 @@
+import React, { ReactNode } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { highlightColors } from './NoteEditor';
+import { LessonNote } from '../utils/studyNotes';
+
+interface NotedBlockProps {
+  children: ReactNode;
+  notes: LessonNote[]; // the user's notes on this block
+  onLongPress?: () => void; // start a new highlight
+  onPressNote: (note: LessonNote) => void;
+}
+
+// A content block with the learner's highlights and notes. The block is
+// tinted with the newest highlight's colour and its notes follow it.
+export function NotedBlock({ children, notes, onLongPress, onPressNote }: NotedBlockProps) {
+  const highlight = notes.find(note => note.quote);
+
+  return (
+    <View>
+      <TouchableOpacity
+        activeOpacity={0.8}
+        onLongPress={onLongPress}
+        disabled={!onLongPress}
+        style={highlight ? [styles.highlighted, { backgroundColor: highlightColors[highlight.color] + '80' }] : undefined}
+      >
+        {children}
+      </TouchableOpacity>
+      {notes.map(note => (
+        <NoteCard key={note.id} note={note} onPress={() => onPressNote(note)} />
+      ))}
+    </View>
+  );
+}
+
+interface NoteCardProps {
+  note: LessonNote;
+  onPress: () => void;
+}
+
+export function NoteCard({ note, onPress }: NoteCardProps) {
+  return (
+    <TouchableOpacity
+      style={[styles.noteCard, { borderLeftColor: highlightColors[note.color] }]}
+      onPress={onPress}
+      accessibilityLabel="Edit note"
+    >
+      <Ionicons name="create-outline" size={16} color={theme.colors.text.secondary} />
+      <Text style={[styles.noteText, !note.body && styles.noteTextEmpty]} numberOfLines={3}>
+        {note.body || 'Highlight'}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  highlighted: {
+    borderRadius: theme.borderRadius.sm,
+    marginHorizontal: -theme.spacing.xs,
+    paddingHorizontal: theme.spacing.xs,
+  },
+  noteCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: theme.spacing.sm,
+    marginBottom: theme.spacing.md,
+    borderLeftWidth: 3,
+    borderRadius: theme.borderRadius.sm,
+    backgroundColor: theme.colors.gray[50],
+  },
+  noteText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.primary,
+    lineHeight: 20,
+    marginLeft: theme.spacing.sm,
+  },
+  noteTextEmpty: {
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+  },
+});
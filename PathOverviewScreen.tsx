@@ -0,0 +1,405 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { LessonsService } from '../../services/lessons';
+import { PathsService, LearningPath } from '../../services/paths';
+import { LessonCacheService } from '../../services/lessonCache';
+import { Card, Button, Loading, ErrorMessage } from '../../components/UI';
+import {
+  PrerequisiteMap,
+  PathLessonStatus,
+  calculatePathProgress,
+  getPathLessonStatus,
+} from '../../utils/learningPaths';
+import { theme } from '../../config/theme';
+import { Lesson, LessonsStackParamList } from '../../types';
+
+type PathOverviewScreenNavigationProp = StackNavigationProp<LessonsStackParamList, 'PathOverview'>;
+type PathOverviewScreenRouteProp = RouteProp<LessonsStackParamList, 'PathOverview'>;
+
+interface Props {
+  navigation: PathOverviewScreenNavigationProp;
+  route: PathOverviewScreenRouteProp;
+}
+
+const statusIcons: { [status in PathLessonStatus]: { icon: keyof typeof Ionicons.glyphMap; color: string } } = {
+  completed: { icon: 'checkmark-circle', color: theme.colors.success },
+  in_progress: { icon: 'play-circle', color: theme.colors.primary },
+  available: { icon: 'ellipse-outline', color: theme.colors.primary },
+  locked: { icon: 'lock-closed', color: theme.colors.gray[400] },
+};
+
+export default function PathOverviewScreen({ navigation, route }: Props) {
+  const { user } = useAuth();
+  const { pathId } = route.params;
+  const [path, setPath] = useState<LearningPath | null>(null);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [prerequisites, setPrerequisites] = useState<PrerequisiteMap>({});
+  const [completedIds, setCompletedIds] = useState<Set<string>>(new Set());
+  const [startedIds, setStartedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  const loadPath = async () => {
+    if (!user) return;
+
+    try {
+      setError(null);
+
+      const pathResult = await PathsService.getPath(pathId);
+      if (!pathResult.success || !pathResult.data) {
+        setError(pathResult.error || 'Failed to load learning path');
+        return;
+      }
+
+      const [lessonsResult, prerequisitesResult, progressResult] = await Promise.all([
+        PathsService.getPathLessons(pathResult.data),
+        PathsService.getPrerequisites(),
+        LessonsService.getAllUserProgress(user.id),
+      ]);
+
+      if (!lessonsResult.success) {
+        setError(lessonsResult.error || 'Failed to load learning path');
+        return;
+      }
+
+      setPath(pathResult.data);
+      setLessons(lessonsResult.data || []);
+      if (prerequisitesResult.success) {
+        setPrerequisites(prerequisitesResult.data!);
+      }
+      if (progressResult.success) {
+        const allProgress = progressResult.data || [];
+        setCompletedIds(new Set(allProgress.filter(p => p.completed).map(p => p.lesson_id)));
+        setStartedIds(new Set(allProgress.map(p => p.lesson_id)));
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading learning path:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload on focus to pick up progress made in a lesson of the path
+  useFocusEffect(
+    useCallback(() => {
+      loadPath();
+    }, [user, pathId])
+  );
+
+  const handleDownloadPath = async () => {
+    if (!path) return;
+
+    setDownloading(true);
+    try {
+      const result = await LessonCacheService.downloadLessons(path.lesson_ids);
+      if (result.success) {
+        Alert.alert('Path Downloaded', `${result.data!.length} lessons are now available offline.`);
+      } else {
+        Alert.alert('Error', result.error || 'Failed to download path');
+      }
+    } catch (err) {
+      Alert.alert('Error', 'An unexpected error occurred');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadPath();
+    setRefreshing(false);
+  };
+
+  if (loading) {
+    return <Loading text="Loading path..." />;
+  }
+
+  if (error || !path) {
+    return <ErrorMessage message={error || 'Learning path not found'} onRetry={loadPath} />;
+  }
+
+  const lessonIds = lessons.map(lesson => lesson.id);
+  const pathProgress = calculatePathProgress(lessonIds, prerequisites, completedIds);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Learning Path</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <Card style={styles.pathCard}>
+          <View style={styles.pathIcon}>
+            <Ionicons
+              name={(path.icon as keyof typeof Ionicons.glyphMap) || 'map-outline'}
+              size={28}
+              color={theme.colors.primary}
+            />
+          </View>
+          <Text style={styles.pathTitle}>{path.title}</Text>
+          {path.description && (
+            <Text style={styles.pathDescription}>{path.description}</Text>
+          )}
+
+          <View style={styles.progressHeader}>
+            <Text style={styles.progressLabel}>
+              {pathProgress.completedCount} of {pathProgress.total} lessons complete
+            </Text>
+            <Text style={styles.progressPercent}>{pathProgress.percent}%</Text>
+          </View>
+          <View style={styles.progressBar}>
+            <View
+              style={[
+                styles.progressFill,
+                {
+                  width: `${pathProgress.percent}%`,
+                  backgroundColor: pathProgress.completed ? theme.colors.success : theme.colors.primary,
+                },
+              ]}
+            />
+          </View>
+
+          <View style={styles.rewardRow}>
+            <Ionicons
+              name={pathProgress.completed ? 'trophy' : 'trophy-outline'}
+              size={18}
+              color={theme.colors.warning}
+            />
+            <Text style={styles.rewardText}>
+              {pathProgress.completed
+                ? `Path complete! You earned ${path.xp_reward} bonus XP`
+                : `Finish the path to earn ${path.xp_reward} bonus XP`}
+            </Text>
+          </View>
+
+          {pathProgress.nextLessonId && (
+            <Button
+              title={pathProgress.completedCount > 0 || startedIds.has(pathProgress.nextLessonId) ? 'Continue Path' : 'Start Path'}
+              onPress={() => navigation.navigate('LessonDetail', { lessonId: pathProgress.nextLessonId! })}
+              style={styles.continueButton}
+            />
+          )}
+          <Button
+            title="Download for Offline"
+            onPress={handleDownloadPath}
+            loading={downloading}
+            variant="outline"
+            style={styles.downloadButton}
+          />
+        </Card>
+
+        <View style={styles.lessonList}>
+          {lessons.map((lesson, index) => {
+            const status = getPathLessonStatus(lesson.id, prerequisites, completedIds, startedIds);
+            const { icon, color } = statusIcons[status];
+            const isLast = index === lessons.length - 1;
+
+            return (
+              <TouchableOpacity
+                key={lesson.id}
+                style={styles.step}
+                onPress={() => navigation.navigate('LessonDetail', { lessonId: lesson.id })}
+              >
+                <View style={styles.stepMarker}>
+                  <Ionicons name={icon} size={24} color={color} />
+                  {!isLast && (
+                    <View
+                      style={[
+                        styles.stepLine,
+                        status === 'completed' && { backgroundColor: theme.colors.success },
+                      ]}
+                    />
+                  )}
+                </View>
+                <View style={[styles.stepContent, status === 'locked' && styles.stepLocked]}>
+                  <Text style={styles.stepNumber}>Lesson {index + 1}</Text>
+                  <Text style={styles.stepTitle}>{lesson.title}</Text>
+                  <View style={styles.stepMeta}>
+                    <Text style={styles.stepMetaText}>{lesson.difficulty}</Text>
+                    {lesson.duration && <Text style={styles.stepMetaText}> · {lesson.duration}</Text>}
+                    <Text style={styles.stepMetaText}> · +{lesson.xp_reward} XP</Text>
+                  </View>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  pathCard: {
+    margin: theme.spacing.lg,
+  },
+  pathIcon: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    backgroundColor: theme.colors.primary + '15',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: theme.spacing.md,
+  },
+  pathTitle: {
+    fontSize: theme.fontSize.xxl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.sm,
+  },
+  pathDescription: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.secondary,
+    lineHeight: 22,
+    marginBottom: theme.spacing.lg,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.sm,
+  },
+  progressLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  progressPercent: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.secondary,
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: theme.colors.gray[200],
+    borderRadius: theme.borderRadius.sm,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: theme.borderRadius.sm,
+  },
+  rewardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.md,
+  },
+  rewardText: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginLeft: theme.spacing.sm,
+  },
+  continueButton: {
+    marginTop: theme.spacing.lg,
+  },
+  downloadButton: {
+    marginTop: theme.spacing.sm,
+  },
+  lessonList: {
+    paddingHorizontal: theme.spacing.lg,
+    paddingBottom: theme.spacing.xl,
+  },
+  step: {
+    flexDirection: 'row',
+  },
+  stepMarker: {
+    alignItems: 'center',
+    width: 32,
+  },
+  stepLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: theme.colors.gray[200],
+    marginVertical: theme.spacing.xs,
+  },
+  stepContent: {
+    flex: 1,
+    marginLeft: theme.spacing.md,
+    paddingBottom: theme.spacing.lg,
+  },
+  stepLocked: {
+    opacity: 0.5,
+  },
+  stepNumber: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.light,
+    textTransform: 'uppercase',
+  },
+  stepTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginVertical: theme.spacing.xs,
+  },
+  stepMeta: {
+    flexDirection: 'row',
+  },
+  stepMetaText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    textTransform: 'capitalize',
+  },
+});
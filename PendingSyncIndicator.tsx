@@ -0,0 +1,55 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { useNetwork } from '../contexts/NetworkContext';
+
+interface PendingSyncIndicatorProps {
+  style?: ViewStyle;
+}
+
+// Shows while progress made offline is waiting to sync; tap to retry now
+export function PendingSyncIndicator({ style }: PendingSyncIndicatorProps) {
+  const { isOnline, pendingSyncCount, syncNow } = useNetwork();
+
+  if (pendingSyncCount === 0) {
+    return null;
+  }
+
+  return (
+    <TouchableOpacity
+      style={[styles.container, style]}
+      onPress={syncNow}
+      disabled={!isOnline}
+      accessibilityLabel="Sync now"
+    >
+      <Ionicons
+        name={isOnline ? 'cloud-upload-outline' : 'cloud-offline-outline'}
+        size={16}
+        color={theme.colors.warning}
+      />
+      <Text style={styles.text}>
+        {pendingSyncCount} {pendingSyncCount === 1 ? 'change' : 'changes'} pending sync
+        {isOnline ? '' : ' · offline'}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.warning + '20',
+  },
+  text: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginLeft: theme.spacing.xs,
+  },
+});
@@ -1,15 +1,64 @@
-import React from 'react';
-import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { CompositeNavigationProp } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { StackNavigationProp } from '@react-navigation/stack';
 
-import { useAuth } from '../../contexts/AuthContext';
+import { useAuth, useCan } from '../../contexts/AuthContext';
+import { LessonsService } from '../../services/lessons';
+import { BadgesService, BadgeStatus } from '../../services/badges';
+import { FeedbackService, AuthorInbox } from '../../services/feedback';
+import { ROLE_LABELS, UserRole } from '../../services/permissions';
 import { Card, Button } from '../../components/UI';
+import { BadgeTile } from '../../components/BadgeItem';
 import { theme } from '../../config/theme';
+import { MainTabParamList, RootStackParamList, UserStats } from '../../types';
 
-export default function ProfileScreen() {
+type ProfileScreenNavigationProp = CompositeNavigationProp<
+  BottomTabNavigationProp<MainTabParamList, 'Profile'>,
+  StackNavigationProp<RootStackParamList>
+>;
+
+interface Props {
+  navigation: ProfileScreenNavigationProp;
+}
+
+export default function ProfileScreen({ navigation }: Props) {
   const { user, signOut } = useAuth();
+  const can = useCan();
+  const [userStats, setUserStats] = useState<UserStats | null>(null);
+  const [badges, setBadges] = useState<BadgeStatus[]>([]);
+  const [inbox, setInbox] = useState<AuthorInbox | null>(null);
+
+  const loadProfileData = async () => {
+    if (!user) return;
+
+    try {
+      const [statsResult, badgesResult, inboxResult] = await Promise.all([
+        LessonsService.getUserStats(user.id),
+        BadgesService.getBadgeStatuses(user.id),
+        FeedbackService.getAuthorInbox(user.id),
+      ]);
+      if (statsResult.success) {
+        setUserStats(statsResult.data!);
+      }
+      if (badgesResult.success) {
+        setBadges(badgesResult.data || []);
+      }
+      if (inboxResult.success) {
+        setInbox(inboxResult.data!);
+      }
+    } catch (err) {
+      console.error('Error loading profile data:', err);
+    }
+  };
+
+  useEffect(() => {
+    loadProfileData();
+  }, [user]);
 
   const handleSignOut = () => {
     Alert.alert(
@@ -51,7 +100,7 @@ export default function ProfileScreen() {
               {user?.profile?.role && (
                 <View style={styles.roleBadge}>
                   <Text style={styles.roleText}>
-                    {user.profile.role.charAt(0).toUpperCase() + user.profile.role.slice(1)}
+                    {ROLE_LABELS[user.profile.role as UserRole] || user.profile.role}
                   </Text>
                 </View>
               )}
@@ -64,24 +113,66 @@ export default function ProfileScreen() {
           <Text style={styles.sectionTitle}>Learning Stats</Text>
           <View style={styles.statsGrid}>
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>0</Text>
+              <Text style={styles.statValue}>{userStats?.completedLessons ?? 0}</Text>
               <Text style={styles.statLabel}>Lessons Completed</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>0</Text>
+              <Text style={styles.statValue}>{userStats?.totalXP ?? 0}</Text>
               <Text style={styles.statLabel}>XP Earned</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>1</Text>
+              <Text style={styles.statValue}>{userStats?.level ?? 1}</Text>
               <Text style={styles.statLabel}>Current Level</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statValue}>0</Text>
+              <Text style={styles.statValue}>{userStats?.badgesEarned ?? 0}</Text>
               <Text style={styles.statLabel}>Badges</Text>
             </View>
           </View>
         </Card>
 
+        {/* Badges */}
+        {badges.length > 0 && (
+          <Card style={styles.badgesCard}>
+            <Text style={styles.sectionTitle}>Badges</Text>
+            <View style={styles.badgesGrid}>
+              {badges.map(status => (
+                <BadgeTile key={status.badge.id} status={status} />
+              ))}
+            </View>
+          </Card>
+        )}
+
+        {/* Feedback on the lessons this user authors */}
+        {inbox && inbox.lessons.length > 0 && (
+          <TouchableOpacity onPress={() => navigation.navigate('Lessons', { screen: 'FeedbackInbox' })}>
+            <Card style={styles.inboxCard}>
+              <Ionicons name="chatbubbles-outline" size={28} color={theme.colors.primary} />
+              <View style={styles.inboxInfo}>
+                <Text style={styles.inboxTitle}>Feedback Inbox</Text>
+                <Text style={styles.inboxMeta}>
+                  {inbox.reports.filter(report => !report.resolved_at).length} open reports · {inbox.feedback.length} written feedback
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={theme.colors.text.light} />
+            </Card>
+          </TouchableOpacity>
+        )}
+
+        {/* Settling the roles people asked for when signing up */}
+        {can('manage_roles') && (
+          <TouchableOpacity onPress={() => navigation.navigate('RoleRequests')}>
+            <Card style={styles.inboxCard}>
+              <Ionicons name="key-outline" size={28} color={theme.colors.primary} />
+              <View style={styles.inboxInfo}>
+                <Text style={styles.inboxTitle}>Role Requests</Text>
+                <Text style={styles.inboxMeta}>Approve instructors and teachers</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={theme.colors.text.light} />
+            </Card>
+          </TouchableOpacity>
+        )}
+
         {/* Organization */}
         {user?.profile?.organization && (
           <Card style={styles.orgCard}>
@@ -201,6 +292,35 @@ const styles = StyleSheet.create({
     color: theme.colors.text.secondary,
     textAlign: 'center',
   },
+  badgesCard: {
+    marginHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+  },
+  badgesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  inboxCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.lg,
+  },
+  inboxInfo: {
+    flex: 1,
+    marginLeft: theme.spacing.md,
+  },
+  inboxTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  inboxMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
   orgCard: {
     marginHorizontal: theme.spacing.lg,
     marginBottom: theme.spacing.lg,
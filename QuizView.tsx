@@ -0,0 +1,323 @@
+import React, { useState, useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { QuizBlock, QuizQuestion, OrderLinesQuestion } from '../utils/lessonContent';
+import {
+  QuizResponses,
+  QuizResult,
+  DEFAULT_PASS_THRESHOLD,
+  validateQuiz,
+  shuffleLineOrder,
+} from '../utils/quizGrading';
+import { Button, Input } from './UI';
+import { monospaceFont } from './CodeSnippet';
+
+interface QuizViewProps {
+  quiz: QuizBlock;
+  passed?: boolean; // passed on an earlier attempt
+  onSubmit: (responses: QuizResponses) => Promise<QuizResult | null>;
+}
+
+// Interactive quiz with grading and per-question explanations
+export function QuizView({ quiz, passed = false, onSubmit }: QuizViewProps) {
+  const problems = useMemo(() => validateQuiz(quiz), [quiz]);
+  const initialResponses = useMemo(() => {
+    const responses: QuizResponses = {};
+    quiz.questions?.forEach(question => {
+      if (question.type === 'order_lines') {
+        responses[question.id] = shuffleLineOrder(question);
+      }
+    });
+    return responses;
+  }, [quiz]);
+
+  const [responses, setResponses] = useState<QuizResponses>(initialResponses);
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  if (problems.length > 0) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>{quiz.title || 'Quiz'}</Text>
+        <Text style={styles.invalidText}>This quiz can't be taken yet: {problems[0]}</Text>
+      </View>
+    );
+  }
+
+  const setResponse = (questionId: string, response: QuizResponses[string]) => {
+    setResponses(prev => ({ ...prev, [questionId]: response }));
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      setResult(await onSubmit(responses));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetry = () => {
+    setResponses(initialResponses);
+    setResult(null);
+  };
+
+  const moveLine = (question: OrderLinesQuestion, position: number, direction: -1 | 1) => {
+    const order = [...(responses[question.id] as number[])];
+    const target = position + direction;
+    if (target < 0 || target >= order.length) return;
+    [order[position], order[target]] = [order[target], order[position]];
+    setResponse(question.id, order);
+  };
+
+  const renderOption = (question: QuizQuestion, option: string, index: number, multi: boolean) => {
+    const response = responses[question.id];
+    const selected = multi
+      ? Array.isArray(response) && response.includes(index)
+      : response === index;
+
+    const handlePress = () => {
+      if (!multi) {
+        setResponse(question.id, index);
+        return;
+      }
+      const current = Array.isArray(response) ? response : [];
+      setResponse(question.id, selected ? current.filter(i => i !== index) : [...current, index]);
+    };
+
+    const icon = multi
+      ? (selected ? 'checkbox' : 'square-outline')
+      : (selected ? 'radio-button-on' : 'radio-button-off');
+
+    return (
+      <TouchableOpacity
+        key={index}
+        style={[styles.option, selected && styles.optionSelected]}
+        onPress={handlePress}
+        disabled={!!result}
+      >
+        <Ionicons name={icon} size={20} color={selected ? theme.colors.primary : theme.colors.text.light} />
+        <Text style={styles.optionText}>{option}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderAnswerInput = (question: QuizQuestion) => {
+    switch (question.type) {
+      case 'multiple_choice':
+        return question.options.map((option, index) => renderOption(question, option, index, false));
+      case 'multi_select':
+        return (
+          <View>
+            <Text style={styles.hint}>Select all that apply</Text>
+            {question.options.map((option, index) => renderOption(question, option, index, true))}
+          </View>
+        );
+      case 'fill_blank':
+        return (
+          <Input
+            value={(responses[question.id] as string) || ''}
+            onChangeText={(text) => setResponse(question.id, text)}
+            placeholder="Your answer"
+          />
+        );
+      case 'order_lines': {
+        const order = responses[question.id] as number[];
+        return (
+          <View>
+            <Text style={styles.hint}>Put the lines in the right order</Text>
+            {order.map((lineIndex, position) => (
+              <View key={`${lineIndex}-${position}`} style={styles.codeLine}>
+                <Text style={styles.codeLineText}>{question.lines[lineIndex]}</Text>
+                {!result && (
+                  <View style={styles.lineControls}>
+                    <TouchableOpacity onPress={() => moveLine(question, position, -1)} disabled={position === 0}>
+                      <Ionicons name="chevron-up" size={20} color={position === 0 ? theme.colors.gray[300] : theme.colors.primary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => moveLine(question, position, 1)} disabled={position === order.length - 1}>
+                      <Ionicons name="chevron-down" size={20} color={position === order.length - 1 ? theme.colors.gray[300] : theme.colors.primary} />
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            ))}
+          </View>
+        );
+      }
+      default:
+        return null;
+    }
+  };
+
+  const threshold = Math.round((quiz.passThreshold ?? DEFAULT_PASS_THRESHOLD) * 100);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{quiz.title || 'Quiz'}</Text>
+        {passed && !result && (
+          <View style={styles.passedBadge}>
+            <Ionicons name="checkmark-circle" size={16} color={theme.colors.success} />
+            <Text style={styles.passedText}>Passed</Text>
+          </View>
+        )}
+      </View>
+      <Text style={styles.hint}>Score {threshold}% or more to pass</Text>
+
+      {quiz.questions.map((question, index) => {
+        const questionResult = result?.results.find(r => r.questionId === question.id);
+        return (
+          <View key={question.id} style={styles.question}>
+            <View style={styles.questionHeader}>
+              <Text style={styles.prompt}>{index + 1}. {question.prompt}</Text>
+              {questionResult && (
+                <Ionicons
+                  name={questionResult.correct ? 'checkmark-circle' : 'close-circle'}
+                  size={22}
+                  color={questionResult.correct ? theme.colors.success : theme.colors.error}
+                />
+              )}
+            </View>
+            {renderAnswerInput(question)}
+            {questionResult?.explanation && (
+              <View style={styles.explanation}>
+                <Text style={styles.explanationText}>{questionResult.explanation}</Text>
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      {result ? (
+        <View>
+          <View style={[styles.resultBanner, { backgroundColor: (result.passed ? theme.colors.success : theme.colors.error) + '20' }]}>
+            <Text style={[styles.resultText, { color: result.passed ? theme.colors.success : theme.colors.error }]}>
+              {result.passed ? 'Passed' : 'Not quite'} · {result.correctCount} / {result.total} correct
+            </Text>
+          </View>
+          {!result.passed && (
+            <Button title="Try Again" onPress={handleRetry} variant="outline" />
+          )}
+        </View>
+      ) : (
+        <Button title="Check Answers" onPress={handleSubmit} loading={submitting} />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+    borderRadius: theme.borderRadius.lg,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  passedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  passedText: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.success,
+    marginLeft: theme.spacing.xs,
+  },
+  hint: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginBottom: theme.spacing.sm,
+  },
+  invalidText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.error,
+    marginTop: theme.spacing.sm,
+  },
+  question: {
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+  },
+  questionHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.sm,
+  },
+  prompt: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+    lineHeight: 22,
+    marginRight: theme.spacing.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[200],
+    borderRadius: theme.borderRadius.md,
+    marginBottom: theme.spacing.sm,
+  },
+  optionSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '10',
+  },
+  optionText: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  codeLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.code.background,
+    borderRadius: theme.borderRadius.md,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  codeLineText: {
+    flex: 1,
+    fontFamily: monospaceFont,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.code.text,
+  },
+  lineControls: {
+    flexDirection: 'row',
+  },
+  explanation: {
+    backgroundColor: theme.colors.info + '15',
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.sm,
+  },
+  explanationText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.primary,
+    lineHeight: 20,
+  },
+  resultBanner: {
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    marginBottom: theme.spacing.md,
+  },
+  resultText: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    textAlign: 'center',
+  },
+});
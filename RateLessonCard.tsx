@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TextInput } from 'react-native';
+import { theme } from '../config/theme';
+import { Card, Button } from './UI';
+import { StarRating } from './StarRating';
+
+interface RateLessonCardProps {
+  rating: number | null; // the learner's current rating
+  feedback: string | null;
+  onSubmit: (rating: number, feedback: string) => Promise<boolean>;
+}
+
+const RATING_LABELS = ['', 'Not helpful', 'Could be better', 'Okay', 'Good', 'Excellent'];
+
+// Asks for a rating and optional feedback once a lesson is complete. After
+// rating it shows the rating, which can be changed.
+export function RateLessonCard({ rating, feedback, onSubmit }: RateLessonCardProps) {
+  const [draftRating, setDraftRating] = useState(rating || 0);
+  const [draftFeedback, setDraftFeedback] = useState(feedback || '');
+  const [editing, setEditing] = useState(!rating);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    setDraftRating(rating || 0);
+    setDraftFeedback(feedback || '');
+    setEditing(!rating);
+  }, [rating, feedback]);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      if (await onSubmit(draftRating, draftFeedback)) {
+        setEditing(false);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!editing && rating) {
+    return (
+      <Card style={styles.card}>
+        <Text style={styles.title}>Your rating</Text>
+        <StarRating value={rating} size={24} />
+        {!!feedback && <Text style={styles.feedback}>{feedback}</Text>}
+        <Button
+          title="Change Rating"
+          variant="outline"
+          size="small"
+          onPress={() => setEditing(true)}
+          style={styles.button}
+        />
+      </Card>
+    );
+  }
+
+  return (
+    <Card style={styles.card}>
+      <Text style={styles.title}>How was this lesson?</Text>
+      <Text style={styles.subtitle}>Your rating helps the author improve it.</Text>
+      <View style={styles.stars}>
+        <StarRating value={draftRating} onChange={setDraftRating} size={32} />
+        {draftRating > 0 && <Text style={styles.ratingLabel}>{RATING_LABELS[draftRating]}</Text>}
+      </View>
+      {draftRating > 0 && (
+        <>
+          <TextInput
+            value={draftFeedback}
+            onChangeText={setDraftFeedback}
+            placeholder="Anything the author should know? (optional)"
+            placeholderTextColor={theme.colors.text.light}
+            multiline
+            maxLength={2000}
+            style={styles.input}
+          />
+          <Button
+            title="Submit Rating"
+            onPress={handleSubmit}
+            loading={submitting}
+            style={styles.button}
+          />
+        </>
+      )}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginBottom: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.xs,
+  },
+  subtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+  },
+  stars: {
+    alignItems: 'center',
+    marginVertical: theme.spacing.md,
+  },
+  ratingLabel: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: theme.spacing.xs,
+  },
+  input: {
+    minHeight: 80,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[300],
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    textAlignVertical: 'top',
+  },
+  feedback: {
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.secondary,
+    fontStyle: 'italic',
+    marginTop: theme.spacing.sm,
+  },
+  button: {
+    marginTop: theme.spacing.md,
+  },
+});
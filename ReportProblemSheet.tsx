@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+import { Button } from './UI';
+import { ProblemKind, PROBLEM_KINDS } from '../services/feedback';
+
+interface ReportProblemSheetProps {
+  visible: boolean;
+  sectionTitle?: string; // the section being read, which the report is about
+  submitting?: boolean;
+  onSubmit: (kind: ProblemKind, details: string) => void;
+  onClose: () => void;
+}
+
+// Bottom sheet for reporting a typo, broken code or outdated content
+export function ReportProblemSheet({ visible, sectionTitle, submitting, onSubmit, onClose }: ReportProblemSheetProps) {
+  const [kind, setKind] = useState<ProblemKind | null>(null);
+  const [details, setDetails] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setKind(null);
+      setDetails('');
+    }
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableOpacity style={styles.backdrop} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Report a Problem</Text>
+              {sectionTitle && (
+                <Text style={styles.subtitle} numberOfLines={1}>In “{sectionTitle}”</Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose} accessibilityLabel="Close">
+              <Ionicons name="close" size={24} color={theme.colors.text.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>What's wrong?</Text>
+          <View style={styles.chips}>
+            {PROBLEM_KINDS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.chip, kind === option.value && styles.chipSelected]}
+                onPress={() => setKind(option.value)}
+              >
+                <Text style={[styles.chipText, kind === option.value && styles.chipTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Details</Text>
+          <TextInput
+            value={details}
+            onChangeText={setDetails}
+            placeholder="Where is it, and what should it say or do?"
+            placeholderTextColor={theme.colors.text.light}
+            multiline
+            maxLength={2000}
+            style={styles.input}
+          />
+
+          <Button
+            title="Send Report"
+            onPress={() => kind && onSubmit(kind, details)}
+            disabled={!kind}
+            loading={submitting}
+            style={styles.submitButton}
+          />
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    flex: 1,
+  },
+  sheet: {
+    backgroundColor: theme.colors.background,
+    borderTopLeftRadius: theme.borderRadius.xl,
+    borderTopRightRadius: theme.borderRadius.xl,
+    padding: theme.spacing.lg,
+    ...theme.shadows.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: theme.spacing.md,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  title: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  subtitle: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  label: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginTop: theme.spacing.md,
+    marginBottom: theme.spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.gray[200],
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.primary,
+  },
+  chipText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    fontWeight: theme.fontWeight.medium,
+  },
+  chipTextSelected: {
+    color: theme.colors.text.white,
+  },
+  input: {
+    minHeight: 100,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[300],
+    fontSize: theme.fontSize.md,
+    color: theme.colors.text.primary,
+    textAlignVertical: 'top',
+  },
+  submitButton: {
+    marginTop: theme.spacing.lg,
+  },
+});
@@ -0,0 +1,57 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+
+import { useCan } from '../contexts/AuthContext';
+import { Capability } from '../services/permissions';
+import { EmptyState } from './UI';
+import { theme } from '../config/theme';
+
+interface RequireCapabilityProps {
+  capability: Capability | Capability[]; // any one of them
+  children: React.ReactNode;
+}
+
+// Shows its children only to users whose role grants the capability, or one
+// of a list of them. Guards screens that can still be reached without their
+// tab, e.g. from a deep link or a navigation state restored after the
+// user's role changed.
+export function RequireCapability({ capability, children }: RequireCapabilityProps) {
+  const can = useCan();
+  const navigation = useNavigation();
+
+  if (([] as Capability[]).concat(capability).some(can)) {
+    return <>{children}</>;
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <EmptyState
+        title="Not Available"
+        message="Your account doesn't have access to this screen."
+        actionText={navigation.canGoBack() ? 'Go Back' : undefined}
+        onAction={() => navigation.goBack()}
+      />
+    </SafeAreaView>
+  );
+}
+
+// A screen component wrapped in RequireCapability, for registering with a
+// navigator
+export function withCapability<P extends object>(Screen: React.ComponentType<P>, capability: Capability | Capability[]) {
+  const Guarded = (props: P) => (
+    <RequireCapability capability={capability}>
+      <Screen {...props} />
+    </RequireCapability>
+  );
+  Guarded.displayName = `withCapability(${Screen.displayName || Screen.name})`;
+  return Guarded;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+});
@@ -0,0 +1,214 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { useAuth } from '../../contexts/AuthContext';
+import { ReviewService, ReviewRequest } from '../../services/lessonReview';
+import { Loading, ErrorMessage, EmptyState } from '../../components/UI';
+import { theme } from '../../config/theme';
+import { AuthoringStackParamList } from '../../types';
+
+type ReviewQueueScreenNavigationProp = StackNavigationProp<AuthoringStackParamList, 'ReviewQueue'>;
+
+interface Props {
+  navigation: ReviewQueueScreenNavigationProp;
+}
+
+const authorName = (request: ReviewRequest) => {
+  const author = request.lessons?.profiles;
+  const name = [author?.first_name, author?.last_name].filter(Boolean).join(' ');
+  return name || 'Unknown author';
+};
+
+// Lessons and changes to lessons waiting for a reviewer, longest waiting first
+export default function ReviewQueueScreen({ navigation }: Props) {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<ReviewRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQueue = async () => {
+    try {
+      setError(null);
+      const result = await ReviewService.getReviewQueue();
+      if (result.success) {
+        // Authors can't review their own lessons
+        setRequests(result.data!.filter(request => request.lessons && request.lessons.author_id !== user?.id));
+      } else {
+        setError(result.error || 'Failed to load lessons to review');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading review queue:', err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  // Reload on focus to drop lessons reviewed in the meantime
+  useFocusEffect(
+    useCallback(() => {
+      loadQueue();
+    }, [user])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadQueue();
+  };
+
+  const renderRequest = ({ item: request }: { item: ReviewRequest }) => {
+    const isUpdate = !!request.lessons?.current_version;
+    return (
+      <TouchableOpacity
+        style={styles.requestRow}
+        onPress={() => navigation.navigate('LessonReview', { lessonId: request.lesson_id })}
+      >
+        <View style={styles.requestInfo}>
+          <Text style={styles.requestTitle} numberOfLines={1}>{request.title}</Text>
+          <Text style={styles.requestMeta} numberOfLines={1}>
+            {authorName(request)}
+            {request.submitted_at ? ` · Submitted ${new Date(request.submitted_at).toLocaleDateString()}` : ''}
+          </Text>
+        </View>
+        <View style={[styles.kindBadge, { backgroundColor: (isUpdate ? theme.colors.info : theme.colors.accent) + '20' }]}>
+          <Text style={[styles.kindText, { color: isUpdate ? theme.colors.info : theme.colors.accent }]}>
+            {isUpdate ? 'Update' : 'New'}
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={theme.colors.text.light} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return <Loading text="Loading lessons to review..." />;
+    }
+
+    if (error) {
+      return <ErrorMessage message={error} onRetry={loadQueue} />;
+    }
+
+    return (
+      <FlatList
+        data={requests}
+        renderItem={renderRequest}
+        keyExtractor={(item) => item.lesson_id}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        ListEmptyComponent={
+          <EmptyState
+            title="All Caught Up"
+            message="There are no lessons waiting for review."
+          />
+        }
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        {navigation.canGoBack() ? (
+          <TouchableOpacity
+            onPress={() => navigation.goBack()}
+            style={styles.backButton}
+          >
+            <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerRight} />
+        )}
+        <Text style={styles.headerTitle}>Review Queue</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+    alignItems: 'flex-end',
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: theme.spacing.xl,
+  },
+  requestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  requestInfo: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  requestTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  requestMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  kindBadge: {
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 2,
+    borderRadius: theme.borderRadius.full,
+    marginRight: theme.spacing.sm,
+  },
+  kindText: {
+    fontSize: theme.fontSize.xs,
+    fontWeight: theme.fontWeight.semibold,
+  },
+});
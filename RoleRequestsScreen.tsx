@@ -0,0 +1,232 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { AuthService } from '../../services/auth';
+import { ROLE_LABELS, UserRole } from '../../services/permissions';
+import { Loading, ErrorMessage, EmptyState, Button } from '../../components/UI';
+import { theme } from '../../config/theme';
+import { Profile, RootStackParamList } from '../../types';
+
+type RoleRequestsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'RoleRequests'>;
+
+interface Props {
+  navigation: RoleRequestsScreenNavigationProp;
+}
+
+const profileName = (profile: Profile) =>
+  [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email;
+
+// People who asked for the instructor or teacher role when signing up.
+// Approving grants the role; declining keeps them a learner. Either way the
+// request is settled and drops off the list.
+export default function RoleRequestsScreen({ navigation }: Props) {
+  const [requests, setRequests] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const loadRequests = async () => {
+    try {
+      setError(null);
+      const result = await AuthService.getRoleRequests();
+      if (result.success) {
+        setRequests(result.data!);
+      } else {
+        setError(result.error || 'Failed to load role requests');
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading role requests:', err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRequests();
+    }, [])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadRequests();
+  };
+
+  const settleRequest = async (profile: Profile, role: UserRole) => {
+    setSavingId(profile.id);
+    const result = await AuthService.grantRole(profile.id, role);
+    setSavingId(null);
+
+    if (result.success) {
+      setRequests(current => current.filter(request => request.id !== profile.id));
+    } else {
+      Alert.alert('Error', result.error || 'Failed to change role');
+    }
+  };
+
+  const renderRequest = ({ item: profile }: { item: Profile }) => {
+    const requested = profile.requested_role as UserRole;
+    const saving = savingId === profile.id;
+    return (
+      <View style={styles.requestRow}>
+        <View style={styles.requestInfo}>
+          <Text style={styles.requestName} numberOfLines={1}>{profileName(profile)}</Text>
+          <Text style={styles.requestMeta} numberOfLines={1}>
+            {profile.email}
+            {profile.organization ? ` · ${profile.organization}` : ''}
+          </Text>
+          <Text style={styles.requestRole}>Asked to be: {ROLE_LABELS[requested] || requested}</Text>
+        </View>
+        <View style={styles.actions}>
+          <Button
+            title="Approve"
+            size="small"
+            onPress={() => settleRequest(profile, requested)}
+            disabled={!!savingId}
+            loading={saving}
+          />
+          <Button
+            title="Decline"
+            size="small"
+            variant="outline"
+            onPress={() => settleRequest(profile, 'student')}
+            disabled={!!savingId}
+            style={styles.declineButton}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return <Loading text="Loading role requests..." />;
+    }
+
+    if (error) {
+      return <ErrorMessage message={error} onRetry={loadRequests} />;
+    }
+
+    return (
+      <FlatList
+        data={requests}
+        renderItem={renderRequest}
+        keyExtractor={(item) => item.id}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+        ListEmptyComponent={
+          <EmptyState
+            title="No Requests"
+            message="Nobody is waiting for a role right now."
+          />
+        }
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Role Requests</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+    alignItems: 'flex-end',
+  },
+  listContent: {
+    flexGrow: 1,
+    paddingBottom: theme.spacing.xl,
+  },
+  requestRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[100],
+  },
+  requestInfo: {
+    flex: 1,
+    marginRight: theme.spacing.md,
+  },
+  requestName: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+  },
+  requestMeta: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  requestRole: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.primary,
+    marginTop: theme.spacing.xs,
+  },
+  actions: {
+    alignItems: 'stretch',
+  },
+  declineButton: {
+    marginTop: theme.spacing.xs,
+  },
+});
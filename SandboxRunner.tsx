@@ -0,0 +1,102 @@
+import React, { forwardRef, useImperativeHandle, useRef, useEffect } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import {
+  SANDBOX_HTML,
+  DEFAULT_RUN_TIMEOUT_MS,
+  RunHarness,
+  RunRequest,
+  RunResult,
+  SandboxMessage,
+  buildRunScript,
+} from '../utils/sandbox';
+
+export interface SandboxRunnerHandle {
+  // With a harness, the learner's function is called with each test case's
+  // arguments after the code has run (see RunResult.reported)
+  run: (code: string, timeoutMs?: number, harness?: RunHarness) => Promise<RunResult>;
+}
+
+let nextRunId = 0;
+
+// Invisible WebView that runs JavaScript in an isolated worker. Use the `run`
+// method on its ref; runs made before the sandbox has loaded are queued.
+export const SandboxRunner = forwardRef<SandboxRunnerHandle>(function SandboxRunner(_props, ref) {
+  const webViewRef = useRef<WebView>(null);
+  const ready = useRef(false);
+  const queue = useRef<RunRequest[]>([]);
+  const pending = useRef(new Map<string, (result: RunResult) => void>());
+
+  useImperativeHandle(ref, () => ({
+    run: (code: string, timeoutMs: number = DEFAULT_RUN_TIMEOUT_MS, harness?: RunHarness) =>
+      new Promise<RunResult>((resolve) => {
+        const request: RunRequest = { id: `run-${++nextRunId}`, code, timeoutMs, harness };
+        pending.current.set(request.id, resolve);
+        if (ready.current) {
+          webViewRef.current?.injectJavaScript(buildRunScript(request));
+        } else {
+          queue.current.push(request);
+        }
+      }),
+  }));
+
+  // Don't leave callers waiting on a sandbox that has gone away
+  useEffect(() => {
+    return () => {
+      pending.current.forEach(resolve => resolve({
+        logs: [],
+        error: 'The code runner was closed',
+        timedOut: false,
+        durationMs: 0,
+      }));
+      pending.current.clear();
+    };
+  }, []);
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    let message: SandboxMessage;
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'ready') {
+      ready.current = true;
+      queue.current.forEach(request => webViewRef.current?.injectJavaScript(buildRunScript(request)));
+      queue.current = [];
+      return;
+    }
+
+    const resolve = pending.current.get(message.id);
+    if (resolve) {
+      pending.current.delete(message.id);
+      resolve(message.result);
+    }
+  };
+
+  return (
+    <View style={styles.hidden} pointerEvents="none">
+      <WebView
+        ref={webViewRef}
+        source={{ html: SANDBOX_HTML }}
+        originWhitelist={['*']}
+        onMessage={handleMessage}
+        onContentProcessDidTerminate={() => {
+          ready.current = false;
+          webViewRef.current?.reload();
+        }}
+        javaScriptEnabled
+      />
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  hidden: {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    opacity: 0,
+  },
+});
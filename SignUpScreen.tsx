@@ -7,6 +7,7 @@ import {
   KeyboardAvoidingView,
   Platform,
   Alert,
+  TouchableOpacity,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -14,6 +15,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 
 import { useAuth } from '../../contexts/AuthContext';
+import { SIGN_UP_ROLES } from '../../services/auth';
 import { Button, Input } from '../../components/UI';
 import { theme } from '../../config/theme';
 import { AuthStackParamList, SignUpForm } from '../../types';
@@ -33,6 +35,7 @@ export default function SignUpScreen({ navigation }: Props) {
     firstName: '',
     lastName: '',
     organization: '',
+    role: 'student',
   });
   const [errors, setErrors] = useState<Partial<SignUpForm>>({});
 
@@ -155,6 +158,28 @@ export default function SignUpScreen({ navigation }: Props) {
                 autoCapitalize="words"
               />
 
+              <Text style={styles.roleLabel}>I'm joining as</Text>
+              <View style={styles.roleRow}>
+                {SIGN_UP_ROLES.map((option, index) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.roleOption,
+                      index > 0 && { marginLeft: theme.spacing.sm },
+                      form.role === option.value && styles.roleOptionSelected,
+                    ]}
+                    onPress={() => updateForm('role')(option.value)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected: form.role === option.value }}
+                  >
+                    <Text style={[styles.roleTitle, form.role === option.value && styles.roleTitleSelected]}>
+                      {option.label}
+                    </Text>
+                    <Text style={styles.roleDescription}>{option.description}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
               <Input
                 label="Password"
                 value={form.password}
@@ -245,6 +270,41 @@ const styles = StyleSheet.create({
   nameInput: {
     flex: 1,
   },
+  roleLabel: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.medium,
+    color: theme.colors.text.primary,
+    marginBottom: theme.spacing.xs,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    marginBottom: theme.spacing.md,
+  },
+  roleOption: {
+    flex: 1,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    borderWidth: 1,
+    borderColor: theme.colors.gray[300],
+    backgroundColor: theme.colors.background,
+  },
+  roleOptionSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary + '10',
+  },
+  roleTitle: {
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginBottom: 2,
+  },
+  roleTitleSelected: {
+    color: theme.colors.primary,
+  },
+  roleDescription: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.secondary,
+  },
   signUpButton: {
     marginTop: theme.spacing.lg,
   },
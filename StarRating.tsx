@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { theme } from '../config/theme';
+
+const STARS = [1, 2, 3, 4, 5];
+
+interface StarRatingProps {
+  value: number; // 0 for none; halves are shown as half stars
+  onChange?: (rating: number) => void; // makes the stars tappable
+  size?: number;
+}
+
+// Five stars showing a rating, or picking one
+export function StarRating({ value, onChange, size = 20 }: StarRatingProps) {
+  return (
+    <View style={styles.stars}>
+      {STARS.map(star => {
+        const name = value >= star ? 'star' : value >= star - 0.5 ? 'star-half' : 'star-outline';
+        const icon = <Ionicons name={name} size={size} color={theme.colors.warning} />;
+        return onChange ? (
+          <TouchableOpacity
+            key={star}
+            onPress={() => onChange(star)}
+            style={styles.starButton}
+            accessibilityLabel={`${star} ${star === 1 ? 'star' : 'stars'}`}
+          >
+            {icon}
+          </TouchableOpacity>
+        ) : (
+          <View key={star}>{icon}</View>
+        );
+      })}
+    </View>
+  );
+}
+
+interface RatingSummaryProps {
+  average: number | null | undefined;
+  count: number | null | undefined;
+  style?: TextStyle;
+}
+
+// Compact average rating, e.g. "★ 4.6 (23)". Renders nothing until rated.
+export function RatingSummary({ average, count, style }: RatingSummaryProps) {
+  if (!count || average == null) return null;
+
+  return (
+    <View style={styles.summary}>
+      <Ionicons name="star" size={16} color={theme.colors.warning} />
+      <Text style={[styles.summaryText, style]}>
+        {average.toFixed(1)} ({count})
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  stars: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  starButton: {
+    paddingHorizontal: 2,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  summaryText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginLeft: theme.spacing.xs,
+  },
+});
@@ -0,0 +1,332 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+
+import { ClassroomService, RosterEntry, personName } from '../../services/classrooms';
+import { PathsService, LearningPath } from '../../services/paths';
+import { Card, Loading, ErrorMessage } from '../../components/UI';
+import {
+  StudentLessonProgress,
+  StudentLessonStatus,
+  getAssignedLessonIds,
+  getStudentLessonStatus,
+  summarizeStudentProgress,
+} from '../../utils/classroomProgress';
+import { theme } from '../../config/theme';
+import { Lesson, ClassroomsStackParamList } from '../../types';
+
+type StudentProgressScreenNavigationProp = StackNavigationProp<ClassroomsStackParamList, 'StudentProgress'>;
+type StudentProgressScreenRouteProp = RouteProp<ClassroomsStackParamList, 'StudentProgress'>;
+
+interface Props {
+  navigation: StudentProgressScreenNavigationProp;
+  route: StudentProgressScreenRouteProp;
+}
+
+const statusIcons: { [status in StudentLessonStatus]: { icon: keyof typeof Ionicons.glyphMap; color: string } } = {
+  completed: { icon: 'checkmark-circle', color: theme.colors.success },
+  in_progress: { icon: 'play-circle', color: theme.colors.primary },
+  not_started: { icon: 'ellipse-outline', color: theme.colors.gray[400] },
+};
+
+// One learner's progress through the paths assigned to a classroom, as
+// their teacher sees it
+export default function StudentProgressScreen({ navigation, route }: Props) {
+  const { classroomId, studentId } = route.params;
+  const [student, setStudent] = useState<RosterEntry | null>(null);
+  const [paths, setPaths] = useState<{ path: LearningPath; lessons: Lesson[] }[]>([]);
+  const [progressRows, setProgressRows] = useState<StudentLessonProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProgress = async () => {
+    try {
+      setError(null);
+
+      const [rosterResult, assignedResult, progressResult] = await Promise.all([
+        ClassroomService.getRoster(classroomId),
+        ClassroomService.getAssignedPaths(classroomId),
+        ClassroomService.getStudentsProgress([studentId]),
+      ]);
+
+      if (!rosterResult.success || !assignedResult.success || !progressResult.success) {
+        setError(rosterResult.error || assignedResult.error || progressResult.error || 'Failed to load progress');
+        return;
+      }
+
+      const member = (rosterResult.data || []).find(entry => entry.user_id === studentId);
+      if (!member) {
+        setError('This learner is no longer in the classroom');
+        return;
+      }
+
+      const lessonResults = await Promise.all(
+        (assignedResult.data || []).map(path => PathsService.getPathLessons(path))
+      );
+
+      setStudent(member);
+      setPaths((assignedResult.data || []).map((path, index) => ({
+        path,
+        lessons: lessonResults[index].data || [],
+      })));
+      setProgressRows(progressResult.data || []);
+    } catch (err) {
+      setError('An unexpected error occurred');
+      console.error('Error loading student progress:', err);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadProgress();
+    }, [classroomId, studentId])
+  );
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadProgress();
+  };
+
+  if (loading) {
+    return <Loading text="Loading progress..." />;
+  }
+
+  if (error || !student) {
+    return <ErrorMessage message={error || 'Learner not found'} onRetry={loadProgress} />;
+  }
+
+  const overall = summarizeStudentProgress(getAssignedLessonIds(paths.map(({ path }) => path)), progressRows);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar style="dark" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.backButton}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Learner Progress</Text>
+        <View style={styles.headerRight} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <Card style={styles.summaryCard}>
+          <Text style={styles.studentName}>{personName(student.profiles, 'Learner')}</Text>
+          {!!student.profiles?.email && <Text style={styles.studentEmail}>{student.profiles.email}</Text>}
+
+          <View style={styles.statsRow}>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{overall.percent}%</Text>
+              <Text style={styles.statLabel}>Complete</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{overall.completedCount}/{overall.total}</Text>
+              <Text style={styles.statLabel}>Lessons</Text>
+            </View>
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{overall.startedCount}</Text>
+              <Text style={styles.statLabel}>In progress</Text>
+            </View>
+          </View>
+
+          <Text style={styles.activityText}>
+            {overall.lastActiveAt
+              ? `Last active ${new Date(overall.lastActiveAt).toLocaleDateString()}`
+              : 'Hasn’t started a lesson yet'}
+            {` · Joined ${new Date(student.joined_at).toLocaleDateString()}`}
+          </Text>
+        </Card>
+
+        {paths.length === 0 && (
+          <Text style={styles.emptyText}>Assign a path to the classroom to follow progress here.</Text>
+        )}
+
+        {paths.map(({ path, lessons }) => {
+          const summary = summarizeStudentProgress(path.lesson_ids, progressRows);
+
+          return (
+            <Card key={path.id} style={styles.pathCard}>
+              <View style={styles.progressHeader}>
+                <Text style={styles.pathTitle} numberOfLines={1}>{path.title}</Text>
+                <Text style={styles.progressPercent}>{summary.percent}%</Text>
+              </View>
+              <View style={styles.progressBar}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    {
+                      width: `${summary.percent}%`,
+                      backgroundColor: summary.percent === 100 ? theme.colors.success : theme.colors.primary,
+                    },
+                  ]}
+                />
+              </View>
+
+              {lessons.map(lesson => {
+                const status = getStudentLessonStatus(lesson.id, progressRows);
+                const { icon, color } = statusIcons[status];
+                const row = progressRows.find(progress => progress.lesson_id === lesson.id);
+
+                return (
+                  <View key={lesson.id} style={styles.lessonRow}>
+                    <Ionicons name={icon} size={20} color={color} />
+                    <Text style={styles.lessonTitle} numberOfLines={1}>{lesson.title}</Text>
+                    {status === 'in_progress' && row && (
+                      <Text style={styles.lessonProgress}>{Math.round(row.progress)}%</Text>
+                    )}
+                  </View>
+                );
+              })}
+            </Card>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.lg,
+    paddingVertical: theme.spacing.md,
+    backgroundColor: theme.colors.background,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.gray[200],
+  },
+  backButton: {
+    padding: theme.spacing.sm,
+    marginLeft: -theme.spacing.sm,
+  },
+  headerTitle: {
+    fontSize: theme.fontSize.lg,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+  },
+  headerRight: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  summaryCard: {
+    margin: theme.spacing.lg,
+  },
+  studentName: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  studentEmail: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginTop: theme.spacing.lg,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: theme.fontSize.xl,
+    fontWeight: theme.fontWeight.bold,
+    color: theme.colors.text.primary,
+  },
+  statLabel: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginTop: 2,
+  },
+  activityText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    textAlign: 'center',
+    marginTop: theme.spacing.lg,
+  },
+  emptyText: {
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.secondary,
+    paddingHorizontal: theme.spacing.lg,
+  },
+  pathCard: {
+    marginHorizontal: theme.spacing.lg,
+    marginBottom: theme.spacing.md,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: theme.spacing.sm,
+  },
+  pathTitle: {
+    flex: 1,
+    fontSize: theme.fontSize.md,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.primary,
+    marginRight: theme.spacing.md,
+  },
+  progressPercent: {
+    fontSize: theme.fontSize.sm,
+    fontWeight: theme.fontWeight.semibold,
+    color: theme.colors.text.secondary,
+  },
+  progressBar: {
+    height: 8,
+    backgroundColor: theme.colors.gray[200],
+    borderRadius: theme.borderRadius.sm,
+    overflow: 'hidden',
+    marginBottom: theme.spacing.sm,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: theme.borderRadius.sm,
+  },
+  lessonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+  },
+  lessonTitle: {
+    flex: 1,
+    fontSize: theme.fontSize.sm,
+    color: theme.colors.text.primary,
+    marginLeft: theme.spacing.sm,
+  },
+  lessonProgress: {
+    fontSize: theme.fontSize.xs,
+    color: theme.colors.text.secondary,
+    marginLeft: theme.spacing.sm,
+  },
+});
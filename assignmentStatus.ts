@@ -0,0 +1,108 @@
+// Due dates and submission state of classroom assignments. Assignments are
+// due at the end of a day in the teacher's local time.
+import { LessonContent, ExerciseBlock } from './lessonContent';
+import { validateExercise } from './exerciseGrading';
+import { toLocalDateKey, fromDateKey, addDays, daysBetween } from './dates';
+
+export type AssignmentStatus = 'submitted' | 'submitted_late' | 'overdue' | 'upcoming';
+
+export interface AssignmentSubmissionSummary {
+  onTime: number;
+  late: number;
+  missing: number; // past due and not submitted
+  pending: number; // not due yet and not submitted
+}
+
+// The end of the day a YYYY-MM-DD key names, as an ISO timestamp
+export function dueAtEndOfDay(dateKey: string): string {
+  const date = fromDateKey(dateKey);
+  date.setHours(23, 59, 59, 999);
+  return date.toISOString();
+}
+
+// Due date choices offered when assigning, as day keys from today
+export function getDueDateOptions(today: string = toLocalDateKey()): { label: string; dateKey: string }[] {
+  return [
+    { label: 'Tomorrow', dateKey: addDays(today, 1) },
+    { label: 'In 3 days', dateKey: addDays(today, 3) },
+    { label: 'In a week', dateKey: addDays(today, 7) },
+    { label: 'In 2 weeks', dateKey: addDays(today, 14) },
+  ];
+}
+
+export function getAssignmentStatus(
+  dueAt: string,
+  submission: { late: boolean } | null | undefined,
+  now: Date = new Date()
+): AssignmentStatus {
+  if (submission) return submission.late ? 'submitted_late' : 'submitted';
+  return new Date(dueAt).getTime() < now.getTime() ? 'overdue' : 'upcoming';
+}
+
+// 'Due today', 'Due in 3 days', 'Overdue by 2 days'...
+export function formatDueLabel(dueAt: string, now: Date = new Date()): string {
+  const days = daysBetween(toLocalDateKey(now), toLocalDateKey(new Date(dueAt)));
+
+  if (new Date(dueAt).getTime() < now.getTime()) {
+    const overdueDays = Math.max(-days, 0);
+    if (overdueDays === 0) return 'Overdue';
+    return `Overdue by ${overdueDays} ${overdueDays === 1 ? 'day' : 'days'}`;
+  }
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  if (days < 7) return `Due in ${days} days`;
+  return `Due ${new Date(dueAt).toLocaleDateString()}`;
+}
+
+// A learner's open assignments, soonest due first, split by whether the due
+// date has passed
+export function splitOpenAssignments<T extends { due_at: string }>(
+  assignments: T[],
+  isSubmitted: (assignment: T) => boolean,
+  now: Date = new Date()
+): { overdue: T[]; upcoming: T[] } {
+  const open = assignments
+    .filter(assignment => !isSubmitted(assignment))
+    .sort((a, b) => a.due_at.localeCompare(b.due_at));
+
+  return {
+    overdue: open.filter(assignment => getAssignmentStatus(assignment.due_at, null, now) === 'overdue'),
+    upcoming: open.filter(assignment => getAssignmentStatus(assignment.due_at, null, now) === 'upcoming'),
+  };
+}
+
+// How a classroom did on one assignment, across the learners on its roster
+export function summarizeSubmissions(
+  dueAt: string,
+  studentIds: string[],
+  submissions: { user_id: string; late: boolean }[],
+  now: Date = new Date()
+): AssignmentSubmissionSummary {
+  const summary: AssignmentSubmissionSummary = { onTime: 0, late: 0, missing: 0, pending: 0 };
+  studentIds.forEach(studentId => {
+    const submission = submissions.find(entry => entry.user_id === studentId);
+    switch (getAssignmentStatus(dueAt, submission, now)) {
+      case 'submitted':
+        summary.onTime += 1;
+        break;
+      case 'submitted_late':
+        summary.late += 1;
+        break;
+      case 'overdue':
+        summary.missing += 1;
+        break;
+      default:
+        summary.pending += 1;
+    }
+  });
+  return summary;
+}
+
+// Exercises that can be assigned: only those with tests can be passed
+export function getAssignableExercises(content: LessonContent): ExerciseBlock[] {
+  return content.sections.flatMap(section =>
+    section.blocks.filter(
+      (block): block is ExerciseBlock => block.type === 'exercise' && validateExercise(block).length === 0
+    )
+  );
+}
@@ -0,0 +1,165 @@
+-- Classroom assignments, through AssignmentService. A teacher assigns a
+-- lesson, or one exercise in it, with a due date. Learners' submissions are
+-- recorded by submit_assignments when LessonsService saves their progress,
+-- from what the server recorded: completing the lesson submits lesson
+-- assignments, passing the exercise submits exercise assignments. Run after
+-- classrooms.sql, record_lesson_progress.sql and exercise_submissions.sql.
+
+create table if not exists classroom_assignments (
+  id uuid primary key default gen_random_uuid(),
+  classroom_id uuid not null references classrooms(id) on delete cascade,
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  -- Null for the whole lesson. The title is kept so the assignment still
+  -- reads well if the lesson is edited later.
+  exercise_id text,
+  exercise_title text,
+  due_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  check ((exercise_id is null) = (exercise_title is null))
+);
+
+create index if not exists classroom_assignments_classroom_id_idx on classroom_assignments (classroom_id, due_at);
+create index if not exists classroom_assignments_lesson_id_idx on classroom_assignments (lesson_id);
+
+create table if not exists assignment_submissions (
+  assignment_id uuid not null references classroom_assignments(id) on delete cascade,
+  user_id uuid not null references profiles(id) on delete cascade,
+  submitted_at timestamptz not null,
+  late boolean not null,
+  primary key (assignment_id, user_id)
+);
+
+-- When a learner fulfilled an assignment on a lesson, or null if they
+-- haven't: the lesson's first completion for a lesson assignment (bounded
+-- by record_lesson_progress, so a completion synced late isn't counted as
+-- late but can't be backdated), the first passing submission of the
+-- exercise for an exercise assignment.
+create or replace function assignment_fulfilled_at(p_lesson_id uuid, p_exercise_id text, p_user_id uuid)
+returns timestamptz
+language sql
+stable
+set search_path = public
+as $$
+  select case
+    when p_exercise_id is null then (
+      select progress.completed_at
+      from user_lesson_progress progress
+      where progress.user_id = p_user_id
+        and progress.lesson_id = p_lesson_id
+        and progress.completed
+    )
+    else (
+      select min(submission.created_at)
+      from exercise_submissions submission
+      where submission.user_id = p_user_id
+        and submission.lesson_id = p_lesson_id
+        and submission.exercise_id = p_exercise_id
+        and submission.passed
+    )
+  end;
+$$;
+
+-- Submit the signed in learner's open assignments on a lesson that their
+-- recorded progress and exercise submissions fulfil. The first submission
+-- stands. Returns how many assignments were submitted.
+create or replace function submit_assignments(p_lesson_id uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  with submitted as (
+    insert into assignment_submissions (assignment_id, user_id, submitted_at, late)
+    select
+      assignments.id,
+      auth.uid(),
+      fulfilled.submitted_at,
+      fulfilled.submitted_at > assignments.due_at
+    from classroom_assignments assignments
+    join classroom_members members
+      on members.classroom_id = assignments.classroom_id and members.user_id = auth.uid()
+    cross join lateral (
+      select assignment_fulfilled_at(assignments.lesson_id, assignments.exercise_id, auth.uid()) as submitted_at
+    ) as fulfilled
+    where assignments.lesson_id = p_lesson_id
+      and fulfilled.submitted_at is not null
+    on conflict (assignment_id, user_id) do nothing
+    returning 1
+  )
+  select count(*) into v_count from submitted;
+
+  return v_count;
+end;
+$$;
+
+drop function if exists submit_assignments(uuid, boolean, timestamptz, text[]);
+
+grant execute on function submit_assignments(uuid) to authenticated;
+
+-- A new assignment is submitted right away for the learners in the
+-- classroom who already completed the lesson or passed the exercise
+create or replace function submit_fulfilled_assignment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into assignment_submissions (assignment_id, user_id, submitted_at, late)
+  select
+    new.id,
+    members.user_id,
+    fulfilled.submitted_at,
+    fulfilled.submitted_at > new.due_at
+  from classroom_members members
+  cross join lateral (
+    select assignment_fulfilled_at(new.lesson_id, new.exercise_id, members.user_id) as submitted_at
+  ) as fulfilled
+  where members.classroom_id = new.classroom_id
+    and fulfilled.submitted_at is not null
+  on conflict (assignment_id, user_id) do nothing;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists classroom_assignments_submit_fulfilled on classroom_assignments;
+create trigger classroom_assignments_submit_fulfilled
+  after insert on classroom_assignments
+  for each row execute function submit_fulfilled_assignment();
+
+alter table classroom_assignments enable row level security;
+alter table assignment_submissions enable row level security;
+
+drop policy if exists "Teachers and members read assignments" on classroom_assignments;
+create policy "Teachers and members read assignments" on classroom_assignments
+  for select
+  using (is_classroom_teacher(classroom_id) or is_classroom_member(classroom_id));
+
+drop policy if exists "Teachers create assignments" on classroom_assignments;
+create policy "Teachers create assignments" on classroom_assignments
+  for insert
+  with check (is_classroom_teacher(classroom_id) and has_capability('manage_classrooms'));
+
+drop policy if exists "Teachers delete assignments" on classroom_assignments;
+create policy "Teachers delete assignments" on classroom_assignments
+  for delete
+  using (is_classroom_teacher(classroom_id) and has_capability('manage_classrooms'));
+
+-- Learners see their own submissions, teachers every submission in their
+-- classrooms. Submissions are only written by submit_assignments.
+drop policy if exists "Learners and teachers read submissions" on assignment_submissions;
+create policy "Learners and teachers read submissions" on assignment_submissions
+  for select
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1
+      from classroom_assignments assignments
+      where assignments.id = assignment_submissions.assignment_id
+        and is_classroom_teacher(assignments.classroom_id)
+    )
+  );
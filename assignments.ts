@@ -0,0 +1,229 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { requireCapability } from './permissions';
+import { ExerciseBlock } from '../utils/lessonContent';
+
+export interface Assignment {
+  id: string;
+  classroom_id: string;
+  lesson_id: string;
+  exercise_id: string | null; // null when the whole lesson is assigned
+  exercise_title: string | null;
+  due_at: string;
+  created_at: string;
+  lessons?: { title: string } | null;
+}
+
+export interface AssignmentSubmission {
+  assignment_id: string;
+  user_id: string;
+  submitted_at: string;
+  late: boolean;
+}
+
+// An assignment as a learner sees it, across the classrooms they belong to
+export type StudentAssignment = Assignment & {
+  classrooms: { name: string } | null;
+  submission: AssignmentSubmission | null;
+};
+
+export const assignmentTitle = (assignment: Assignment) => {
+  const lessonTitle = assignment.lessons?.title || 'Lesson';
+  return assignment.exercise_title ? `${lessonTitle}: ${assignment.exercise_title}` : lessonTitle;
+};
+
+export class AssignmentService {
+  // A classroom's assignments, soonest due first
+  static async getClassroomAssignments(classroomId: string): Promise<ApiResponse<Assignment[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('classroom_assignments')
+        .select('*, lessons (title)')
+        .eq('classroom_id', classroomId)
+        .order('due_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: (data || []) as Assignment[] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch assignments',
+      };
+    }
+  }
+
+  // Submissions to the given assignments. Teachers see every learner's,
+  // learners only their own.
+  static async getSubmissions(assignmentIds: string[]): Promise<ApiResponse<AssignmentSubmission[]>> {
+    try {
+      if (assignmentIds.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const { data, error } = await supabase
+        .from('assignment_submissions')
+        .select('*')
+        .in('assignment_id', assignmentIds);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: (data || []) as AssignmentSubmission[] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch submissions',
+      };
+    }
+  }
+
+  // Assignments in every classroom the learner belongs to, with their own
+  // submission to each, soonest due first
+  static async getStudentAssignments(userId: string): Promise<ApiResponse<StudentAssignment[]>> {
+    try {
+      const { data: memberships, error: membershipsError } = await supabase
+        .from('classroom_members')
+        .select('classroom_id')
+        .eq('user_id', userId);
+
+      if (membershipsError) throw new Error(membershipsError.message);
+
+      const classroomIds = (memberships || []).map(membership => membership.classroom_id as string);
+      if (classroomIds.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const { data, error } = await supabase
+        .from('classroom_assignments')
+        .select('*, lessons (title), classrooms (name)')
+        .in('classroom_id', classroomIds)
+        .order('due_at', { ascending: true });
+
+      if (error) throw new Error(error.message);
+
+      const assignments = (data || []) as (Assignment & { classrooms: { name: string } | null })[];
+      const submissionsResult = await this.getSubmissions(assignments.map(assignment => assignment.id));
+      if (!submissionsResult.success) throw new Error(submissionsResult.error || 'Failed to fetch submissions');
+
+      const submissions = (submissionsResult.data || []).filter(submission => submission.user_id === userId);
+      return {
+        success: true,
+        data: assignments.map(assignment => ({
+          ...assignment,
+          submission: submissions.find(submission => submission.assignment_id === assignment.id) || null,
+        })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch your assignments',
+      };
+    }
+  }
+
+  // Assign a lesson, or one of its exercises, due at dueAt
+  static async createAssignment(
+    classroomId: string,
+    lessonId: string,
+    exercise: ExerciseBlock | null,
+    dueAt: string
+  ): Promise<ApiResponse<Assignment>> {
+    try {
+      await requireCapability('manage_classrooms');
+
+      if (new Date(dueAt).getTime() <= Date.now()) {
+        return { success: false, error: 'Pick a due date in the future' };
+      }
+
+      const { data, error } = await supabase
+        .from('classroom_assignments')
+        .insert([{
+          classroom_id: classroomId,
+          lesson_id: lessonId,
+          exercise_id: exercise?.id ?? null,
+          exercise_title: exercise ? exercise.title || 'Exercise' : null,
+          due_at: dueAt,
+        }])
+        .select('*, lessons (title)')
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: data as Assignment };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create assignment',
+      };
+    }
+  }
+
+  // Also removes its submissions
+  static async deleteAssignment(assignmentId: string): Promise<ApiResponse<null>> {
+    try {
+      await requireCapability('manage_classrooms');
+
+      const { error } = await supabase
+        .from('classroom_assignments')
+        .delete()
+        .eq('id', assignmentId);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete assignment',
+      };
+    }
+  }
+
+  // Submit the signed in learner's assignments on a lesson that their
+  // progress fulfils: lesson assignments once the lesson is complete,
+  // exercise assignments once the exercise is passed. The server checks both
+  // against what it recorded (submit_assignments in assignments.sql). Called
+  // by LessonsService.saveProgress; already submitted assignments are left
+  // alone. Returns how many were submitted.
+  static async submitForLesson(lessonId: string): Promise<ApiResponse<number>> {
+    try {
+      const { data, error } = await supabase.rpc('submit_assignments', {
+        p_lesson_id: lessonId,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: data as number };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to submit assignments',
+      };
+    }
+  }
+}
@@ -1,6 +1,16 @@
 import { supabase } from '../config/supabase';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { AuthUser, Profile, SignUpForm, LoginForm, ApiResponse } from '../types';
+import { UserRole, ROLE_LABELS, requireCapability } from './permissions';
+
+// Roles people can pick when signing up. Everyone starts out as a student;
+// picking another role asks an admin for it (profiles.requested_role), who
+// approves it on the Role Requests screen.
+export const SIGN_UP_ROLES: { value: UserRole; label: string; description: string }[] = [
+  { value: 'student', label: ROLE_LABELS.student, description: 'Take lessons and track your progress' },
+  { value: 'instructor', label: ROLE_LABELS.instructor, description: 'Ask to write lessons; an admin approves it' },
+  { value: 'teacher', label: ROLE_LABELS.teacher, description: 'Ask to run classrooms; an admin approves it' },
+];
 
 export class AuthService {
   // Sign in with email and password
@@ -49,6 +59,8 @@ export class AuthService {
   // Sign up with email, password, and profile data
   static async signUp(formData: SignUpForm): Promise<ApiResponse<AuthUser>> {
     try {
+      const chosen = SIGN_UP_ROLES.find(option => option.value === formData.role)?.value;
+      const requestedRole = chosen && chosen !== 'student' ? chosen : null;
       const { data, error } = await supabase.auth.signUp({
         email: formData.email,
         password: formData.password,
@@ -56,7 +68,7 @@ export class AuthService {
           data: {
             first_name: formData.firstName,
             last_name: formData.lastName,
-            role: 'student',
+            requested_role: requestedRole,
             organization: formData.organization,
           },
         },
@@ -83,6 +95,7 @@ export class AuthService {
         first_name: formData.firstName,
         last_name: formData.lastName,
         role: 'student',
+        requested_role: requestedRole,
         organization: formData.organization,
       });
 
@@ -221,6 +234,63 @@ export class AuthService {
     }
   }
 
+  // Profiles waiting for an admin to settle the role they asked for when
+  // signing up (list_role_requests in permissions.sql). Admins only.
+  static async getRoleRequests(): Promise<ApiResponse<Profile[]>> {
+    try {
+      await requireCapability('manage_roles');
+
+      const { data, error } = await supabase.rpc('list_role_requests');
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []) as Profile[],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch role requests',
+      };
+    }
+  }
+
+  // Give another user a role (grant_role in permissions.sql), which also
+  // settles the role they asked for when signing up. Admins only.
+  static async grantRole(userId: string, role: UserRole): Promise<ApiResponse<Profile>> {
+    try {
+      await requireCapability('manage_roles');
+
+      const { data, error } = await supabase.rpc('grant_role', {
+        p_user_id: userId,
+        p_role: role,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: data as Profile,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to change role',
+      };
+    }
+  }
+
   // Update user profile
   static async updateProfile(userId: string, updates: Partial<Profile>): Promise<ApiResponse<Profile>> {
     try {
@@ -0,0 +1,302 @@
+import { supabase } from '../config/supabase';
+import { Lesson, ApiResponse } from '../types';
+import { parseLessonContent } from '../utils/lessonContent';
+import { LessonDraft, LessonFields, draftToLessonFields, getPublishIssues } from '../utils/lessonDraft';
+import { mapSectionIds } from '../utils/lessonVersions';
+import { Capability, requireCapability } from './permissions';
+
+// draft -> in_review -> published -> archived. Lessons that have been
+// published stay published while later changes are reviewed.
+export type PublishStatus = 'draft' | 'in_review' | 'published' | 'archived';
+
+export type RevisionStatus = 'draft' | 'in_review';
+
+// Steps a reviewer can take on any lesson, as well as its author
+// (rollback_lesson and set_lesson_archived in lesson_versions.sql)
+const AUTHOR_OR_REVIEWER: Capability[] = ['author_lessons', 'review_lessons'];
+
+// A lesson as its author sees it, drafts included
+export type AuthoredLesson = Lesson & {
+  status: PublishStatus;
+  author_id: string;
+  current_version: number | null; // the published version, null until first approved
+  updated_at: string;
+};
+
+// The author's working copy of a lesson. Learners only see it once a
+// reviewer approves it.
+export type LessonRevision = Omit<LessonFields, 'content'> & {
+  lesson_id: string;
+  content: string | null;
+  status: RevisionStatus;
+  base_version: number | null; // the version it was last synced with
+  review_note: string | null; // why a reviewer asked for changes
+  reviewed_at: string | null;
+  submitted_at: string | null;
+  updated_at: string;
+};
+
+// An immutable snapshot of a published version
+export type LessonVersion = Omit<LessonFields, 'content'> & {
+  id: string;
+  lesson_id: string;
+  version: number;
+  content: string | null;
+  note: string | null;
+  section_map: { [sectionId: string]: string };
+  created_by: string | null;
+  created_at: string;
+};
+
+export interface LessonWorkspace {
+  lesson: AuthoredLesson;
+  revision: LessonRevision;
+}
+
+export type AuthoredLessonSummary = AuthoredLesson & {
+  lesson_revisions: Pick<LessonRevision, 'status' | 'review_note' | 'updated_at'> | null;
+};
+
+export class AuthoringService {
+  // Every lesson the instructor has written with the state of its revision,
+  // most recently edited first
+  static async getAuthoredLessons(authorId: string): Promise<ApiResponse<AuthoredLessonSummary[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('lessons')
+        .select('*, lesson_revisions(status, review_note, updated_at)')
+        .eq('author_id', authorId)
+        .order('updated_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: (data || []) as AuthoredLessonSummary[] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch your lessons',
+      };
+    }
+  }
+
+  // A lesson and its revision, fetched fresh rather than from the download
+  // cache so a draft is never edited from a stale copy
+  static async getWorkspace(lessonId: string): Promise<ApiResponse<LessonWorkspace>> {
+    try {
+      const [lessonResult, revisionResult] = await Promise.all([
+        supabase.from('lessons').select('*').eq('id', lessonId).single(),
+        supabase.from('lesson_revisions').select('*').eq('lesson_id', lessonId).single(),
+      ]);
+
+      if (lessonResult.error) throw new Error(lessonResult.error.message);
+      if (revisionResult.error) throw new Error(revisionResult.error.message);
+
+      return {
+        success: true,
+        data: {
+          lesson: lessonResult.data as AuthoredLesson,
+          revision: revisionResult.data as LessonRevision,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch lesson',
+      };
+    }
+  }
+
+  // Start a new lesson as a draft. Its revision is created with it.
+  static async createLesson(authorId: string, draft: LessonDraft): Promise<ApiResponse<LessonWorkspace>> {
+    try {
+      await requireCapability('author_lessons');
+
+      const { data, error } = await supabase
+        .from('lessons')
+        .insert([{ ...draftToLessonFields(draft), author_id: authorId, status: 'draft' }])
+        .select('id')
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return await this.getWorkspace(data.id);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create lesson',
+      };
+    }
+  }
+
+  // Save changes to the revision. Nothing reaches learners until it's
+  // reviewed, and revisions waiting for review can't be changed.
+  static async saveRevision(lessonId: string, draft: LessonDraft): Promise<ApiResponse<LessonRevision>> {
+    try {
+      await requireCapability('author_lessons');
+
+      const { data, error } = await supabase
+        .from('lesson_revisions')
+        .update({ ...draftToLessonFields(draft), updated_at: new Date().toISOString() })
+        .eq('lesson_id', lessonId)
+        .eq('status', 'draft')
+        .select()
+        .maybeSingle();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      if (!data) {
+        return { success: false, error: 'These changes are waiting for review. Withdraw them to keep editing.' };
+      }
+
+      return { success: true, data: data as LessonRevision };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save lesson',
+      };
+    }
+  }
+
+  // Save the draft and hand it to reviewers
+  static async submitForReview(lessonId: string, draft: LessonDraft): Promise<ApiResponse<LessonWorkspace>> {
+    const issues = getPublishIssues(draft);
+    if (issues.length > 0) {
+      return { success: false, error: issues.join('\n') };
+    }
+
+    const saved = await this.saveRevision(lessonId, draft);
+    if (!saved.success) {
+      return { success: false, error: saved.error };
+    }
+
+    return this.runWorkflowStep('submit_lesson_for_review', { p_lesson_id: lessonId }, 'Failed to submit for review');
+  }
+
+  // Take a revision back out of review to keep editing it
+  static async withdrawFromReview(lessonId: string): Promise<ApiResponse<LessonWorkspace>> {
+    return this.runWorkflowStep('withdraw_lesson_review', { p_lesson_id: lessonId }, 'Failed to withdraw from review');
+  }
+
+  // Hide a published lesson from the catalog, or publish an archived one
+  // again. Learners keep their progress either way.
+  static async setArchived(lessonId: string, archived: boolean): Promise<ApiResponse<LessonWorkspace>> {
+    return this.runWorkflowStep(
+      'set_lesson_archived',
+      { p_lesson_id: lessonId, p_archived: archived },
+      archived ? 'Failed to archive lesson' : 'Failed to restore lesson',
+      AUTHOR_OR_REVIEWER
+    );
+  }
+
+  // Delete a lesson that has never been published
+  static async deleteDraft(lessonId: string): Promise<ApiResponse<null>> {
+    try {
+      await requireCapability('author_lessons');
+
+      const { error } = await supabase
+        .from('lessons')
+        .delete()
+        .eq('id', lessonId)
+        .eq('status', 'draft')
+        .is('current_version', null);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete draft',
+      };
+    }
+  }
+
+  // Every published version of a lesson, newest first
+  static async getVersions(lessonId: string): Promise<ApiResponse<LessonVersion[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('lesson_versions')
+        .select('*')
+        .eq('lesson_id', lessonId)
+        .order('version', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: (data || []) as LessonVersion[] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch version history',
+      };
+    }
+  }
+
+  // Publish an earlier version again as a new version. Learners' section
+  // progress follows sections whose ids differ between the two.
+  static async rollback(lesson: AuthoredLesson, version: LessonVersion): Promise<ApiResponse<LessonWorkspace>> {
+    return this.runWorkflowStep(
+      'rollback_lesson',
+      {
+        p_lesson_id: lesson.id,
+        p_version: version.version,
+        p_section_map: mapSectionIds(parseLessonContent(lesson.content), parseLessonContent(version.content)),
+      },
+      'Failed to roll back lesson',
+      AUTHOR_OR_REVIEWER
+    );
+  }
+
+  // Run one of the workflow functions in lesson_versions.sql and fetch the
+  // lesson's new state
+  private static async runWorkflowStep(
+    name: string,
+    params: { p_lesson_id: string; [param: string]: unknown },
+    fallbackError: string,
+    capabilities: Capability | Capability[] = 'author_lessons'
+  ): Promise<ApiResponse<LessonWorkspace>> {
+    try {
+      await requireCapability(capabilities);
+
+      const { error } = await supabase.rpc(name, params);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return await this.getWorkspace(params.p_lesson_id);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : fallbackError,
+      };
+    }
+  }
+}
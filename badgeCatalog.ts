@@ -0,0 +1,82 @@
+import type { Ionicons } from '@expo/vector-icons';
+
+export type BadgeTier = 'bronze' | 'silver' | 'gold';
+
+export type BadgeCriteria =
+  | { type: 'lessons_completed'; count: number }
+  // Lessons completed in a single category (any category when none is given)
+  | { type: 'category_lessons'; count: number; category?: string }
+  | { type: 'streak_days'; days: number }
+  | { type: 'domain_searches'; count: number }
+  // Every published lesson of a difficulty completed
+  | { type: 'difficulty_complete'; difficulty: string };
+
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  tier: BadgeTier;
+  criteria: BadgeCriteria;
+}
+
+// Badges are unlocked by award_badges in badges.sql, which has a rule for
+// each badge here. Add the rule there when adding a badge.
+export const badgeCatalog: BadgeDefinition[] = [
+  {
+    id: 'first-lesson',
+    name: 'First Steps',
+    description: 'Complete your first lesson',
+    icon: 'footsteps',
+    tier: 'bronze',
+    criteria: { type: 'lessons_completed', count: 1 },
+  },
+  {
+    id: 'domain-explorer',
+    name: 'Domain Explorer',
+    description: 'Search for your first .ke domain',
+    icon: 'globe',
+    tier: 'bronze',
+    criteria: { type: 'domain_searches', count: 1 },
+  },
+  {
+    id: 'category-specialist',
+    name: 'Specialist',
+    description: 'Complete 5 lessons in one category',
+    icon: 'layers',
+    tier: 'silver',
+    criteria: { type: 'category_lessons', count: 5 },
+  },
+  {
+    id: 'lesson-master',
+    name: 'Lesson Master',
+    description: 'Complete 10 lessons',
+    icon: 'trophy',
+    tier: 'silver',
+    criteria: { type: 'lessons_completed', count: 10 },
+  },
+  {
+    id: 'week-streak',
+    name: 'On Fire',
+    description: 'Keep a 7-day learning streak',
+    icon: 'flame',
+    tier: 'silver',
+    criteria: { type: 'streak_days', days: 7 },
+  },
+  {
+    id: 'beginner-graduate',
+    name: 'Beginner Graduate',
+    description: 'Complete every beginner lesson',
+    icon: 'school',
+    tier: 'gold',
+    criteria: { type: 'difficulty_complete', difficulty: 'beginner' },
+  },
+  {
+    id: 'month-streak',
+    name: 'Unstoppable',
+    description: 'Keep a 30-day learning streak',
+    icon: 'bonfire',
+    tier: 'gold',
+    criteria: { type: 'streak_days', days: 30 },
+  },
+];
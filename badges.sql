@@ -0,0 +1,132 @@
+-- Unlocked badges and the activity events badge rules count. Badges are
+-- only unlocked through award_badges, which BadgesService calls after any
+-- activity. Badge ids come from the catalog in config/badgeCatalog.ts. Run
+-- after record_lesson_progress.sql and streaks.sql.
+
+create table if not exists user_badges (
+  user_id uuid not null references profiles(id) on delete cascade,
+  badge_id text not null,
+  unlocked_at timestamptz not null default now(),
+  unique (user_id, badge_id)
+);
+
+create table if not exists user_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade,
+  event_type text not null check (event_type in ('domain_search')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_events_user_type_idx on user_events (user_id, event_type);
+
+alter table user_badges enable row level security;
+alter table user_events enable row level security;
+
+-- A badge, once unlocked, is never changed or taken away
+drop policy if exists "Users read their own badges" on user_badges;
+create policy "Users read their own badges" on user_badges
+  for select
+  using (user_id = auth.uid());
+
+-- Badges are only unlocked through award_badges
+drop policy if exists "Users unlock their own badges" on user_badges;
+revoke insert, update, delete on user_badges from anon, authenticated;
+
+drop policy if exists "Users read their own events" on user_events;
+create policy "Users read their own events" on user_events
+  for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users record their own events" on user_events;
+create policy "Users record their own events" on user_events
+  for insert
+  with check (user_id = auth.uid());
+
+-- Unlock every badge whose rule the user now meets. The rules mirror the
+-- criteria in config/badgeCatalog.ts, so a badge added there needs a rule
+-- here before anyone can earn it. Only published lessons count.
+--
+-- Security definer because learners can't write user_badges themselves.
+-- Returns the badges that were newly unlocked.
+create or replace function award_badges(p_user_id uuid)
+returns setof user_badges
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Cannot award badges to another user';
+  end if;
+
+  return query
+  with rules (badge_id, criteria) as (
+    values
+      ('first-lesson', '{"type": "lessons_completed", "count": 1}'::jsonb),
+      ('domain-explorer', '{"type": "domain_searches", "count": 1}'::jsonb),
+      ('category-specialist', '{"type": "category_lessons", "count": 5}'::jsonb),
+      ('lesson-master', '{"type": "lessons_completed", "count": 10}'::jsonb),
+      ('week-streak', '{"type": "streak_days", "days": 7}'::jsonb),
+      ('beginner-graduate', '{"type": "difficulty_complete", "difficulty": "beginner"}'::jsonb),
+      ('month-streak', '{"type": "streak_days", "days": 30}'::jsonb)
+  ),
+  published as (
+    select lesson.id, lesson.category, lower(lesson.difficulty) as difficulty
+    from lessons lesson
+    where lesson.status = 'published'
+  ),
+  completed as (
+    select published.*
+    from published
+    join user_lesson_progress progress on progress.lesson_id = published.id
+    where progress.user_id = p_user_id
+      and progress.completed
+  ),
+  earned as (
+    select rule.badge_id
+    from rules rule
+    where not exists (
+      select 1 from user_badges badge
+      where badge.user_id = p_user_id and badge.badge_id = rule.badge_id
+    )
+    and case rule.criteria->>'type'
+      when 'lessons_completed' then
+        (select count(*) from completed) >= (rule.criteria->>'count')::integer
+      -- In one category, or any category when none is given
+      when 'category_lessons' then exists (
+        select 1
+        from completed
+        where rule.criteria->>'category' is null or completed.category = rule.criteria->>'category'
+        group by completed.category
+        having count(*) >= (rule.criteria->>'count')::integer
+      )
+      when 'streak_days' then
+        coalesce((select streak.longest_streak from user_streaks streak where streak.user_id = p_user_id), 0)
+          >= (rule.criteria->>'days')::integer
+      when 'domain_searches' then
+        (select count(*) from user_events event where event.user_id = p_user_id and event.event_type = 'domain_search')
+          >= (rule.criteria->>'count')::integer
+      -- Every published lesson of the difficulty
+      when 'difficulty_complete' then
+        exists (select 1 from published where published.difficulty = lower(rule.criteria->>'difficulty'))
+        and not exists (
+          select 1
+          from published
+          where published.difficulty = lower(rule.criteria->>'difficulty')
+            and published.id not in (select completed.id from completed)
+        )
+      else false
+    end
+  ),
+  award as (
+    insert into user_badges (user_id, badge_id)
+    select p_user_id, earned.badge_id
+    from earned
+    on conflict (user_id, badge_id) do nothing
+    returning *
+  )
+  select * from award;
+end;
+$$;
+
+grant execute on function award_badges(uuid) to authenticated;
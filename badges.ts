@@ -0,0 +1,117 @@
+import { supabase } from '../config/supabase';
+import { badgeCatalog, BadgeDefinition } from '../config/badgeCatalog';
+import { ApiResponse } from '../types';
+
+export interface BadgeStatus {
+  badge: BadgeDefinition;
+  unlocked_at: string | null; // null while the badge is locked
+}
+
+export class BadgesService {
+  // Unlock any badges the user has newly earned. The rules are checked on
+  // the server (award_badges in badges.sql), which only returns the badges
+  // unlocked by this call, so each badge is announced once.
+  static async evaluateBadges(userId: string): Promise<ApiResponse<BadgeStatus[]>> {
+    try {
+      const { data, error } = await supabase.rpc('award_badges', { p_user_id: userId });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      const unlocked = new Map<string, string>(
+        ((data || []) as { badge_id: string; unlocked_at: string }[]).map(row => [row.badge_id, row.unlocked_at])
+      );
+      return {
+        success: true,
+        data: badgeCatalog
+          .filter(badge => unlocked.has(badge.id))
+          .map(badge => ({ badge, unlocked_at: unlocked.get(badge.id)! })),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to evaluate badges',
+      };
+    }
+  }
+
+  // Get every badge in the catalog with its unlock time, earned badges first
+  static async getBadgeStatuses(userId: string): Promise<ApiResponse<BadgeStatus[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('user_badges')
+        .select('badge_id, unlocked_at')
+        .eq('user_id', userId);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      const unlocked = new Map<string, string>(
+        (data || []).map(row => [row.badge_id, row.unlocked_at])
+      );
+      const statuses: BadgeStatus[] = badgeCatalog.map(badge => ({
+        badge,
+        unlocked_at: unlocked.get(badge.id) || null,
+      }));
+
+      return {
+        success: true,
+        data: [
+          ...statuses
+            .filter(status => status.unlocked_at)
+            .sort((a, b) => b.unlocked_at!.localeCompare(a.unlocked_at!)),
+          ...statuses.filter(status => !status.unlocked_at),
+        ],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch badges',
+      };
+    }
+  }
+
+  // Get the user's earned badges, most recent first
+  static async getEarnedBadges(userId: string): Promise<ApiResponse<BadgeStatus[]>> {
+    const statusResult = await this.getBadgeStatuses(userId);
+    if (!statusResult.success) {
+      return statusResult;
+    }
+
+    return {
+      success: true,
+      data: (statusResult.data || []).filter(status => status.unlocked_at),
+    };
+  }
+
+  // Record a domain search and check for newly unlocked badges
+  static async recordDomainSearch(userId: string): Promise<ApiResponse<BadgeStatus[]>> {
+    try {
+      const { error } = await supabase
+        .from('user_events')
+        .insert([{ user_id: userId, event_type: 'domain_search' }]);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return await this.evaluateBadges(userId);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to record domain search',
+      };
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { NetworkService } from './network';
+import { SyncQueueService } from './syncQueue';
+
+export interface LessonBookmark {
+  user_id: string;
+  lesson_id: string;
+  created_at: string;
+}
+
+// The user's bookmarks are mirrored on the device so they show offline
+const bookmarksCacheKey = (userId: string) => `bookmarksCache:${userId}`;
+
+const newestFirst = (a: LessonBookmark, b: LessonBookmark) => b.created_at.localeCompare(a.created_at);
+
+export class BookmarksService {
+  // Get the user's bookmarks, newest first, including changes still waiting
+  // to sync. Offline, the copy mirrored on this device is used.
+  static async getBookmarks(userId: string): Promise<ApiResponse<LessonBookmark[]>> {
+    try {
+      if (await NetworkService.isOnline()) {
+        const { data, error } = await supabase
+          .from('lesson_bookmarks')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false });
+
+        if (!error) {
+          await this.cacheBookmarks(userId, (data || []) as LessonBookmark[]);
+        } else if (!NetworkService.isNetworkError(error)) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+      }
+
+      return {
+        success: true,
+        data: await this.withPendingBookmarks(userId, await this.getCachedBookmarks(userId)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch bookmarks',
+      };
+    }
+  }
+
+  // Ids of the lessons the user has bookmarked
+  static async getBookmarkedIds(userId: string): Promise<string[]> {
+    const result = await this.getBookmarks(userId);
+    if (!result.success) {
+      console.error('Error fetching bookmarks:', result.error);
+    }
+    return (result.data || []).map(bookmark => bookmark.lesson_id);
+  }
+
+  // Bookmark or un-bookmark a lesson. The device copy changes right away;
+  // without a connection the change is queued and synced later. Returns the
+  // updated bookmarks.
+  static async setBookmarked(userId: string, lessonId: string, bookmarked: boolean): Promise<ApiResponse<LessonBookmark[]>> {
+    try {
+      const cached = (await this.getCachedBookmarks(userId)).filter(bookmark => bookmark.lesson_id !== lessonId);
+      const bookmarks = bookmarked
+        ? [{ user_id: userId, lesson_id: lessonId, created_at: new Date().toISOString() }, ...cached]
+        : cached;
+      await this.cacheBookmarks(userId, bookmarks);
+
+      const saved = (await NetworkService.isOnline())
+        ? await this.saveBookmark(userId, lessonId, bookmarked)
+        : null;
+
+      if (!saved || (!saved.success && NetworkService.isNetworkError(saved.error))) {
+        await SyncQueueService.enqueue({ type: 'bookmark', user_id: userId, lesson_id: lessonId, bookmarked });
+      } else if (!saved.success) {
+        return {
+          success: false,
+          error: saved.error,
+        };
+      }
+
+      return {
+        success: true,
+        data: await this.withPendingBookmarks(userId, bookmarks),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update bookmark',
+      };
+    }
+  }
+
+  // Write a bookmark change to the server. Also used to replay queued changes.
+  static async saveBookmark(userId: string, lessonId: string, bookmarked: boolean): Promise<ApiResponse<null>> {
+    try {
+      const { error } = bookmarked
+        ? await supabase
+            .from('lesson_bookmarks')
+            .upsert([{ user_id: userId, lesson_id: lessonId }], { onConflict: 'user_id,lesson_id', ignoreDuplicates: true })
+        : await supabase
+            .from('lesson_bookmarks')
+            .delete()
+            .eq('user_id', userId)
+            .eq('lesson_id', lessonId);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update bookmark',
+      };
+    }
+  }
+
+  // Listen for bookmark changes made on the user's other devices
+  static onRemoteChange(userId: string, listener: () => void): { unsubscribe: () => void } {
+    const channel = supabase
+      .channel(`lesson_bookmarks:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lesson_bookmarks', filter: `user_id=eq.${userId}` },
+        () => listener()
+      )
+      .subscribe();
+
+    return { unsubscribe: () => { supabase.removeChannel(channel); } };
+  }
+
+  private static async cacheBookmarks(userId: string, bookmarks: LessonBookmark[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(bookmarksCacheKey(userId), JSON.stringify(bookmarks));
+    } catch (error) {
+      console.error('Error caching bookmarks:', error);
+    }
+  }
+
+  private static async getCachedBookmarks(userId: string): Promise<LessonBookmark[]> {
+    try {
+      const stored = await AsyncStorage.getItem(bookmarksCacheKey(userId));
+      return stored ? (JSON.parse(stored) as LessonBookmark[]) : [];
+    } catch (error) {
+      console.error('Error reading cached bookmarks:', error);
+      return [];
+    }
+  }
+
+  // Apply queued changes on top of what the server last returned
+  private static async withPendingBookmarks(userId: string, bookmarks: LessonBookmark[]): Promise<LessonBookmark[]> {
+    const pending = await SyncQueueService.getPendingBookmarks(userId);
+    const pendingIds = Object.keys(pending);
+    if (pendingIds.length === 0) return bookmarks;
+
+    const existing = new Map(bookmarks.map(bookmark => [bookmark.lesson_id, bookmark]));
+    const added = pendingIds
+      .filter(lessonId => pending[lessonId] && !existing.has(lessonId))
+      .map(lessonId => ({ user_id: userId, lesson_id: lessonId, created_at: new Date().toISOString() }));
+
+    return [...added, ...bookmarks.filter(bookmark => pending[bookmark.lesson_id] !== false)].sort(newestFirst);
+  }
+}
@@ -0,0 +1,64 @@
+// How far the learners in a classroom are through the paths assigned to it.
+
+// The parts of a user_lesson_progress row a teacher looks at
+export interface StudentLessonProgress {
+  user_id: string;
+  lesson_id: string;
+  progress: number; // 0-100
+  completed: boolean;
+  last_activity_at: string | null;
+}
+
+export type StudentLessonStatus = 'completed' | 'in_progress' | 'not_started';
+
+export interface StudentProgressSummary {
+  completedCount: number;
+  startedCount: number; // started but not finished
+  total: number;
+  percent: number; // 0-100
+  lastActiveAt: string | null;
+}
+
+// Every lesson of the assigned paths, once each, in path order
+export function getAssignedLessonIds(paths: { lesson_ids: string[] }[]): string[] {
+  const lessonIds: string[] = [];
+  paths.forEach(path => path.lesson_ids.forEach(id => {
+    if (!lessonIds.includes(id)) lessonIds.push(id);
+  }));
+  return lessonIds;
+}
+
+export function groupProgressByStudent(rows: StudentLessonProgress[]): { [userId: string]: StudentLessonProgress[] } {
+  const grouped: { [userId: string]: StudentLessonProgress[] } = {};
+  rows.forEach(row => {
+    (grouped[row.user_id] = grouped[row.user_id] || []).push(row);
+  });
+  return grouped;
+}
+
+export function getStudentLessonStatus(lessonId: string, rows: StudentLessonProgress[]): StudentLessonStatus {
+  const row = rows.find(progress => progress.lesson_id === lessonId);
+  if (!row) return 'not_started';
+  return row.completed ? 'completed' : 'in_progress';
+}
+
+// A learner's progress through the given lessons. lastActiveAt covers any
+// lesson, assigned or not.
+export function summarizeStudentProgress(lessonIds: string[], rows: StudentLessonProgress[]): StudentProgressSummary {
+  const statuses = lessonIds.map(id => getStudentLessonStatus(id, rows));
+  const completedCount = statuses.filter(status => status === 'completed').length;
+  const total = lessonIds.length;
+  const lastActiveAt = rows
+    .map(row => row.last_activity_at)
+    .filter((date): date is string => !!date)
+    .sort()
+    .pop() || null;
+
+  return {
+    completedCount,
+    startedCount: statuses.filter(status => status === 'in_progress').length,
+    total,
+    percent: total > 0 ? Math.round((completedCount / total) * 100) : 0,
+    lastActiveAt,
+  };
+}
@@ -0,0 +1,230 @@
+-- Classrooms, through ClassroomService. A teacher creates a classroom and
+-- shares its join code (or a codesprouts://join/<code> link); learners join
+-- with it and can belong to several classrooms. Teachers assign learning
+-- paths and can follow the progress of the learners on their roster.
+-- Run after permissions.sql and learning_paths.sql.
+
+-- Six characters without the easily confused 0/O and 1/I. Mirrors
+-- JOIN_CODE_ALPHABET in utils/joinCodes.ts.
+create or replace function generate_join_code()
+returns text
+language plpgsql
+volatile
+set search_path = public
+as $$
+declare
+  v_alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_code text;
+begin
+  loop
+    v_code := '';
+    for i in 1..6 loop
+      v_code := v_code || substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::integer, 1);
+    end loop;
+    exit when not exists (select 1 from classrooms where join_code = v_code);
+  end loop;
+  return v_code;
+end;
+$$;
+
+create table if not exists classrooms (
+  id uuid primary key default gen_random_uuid(),
+  teacher_id uuid not null references profiles(id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 80),
+  join_code text not null unique,
+  created_at timestamptz not null default now()
+);
+
+-- Set here rather than in create table: the function reads classrooms
+alter table classrooms
+  alter column join_code set default generate_join_code();
+
+create index if not exists classrooms_teacher_id_idx on classrooms (teacher_id, created_at desc);
+
+create table if not exists classroom_members (
+  classroom_id uuid not null references classrooms(id) on delete cascade,
+  user_id uuid not null references profiles(id) on delete cascade,
+  joined_at timestamptz not null default now(),
+  primary key (classroom_id, user_id)
+);
+
+create index if not exists classroom_members_user_id_idx on classroom_members (user_id);
+
+create table if not exists classroom_paths (
+  classroom_id uuid not null references classrooms(id) on delete cascade,
+  path_id uuid not null references learning_paths(id) on delete cascade,
+  assigned_at timestamptz not null default now(),
+  primary key (classroom_id, path_id)
+);
+
+-- Security definer so the policies below can check membership without
+-- recursing through each other's row level security
+create or replace function is_classroom_teacher(p_classroom_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from classrooms where id = p_classroom_id and teacher_id = auth.uid());
+$$;
+
+create or replace function is_classroom_member(p_classroom_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from classroom_members where classroom_id = p_classroom_id and user_id = auth.uid()
+  );
+$$;
+
+-- Whether the user is on the roster of one of the signed in teacher's
+-- classrooms
+create or replace function teaches_student(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from classroom_members members
+    join classrooms on classrooms.id = members.classroom_id
+    where members.user_id = p_user_id and classrooms.teacher_id = auth.uid()
+  );
+$$;
+
+-- Join a classroom by its code. Learners can't read a classroom before they
+-- belong to it, so this looks it up on their behalf. Returns the classroom id.
+create or replace function join_classroom(p_code text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_classroom classrooms;
+begin
+  if not has_capability('join_classrooms') then
+    raise exception 'Your account can''t join classrooms';
+  end if;
+
+  select * into v_classroom
+  from classrooms
+  where join_code = upper(btrim(p_code));
+
+  if not found then
+    raise exception 'No classroom has that code';
+  end if;
+
+  if v_classroom.teacher_id = auth.uid() then
+    raise exception 'You teach this classroom';
+  end if;
+
+  insert into classroom_members (classroom_id, user_id)
+  values (v_classroom.id, auth.uid())
+  on conflict (classroom_id, user_id) do nothing;
+
+  return v_classroom.id;
+end;
+$$;
+
+-- Replace a classroom's join code, e.g. after it was shared too widely.
+-- Learners who already joined stay on the roster.
+create or replace function regenerate_join_code(p_classroom_id uuid)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_code text;
+begin
+  if not (has_capability('manage_classrooms') and is_classroom_teacher(p_classroom_id)) then
+    raise exception 'Only the classroom''s teacher can change its code';
+  end if;
+
+  v_code := generate_join_code();
+  update classrooms set join_code = v_code where id = p_classroom_id;
+  return v_code;
+end;
+$$;
+
+grant execute on function join_classroom(text) to authenticated;
+grant execute on function regenerate_join_code(uuid) to authenticated;
+
+alter table classrooms enable row level security;
+alter table classroom_members enable row level security;
+alter table classroom_paths enable row level security;
+
+drop policy if exists "Teachers and members read classrooms" on classrooms;
+create policy "Teachers and members read classrooms" on classrooms
+  for select
+  using (teacher_id = auth.uid() or is_classroom_member(id));
+
+drop policy if exists "Teachers create classrooms" on classrooms;
+create policy "Teachers create classrooms" on classrooms
+  for insert
+  with check (teacher_id = auth.uid() and has_capability('manage_classrooms'));
+
+drop policy if exists "Teachers edit their classrooms" on classrooms;
+create policy "Teachers edit their classrooms" on classrooms
+  for update
+  using (teacher_id = auth.uid() and has_capability('manage_classrooms'))
+  with check (teacher_id = auth.uid() and has_capability('manage_classrooms'));
+
+drop policy if exists "Teachers delete their classrooms" on classrooms;
+create policy "Teachers delete their classrooms" on classrooms
+  for delete
+  using (teacher_id = auth.uid() and has_capability('manage_classrooms'));
+
+-- Learners see their own memberships, teachers their whole roster. Joining
+-- goes through join_classroom.
+drop policy if exists "Members and teachers read memberships" on classroom_members;
+create policy "Members and teachers read memberships" on classroom_members
+  for select
+  using (user_id = auth.uid() or is_classroom_teacher(classroom_id));
+
+drop policy if exists "Learners leave and teachers remove" on classroom_members;
+create policy "Learners leave and teachers remove" on classroom_members
+  for delete
+  using (user_id = auth.uid() or is_classroom_teacher(classroom_id));
+
+drop policy if exists "Teachers and members read assigned paths" on classroom_paths;
+create policy "Teachers and members read assigned paths" on classroom_paths
+  for select
+  using (is_classroom_teacher(classroom_id) or is_classroom_member(classroom_id));
+
+drop policy if exists "Teachers assign paths" on classroom_paths;
+create policy "Teachers assign paths" on classroom_paths
+  for insert
+  with check (is_classroom_teacher(classroom_id) and has_capability('manage_classrooms'));
+
+drop policy if exists "Teachers unassign paths" on classroom_paths;
+create policy "Teachers unassign paths" on classroom_paths
+  for delete
+  using (is_classroom_teacher(classroom_id) and has_capability('manage_classrooms'));
+
+-- Teachers follow their students' progress and see who they are; learners
+-- see who teaches them
+drop policy if exists "Teachers read their students' progress" on user_lesson_progress;
+create policy "Teachers read their students' progress" on user_lesson_progress
+  for select
+  using (teaches_student(user_id));
+
+drop policy if exists "Classroom teachers and students read each other" on profiles;
+create policy "Classroom teachers and students read each other" on profiles
+  for select
+  using (
+    teaches_student(id)
+    or exists (
+      select 1
+      from classrooms
+      join classroom_members members on members.classroom_id = classrooms.id
+      where classrooms.teacher_id = profiles.id and members.user_id = auth.uid()
+    )
+  );
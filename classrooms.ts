@@ -0,0 +1,389 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { PathsService, LearningPath } from './paths';
+import { requireCapability } from './permissions';
+import { StudentLessonProgress } from '../utils/classroomProgress';
+import { normalizeJoinCode, isValidJoinCode } from '../utils/joinCodes';
+
+type PersonName = { first_name: string | null; last_name: string | null };
+
+export interface Classroom {
+  id: string;
+  teacher_id: string;
+  name: string;
+  join_code: string;
+  created_at: string;
+  profiles?: PersonName | null; // the teacher
+}
+
+// A classroom as its teacher lists it
+export type TaughtClassroom = Classroom & {
+  classroom_members: { count: number }[];
+};
+
+export interface RosterEntry {
+  user_id: string;
+  joined_at: string;
+  profiles: (PersonName & { email: string | null }) | null;
+}
+
+export const MAX_CLASSROOM_NAME_LENGTH = 80;
+
+const CLASSROOM_SELECT = '*, profiles!classrooms_teacher_id_fkey (first_name, last_name)';
+
+export const personName = (person: PersonName | null | undefined, fallback: string) =>
+  [person?.first_name, person?.last_name].filter(Boolean).join(' ') || fallback;
+
+export class ClassroomService {
+  // Classrooms the teacher runs, newest first, with how many learners joined
+  static async getTaughtClassrooms(teacherId: string): Promise<ApiResponse<TaughtClassroom[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('classrooms')
+        .select('*, classroom_members (count)')
+        .eq('teacher_id', teacherId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: (data || []) as TaughtClassroom[] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch your classrooms',
+      };
+    }
+  }
+
+  // Classrooms the learner belongs to, most recently joined first
+  static async getJoinedClassrooms(userId: string): Promise<ApiResponse<Classroom[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('classroom_members')
+        .select(`joined_at, classrooms (${CLASSROOM_SELECT})`)
+        .eq('user_id', userId)
+        .order('joined_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: ((data || []) as { classrooms: Classroom | null }[])
+          .map(membership => membership.classrooms)
+          .filter((classroom): classroom is Classroom => !!classroom),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch your classrooms',
+      };
+    }
+  }
+
+  static async getClassroom(classroomId: string): Promise<ApiResponse<Classroom>> {
+    try {
+      const { data, error } = await supabase
+        .from('classrooms')
+        .select(CLASSROOM_SELECT)
+        .eq('id', classroomId)
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: data as Classroom };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch classroom',
+      };
+    }
+  }
+
+  // The join code is generated by the database
+  static async createClassroom(teacherId: string, name: string): Promise<ApiResponse<Classroom>> {
+    try {
+      await requireCapability('manage_classrooms');
+
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        return { success: false, error: 'Give the classroom a name' };
+      }
+      if (trimmedName.length > MAX_CLASSROOM_NAME_LENGTH) {
+        return { success: false, error: `Keep the name under ${MAX_CLASSROOM_NAME_LENGTH} characters` };
+      }
+
+      const { data, error } = await supabase
+        .from('classrooms')
+        .insert([{ teacher_id: teacherId, name: trimmedName }])
+        .select()
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: data as Classroom };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to create classroom',
+      };
+    }
+  }
+
+  static async deleteClassroom(classroomId: string): Promise<ApiResponse<null>> {
+    try {
+      await requireCapability('manage_classrooms');
+
+      const { error } = await supabase
+        .from('classrooms')
+        .delete()
+        .eq('id', classroomId);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete classroom',
+      };
+    }
+  }
+
+  // Replace the join code. Learners who already joined stay on the roster.
+  static async regenerateJoinCode(classroomId: string): Promise<ApiResponse<string>> {
+    try {
+      await requireCapability('manage_classrooms');
+
+      const { data, error } = await supabase.rpc('regenerate_join_code', { p_classroom_id: classroomId });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: data as string };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to change the join code',
+      };
+    }
+  }
+
+  // Join with a code as typed or from a link. Joining twice is harmless.
+  static async joinClassroom(code: string): Promise<ApiResponse<Classroom>> {
+    try {
+      await requireCapability('join_classrooms');
+
+      const joinCode = normalizeJoinCode(code);
+      if (!isValidJoinCode(joinCode)) {
+        return { success: false, error: 'Join codes are 6 letters and numbers' };
+      }
+
+      const { data, error } = await supabase.rpc('join_classroom', { p_code: joinCode });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return await this.getClassroom(data as string);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to join classroom',
+      };
+    }
+  }
+
+  // Leave a classroom, or as its teacher remove a learner from it
+  static async removeMember(classroomId: string, userId: string): Promise<ApiResponse<null>> {
+    try {
+      const { error } = await supabase
+        .from('classroom_members')
+        .delete()
+        .eq('classroom_id', classroomId)
+        .eq('user_id', userId);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update the roster',
+      };
+    }
+  }
+
+  // Learners in the classroom, in the order they joined
+  static async getRoster(classroomId: string): Promise<ApiResponse<RosterEntry[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('classroom_members')
+        .select('user_id, joined_at, profiles (first_name, last_name, email)')
+        .eq('classroom_id', classroomId)
+        .order('joined_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: (data || []) as RosterEntry[] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch the roster',
+      };
+    }
+  }
+
+  // Paths assigned to the classroom, in the order they were assigned
+  static async getAssignedPaths(classroomId: string): Promise<ApiResponse<LearningPath[]>> {
+    try {
+      const [assignedResult, pathsResult] = await Promise.all([
+        supabase
+          .from('classroom_paths')
+          .select('path_id')
+          .eq('classroom_id', classroomId)
+          .order('assigned_at', { ascending: true }),
+        PathsService.fetchPaths(),
+      ]);
+
+      if (assignedResult.error) throw new Error(assignedResult.error.message);
+      if (!pathsResult.success) throw new Error(pathsResult.error || 'Failed to fetch learning paths');
+
+      const paths = pathsResult.data || [];
+      return {
+        success: true,
+        data: (assignedResult.data || [])
+          .map(row => paths.find(path => path.id === row.path_id))
+          .filter((path): path is LearningPath => !!path),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch assigned paths',
+      };
+    }
+  }
+
+  static async assignPath(classroomId: string, pathId: string): Promise<ApiResponse<null>> {
+    try {
+      await requireCapability('manage_classrooms');
+
+      const { error } = await supabase
+        .from('classroom_paths')
+        .upsert([{ classroom_id: classroomId, path_id: pathId }], {
+          onConflict: 'classroom_id,path_id',
+          ignoreDuplicates: true,
+        });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to assign path',
+      };
+    }
+  }
+
+  static async unassignPath(classroomId: string, pathId: string): Promise<ApiResponse<null>> {
+    try {
+      await requireCapability('manage_classrooms');
+
+      const { error } = await supabase
+        .from('classroom_paths')
+        .delete()
+        .eq('classroom_id', classroomId)
+        .eq('path_id', pathId);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to unassign path',
+      };
+    }
+  }
+
+  // Lesson progress of the given learners. Teachers can read it for learners
+  // on their rosters.
+  static async getStudentsProgress(userIds: string[]): Promise<ApiResponse<StudentLessonProgress[]>> {
+    try {
+      if (userIds.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const { data, error } = await supabase
+        .from('user_lesson_progress')
+        .select('user_id, lesson_id, progress, completed, last_activity_at')
+        .in('user_id', userIds);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: (data || []) as StudentLessonProgress[] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch progress',
+      };
+    }
+  }
+}
@@ -0,0 +1,44 @@
+// Date helpers for day-based tracking. Day keys are YYYY-MM-DD strings in the
+// device's local timezone, so "today" matches the learner's own calendar.
+
+const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+
+// Format a date as a YYYY-MM-DD key in local time
+export function toLocalDateKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Parse a YYYY-MM-DD key into a local Date at midnight
+export function fromDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Shift a day key by a number of days
+export function addDays(dateKey: string, days: number): string {
+  const date = fromDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toLocalDateKey(date);
+}
+
+// Keep the first of several ISO timestamps that fall on each local day
+export function firstPerDay(timestamps: string[]): string[] {
+  const seen = new Set<string>();
+  return [...timestamps].sort().filter(timestamp => {
+    const dateKey = toLocalDateKey(new Date(timestamp));
+    if (seen.has(dateKey)) return false;
+    seen.add(dateKey);
+    return true;
+  });
+}
+
+// Number of calendar days from one key to another (negative if `to` is earlier)
+export function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split('-').map(Number);
+  const [toYear, toMonth, toDay] = to.split('-').map(Number);
+  // Compare in UTC so daylight saving shifts don't skew the count
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return Math.round(
+    (Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) / msPerDay
+  );
+}
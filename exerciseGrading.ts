@@ -0,0 +1,169 @@
+import { ExerciseBlock, ExerciseTestCase } from './lessonContent';
+import { RunResult, RunHarness } from './sandbox';
+
+export interface TestCaseResult {
+  index: number;
+  hidden: boolean;
+  description?: string;
+  args: unknown[];
+  expected: unknown;
+  actual?: unknown;
+  passed: boolean;
+  error: string | null; // thrown by the learner's function
+  diff: string | null; // where the returned value differs from the expected one; examples only
+}
+
+export interface ExerciseResult {
+  score: number; // 0-1
+  passedCount: number;
+  total: number;
+  passed: boolean; // every test case passed
+  cases: TestCaseResult[];
+  error: string | null; // the submission failed to run at all
+}
+
+// How the server graded one test case of a submission (submit_exercise in
+// exercise_submissions.sql). Hidden tests' expected values never reach the
+// device, so only the server can grade them.
+export interface GradedCase {
+  index: number;
+  hidden: boolean;
+  passed: boolean;
+  error: string | null;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// Examples first, then hidden tests, in the order the harness runs them
+export function getTestCases(exercise: ExerciseBlock): { testCase: ExerciseTestCase; hidden: boolean }[] {
+  return [
+    ...(exercise.examples || []).map(testCase => ({ testCase, hidden: false })),
+    ...(exercise.tests || []).map(testCase => ({ testCase, hidden: true })),
+  ];
+}
+
+// List what's wrong with an exercise definition; empty when it can be graded
+export function validateExercise(exercise: ExerciseBlock): string[] {
+  const problems: string[] = [];
+  if (!exercise.id) problems.push('Exercise is missing an id');
+  if (exercise.language && !/^(js|javascript)$/i.test(exercise.language)) {
+    problems.push(`Exercises in ${exercise.language} can't be graded yet`);
+  }
+  if (!exercise.functionName || !IDENTIFIER.test(exercise.functionName)) {
+    problems.push('Exercise needs the name of the function to test');
+  }
+
+  const cases = getTestCases(exercise);
+  if (cases.length === 0) {
+    problems.push('Exercise has no test cases');
+  }
+  cases.forEach(({ testCase }, index) => {
+    if (!Array.isArray(testCase.args)) problems.push(`Test ${index + 1} needs a list of arguments`);
+  });
+  return problems;
+}
+
+// The calls the sandbox makes to the learner's function once their code has
+// run: each example's and hidden test's arguments, in getTestCases order
+export function buildHarness(exercise: ExerciseBlock): RunHarness {
+  return {
+    functionName: exercise.functionName!,
+    cases: getTestCases(exercise).map(({ testCase }) => testCase.args),
+  };
+}
+
+export function formatValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  try {
+    return JSON.stringify(value, null, 1).replace(/\n\s*/g, ' ');
+  } catch {
+    return String(value);
+  }
+}
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+
+// The first place two JSON-like values differ, or null when they're equal
+export function findDifference(expected: unknown, actual: unknown, path = ''): string | null {
+  const at = path ? `At ${path}: ` : '';
+
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    for (let i = 0; i < Math.min(expected.length, actual.length); i++) {
+      const difference = findDifference(expected[i], actual[i], `${path}[${i}]`);
+      if (difference) return difference;
+    }
+    if (expected.length !== actual.length) {
+      return `${at}expected ${expected.length} items, received ${actual.length}`;
+    }
+    return null;
+  }
+
+  const isObject = (value: unknown): value is { [key: string]: unknown } =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  if (isObject(expected) && isObject(actual)) {
+    for (const key of Object.keys(expected)) {
+      const difference = findDifference(expected[key], actual[key], `${path}.${key}`);
+      if (difference) return difference;
+    }
+    const extra = Object.keys(actual).filter(key => !(key in expected));
+    if (extra.length > 0) {
+      return `${at}unexpected ${extra.length === 1 ? 'key' : 'keys'} ${extra.join(', ')}`;
+    }
+    return null;
+  }
+
+  if (expected === actual) return null;
+
+  if (describe(expected) !== describe(actual) && (typeof expected === 'object' || typeof actual === 'object')) {
+    return `${at}expected ${describe(expected)}, received ${formatValue(actual)}`;
+  }
+  return `${at}expected ${formatValue(expected)}, received ${formatValue(actual)}`;
+}
+
+// Grade a harness run. Examples are also compared on the device so their
+// differences can be shown, but when the server's grading is given it
+// decides every case; hidden tests count as failed until it is.
+export function gradeExercise(exercise: ExerciseBlock, run: RunResult, graded: GradedCase[] = []): ExerciseResult {
+  const reported = Array.isArray(run.reported) ? run.reported : null;
+  const runError = reported ? null : (run.error || 'Your code did not finish running');
+
+  const cases = getTestCases(exercise).map(({ testCase, hidden }, index): TestCaseResult => {
+    const base = {
+      index,
+      hidden,
+      description: testCase.description,
+      args: testCase.args,
+      expected: testCase.expected,
+    };
+
+    const outcome = reported?.[index];
+    if (!outcome || outcome.error) {
+      return { ...base, passed: false, error: outcome?.error || runError, diff: null };
+    }
+
+    const grade = graded.find(entry => entry.index === index);
+    if (hidden) {
+      return { ...base, passed: !!grade?.passed, error: grade?.error ?? null, diff: null };
+    }
+
+    const actual = outcome.actual === undefined ? undefined : JSON.parse(outcome.actual);
+    // Round-trip the expected value too, so e.g. -0 and 0 compare the same way
+    const expected = testCase.expected === undefined ? undefined : JSON.parse(JSON.stringify(testCase.expected));
+    const diff = findDifference(expected, actual);
+    return { ...base, actual, passed: grade ? grade.passed : !diff, error: null, diff };
+  });
+
+  const passedCount = cases.filter(result => result.passed).length;
+  const total = cases.length;
+
+  return {
+    score: total > 0 ? passedCount / total : 0,
+    passedCount,
+    total,
+    passed: total > 0 && passedCount === total,
+    cases,
+    error: runError,
+  };
+}
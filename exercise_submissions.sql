@@ -0,0 +1,290 @@
+-- Coding exercise submissions, graded by submit_exercise through
+-- ExerciseService.submit. The sandbox on the device runs the learner's
+-- function against each example's and hidden test's arguments; the server
+-- compares what it returned with the expected values. Hidden tests'
+-- expected values are moved out of the lesson content learners read into
+-- exercise_test_answers, which only this file's functions read.
+-- Run after section_progress.sql and classrooms.sql, and before
+-- record_lesson_progress.sql.
+
+create table if not exists exercise_submissions (
+  id uuid primary key,
+  user_id uuid not null references profiles(id) on delete cascade,
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  exercise_id text not null,
+  code text not null check (char_length(code) <= 50000),
+  score real not null check (score between 0 and 1),
+  passed boolean not null,
+  -- [{ index, hidden, passed, error }], see GradedCase in utils/exerciseGrading.ts
+  results jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists exercise_submissions_user_lesson_idx on exercise_submissions (user_id, lesson_id, created_at desc);
+create index if not exists exercise_submissions_exercise_idx on exercise_submissions (lesson_id, exercise_id, created_at desc);
+
+-- Ids of the exercises in a lesson's required sections, which
+-- record_lesson_progress won't complete the lesson without a passed
+-- submission of. Like getSectionActivityIds, only exercises validateExercise
+-- accepts count: an id, JavaScript, a function name and at least one test
+-- case. Their test cases' arguments are checked before a lesson can be
+-- published.
+create or replace function lesson_required_exercise_ids(p_content text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(distinct content_block ->> 'id'), '{}')
+  from lesson_content_blocks(p_content)
+  where section_required
+    and content_block ->> 'type' = 'exercise'
+    and coalesce(content_block ->> 'id', '') <> ''
+    and coalesce(content_block ->> 'language', '') ~* '^(js|javascript)?$'
+    and coalesce(content_block ->> 'functionName', '') ~ '^[A-Za-z_$][A-Za-z0-9_$]*$'
+    and (
+      case when jsonb_typeof(content_block -> 'examples') = 'array' then jsonb_array_length(content_block -> 'examples') else 0 end
+      + case when jsonb_typeof(content_block -> 'tests') = 'array' then jsonb_array_length(content_block -> 'tests') else 0 end
+    ) > 0;
+$$;
+
+-- Expected value of each hidden test, by its position in the exercise's
+-- tests. A null expected value means the function should return undefined.
+-- Deferred so a new lesson's answers can be stored while it is inserted.
+create table if not exists exercise_test_answers (
+  lesson_id uuid not null references lessons(id) on delete cascade deferrable initially deferred,
+  exercise_id text not null,
+  position integer not null,
+  expected jsonb,
+  primary key (lesson_id, exercise_id, position)
+);
+
+alter table exercise_submissions enable row level security;
+alter table exercise_test_answers enable row level security;
+
+-- No insert policy: submissions are only written by submit_exercise, so the
+-- score can't be made up. No policies at all on exercise_test_answers.
+drop policy if exists "Users read their own submissions" on exercise_submissions;
+create policy "Users read their own submissions" on exercise_submissions
+  for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Teachers read their students' submissions" on exercise_submissions;
+create policy "Teachers read their students' submissions" on exercise_submissions
+  for select
+  using (teaches_student(user_id));
+
+-- A list of blocks with the expected values dropped from exercises' tests
+create or replace function strip_test_answers(p_blocks jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_agg(
+    case
+      when item ->> 'type' = 'exercise' and jsonb_typeof(item -> 'tests') = 'array' then jsonb_set(
+        item,
+        '{tests}',
+        (
+          select coalesce(jsonb_agg(
+            case when jsonb_typeof(test) = 'object' then test - 'expected' else test end
+            order by test_position
+          ), '[]'::jsonb)
+          from jsonb_array_elements(item -> 'tests') with ordinality as tests(test, test_position)
+        )
+      )
+      else item
+    end
+    order by item_position
+  ), '[]'::jsonb)
+  from jsonb_array_elements(p_blocks) with ordinality as items(item, item_position);
+$$;
+
+-- Move the expected values of hidden tests out of a lesson's content on
+-- every write. An exercise whose tests carry expected values replaces its
+-- stored answers; one whose tests don't (content that was already stripped,
+-- e.g. edited and published again) keeps them.
+create or replace function store_test_answers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exercise record;
+  v_json jsonb;
+begin
+  for v_exercise in
+    select distinct on (content_block ->> 'id')
+      content_block ->> 'id' as exercise_id,
+      content_block -> 'tests' as tests
+    from lesson_content_blocks(new.content)
+    where content_block ->> 'type' = 'exercise'
+      and coalesce(content_block ->> 'id', '') <> ''
+      and jsonb_typeof(content_block -> 'tests') = 'array'
+      and exists (
+        select 1
+        from jsonb_array_elements(content_block -> 'tests') as test
+        where jsonb_typeof(test) = 'object' and test ? 'expected'
+      )
+  loop
+    delete from exercise_test_answers
+    where lesson_id = new.id and exercise_id = v_exercise.exercise_id;
+
+    insert into exercise_test_answers (lesson_id, exercise_id, position, expected)
+    select new.id, v_exercise.exercise_id, (test_position - 1)::integer, test -> 'expected'
+    from jsonb_array_elements(v_exercise.tests) with ordinality as tests(test, test_position);
+  end loop;
+
+  if not found then
+    return new;
+  end if;
+
+  -- lesson_content_blocks returned exercises, so the content is JSON
+  v_json := new.content::jsonb;
+  if jsonb_typeof(v_json -> 'sections') = 'array' then
+    v_json := jsonb_set(v_json, '{sections}', (
+      select coalesce(jsonb_agg(
+        case
+          when jsonb_typeof(section -> 'blocks') = 'array'
+            then jsonb_set(section, '{blocks}', strip_test_answers(section -> 'blocks'))
+          else section
+        end
+        order by section_position
+      ), '[]'::jsonb)
+      from jsonb_array_elements(v_json -> 'sections') with ordinality as sections(section, section_position)
+    ));
+  elsif jsonb_typeof(v_json) = 'array' then
+    v_json := strip_test_answers(v_json);
+  else
+    v_json := jsonb_set(v_json, '{blocks}', strip_test_answers(v_json -> 'blocks'));
+  end if;
+
+  new.content := v_json::text;
+  return new;
+end;
+$$;
+
+drop trigger if exists lessons_store_test_answers on lessons;
+create trigger lessons_store_test_answers
+  before insert or update of content on lessons
+  for each row execute function store_test_answers();
+
+-- Move the answers out of lessons written before the trigger existed
+update lessons set content = content where content like '%"expected"%';
+
+-- Grade and store a submission. p_outcomes is what the sandbox harness
+-- reported for each example and hidden test, in getTestCases order:
+-- [{ actual?: <JSON text of the returned value>, error?: text }]. Values
+-- compare as JSON, like findDifference in utils/exerciseGrading.ts: a
+-- missing actual value is undefined and only matches a missing expected one.
+-- A retried submission with the same id is stored once.
+--
+-- Returns the submission row.
+create or replace function submit_exercise(
+  p_id uuid,
+  p_user_id uuid,
+  p_lesson_id uuid,
+  p_exercise_id text,
+  p_code text,
+  p_outcomes jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_exercise jsonb;
+  v_examples jsonb;
+  v_tests jsonb;
+  v_case record;
+  v_outcome jsonb;
+  v_passed boolean;
+  v_error text;
+  v_results jsonb := '[]'::jsonb;
+  v_passed_count integer := 0;
+  v_total integer := 0;
+  v_row exercise_submissions;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Cannot submit for another user';
+  end if;
+
+  select content_block into v_exercise
+  from lessons lesson
+  cross join lateral lesson_content_blocks(lesson.content)
+  where lesson.id = p_lesson_id
+    and lesson.status = 'published'
+    and content_block ->> 'type' = 'exercise'
+    and content_block ->> 'id' = p_exercise_id
+  limit 1;
+
+  if v_exercise is null then
+    raise exception 'Exercise not found';
+  end if;
+
+  v_examples := case when jsonb_typeof(v_exercise -> 'examples') = 'array' then v_exercise -> 'examples' else '[]'::jsonb end;
+  v_tests := case when jsonb_typeof(v_exercise -> 'tests') = 'array' then v_exercise -> 'tests' else '[]'::jsonb end;
+
+  for v_case in
+    select (example_position - 1)::integer as case_index, false as hidden, example -> 'expected' as expected
+    from jsonb_array_elements(v_examples) with ordinality as examples(example, example_position)
+    union all
+    select (jsonb_array_length(v_examples) + test_position - 1)::integer, true, answer.expected
+    from jsonb_array_elements(v_tests) with ordinality as tests(test, test_position)
+    left join exercise_test_answers answer
+      on answer.lesson_id = p_lesson_id
+      and answer.exercise_id = p_exercise_id
+      and answer.position = test_position - 1
+    order by case_index
+  loop
+    v_outcome := case when jsonb_typeof(p_outcomes) = 'array' then p_outcomes -> v_case.case_index end;
+    v_error := null;
+
+    if jsonb_typeof(v_outcome) is distinct from 'object' then
+      v_passed := false;
+      v_error := 'Your code did not finish running';
+    elsif v_outcome ? 'error' then
+      v_passed := false;
+      v_error := v_outcome ->> 'error';
+    elsif v_outcome ? 'actual' then
+      begin
+        v_passed := coalesce((v_outcome ->> 'actual')::jsonb = v_case.expected, false);
+      exception when others then
+        v_passed := false;
+      end;
+    else
+      v_passed := v_case.expected is null;
+    end if;
+
+    v_total := v_total + 1;
+    if v_passed then
+      v_passed_count := v_passed_count + 1;
+    end if;
+    v_results := v_results || jsonb_build_array(jsonb_build_object(
+      'index', v_case.case_index,
+      'hidden', v_case.hidden,
+      'passed', v_passed,
+      'error', v_error
+    ));
+  end loop;
+
+  insert into exercise_submissions (id, user_id, lesson_id, exercise_id, code, score, passed, results)
+  values (
+    p_id,
+    p_user_id,
+    p_lesson_id,
+    p_exercise_id,
+    p_code,
+    case when v_total > 0 then v_passed_count::real / v_total else 0 end,
+    v_total > 0 and v_passed_count = v_total,
+    v_results
+  )
+  on conflict (id) do nothing;
+
+  select * into v_row from exercise_submissions where id = p_id and user_id = p_user_id;
+  return to_jsonb(v_row);
+end;
+$$;
+
+grant execute on function submit_exercise(uuid, uuid, uuid, text, text, jsonb) to authenticated;
@@ -0,0 +1,136 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { ExerciseBlock } from '../utils/lessonContent';
+import { RunResult } from '../utils/sandbox';
+import { ExerciseResult, GradedCase, gradeExercise } from '../utils/exerciseGrading';
+import { NetworkService } from './network';
+import { createId } from './syncQueue';
+
+export interface ExerciseSubmission {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  exercise_id: string;
+  code: string;
+  score: number;
+  passed: boolean;
+  results: GradedCase[];
+  created_at: string;
+}
+
+// Hidden tests are graded on the server, so submitting needs a connection
+const OFFLINE_ERROR = 'Connect to the internet to submit. You can still run your code offline.';
+
+export class ExerciseService {
+  // Submit a harness run to be graded. The submit_exercise function grades it
+  // against the examples and the hidden tests, whose expected values only the
+  // server has, and stores it. Every submission is kept, passed or not, so
+  // learners and teachers can look back at them.
+  static async submit(
+    userId: string,
+    lessonId: string,
+    exercise: ExerciseBlock,
+    code: string,
+    run: RunResult
+  ): Promise<ApiResponse<{ submission: ExerciseSubmission; result: ExerciseResult }>> {
+    try {
+      if (!(await NetworkService.isOnline())) {
+        return {
+          success: false,
+          error: OFFLINE_ERROR,
+        };
+      }
+
+      const { data, error } = await supabase.rpc('submit_exercise', {
+        p_id: createId(),
+        p_user_id: userId,
+        p_lesson_id: lessonId,
+        p_exercise_id: exercise.id,
+        p_code: code,
+        p_outcomes: run.reported ?? [],
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: NetworkService.isNetworkError(error)
+            ? OFFLINE_ERROR
+            : error.message,
+        };
+      }
+
+      const submission = data as ExerciseSubmission;
+      return {
+        success: true,
+        data: {
+          submission,
+          result: gradeExercise(exercise, run, submission.results),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to submit exercise',
+      };
+    }
+  }
+
+  // Get a user's submissions for a lesson's exercises, newest first
+  static async getSubmissions(userId: string, lessonId: string): Promise<ApiResponse<ExerciseSubmission[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('exercise_submissions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('lesson_id', lessonId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []) as ExerciseSubmission[],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch submissions',
+      };
+    }
+  }
+
+  // Get every learner's submissions for one exercise, for teachers reviewing a
+  // lesson. Row-level security decides whose submissions are visible.
+  static async getExerciseSubmissions(lessonId: string, exerciseId: string): Promise<ApiResponse<ExerciseSubmission[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('exercise_submissions')
+        .select('*')
+        .eq('lesson_id', lessonId)
+        .eq('exercise_id', exerciseId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []) as ExerciseSubmission[],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch submissions',
+      };
+    }
+  }
+}
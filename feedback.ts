@@ -0,0 +1,292 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { NetworkService } from './network';
+import { SyncQueueService, createId } from './syncQueue';
+
+export type ProblemKind = 'typo' | 'broken_code' | 'outdated' | 'other';
+
+export const PROBLEM_KINDS: { value: ProblemKind; label: string }[] = [
+  { value: 'typo', label: 'Typo' },
+  { value: 'broken_code', label: 'Broken code' },
+  { value: 'outdated', label: 'Outdated content' },
+  { value: 'other', label: 'Something else' },
+];
+
+export interface LessonRating {
+  user_id: string;
+  lesson_id: string;
+  rating: number; // 1–5
+  feedback: string | null;
+  created_at?: string;
+  updated_at: string;
+  lessons?: { title: string } | null; // joined lesson
+}
+
+export interface LessonReport {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  section_id: string | null;
+  kind: ProblemKind;
+  details: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  lessons?: { title: string } | null; // joined lesson
+}
+
+// An author's published lesson with its ratings so far
+export interface RatedLesson {
+  id: string;
+  title: string;
+  rating_average: number | null;
+  rating_count: number;
+}
+
+export interface AuthorInbox {
+  lessons: RatedLesson[]; // lowest rated first, unrated last
+  feedback: LessonRating[]; // ratings with written feedback, newest first
+  reports: LessonReport[]; // open reports first, then newest first
+}
+
+// Upper bound on inbox items fetched at once
+const INBOX_LIMIT = 200;
+
+const byRating = (a: RatedLesson, b: RatedLesson) =>
+  (a.rating_average ?? Infinity) - (b.rating_average ?? Infinity) || a.title.localeCompare(b.title);
+
+const openFirst = (a: LessonReport, b: LessonReport) =>
+  Number(!!a.resolved_at) - Number(!!b.resolved_at) || b.created_at.localeCompare(a.created_at);
+
+export class FeedbackService {
+  // The user's rating of a lesson, including one still waiting to sync
+  static async getMyRating(userId: string, lessonId: string): Promise<ApiResponse<LessonRating | null>> {
+    try {
+      const pending = await SyncQueueService.getPendingRating(userId, lessonId);
+      if (pending) {
+        return {
+          success: true,
+          data: {
+            user_id: userId,
+            lesson_id: lessonId,
+            rating: pending.rating,
+            feedback: pending.feedback,
+            updated_at: pending.rated_at,
+          },
+        };
+      }
+
+      const { data, error } = await supabase
+        .from('lesson_ratings')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('lesson_id', lessonId)
+        .maybeSingle();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: data as LessonRating | null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch rating',
+      };
+    }
+  }
+
+  // Rate a completed lesson, with optional written feedback for its author.
+  // Rating again replaces the earlier rating. Queued when offline.
+  static async rateLesson(
+    userId: string,
+    lessonId: string,
+    rating: number,
+    feedback: string | null
+  ): Promise<ApiResponse<LessonRating>> {
+    try {
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return {
+          success: false,
+          error: 'Choose a rating from 1 to 5 stars',
+        };
+      }
+
+      const saved: LessonRating = {
+        user_id: userId,
+        lesson_id: lessonId,
+        rating,
+        feedback: feedback?.trim() || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      const result = (await NetworkService.isOnline()) ? await this.saveRating(saved) : null;
+      if (!result || (!result.success && NetworkService.isNetworkError(result.error))) {
+        await SyncQueueService.enqueue({
+          type: 'rating',
+          user_id: userId,
+          lesson_id: lessonId,
+          rating,
+          feedback: saved.feedback,
+          rated_at: saved.updated_at,
+        });
+      } else if (!result.success) {
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
+
+      return { success: true, data: saved };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save rating',
+      };
+    }
+  }
+
+  // Write a rating to the server. Also used to replay queued ratings.
+  static async saveRating(rating: LessonRating): Promise<ApiResponse<null>> {
+    try {
+      const { lessons, created_at, ...row } = rating;
+      const { error } = await supabase
+        .from('lesson_ratings')
+        .upsert([row], { onConflict: 'user_id,lesson_id' });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save rating',
+      };
+    }
+  }
+
+  // Report a problem with a lesson to its author. Queued when offline.
+  static async reportProblem(
+    userId: string,
+    lessonId: string,
+    kind: ProblemKind,
+    details: string | null,
+    sectionId: string | null = null
+  ): Promise<ApiResponse<null>> {
+    try {
+      const row = {
+        id: createId(),
+        user_id: userId,
+        lesson_id: lessonId,
+        section_id: sectionId,
+        kind,
+        details: details?.trim() || null,
+        created_at: new Date().toISOString(),
+      };
+
+      const saved = (await NetworkService.isOnline())
+        ? await supabase.from('lesson_reports').insert([row])
+        : null;
+
+      if (!saved || (saved.error && NetworkService.isNetworkError(saved.error))) {
+        await SyncQueueService.enqueue({ type: 'insert', table: 'lesson_reports', row });
+      } else if (saved.error) {
+        return {
+          success: false,
+          error: saved.error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to send report',
+      };
+    }
+  }
+
+  // Ratings, written feedback and problem reports on the lessons an author
+  // has published
+  static async getAuthorInbox(authorId: string): Promise<ApiResponse<AuthorInbox>> {
+    try {
+      const { data: lessons, error: lessonsError } = await supabase
+        .from('lesson_catalog')
+        .select('id, title, rating_average, rating_count')
+        .eq('author_id', authorId);
+
+      if (lessonsError) throw new Error(lessonsError.message);
+
+      const lessonIds = (lessons || []).map(lesson => lesson.id);
+      if (lessonIds.length === 0) {
+        return { success: true, data: { lessons: [], feedback: [], reports: [] } };
+      }
+
+      const [feedbackResult, reportsResult] = await Promise.all([
+        supabase
+          .from('lesson_ratings')
+          .select('*, lessons(title)')
+          .in('lesson_id', lessonIds)
+          .not('feedback', 'is', null)
+          .order('updated_at', { ascending: false })
+          .limit(INBOX_LIMIT),
+        supabase
+          .from('lesson_reports')
+          .select('*, lessons(title)')
+          .in('lesson_id', lessonIds)
+          .order('created_at', { ascending: false })
+          .limit(INBOX_LIMIT),
+      ]);
+
+      if (feedbackResult.error) throw new Error(feedbackResult.error.message);
+      if (reportsResult.error) throw new Error(reportsResult.error.message);
+
+      return {
+        success: true,
+        data: {
+          lessons: ((lessons || []) as RatedLesson[]).sort(byRating),
+          feedback: (feedbackResult.data || []) as LessonRating[],
+          reports: ((reportsResult.data || []) as LessonReport[]).sort(openFirst),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch feedback',
+      };
+    }
+  }
+
+  // Mark a report on one of the author's lessons resolved, or open again
+  static async setReportResolved(reportId: string, resolved: boolean): Promise<ApiResponse<LessonReport>> {
+    try {
+      const { data, error } = await supabase
+        .from('lesson_reports')
+        .update({ resolved_at: resolved ? new Date().toISOString() : null })
+        .eq('id', reportId)
+        .select('*, lessons(title)')
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: data as LessonReport };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update report',
+      };
+    }
+  }
+}
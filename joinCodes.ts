@@ -0,0 +1,26 @@
+// Classroom join codes and the deep links that carry them, e.g.
+// codesprouts://join/K7MQ2X. Codes are generated by generate_join_code in
+// classrooms.sql.
+
+export const APP_SCHEME = 'codesprouts';
+
+export const JOIN_LINK_PREFIX = `${APP_SCHEME}://`;
+
+export const JOIN_CODE_LENGTH = 6;
+
+// No 0/O or 1/I, so codes read out loud or copied by hand still work
+export const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const JOIN_CODE_PATTERN = new RegExp(`^[${JOIN_CODE_ALPHABET}]{${JOIN_CODE_LENGTH}}$`);
+
+// What the learner typed, as a code: upper case, without spaces or the
+// dash codes are shown with
+export const normalizeJoinCode = (input: string) => input.toUpperCase().replace(/[\s-]/g, '');
+
+export const isValidJoinCode = (code: string) => JOIN_CODE_PATTERN.test(normalizeJoinCode(code));
+
+// 'K7MQ2X' -> 'K7M-Q2X'
+export const formatJoinCode = (code: string) =>
+  code.length === JOIN_CODE_LENGTH ? `${code.slice(0, 3)}-${code.slice(3)}` : code;
+
+export const buildJoinLink = (code: string) => `${JOIN_LINK_PREFIX}join/${code}`;
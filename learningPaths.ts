@@ -0,0 +1,69 @@
+// Lesson prerequisites and learning path progress. A lesson is locked until
+// every one of its prerequisites is complete; a path is a sequence of lessons
+// that is complete once all of them are.
+
+// Prerequisite lesson ids, keyed by the lesson that requires them
+export type PrerequisiteMap = { [lessonId: string]: string[] };
+
+export type PathLessonStatus = 'completed' | 'in_progress' | 'available' | 'locked';
+
+export interface PathProgress {
+  completedCount: number;
+  total: number;
+  percent: number; // 0-100
+  completed: boolean;
+  nextLessonId: string | null; // first unfinished lesson that isn't locked
+}
+
+export function buildPrerequisiteMap(rows: { lesson_id: string; prerequisite_id: string }[]): PrerequisiteMap {
+  const map: PrerequisiteMap = {};
+  rows.forEach(row => {
+    (map[row.lesson_id] = map[row.lesson_id] || []).push(row.prerequisite_id);
+  });
+  return map;
+}
+
+export function getMissingPrerequisites(
+  lessonId: string,
+  prerequisites: PrerequisiteMap,
+  completedIds: Set<string>
+): string[] {
+  return (prerequisites[lessonId] || []).filter(id => !completedIds.has(id));
+}
+
+export function isLessonLocked(lessonId: string, prerequisites: PrerequisiteMap, completedIds: Set<string>): boolean {
+  return getMissingPrerequisites(lessonId, prerequisites, completedIds).length > 0;
+}
+
+export function getPathLessonStatus(
+  lessonId: string,
+  prerequisites: PrerequisiteMap,
+  completedIds: Set<string>,
+  startedIds: Set<string>
+): PathLessonStatus {
+  if (completedIds.has(lessonId)) return 'completed';
+  // Lessons already under way stay open even if a prerequisite was added later,
+  // though record_lesson_progress won't complete them until it is
+  if (startedIds.has(lessonId)) return 'in_progress';
+  return isLessonLocked(lessonId, prerequisites, completedIds) ? 'locked' : 'available';
+}
+
+export function calculatePathProgress(
+  lessonIds: string[],
+  prerequisites: PrerequisiteMap,
+  completedIds: Set<string>
+): PathProgress {
+  const completedCount = lessonIds.filter(id => completedIds.has(id)).length;
+  const total = lessonIds.length;
+  const nextLessonId = lessonIds.find(id =>
+    !completedIds.has(id) && !isLessonLocked(id, prerequisites, completedIds)
+  ) || null;
+
+  return {
+    completedCount,
+    total,
+    percent: total > 0 ? Math.round((completedCount / total) * 100) : 0,
+    completed: total > 0 && completedCount === total,
+    nextLessonId,
+  };
+}
@@ -0,0 +1,107 @@
+-- Learning paths and lesson prerequisites, read by PathsService. Paths are
+-- curated with the service role; learners only read them. Finishing every
+-- lesson in a path pays out its xp_reward through award_completed_paths.
+-- Run after permissions.sql and xp_ledger.sql, and before
+-- record_lesson_progress.sql and classrooms.sql.
+
+create table if not exists learning_paths (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  description text,
+  icon text, -- Ionicons name
+  xp_reward integer not null default 0 check (xp_reward >= 0),
+  status text not null default 'draft' check (status in ('draft', 'published', 'archived')),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists learning_path_lessons (
+  path_id uuid not null references learning_paths(id) on delete cascade,
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  position integer not null,
+  primary key (path_id, lesson_id),
+  unique (path_id, position)
+);
+
+create index if not exists learning_path_lessons_lesson_id_idx on learning_path_lessons (lesson_id);
+
+create table if not exists lesson_prerequisites (
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  prerequisite_id uuid not null references lessons(id) on delete cascade,
+  primary key (lesson_id, prerequisite_id),
+  check (lesson_id <> prerequisite_id)
+);
+
+create index if not exists lesson_prerequisites_prerequisite_id_idx on lesson_prerequisites (prerequisite_id);
+
+alter table learning_paths enable row level security;
+alter table learning_path_lessons enable row level security;
+alter table lesson_prerequisites enable row level security;
+
+-- No insert, update or delete policies: paths and prerequisites are only
+-- written with the service role
+drop policy if exists "Published paths are readable" on learning_paths;
+create policy "Published paths are readable" on learning_paths
+  for select
+  using (status = 'published' or has_capability('review_lessons'));
+
+drop policy if exists "Lessons of readable paths are readable" on learning_path_lessons;
+create policy "Lessons of readable paths are readable" on learning_path_lessons
+  for select
+  using (exists (select 1 from learning_paths learning_path where learning_path.id = learning_path_lessons.path_id));
+
+drop policy if exists "Prerequisites are readable" on lesson_prerequisites;
+create policy "Prerequisites are readable" on lesson_prerequisites
+  for select
+  using (auth.uid() is not null);
+
+-- Pay out the completion bonus of every published path whose lessons the
+-- user has all completed. The reward comes from learning_paths and the
+-- ledger's unique key makes it idempotent, so this is safe to call after
+-- any lesson completes.
+--
+-- Security definer because learners can't write the XP ledger themselves.
+-- Returns the paths that were newly completed.
+create or replace function award_completed_paths(p_user_id uuid)
+returns setof learning_paths
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Cannot award XP to another user';
+  end if;
+
+  return query
+  with completed_paths as (
+    select learning_path.*
+    from learning_paths learning_path
+    where learning_path.status = 'published'
+      and exists (select 1 from learning_path_lessons item where item.path_id = learning_path.id)
+      and not exists (
+        select 1
+        from learning_path_lessons item
+        where item.path_id = learning_path.id
+          and not exists (
+            select 1
+            from user_lesson_progress progress
+            where progress.user_id = p_user_id
+              and progress.lesson_id = item.lesson_id
+              and progress.completed
+          )
+      )
+  ),
+  award as (
+    insert into xp_ledger (user_id, source, path_id, amount)
+    select p_user_id, 'path_completion', completed_paths.id, completed_paths.xp_reward
+    from completed_paths
+    on conflict (user_id, source, path_id) do nothing
+    returning path_id
+  )
+  select completed_paths.*
+  from completed_paths
+  join award on award.path_id = completed_paths.id;
+end;
+$$;
+
+grant execute on function award_completed_paths(uuid) to authenticated;
@@ -0,0 +1,217 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../config/supabase';
+import { Lesson, ApiResponse } from '../types';
+
+// Downloaded lessons are stored one per key, with an index of what is stored.
+// A lesson's content version is its updated_at timestamp, so a copy is stale
+// once the server's timestamp differs.
+const INDEX_KEY = 'lessonCache:index';
+const lessonKey = (lessonId: string) => `lessonCache:lesson:${lessonId}`;
+
+export interface CachedLessonInfo {
+  lesson_id: string;
+  title: string;
+  version: string;
+  size: number; // bytes
+  downloaded_at: string;
+}
+
+export interface StorageUsage {
+  lessonCount: number;
+  bytes: number;
+}
+
+type CacheIndex = { [lessonId: string]: CachedLessonInfo };
+
+export const getContentVersion = (lesson: Lesson): string => lesson.updated_at || lesson.created_at;
+
+// UTF-8 size of a string
+const byteLength = (text: string) => encodeURIComponent(text).replace(/%[0-9A-F]{2}/gi, '_').length;
+
+export class LessonCacheService {
+  // Download lessons for offline use, replacing any stored copies
+  static async downloadLessons(lessonIds: string[]): Promise<ApiResponse<CachedLessonInfo[]>> {
+    try {
+      if (lessonIds.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const { data, error } = await supabase
+        .from('lessons')
+        .select('*')
+        .in('id', lessonIds);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: await this.saveLessons((data || []) as Lesson[]),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to download lessons',
+      };
+    }
+  }
+
+  // Get a downloaded lesson, or null when it isn't stored
+  static async getCachedLesson(lessonId: string): Promise<Lesson | null> {
+    try {
+      const stored = await AsyncStorage.getItem(lessonKey(lessonId));
+      return stored ? (JSON.parse(stored) as Lesson) : null;
+    } catch (error) {
+      console.error('Error reading cached lesson:', error);
+      return null;
+    }
+  }
+
+  // Get every downloaded lesson
+  static async getCachedLessons(): Promise<Lesson[]> {
+    try {
+      const index = await this.getIndex();
+      const entries = await AsyncStorage.multiGet(Object.keys(index).map(lessonKey));
+      return entries
+        .filter(([, value]) => !!value)
+        .map(([, value]) => JSON.parse(value!) as Lesson);
+    } catch (error) {
+      console.error('Error reading cached lessons:', error);
+      return [];
+    }
+  }
+
+  // List downloads, most recent first
+  static async getDownloads(): Promise<CachedLessonInfo[]> {
+    const index = await this.getIndex();
+    return Object.values(index).sort((a, b) => b.downloaded_at.localeCompare(a.downloaded_at));
+  }
+
+  static async isDownloaded(lessonId: string): Promise<boolean> {
+    const index = await this.getIndex();
+    return !!index[lessonId];
+  }
+
+  static async getStorageUsage(): Promise<StorageUsage> {
+    const downloads = Object.values(await this.getIndex());
+    return {
+      lessonCount: downloads.length,
+      bytes: downloads.reduce((sum, info) => sum + info.size, 0),
+    };
+  }
+
+  static async removeLesson(lessonId: string): Promise<void> {
+    const index = await this.getIndex();
+    delete index[lessonId];
+    await AsyncStorage.removeItem(lessonKey(lessonId));
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(index));
+  }
+
+  static async clearAll(): Promise<void> {
+    const index = await this.getIndex();
+    await AsyncStorage.multiRemove([...Object.keys(index).map(lessonKey), INDEX_KEY]);
+  }
+
+  // Update stored copies of any of these freshly fetched lessons whose
+  // content version has changed. Lessons that aren't downloaded are ignored.
+  static async refreshIfChanged(lessons: Lesson[]): Promise<void> {
+    try {
+      const index = await this.getIndex();
+      const changed = lessons.filter(lesson =>
+        index[lesson.id] && index[lesson.id].version !== getContentVersion(lesson)
+      );
+      if (changed.length > 0) {
+        await this.saveLessons(changed);
+      }
+    } catch (error) {
+      console.error('Error refreshing cached lessons:', error);
+    }
+  }
+
+  // Check every download against the server and re-download the ones whose
+  // version changed. Lessons that are no longer published are removed.
+  static async refreshDownloads(): Promise<ApiResponse<number>> {
+    try {
+      const index = await this.getIndex();
+      const lessonIds = Object.keys(index);
+      if (lessonIds.length === 0) {
+        return { success: true, data: 0 };
+      }
+
+      const { data, error } = await supabase
+        .from('lessons')
+        .select('id, created_at, updated_at')
+        .eq('status', 'published')
+        .in('id', lessonIds);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      const versions = (data || []) as Pick<Lesson, 'id' | 'created_at' | 'updated_at'>[];
+      const stale = versions
+        .filter(lesson => index[lesson.id].version !== (lesson.updated_at || lesson.created_at))
+        .map(lesson => lesson.id);
+      const removed = lessonIds.filter(id => !versions.some(lesson => lesson.id === id));
+
+      for (const lessonId of removed) {
+        await this.removeLesson(lessonId);
+      }
+
+      const downloadResult = await this.downloadLessons(stale);
+      if (!downloadResult.success) {
+        return {
+          success: false,
+          error: downloadResult.error || 'Failed to refresh downloads',
+        };
+      }
+
+      return {
+        success: true,
+        data: stale.length,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to refresh downloads',
+      };
+    }
+  }
+
+  private static async saveLessons(lessons: Lesson[]): Promise<CachedLessonInfo[]> {
+    const index = await this.getIndex();
+    const downloadedAt = new Date().toISOString();
+
+    const entries: [string, string][] = lessons.map(lesson => {
+      const json = JSON.stringify(lesson);
+      index[lesson.id] = {
+        lesson_id: lesson.id,
+        title: lesson.title,
+        version: getContentVersion(lesson),
+        size: byteLength(json),
+        downloaded_at: downloadedAt,
+      };
+      return [lessonKey(lesson.id), json];
+    });
+
+    await AsyncStorage.multiSet([...entries, [INDEX_KEY, JSON.stringify(index)]]);
+    return lessons.map(lesson => index[lesson.id]);
+  }
+
+  private static async getIndex(): Promise<CacheIndex> {
+    try {
+      const stored = await AsyncStorage.getItem(INDEX_KEY);
+      return stored ? (JSON.parse(stored) as CacheIndex) : {};
+    } catch (error) {
+      console.error('Error reading lesson cache index:', error);
+      return {};
+    }
+  }
+}
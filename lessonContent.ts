@@ -0,0 +1,334 @@
+// Structured lesson content. Lessons store their content as text: either a
+// JSON document of typed blocks grouped into sections, or Markdown (headings,
+// fenced code, playgrounds, images and callouts), which is parsed into the
+// same structure. Plain-text lessons become a single section of paragraphs.
+
+export interface HeadingBlock {
+  type: 'heading';
+  text: string;
+  level: 1 | 2 | 3;
+}
+
+export interface ParagraphBlock {
+  type: 'paragraph';
+  text: string; // supports **bold** and `inline code`
+}
+
+export interface CodeBlock {
+  type: 'code';
+  code: string;
+  language?: string;
+  caption?: string;
+}
+
+// Editable, runnable JavaScript. In Markdown: a fence tagged ```js playground
+export interface PlaygroundBlock {
+  type: 'playground';
+  code: string;
+  language?: string;
+}
+
+export interface ImageBlock {
+  type: 'image';
+  uri: string;
+  alt?: string;
+  caption?: string;
+}
+
+export type CalloutVariant = 'note' | 'tip' | 'warning';
+
+export interface CalloutBlock {
+  type: 'callout';
+  variant: CalloutVariant;
+  text: string;
+  title?: string;
+}
+
+interface QuizQuestionBase {
+  id: string;
+  prompt: string;
+  explanation?: string; // shown once the question has been answered
+}
+
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple_choice';
+  options: string[];
+  answer: number; // index of the correct option
+}
+
+export interface MultiSelectQuestion extends QuizQuestionBase {
+  type: 'multi_select';
+  options: string[];
+  answers: number[]; // indexes of every correct option
+}
+
+export interface FillBlankQuestion extends QuizQuestionBase {
+  type: 'fill_blank';
+  answers: string[]; // any of these is accepted
+  caseSensitive?: boolean;
+}
+
+export interface OrderLinesQuestion extends QuizQuestionBase {
+  type: 'order_lines';
+  lines: string[]; // in the correct order; shown shuffled
+}
+
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | MultiSelectQuestion
+  | FillBlankQuestion
+  | OrderLinesQuestion;
+
+export interface QuizBlock {
+  type: 'quiz';
+  id: string;
+  title?: string;
+  questions: QuizQuestion[];
+  passThreshold?: number; // share of questions to get right, 0-1
+}
+
+// A call to the learner's function and the value it should return. Values
+// must survive JSON, so results are compared as plain data.
+export interface ExerciseTestCase {
+  args: unknown[];
+  expected: unknown;
+  description?: string;
+}
+
+export interface ExerciseBlock {
+  type: 'exercise';
+  id: string;
+  title: string;
+  prompt: string;
+  starterCode?: string;
+  language?: string;
+  functionName?: string; // the function the tests call
+  examples?: ExerciseTestCase[]; // shown to the learner and graded
+  // Graded on the server. Their expected values are kept out of the lesson
+  // content learners can read (see exercise_submissions.sql).
+  tests?: ExerciseTestCase[];
+  timeoutMs?: number;
+}
+
+export type ContentBlock =
+  | HeadingBlock
+  | ParagraphBlock
+  | CodeBlock
+  | PlaygroundBlock
+  | ImageBlock
+  | CalloutBlock
+  | QuizBlock
+  | ExerciseBlock;
+
+export interface LessonSection {
+  id: string;
+  title: string;
+  blocks: ContentBlock[];
+  required?: boolean; // sections are required unless set to false
+}
+
+export interface LessonContent {
+  sections: LessonSection[];
+}
+
+// Turn a title into a section id, e.g. "Your First Loop" -> "your-first-loop"
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'section';
+}
+
+// Make section ids unique by suffixing repeats ("intro", "intro-2", ...)
+export function withUniqueIds(sections: LessonSection[]): LessonSection[] {
+  const seen: { [id: string]: number } = {};
+  return sections.map(section => {
+    const base = section.id || slugify(section.title);
+    seen[base] = (seen[base] || 0) + 1;
+    return { ...section, id: seen[base] > 1 ? `${base}-${seen[base]}` : base };
+  });
+}
+
+// Parse stored lesson content into sections of blocks
+export function parseLessonContent(content: string | null | undefined): LessonContent {
+  const source = (content || '').trim();
+  if (!source) {
+    return { sections: [] };
+  }
+
+  if (source.startsWith('{') || source.startsWith('[')) {
+    const parsed = parseJsonContent(source);
+    if (parsed) return parsed;
+  }
+
+  return parseMarkdownContent(source);
+}
+
+type JsonObject = { [key: string]: unknown };
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Whether a parsed JSON value is a block this version can render. Blocks of
+// unknown types, e.g. written by a newer editor, or missing the fields their
+// type needs are dropped instead of reaching the renderer.
+function isContentBlock(value: unknown): value is ContentBlock {
+  if (!isJsonObject(value)) return false;
+
+  switch (value.type) {
+    case 'heading':
+      return typeof value.text === 'string' && (value.level === 1 || value.level === 2 || value.level === 3);
+    case 'paragraph':
+      return typeof value.text === 'string';
+    case 'code':
+    case 'playground':
+      return typeof value.code === 'string';
+    case 'image':
+      return typeof value.uri === 'string';
+    case 'callout':
+      return typeof value.text === 'string' &&
+        (value.variant === 'note' || value.variant === 'tip' || value.variant === 'warning');
+    case 'quiz':
+      return typeof value.id === 'string' && Array.isArray(value.questions);
+    case 'exercise':
+      return typeof value.id === 'string' && typeof value.prompt === 'string';
+    default:
+      return false;
+  }
+}
+
+function parseJsonSection(section: JsonObject, index: number): LessonSection {
+  return {
+    id: typeof section.id === 'string' ? section.id : '',
+    title: typeof section.title === 'string' && section.title ? section.title : `Part ${index + 1}`,
+    blocks: Array.isArray(section.blocks) ? section.blocks.filter(isContentBlock) : [],
+    required: section.required !== false,
+  };
+}
+
+// Accepts { sections: [...] }, { blocks: [...] } or a bare array of blocks
+function parseJsonContent(source: string): LessonContent | null {
+  try {
+    const json: unknown = JSON.parse(source);
+
+    if (isJsonObject(json) && Array.isArray(json.sections)) {
+      return { sections: withUniqueIds(json.sections.filter(isJsonObject).map(parseJsonSection)) };
+    }
+
+    const blocks: unknown = Array.isArray(json) ? json : isJsonObject(json) ? json.blocks : null;
+    if (Array.isArray(blocks)) {
+      return { sections: splitIntoSections(blocks.filter(isContentBlock)) };
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+const CALLOUT_MARKER = /^\[!(NOTE|TIP|WARNING)\]\s*(.*)$/i;
+
+function parseMarkdownContent(source: string): LessonContent {
+  const blocks: ContentBlock[] = [];
+  const lines = source.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // Fenced code block
+    const fence = trimmed.match(/^```\s*([\w+-]*)\s*(.*)$/);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i]);
+        i++;
+      }
+      const language = fence[1] || undefined;
+      if (fence[2].split(/\s+/).includes('playground')) {
+        blocks.push({ type: 'playground', code: code.join('\n'), language });
+      } else {
+        blocks.push({ type: 'code', code: code.join('\n'), language });
+      }
+      continue;
+    }
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, text: heading[2].trim() });
+      continue;
+    }
+
+    const image = trimmed.match(/^!\[([^\]]*)\]\(([^)\s]+)\)$/);
+    if (image) {
+      flushParagraph();
+      blocks.push({ type: 'image', alt: image[1] || undefined, uri: image[2] });
+      continue;
+    }
+
+    // Blockquotes become callouts; "> [!TIP]" style markers pick the variant
+    if (trimmed.startsWith('>')) {
+      flushParagraph();
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('>')) {
+        quote.push(lines[i].trim().replace(/^>\s?/, ''));
+        i++;
+      }
+      i--;
+
+      let variant: CalloutVariant = 'note';
+      const marker = quote[0].match(CALLOUT_MARKER);
+      if (marker) {
+        variant = marker[1].toLowerCase() as CalloutVariant;
+        quote[0] = marker[2];
+      }
+      blocks.push({ type: 'callout', variant, text: quote.filter(Boolean).join('\n') });
+      continue;
+    }
+
+    paragraph.push(trimmed);
+  }
+  flushParagraph();
+
+  return { sections: splitIntoSections(blocks) };
+}
+
+// Start a new section at every top-level (# or ##) heading. The heading
+// becomes the section title rather than a block.
+function splitIntoSections(blocks: ContentBlock[]): LessonSection[] {
+  const sections: LessonSection[] = [];
+  let current: LessonSection | null = null;
+
+  blocks.forEach(block => {
+    if (block.type === 'heading' && block.level <= 2) {
+      current = { id: slugify(block.text), title: block.text, blocks: [] };
+      sections.push(current);
+      return;
+    }
+
+    if (!current) {
+      current = { id: 'introduction', title: 'Introduction', blocks: [] };
+      sections.push(current);
+    }
+    current.blocks.push(block);
+  });
+
+  return withUniqueIds(sections);
+}
@@ -0,0 +1,218 @@
+import {
+  ContentBlock,
+  LessonContent,
+  LessonSection,
+  parseLessonContent,
+  withUniqueIds,
+} from './lessonContent';
+import { parseDurationMinutes } from './lessonFilters';
+import { validateQuiz } from './quizGrading';
+
+// The lesson editor's working copy of a lesson. Content is edited as
+// sections of blocks and saved as the JSON document parseLessonContent reads.
+
+export interface LessonDraft {
+  title: string;
+  description: string;
+  category: string;
+  difficulty: string;
+  duration: string;
+  xp_reward: string; // as typed; checked by validateLessonDetails
+  content: LessonContent;
+}
+
+// The lesson columns a draft is saved to
+export interface LessonFields {
+  title: string;
+  description: string | null;
+  category: string;
+  difficulty: string;
+  duration: string | null;
+  xp_reward: number;
+  content: string;
+}
+
+// Any stored copy of a lesson: the lesson itself, its revision or a version
+export type LessonSnapshot = Omit<LessonFields, 'content'> & {
+  content: string | null;
+};
+
+export type DraftErrors = Partial<{ [field in keyof LessonDraft]: string }>;
+
+// Blocks the editor can create and edit. Quizzes and exercises in existing
+// content are kept and can be moved or removed.
+export type EditableBlockType = 'paragraph' | 'heading' | 'code' | 'playground' | 'callout' | 'image';
+
+export const EDITABLE_BLOCK_TYPES: { value: EditableBlockType; label: string }[] = [
+  { value: 'paragraph', label: 'Text' },
+  { value: 'heading', label: 'Subheading' },
+  { value: 'code', label: 'Code' },
+  { value: 'playground', label: 'Playground' },
+  { value: 'callout', label: 'Callout' },
+  { value: 'image', label: 'Image' },
+];
+
+export const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'];
+
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_XP_REWARD = 1000;
+
+export const DEFAULT_XP_REWARD = 50;
+
+export const emptyDraft = (): LessonDraft => ({
+  title: '',
+  description: '',
+  category: '',
+  difficulty: 'beginner',
+  duration: '',
+  xp_reward: String(DEFAULT_XP_REWARD),
+  content: { sections: [emptySection(1)] },
+});
+
+export const emptySection = (number: number): LessonSection => ({
+  id: '',
+  title: `Part ${number}`,
+  blocks: [],
+});
+
+export function emptyBlock(type: EditableBlockType): ContentBlock {
+  switch (type) {
+    case 'paragraph':
+      return { type: 'paragraph', text: '' };
+    case 'heading':
+      return { type: 'heading', level: 3, text: '' };
+    case 'code':
+      return { type: 'code', code: '', language: 'javascript' };
+    case 'playground':
+      return { type: 'playground', code: '', language: 'javascript' };
+    case 'callout':
+      return { type: 'callout', variant: 'tip', text: '' };
+    case 'image':
+      return { type: 'image', uri: '' };
+  }
+}
+
+export function draftFromLesson(lesson: LessonSnapshot): LessonDraft {
+  return {
+    title: lesson.title || '',
+    description: lesson.description || '',
+    category: lesson.category || '',
+    difficulty: (lesson.difficulty || 'beginner').toLowerCase(),
+    duration: lesson.duration || '',
+    xp_reward: String(lesson.xp_reward ?? DEFAULT_XP_REWARD),
+    content: parseLessonContent(lesson.content),
+  };
+}
+
+// Problems with the lesson's details, by field. A draft can only be saved
+// once these are fixed.
+export function validateLessonDetails(draft: LessonDraft): DraftErrors {
+  const errors: DraftErrors = {};
+
+  if (!draft.title.trim()) {
+    errors.title = 'Title is required';
+  } else if (draft.title.trim().length > MAX_TITLE_LENGTH) {
+    errors.title = `Title must be at most ${MAX_TITLE_LENGTH} characters`;
+  }
+
+  if (!draft.category.trim()) {
+    errors.category = 'Category is required';
+  }
+
+  if (!DIFFICULTY_LEVELS.includes(draft.difficulty)) {
+    errors.difficulty = 'Choose a difficulty';
+  }
+
+  if (draft.duration.trim() && parseDurationMinutes(draft.duration) === null) {
+    errors.duration = 'Use a duration like "15 min" or "1h 30m"';
+  }
+
+  const xp = Number(draft.xp_reward);
+  if (!/^\d+$/.test(draft.xp_reward.trim()) || xp > MAX_XP_REWARD) {
+    errors.xp_reward = `XP reward must be a whole number from 0 to ${MAX_XP_REWARD}`;
+  }
+
+  return errors;
+}
+
+// What a block is missing before learners can see it, if anything
+function getBlockIssue(block: ContentBlock): string | null {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+    case 'callout':
+      return block.text.trim() ? null : 'has empty text';
+    case 'code':
+    case 'playground':
+      return block.code.trim() ? null : 'has no code';
+    case 'image':
+      return /^https?:\/\//.test(block.uri.trim()) ? null : 'needs an image URL';
+    case 'quiz': {
+      // The server requires a passed attempt for every quiz with an id and
+      // questions, so a quiz that can't be answered would block completion
+      const problems = validateQuiz(block);
+      return problems.length > 0 ? `has a broken quiz (${problems[0]})` : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Everything that has to be fixed before the lesson can be published
+export function getPublishIssues(draft: LessonDraft): string[] {
+  const issues = Object.values(validateLessonDetails(draft)) as string[];
+  const { sections } = draft.content;
+
+  if (sections.length === 0) {
+    issues.push('Add at least one section');
+  }
+
+  sections.forEach((section, sectionIndex) => {
+    const name = section.title.trim() || `Section ${sectionIndex + 1}`;
+    if (!section.title.trim()) {
+      issues.push(`Section ${sectionIndex + 1} needs a title`);
+    }
+    if (section.blocks.length === 0) {
+      issues.push(`“${name}” has no content`);
+    }
+    section.blocks.forEach((block, blockIndex) => {
+      const issue = getBlockIssue(block);
+      if (issue) {
+        issues.push(`Block ${blockIndex + 1} in “${name}” ${issue}`);
+      }
+    });
+  });
+
+  return issues;
+}
+
+// The draft's content as it will be saved. New sections get ids from their
+// titles; existing ids are kept so learners' section progress still applies.
+export const getDraftContent = (draft: LessonDraft): LessonContent => ({
+  sections: withUniqueIds(
+    draft.content.sections.map(section => ({ ...section, title: section.title.trim() }))
+  ),
+});
+
+// The lesson columns for a draft
+export function draftToLessonFields(draft: LessonDraft): LessonFields {
+  return {
+    title: draft.title.trim(),
+    description: draft.description.trim() || null,
+    category: draft.category.trim(),
+    difficulty: draft.difficulty,
+    duration: draft.duration.trim() || null,
+    xp_reward: Number(draft.xp_reward),
+    content: JSON.stringify(getDraftContent(draft)),
+  };
+}
+
+// Move an item up (-1) or down (1) in a list, returning a new list
+export function moveItem<T>(items: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction;
+  if (target < 0 || target >= items.length) return items;
+
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
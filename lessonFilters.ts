@@ -0,0 +1,201 @@
+import { Lesson, UserProgress } from '../types';
+
+// Catalog filters and sort orders. The server applies them through the
+// lesson_catalog view; the same rules are applied on the device to
+// downloaded lessons and search results.
+
+export type LessonSort = 'newest' | 'shortest' | 'highest_xp' | 'most_popular';
+
+export type LessonStatus = 'not_started' | 'in_progress' | 'completed';
+
+// Inclusive bounds; null means unbounded
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface LessonFilters {
+  categories: string[]; // any of these; empty for all
+  difficulties: string[];
+  duration: NumberRange; // minutes
+  xp: NumberRange;
+  statuses: LessonStatus[];
+  savedOnly: boolean; // only bookmarked lessons
+  sort: LessonSort;
+}
+
+// Lessons as listed by the lesson_catalog view, with derived columns
+export type CatalogLesson = Lesson & {
+  duration_minutes?: number | null;
+  completion_count?: number | null;
+  rating_average?: number | null; // 1–5, null until rated
+  rating_count?: number | null;
+};
+
+const ANY_RANGE: NumberRange = { min: null, max: null };
+
+export const DEFAULT_LESSON_FILTERS: LessonFilters = {
+  categories: [],
+  difficulties: [],
+  duration: ANY_RANGE,
+  xp: ANY_RANGE,
+  statuses: [],
+  savedOnly: false,
+  sort: 'newest',
+};
+
+export const SORT_OPTIONS: { value: LessonSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'shortest', label: 'Shortest' },
+  { value: 'highest_xp', label: 'Highest XP' },
+  { value: 'most_popular', label: 'Most Popular' },
+];
+
+export const STATUS_OPTIONS: { value: LessonStatus; label: string }[] = [
+  { value: 'not_started', label: 'Not Started' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+];
+
+export const DURATION_RANGES: { label: string; range: NumberRange }[] = [
+  { label: 'Under 15 min', range: { min: null, max: 15 } },
+  { label: '15–30 min', range: { min: 15, max: 30 } },
+  { label: '30–60 min', range: { min: 30, max: 60 } },
+  { label: 'Over 1 hour', range: { min: 60, max: null } },
+];
+
+export const XP_RANGES: { label: string; range: NumberRange }[] = [
+  { label: 'Up to 50 XP', range: { min: null, max: 50 } },
+  { label: '50–100 XP', range: { min: 50, max: 100 } },
+  { label: '100+ XP', range: { min: 100, max: null } },
+];
+
+// How each sort orders the catalog. Ties are broken by id in the same
+// direction, which keeps (value, id) usable as a pagination cursor.
+// Lessons without a duration sort last under 'shortest'.
+export const SORT_KEYS: {
+  [sort in LessonSort]: { column: 'created_at' | 'duration_sort' | 'xp_reward' | 'completion_count'; ascending: boolean };
+} = {
+  newest: { column: 'created_at', ascending: false },
+  shortest: { column: 'duration_sort', ascending: true },
+  highest_xp: { column: 'xp_reward', ascending: false },
+  most_popular: { column: 'completion_count', ascending: false },
+};
+
+const UNKNOWN_DURATION = 2147483647;
+
+// Minutes from a free-text duration such as "15 min", "1 hour" or "1h 30m".
+// Mirrors parse_duration_minutes in search_lessons.sql.
+export function parseDurationMinutes(duration: string | null | undefined): number | null {
+  if (!duration) return null;
+  const text = duration.toLowerCase();
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*h/);
+  const minutes = text.match(/(\d+)\s*m/);
+  if (!hours && !minutes) {
+    const bare = text.match(/^\s*(\d+)\s*$/);
+    return bare ? parseInt(bare[1], 10) : null;
+  }
+  return Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0));
+}
+
+export const getDurationMinutes = (lesson: CatalogLesson): number | null =>
+  lesson.duration_minutes ?? parseDurationMinutes(lesson.duration);
+
+export function getLessonStatus(progress: UserProgress | null | undefined): LessonStatus {
+  if (progress?.completed) return 'completed';
+  if (progress && progress.progress > 0) return 'in_progress';
+  return 'not_started';
+}
+
+export const isRangeSet = (range: NumberRange) => range.min !== null || range.max !== null;
+
+export const isSameRange = (a: NumberRange, b: NumberRange) => a.min === b.min && a.max === b.max;
+
+// Whether a value falls in a range. Unknown values only match an open range.
+export function isInRange(value: number | null, range: NumberRange): boolean {
+  if (!isRangeSet(range)) return true;
+  if (value === null) return false;
+  return (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+}
+
+// Number of filter groups in use, for the filter button's badge
+export function countActiveFilters(filters: LessonFilters): number {
+  return [
+    filters.categories.length > 0,
+    filters.difficulties.length > 0,
+    isRangeSet(filters.duration),
+    isRangeSet(filters.xp),
+    filters.statuses.length > 0,
+    filters.savedOnly,
+  ].filter(Boolean).length;
+}
+
+// Whether a status filter narrows anything down
+export const isStatusFilterSet = (statuses: LessonStatus[]) =>
+  statuses.length > 0 && statuses.length < STATUS_OPTIONS.length;
+
+// What the status and saved filters are checked against
+export interface LessonUserState {
+  progressByLesson?: { [lessonId: string]: UserProgress };
+  bookmarkedIds?: Set<string>;
+}
+
+export function matchesLessonFilters(
+  lesson: CatalogLesson,
+  filters: LessonFilters,
+  { progressByLesson = {}, bookmarkedIds = new Set() }: LessonUserState = {}
+): boolean {
+  return (
+    (!filters.savedOnly || bookmarkedIds.has(lesson.id)) &&
+    (filters.categories.length === 0 || filters.categories.includes(lesson.category)) &&
+    (filters.difficulties.length === 0 || filters.difficulties.includes(lesson.difficulty)) &&
+    isInRange(getDurationMinutes(lesson), filters.duration) &&
+    isInRange(lesson.xp_reward, filters.xp) &&
+    (!isStatusFilterSet(filters.statuses) || filters.statuses.includes(getLessonStatus(progressByLesson[lesson.id])))
+  );
+}
+
+// The value a lesson is ordered by under a sort
+export function getSortValue(lesson: CatalogLesson, sort: LessonSort): string | number {
+  switch (sort) {
+    case 'newest':
+      return lesson.created_at;
+    case 'shortest':
+      return getDurationMinutes(lesson) ?? UNKNOWN_DURATION;
+    case 'highest_xp':
+      return lesson.xp_reward;
+    case 'most_popular':
+      return lesson.completion_count ?? 0;
+  }
+}
+
+// Compare two (value, id) positions in catalog order
+export function compareSortPositions(
+  a: { value: string | number; id: string },
+  b: { value: string | number; id: string },
+  sort: LessonSort
+): number {
+  const order =
+    typeof a.value === 'number' && typeof b.value === 'number'
+      ? a.value - b.value
+      : String(a.value).localeCompare(String(b.value));
+  const result = order || a.id.localeCompare(b.id);
+  return SORT_KEYS[sort].ascending ? result : -result;
+}
+
+export const compareLessons = (a: CatalogLesson, b: CatalogLesson, sort: LessonSort) =>
+  compareSortPositions(
+    { value: getSortValue(a, sort), id: a.id },
+    { value: getSortValue(b, sort), id: b.id },
+    sort
+  );
+
+// Fill in anything missing from saved filters, e.g. after an app update
+export function normalizeLessonFilters(saved: Partial<LessonFilters> | null | undefined): LessonFilters {
+  const filters = { ...DEFAULT_LESSON_FILTERS, ...(saved || {}) };
+  return {
+    ...filters,
+    sort: SORT_KEYS[filters.sort] ? filters.sort : DEFAULT_LESSON_FILTERS.sort,
+    statuses: filters.statuses.filter(status => STATUS_OPTIONS.some(option => option.value === status)),
+  };
+}
@@ -0,0 +1,173 @@
+import { UserProgress } from '../types';
+import { SectionProgress, SectionState } from './sectionProgress';
+import { CatalogLesson } from './lessonFilters';
+import { PrerequisiteMap, calculatePathProgress, isLessonLocked } from './learningPaths';
+
+// "Continue learning" and "Recommended next" on the Dashboard. Lessons the
+// learner hasn't started are scored on four signals: being next in a path
+// they've started, matching the categories they complete, being the right
+// step up in difficulty, and being popular with peers in their organization.
+
+export type ProgressRecord = UserProgress & {
+  section_progress?: SectionProgress | null;
+  last_activity_at?: string | null;
+};
+
+export type RecommendationReason = 'next_in_path' | 'category' | 'difficulty' | 'peers' | 'popular';
+
+export interface Recommendation {
+  lesson: CatalogLesson;
+  score: number;
+  reason: RecommendationReason; // the path, or else the signal that contributed most
+  pathTitle?: string; // set for next_in_path
+}
+
+export interface RecommendationInput {
+  lessons: CatalogLesson[]; // published lessons to rank, with the ones the learner started
+  progress: ProgressRecord[];
+  paths: { title: string; lesson_ids: string[] }[];
+  prerequisites: PrerequisiteMap;
+  peerCompletions: { [lessonId: string]: number }; // empty without an organization
+}
+
+const WEIGHTS = {
+  path: 3,
+  category: 2,
+  difficulty: 1.5,
+  peers: 1.5,
+  popular: 0.75,
+};
+
+const DIFFICULTY_ORDER = ['beginner', 'intermediate', 'advanced'];
+
+// Completions at a difficulty before the next one up is recommended
+const STEP_UP_AFTER = 3;
+
+const difficultyRank = (difficulty: string | null | undefined) =>
+  DIFFICULTY_ORDER.indexOf((difficulty || '').toLowerCase());
+
+// When the learner last worked on a lesson: the server's last write, or the
+// latest section view for writes still waiting to sync
+export function getLastActivityAt(progress: ProgressRecord): string | null {
+  const times = [
+    progress.last_activity_at,
+    ...Object.values<SectionState>(progress.section_progress || {}).map(section => section.viewed_at),
+  ].filter((time): time is string => !!time);
+  return times.sort().pop() || null;
+}
+
+export const isInProgress = (progress: ProgressRecord) =>
+  !progress.completed && (progress.progress > 0 || Object.keys(progress.section_progress || {}).length > 0);
+
+// The unfinished lesson the learner worked on most recently
+export function getContinueLearning(progress: ProgressRecord[]): ProgressRecord | null {
+  return progress
+    .filter(isInProgress)
+    .sort((a, b) => (getLastActivityAt(b) || '').localeCompare(getLastActivityAt(a) || ''))[0] || null;
+}
+
+// The difficulty rank the learner is ready for: the hardest they've
+// completed, or the one after it once they've done a few at that level
+function getTargetDifficulty(completed: CatalogLesson[]): number {
+  const ranks = completed.map(lesson => difficultyRank(lesson.difficulty)).filter(rank => rank >= 0);
+  if (ranks.length === 0) return 0;
+
+  const highest = Math.max(...ranks);
+  const doneAtHighest = ranks.filter(rank => rank === highest).length;
+  return doneAtHighest >= STEP_UP_AFTER ? Math.min(highest + 1, DIFFICULTY_ORDER.length - 1) : highest;
+}
+
+// How well a lesson's difficulty fits: 1 at the target, less for easier
+// lessons, nothing for lessons more than a step too hard
+function difficultyFit(lesson: CatalogLesson, target: number): number {
+  const rank = difficultyRank(lesson.difficulty);
+  if (rank < 0) return 0.5;
+  if (rank === target) return 1;
+  if (rank === target + 1) return 0.3;
+  if (rank < target) return 0.25;
+  return 0;
+}
+
+// Unstarted, unlocked lessons ranked for the learner, best first
+export function recommendLessons(
+  { lessons, progress, paths, prerequisites, peerCompletions }: RecommendationInput,
+  limit = 5
+): Recommendation[] {
+  const lessonsById = new Map(lessons.map(lesson => [lesson.id, lesson]));
+  const startedIds = new Set(progress.map(record => record.lesson_id));
+  const completedIds = new Set(progress.filter(record => record.completed).map(record => record.lesson_id));
+  const completed = Array.from(completedIds)
+    .map(id => lessonsById.get(id))
+    .filter((lesson): lesson is CatalogLesson => !!lesson);
+
+  // Share of completed lessons in each category
+  const categoryShare: { [category: string]: number } = {};
+  completed.forEach(lesson => {
+    categoryShare[lesson.category] = (categoryShare[lesson.category] || 0) + 1 / completed.length;
+  });
+
+  // The next lesson of each path the learner has started, weighted by how far along it is
+  const nextInPath = new Map<string, { weight: number; pathTitle: string }>();
+  paths.forEach(path => {
+    if (!path.lesson_ids.some(id => startedIds.has(id))) return;
+
+    const pathProgress = calculatePathProgress(path.lesson_ids, prerequisites, completedIds);
+    if (!pathProgress.nextLessonId) return;
+
+    const weight = 0.5 + pathProgress.percent / 200;
+    const existing = nextInPath.get(pathProgress.nextLessonId);
+    if (!existing || existing.weight < weight) {
+      nextInPath.set(pathProgress.nextLessonId, { weight, pathTitle: path.title });
+    }
+  });
+
+  const maxPeers = Math.max(0, ...Object.values(peerCompletions));
+  const maxCompletions = Math.max(0, ...lessons.map(lesson => lesson.completion_count || 0));
+  const targetDifficulty = getTargetDifficulty(completed);
+
+  return lessons
+    .filter(lesson => !startedIds.has(lesson.id) && !isLessonLocked(lesson.id, prerequisites, completedIds))
+    .map(lesson => {
+      const path = nextInPath.get(lesson.id);
+      const signals: { [reason in RecommendationReason]: number } = {
+        next_in_path: path ? WEIGHTS.path * path.weight : 0,
+        category: WEIGHTS.category * (categoryShare[lesson.category] || 0),
+        difficulty: WEIGHTS.difficulty * difficultyFit(lesson, targetDifficulty),
+        peers: maxPeers > 0 ? WEIGHTS.peers * (peerCompletions[lesson.id] || 0) / maxPeers : 0,
+        // Overall popularity stands in for peers when there are none
+        popular: maxPeers === 0 && maxCompletions > 0
+          ? WEIGHTS.popular * (lesson.completion_count || 0) / maxCompletions
+          : 0,
+      };
+
+      // Being next in a path is the most useful thing to tell the learner
+      const reason = path
+        ? 'next_in_path'
+        : (Object.keys(signals) as RecommendationReason[]).reduce((best, key) => (signals[key] > signals[best] ? key : best));
+
+      return {
+        lesson,
+        score: Object.values(signals).reduce((sum, value) => sum + value, 0),
+        reason,
+        pathTitle: path?.pathTitle,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.lesson.created_at.localeCompare(a.lesson.created_at))
+    .slice(0, limit);
+}
+
+// A short line explaining why a lesson was recommended
+export function describeRecommendation(recommendation: Recommendation): string {
+  switch (recommendation.reason) {
+    case 'next_in_path':
+      return `Next in ${recommendation.pathTitle}`;
+    case 'category':
+      return `More ${recommendation.lesson.category}`;
+    case 'difficulty':
+      return 'Right for your level';
+    case 'peers':
+      return 'Popular in your organization';
+    case 'popular':
+      return 'Popular with learners';
+  }
+}
@@ -0,0 +1,121 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { parseLessonContent } from '../utils/lessonContent';
+import { mapSectionIds } from '../utils/lessonVersions';
+import { LessonRevision, LessonWorkspace, PublishStatus } from './authoring';
+import { requireCapability } from './permissions';
+
+// A revision waiting for a reviewer, with the lesson it belongs to
+export type ReviewRequest = LessonRevision & {
+  lessons: {
+    id: string;
+    title: string;
+    author_id: string;
+    status: PublishStatus;
+    current_version: number | null;
+    profiles?: { first_name: string | null; last_name: string | null } | null; // the author
+  } | null;
+};
+
+export class ReviewService {
+  // Revisions waiting for review, longest waiting first
+  static async getReviewQueue(): Promise<ApiResponse<ReviewRequest[]>> {
+    try {
+      await requireCapability('review_lessons');
+
+      const { data, error } = await supabase
+        .from('lesson_revisions')
+        .select(`
+          *,
+          lessons (
+            id,
+            title,
+            author_id,
+            status,
+            current_version,
+            profiles!lessons_author_id_fkey (
+              first_name,
+              last_name
+            )
+          )
+        `)
+        .eq('status', 'in_review')
+        .order('submitted_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: (data || []) as ReviewRequest[] };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch lessons to review',
+      };
+    }
+  }
+
+  // Publish the revision as the lesson's next version. Learners part way
+  // through keep their progress on sections whose ids changed. Returns the
+  // new version number.
+  static async approve({ lesson, revision }: LessonWorkspace, note: string): Promise<ApiResponse<number>> {
+    try {
+      await requireCapability('review_lessons');
+
+      const sectionMap = lesson.current_version
+        ? mapSectionIds(parseLessonContent(lesson.content), parseLessonContent(revision.content))
+        : {};
+
+      const { data, error } = await supabase.rpc('review_lesson', {
+        p_lesson_id: lesson.id,
+        p_approve: true,
+        p_note: note.trim() || null,
+        p_section_map: sectionMap,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: data as number };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to approve lesson',
+      };
+    }
+  }
+
+  // Send the revision back to its author with what to change
+  static async requestChanges(lessonId: string, note: string): Promise<ApiResponse<null>> {
+    try {
+      await requireCapability('review_lessons');
+
+      const { error } = await supabase.rpc('review_lesson', {
+        p_lesson_id: lessonId,
+        p_approve: false,
+        p_note: note.trim(),
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to request changes',
+      };
+    }
+  }
+}
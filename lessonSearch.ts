@@ -0,0 +1,221 @@
+import { Lesson } from '../types';
+import { ContentBlock, parseLessonContent } from './lessonContent';
+
+// Client-side lesson search, used offline against downloaded lessons and to
+// highlight matches in results from the server. Terms match whole words, word
+// prefixes, or words within a small edit distance, so "fucntion" still finds
+// "function". Every term has to match somewhere in the lesson.
+
+export type SearchField = 'title' | 'tags' | 'description' | 'content';
+
+export interface LessonSearchResult {
+  lesson: Lesson;
+  score: number;
+  matchedField: SearchField; // the highest-weighted field with a match
+  snippet: string | null; // content or tags around the first match, when that's where it matched
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Lessons may carry tags (lessons.tags)
+export type SearchableLesson = Lesson & { tags?: string[] | null };
+
+const FIELD_WEIGHTS: { [field in SearchField]: number } = {
+  title: 4,
+  tags: 3,
+  description: 2,
+  content: 1,
+};
+
+const FIELDS: SearchField[] = ['title', 'tags', 'description', 'content'];
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD_PATTERN) || []);
+}
+
+// Distinct search terms in a query. Single characters are ignored.
+export function getSearchTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(query))).filter(term => term.length > 1);
+}
+
+// Typos allowed for a term: none for short words, more for longer ones
+const maxTypos = (term: string) => (term.length <= 3 ? 0 : term.length <= 7 ? 1 : 2);
+
+// Levenshtein distance, giving up once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How well a term matches a word: 1 for the same word, less for a prefix or
+// a near miss, 0 for no match
+function matchQuality(term: string, word: string): number {
+  if (word === term) return 1;
+  if (term.length >= 2 && word.startsWith(term)) return 0.8;
+
+  const typos = maxTypos(term);
+  if (typos === 0) return 0;
+  if (editDistance(term, word, typos) <= typos) return 0.6;
+  // A typo in a prefix, e.g. "fucnt" for "function"
+  if (word.length > term.length && editDistance(term, word.slice(0, term.length), typos) <= typos) return 0.5;
+  return 0;
+}
+
+const bestMatch = (term: string, words: string[]) =>
+  words.reduce((best, word) => Math.max(best, matchQuality(term, word)), 0);
+
+const isMatch = (word: string, terms: string[]) => terms.some(term => matchQuality(term, word) > 0);
+
+function collectBlockText(block: ContentBlock): string[] {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return [block.text];
+    case 'callout':
+      return [block.title || '', block.text];
+    case 'code':
+      return [block.caption || ''];
+    case 'image':
+      return [block.alt || '', block.caption || ''];
+    case 'quiz':
+      return [block.title || '', ...block.questions.map(question => question.prompt)];
+    case 'exercise':
+      return [block.title, block.prompt];
+    default:
+      return [];
+  }
+}
+
+// The readable text of a lesson's content, without markup or code
+export function getContentText(content: string | null | undefined): string {
+  return parseLessonContent(content).sections
+    .flatMap(section => [section.title, ...section.blocks.flatMap(collectBlockText)])
+    .filter(text => text.trim().length > 0)
+    .join(' ')
+    .replace(/\*\*|`/g, '');
+}
+
+function getFieldText(lesson: SearchableLesson, field: SearchField): string {
+  switch (field) {
+    case 'title':
+      return lesson.title || '';
+    case 'tags':
+      return (lesson.tags || []).join(', ');
+    case 'description':
+      return lesson.description || '';
+    case 'content':
+      return getContentText(lesson.content);
+  }
+}
+
+// Whether every term matches some word of a text
+export function matchesAllTerms(text: string, terms: string[]): boolean {
+  const words = tokenize(text);
+  return terms.every(term => bestMatch(term, words) > 0);
+}
+
+// Split text into matching and non-matching runs for highlighting
+export function highlightMatches(text: string, terms: string[]): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  const push = (part: string, match: boolean) => {
+    if (!part) return;
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) {
+      last.text += part;
+    } else {
+      segments.push({ text: part, match });
+    }
+  };
+
+  let index = 0;
+  for (const found of text.matchAll(WORD_PATTERN)) {
+    const start = found.index!;
+    push(text.slice(index, start), false);
+    push(found[0], terms.length > 0 && isMatch(found[0].toLowerCase(), terms));
+    index = start + found[0].length;
+  }
+  push(text.slice(index), false);
+  return segments;
+}
+
+// A short excerpt of text centred on its first match
+export function buildSnippet(text: string, terms: string[], radius = 60): string | null {
+  for (const found of text.matchAll(WORD_PATTERN)) {
+    if (!isMatch(found[0].toLowerCase(), terms)) continue;
+
+    const start = Math.max(0, found.index! - radius);
+    const end = Math.min(text.length, found.index! + found[0].length + radius);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+  }
+  return null;
+}
+
+// Score a lesson against search terms. Returns null unless every term
+// matches in at least one field.
+export function matchLesson(lesson: SearchableLesson, terms: string[]): LessonSearchResult | null {
+  if (terms.length === 0) return null;
+
+  const texts = {} as { [field in SearchField]: string };
+  const words = {} as { [field in SearchField]: string[] };
+  for (const field of FIELDS) {
+    texts[field] = getFieldText(lesson, field);
+    words[field] = tokenize(texts[field]);
+  }
+
+  let score = 0;
+  let matchedField: SearchField | null = null;
+  for (const term of terms) {
+    let termScore = 0;
+    for (const field of FIELDS) {
+      const quality = bestMatch(term, words[field]);
+      if (quality === 0) continue;
+
+      termScore = Math.max(termScore, quality * FIELD_WEIGHTS[field]);
+      if (!matchedField || FIELD_WEIGHTS[field] > FIELD_WEIGHTS[matchedField]) {
+        matchedField = field;
+      }
+    }
+    if (termScore === 0) return null;
+    score += termScore;
+  }
+
+  // Prefer titles that contain the whole query as typed
+  if (lesson.title.toLowerCase().includes(terms.join(' '))) {
+    score += FIELD_WEIGHTS.title;
+  }
+
+  const showSnippet = matchedField === 'content' || matchedField === 'tags';
+  return {
+    lesson,
+    score,
+    matchedField: matchedField!,
+    snippet: showSnippet ? buildSnippet(texts[matchedField!], terms) : null,
+  };
+}
+
+// Search lessons locally, best match first
+export function rankLessons(lessons: SearchableLesson[], query: string): LessonSearchResult[] {
+  const terms = getSearchTerms(query);
+  return lessons
+    .map(lesson => matchLesson(lesson, terms))
+    .filter((result): result is LessonSearchResult => result !== null)
+    .sort((a, b) => b.score - a.score || a.lesson.title.localeCompare(b.lesson.title));
+}
@@ -0,0 +1,234 @@
+import { ContentBlock, LessonContent, LessonSection, parseLessonContent } from './lessonContent';
+import { LessonSnapshot } from './lessonDraft';
+
+// Comparing versions of a lesson: which sections of one version correspond
+// to which of another, and what changed between them.
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export type BlockChangeKind = 'added' | 'removed';
+
+export interface BlockChange {
+  kind: BlockChangeKind;
+  summary: string;
+}
+
+export type SectionChangeKind = 'added' | 'removed' | 'changed' | 'moved';
+
+export interface SectionChange {
+  kind: SectionChangeKind;
+  title: string;
+  previousTitle?: string; // set when the section was renamed
+  requiredChanged?: boolean;
+  blocks: BlockChange[];
+}
+
+export interface LessonDiff {
+  fields: FieldChange[];
+  sections: SectionChange[];
+}
+
+const FIELD_LABELS: { field: keyof LessonSnapshot; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'category', label: 'Category' },
+  { field: 'difficulty', label: 'Difficulty' },
+  { field: 'duration', label: 'Duration' },
+  { field: 'xp_reward', label: 'XP reward' },
+];
+
+const SUMMARY_LENGTH = 60;
+
+const BLOCK_LABELS: { [type in ContentBlock['type']]: string } = {
+  heading: 'Subheading',
+  paragraph: 'Text',
+  code: 'Code',
+  playground: 'Playground',
+  image: 'Image',
+  callout: 'Callout',
+  quiz: 'Quiz',
+  exercise: 'Exercise',
+};
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+const getActivityIds = (section: LessonSection) =>
+  section.blocks
+    .filter(block => block.type === 'quiz' || block.type === 'exercise')
+    .map(block => (block as { id: string }).id);
+
+const blockKey = (block: ContentBlock) => JSON.stringify(block);
+
+// Pairs of indexes of the longest common subsequence of two lists
+function commonSubsequence<T>(a: T[], b: T[], same: (x: T, y: T) => boolean): [number, number][] {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(a[i], b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+// Which section of `to` each section of `from` became, by id. Sections
+// whose id changed are matched by title, then by sharing a quiz or
+// exercise, then by having the same blocks. Unmatched sections are left out.
+function pairSections(from: LessonSection[], to: LessonSection[]): Map<LessonSection, LessonSection> {
+  const pairs = new Map<LessonSection, LessonSection>();
+  const unmatched = new Set(to);
+
+  const match = (isMatch: (a: LessonSection, b: LessonSection) => boolean) => {
+    from.forEach(section => {
+      if (pairs.has(section)) return;
+      const found = Array.from(unmatched).find(candidate => isMatch(section, candidate));
+      if (found) {
+        pairs.set(section, found);
+        unmatched.delete(found);
+      }
+    });
+  };
+
+  match((a, b) => a.id === b.id);
+  match((a, b) => normalizeTitle(a.title) === normalizeTitle(b.title));
+  match((a, b) => getActivityIds(a).some(id => getActivityIds(b).includes(id)));
+  match((a, b) => a.blocks.length > 0 && JSON.stringify(a.blocks) === JSON.stringify(b.blocks));
+
+  return pairs;
+}
+
+// Section ids that change between two versions, { old id: new id }, so
+// learners' section progress can follow their sections
+export function mapSectionIds(from: LessonContent, to: LessonContent): { [sectionId: string]: string } {
+  const map: { [sectionId: string]: string } = {};
+  pairSections(from.sections, to.sections).forEach((target, source) => {
+    if (source.id !== target.id) {
+      map[source.id] = target.id;
+    }
+  });
+  return map;
+}
+
+const truncate = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > SUMMARY_LENGTH ? `${line.slice(0, SUMMARY_LENGTH - 1)}…` : line;
+};
+
+// A one-line description of a block, e.g. 'Code: const total = 0;'
+export function describeBlock(block: ContentBlock): string {
+  const label = BLOCK_LABELS[block.type] || block.type;
+  let text = '';
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+    case 'callout':
+      text = block.text;
+      break;
+    case 'code':
+    case 'playground':
+      text = block.code;
+      break;
+    case 'image':
+      text = block.alt || block.caption || block.uri;
+      break;
+    case 'quiz':
+      text = block.title || `${block.questions.length} questions`;
+      break;
+    case 'exercise':
+      text = block.title;
+      break;
+  }
+  return text.trim() ? `${label}: ${truncate(text)}` : label;
+}
+
+function diffBlocks(before: ContentBlock[], after: ContentBlock[]): BlockChange[] {
+  const pairs = commonSubsequence(before, after, (a, b) => blockKey(a) === blockKey(b));
+  const keptBefore = new Set(pairs.map(([i]) => i));
+  const keptAfter = new Set(pairs.map(([, j]) => j));
+
+  return [
+    ...before.filter((_, i) => !keptBefore.has(i)).map(block => ({ kind: 'removed' as const, summary: describeBlock(block) })),
+    ...after.filter((_, j) => !keptAfter.has(j)).map(block => ({ kind: 'added' as const, summary: describeBlock(block) })),
+  ];
+}
+
+const fieldValue = (snapshot: LessonSnapshot, field: keyof LessonSnapshot) =>
+  String(snapshot[field] ?? '').trim();
+
+// What changed from one version of a lesson to another. With no earlier
+// version, everything in `after` is new.
+export function diffLessons(before: LessonSnapshot | null, after: LessonSnapshot): LessonDiff {
+  const fields = FIELD_LABELS
+    .filter(({ field }) => (before ? fieldValue(before, field) : '') !== fieldValue(after, field))
+    .map(({ field, label }) => ({
+      field,
+      label,
+      before: before ? fieldValue(before, field) : '',
+      after: fieldValue(after, field),
+    }));
+
+  const beforeSections = before ? parseLessonContent(before.content).sections : [];
+  const afterSections = parseLessonContent(after.content).sections;
+  const pairs = pairSections(beforeSections, afterSections);
+  const pairedAfter = new Map(Array.from(pairs).map(([source, target]) => [target, source]));
+
+  // Paired sections whose order relative to each other changed
+  const beforeOrder = beforeSections.filter(section => pairs.has(section));
+  const afterOrder = afterSections.filter(section => pairedAfter.has(section));
+  const inOrder = new Set(
+    commonSubsequence(beforeOrder, afterOrder, (a, b) => pairs.get(a) === b).map(([, j]) => afterOrder[j])
+  );
+
+  const sections: SectionChange[] = [];
+  afterSections.forEach(section => {
+    const source = pairedAfter.get(section);
+    if (!source) {
+      sections.push({ kind: 'added', title: section.title, blocks: diffBlocks([], section.blocks) });
+      return;
+    }
+
+    const blocks = diffBlocks(source.blocks, section.blocks);
+    const renamed = source.title.trim() !== section.title.trim();
+    const requiredChanged = (source.required !== false) !== (section.required !== false);
+    if (blocks.length > 0 || renamed || requiredChanged) {
+      sections.push({
+        kind: 'changed',
+        title: section.title,
+        previousTitle: renamed ? source.title : undefined,
+        requiredChanged,
+        blocks,
+      });
+    } else if (!inOrder.has(section)) {
+      sections.push({ kind: 'moved', title: section.title, blocks: [] });
+    }
+  });
+
+  beforeSections
+    .filter(section => !pairs.has(section))
+    .forEach(section => sections.push({ kind: 'removed', title: section.title, blocks: [] }));
+
+  return { fields, sections };
+}
+
+export const hasChanges = (diff: LessonDiff) => diff.fields.length > 0 || diff.sections.length > 0;
@@ -0,0 +1,53 @@
+-- Lesson authoring, through AuthoringService. Lessons are created as drafts
+-- that only their author (and reviewers) can see, and reach learners
+-- (lesson_catalog, search_lessons) once a reviewer approves them. Edits and
+-- publishing go through the functions in lesson_versions.sql. Run after
+-- permissions.sql.
+
+alter table lessons
+  alter column status set default 'draft';
+alter table lessons
+  drop constraint if exists lessons_status_check;
+alter table lessons
+  add constraint lessons_status_check check (status in ('draft', 'in_review', 'published', 'archived'));
+
+-- The published version learners see (lesson_versions.version); null until
+-- the lesson is first approved
+alter table lessons
+  add column if not exists current_version integer;
+
+create index if not exists lessons_author_id_idx on lessons (author_id, updated_at desc);
+
+alter table lessons enable row level security;
+
+-- Unpublished lessons are visible only to their author and reviewers.
+-- Archived lessons stay readable to learners who started them.
+drop policy if exists "Published lessons and own drafts are readable" on lessons;
+create policy "Published lessons and own drafts are readable" on lessons
+  for select
+  using (
+    status = 'published'
+    or author_id = auth.uid()
+    or has_capability('review_lessons')
+    or (
+      status = 'archived'
+      and exists (
+        select 1 from user_lesson_progress progress
+        where progress.user_id = auth.uid() and progress.lesson_id = lessons.id
+      )
+    )
+  );
+
+drop policy if exists "Instructors create their own lessons" on lessons;
+create policy "Instructors create their own lessons" on lessons
+  for insert
+  with check (author_id = auth.uid() and status = 'draft' and has_capability('author_lessons'));
+
+-- Lessons are changed through their revision and the review functions in
+-- lesson_versions.sql, never directly
+drop policy if exists "Instructors edit their own lessons" on lessons;
+
+drop policy if exists "Instructors delete their own drafts" on lessons;
+create policy "Instructors delete their own drafts" on lessons
+  for delete
+  using (author_id = auth.uid() and status = 'draft' and current_version is null and has_capability('author_lessons'));
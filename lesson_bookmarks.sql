@@ -0,0 +1,41 @@
+-- Saved lessons, written by BookmarksService (or replayed from the offline
+-- outbox). Bookmarks are private to the learner who saved them.
+
+create table if not exists lesson_bookmarks (
+  user_id uuid not null references profiles(id) on delete cascade,
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+-- Keep the first of any bookmark saved twice before the unique constraint
+-- below existed
+delete from lesson_bookmarks duplicate
+using lesson_bookmarks original
+where duplicate.user_id = original.user_id
+  and duplicate.lesson_id = original.lesson_id
+  and (duplicate.created_at, duplicate.ctid) > (original.created_at, original.ctid);
+
+-- BookmarksService.saveBookmark upserts on (user_id, lesson_id)
+alter table lesson_bookmarks
+  drop constraint if exists lesson_bookmarks_user_lesson_key;
+alter table lesson_bookmarks
+  add constraint lesson_bookmarks_user_lesson_key unique (user_id, lesson_id);
+
+create index if not exists lesson_bookmarks_user_created_idx on lesson_bookmarks (user_id, created_at desc);
+
+alter table lesson_bookmarks enable row level security;
+
+drop policy if exists "Users read their own bookmarks" on lesson_bookmarks;
+create policy "Users read their own bookmarks" on lesson_bookmarks
+  for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users save their own bookmarks" on lesson_bookmarks;
+create policy "Users save their own bookmarks" on lesson_bookmarks
+  for insert
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users remove their own bookmarks" on lesson_bookmarks;
+create policy "Users remove their own bookmarks" on lesson_bookmarks
+  for delete
+  using (user_id = auth.uid());
@@ -0,0 +1,50 @@
+-- The lessons catalog as listed by LessonsService.fetchLessonsPage: published
+-- lessons with the derived columns its filters and sort orders use. Run
+-- after lesson_feedback.sql, lesson_authoring.sql and search_lessons.sql,
+-- and again whenever a column learners read is added to lessons. Dropping
+-- the view also drops recommendation_candidates, so run
+-- lesson_recommendations.sql after this file.
+
+-- create or replace can't change a view's column list
+drop view if exists lesson_catalog cascade;
+
+-- Runs with the owner's rights so completion_count and the ratings count
+-- every learner, while only exposing the aggregates. The lesson columns are
+-- listed because lesson.* would be expanded once, when the view is created.
+create view lesson_catalog as
+select
+  lesson.id,
+  lesson.title,
+  lesson.description,
+  lesson.content,
+  lesson.category,
+  lesson.difficulty,
+  lesson.duration,
+  lesson.xp_reward,
+  lesson.tags,
+  lesson.status,
+  lesson.author_id,
+  lesson.current_version,
+  lesson.created_at,
+  lesson.updated_at,
+  parse_duration_minutes(lesson.duration) as duration_minutes,
+  -- Lessons without a duration sort last under 'shortest'
+  coalesce(parse_duration_minutes(lesson.duration), 2147483647) as duration_sort,
+  coalesce(stats.completion_count, 0)::integer as completion_count,
+  ratings.rating_average,
+  coalesce(ratings.rating_count, 0)::integer as rating_count
+from lessons lesson
+left join (
+  select lesson_id, count(*) as completion_count
+  from user_lesson_progress
+  where completed
+  group by lesson_id
+) as stats on stats.lesson_id = lesson.id
+left join (
+  select lesson_id, round(avg(rating), 1)::float8 as rating_average, count(*) as rating_count
+  from lesson_ratings
+  group by lesson_id
+) as ratings on ratings.lesson_id = lesson.id
+where lesson.status = 'published';
+
+grant select on lesson_catalog to authenticated;
@@ -0,0 +1,89 @@
+-- Lesson ratings, written feedback and problem reports, written through
+-- FeedbackService and read back by each lesson's author in the feedback
+-- inbox (FeedbackService.getAuthorInbox).
+
+-- One rating per learner and lesson, changed by rating again
+create table if not exists lesson_ratings (
+  user_id uuid not null references profiles(id) on delete cascade,
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  rating smallint not null check (rating between 1 and 5),
+  feedback text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, lesson_id)
+);
+
+-- Ids are generated on the device so queued reports can be replayed safely
+create table if not exists lesson_reports (
+  id uuid primary key,
+  user_id uuid not null references profiles(id) on delete cascade,
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  section_id text,
+  kind text not null check (kind in ('typo', 'broken_code', 'outdated', 'other')),
+  details text,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lesson_ratings_lesson_id_idx on lesson_ratings (lesson_id);
+create index if not exists lesson_reports_lesson_id_idx on lesson_reports (lesson_id, created_at desc);
+
+create or replace function is_lesson_author(p_lesson_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from lessons where id = p_lesson_id and author_id = auth.uid());
+$$;
+
+alter table lesson_ratings enable row level security;
+alter table lesson_reports enable row level security;
+
+-- Only lessons the learner has completed can be rated
+drop policy if exists "Learners rate completed lessons" on lesson_ratings;
+create policy "Learners rate completed lessons" on lesson_ratings
+  for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from user_lesson_progress progress
+      where progress.user_id = auth.uid()
+        and progress.lesson_id = lesson_ratings.lesson_id
+        and progress.completed
+    )
+  );
+
+drop policy if exists "Authors read ratings of their lessons" on lesson_ratings;
+create policy "Authors read ratings of their lessons" on lesson_ratings
+  for select
+  using (is_lesson_author(lesson_id));
+
+drop policy if exists "Learners report problems" on lesson_reports;
+create policy "Learners report problems" on lesson_reports
+  for insert
+  with check (user_id = auth.uid() and resolved_at is null);
+
+drop policy if exists "Learners read their reports" on lesson_reports;
+create policy "Learners read their reports" on lesson_reports
+  for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Authors read reports on their lessons" on lesson_reports;
+create policy "Authors read reports on their lessons" on lesson_reports
+  for select
+  using (is_lesson_author(lesson_id));
+
+-- Authors can only mark reports resolved or open again
+drop policy if exists "Authors resolve reports on their lessons" on lesson_reports;
+create policy "Authors resolve reports on their lessons" on lesson_reports
+  for update
+  using (is_lesson_author(lesson_id))
+  with check (is_lesson_author(lesson_id));
+
+revoke update on lesson_reports from authenticated;
+grant update (resolved_at) on lesson_reports to authenticated;
+
+grant execute on function is_lesson_author(uuid) to authenticated;
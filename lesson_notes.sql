@@ -0,0 +1,51 @@
+-- Highlights and notes on lesson sections, written by NotesService (or
+-- replayed from the offline outbox with their device-generated ids). Notes
+-- are private: only the learner who wrote them can read or change them.
+
+create table if not exists lesson_notes (
+  id uuid primary key,
+  user_id uuid not null references profiles(id) on delete cascade,
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  section_id text not null,
+  section_title text not null default '',
+  -- null for a note on the whole section
+  block_index integer check (block_index >= 0),
+  block_type text,
+  quote text,
+  body text not null default '' check (char_length(body) <= 10000),
+  -- Mirrors HIGHLIGHT_COLORS in utils/studyNotes.ts
+  color text not null default 'yellow' check (color in ('yellow', 'green', 'blue', 'pink')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists lesson_notes_user_updated_idx on lesson_notes (user_id, updated_at desc);
+create index if not exists lesson_notes_user_lesson_idx on lesson_notes (user_id, lesson_id);
+
+-- Notes are searched on the device (searchNotes in utils/studyNotes.ts), so
+-- drop the server-side search index an earlier version of this file created
+drop index if exists lesson_notes_search_trgm_idx;
+drop function if exists lesson_note_search_text(text, text, text);
+
+alter table lesson_notes enable row level security;
+
+drop policy if exists "Users read their own notes" on lesson_notes;
+create policy "Users read their own notes" on lesson_notes
+  for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users add their own notes" on lesson_notes;
+create policy "Users add their own notes" on lesson_notes
+  for insert
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users edit their own notes" on lesson_notes;
+create policy "Users edit their own notes" on lesson_notes
+  for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users delete their own notes" on lesson_notes;
+create policy "Users delete their own notes" on lesson_notes
+  for delete
+  using (user_id = auth.uid());
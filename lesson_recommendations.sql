@@ -0,0 +1,93 @@
+-- Lesson popularity among the learner's peers and the candidate lessons to
+-- recommend, used by RecommendationsService via supabase.rpc(...). Run after
+-- lesson_catalog.sql (and again whenever it is re-run) and learning_paths.sql.
+
+-- Completions of each published lesson in the last p_days by other learners
+-- in the caller's organization. Runs with the owner's rights so it can count
+-- other learners' progress, but only returns per-lesson totals. Empty when
+-- the caller has no organization.
+create or replace function peer_lesson_popularity(p_days integer default 90)
+returns table (lesson_id uuid, completion_count integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select progress.lesson_id, count(*)::integer as completion_count
+  from profiles me
+  join profiles peer
+    on peer.organization = me.organization
+    and peer.id <> me.id
+  join user_lesson_progress progress
+    on progress.user_id = peer.id
+    and progress.completed
+    and progress.completed_at >= now() - make_interval(days => p_days)
+  join lessons lesson
+    on lesson.id = progress.lesson_id
+    and lesson.status = 'published'
+  where me.id = auth.uid()
+    and coalesce(trim(me.organization), '') <> ''
+  group by progress.lesson_id;
+$$;
+
+grant execute on function peer_lesson_popularity(integer) to authenticated;
+
+-- The lessons RecommendationsService ranks, so the Dashboard doesn't load
+-- the whole catalog: the lessons the caller has started (their completions
+-- shape the ranking), every lesson of the paths they've started, and the
+-- p_limit most completed lessons overall, among their peers and in each
+-- category they've completed. Published lessons only, from lesson_catalog.
+create or replace function recommendation_candidates(p_limit integer default 50)
+returns setof lesson_catalog
+language sql
+stable
+set search_path = public
+as $$
+  with mine as (
+    select lesson_id, completed
+    from user_lesson_progress
+    where user_id = auth.uid()
+  ),
+  unstarted as (
+    select catalog.*
+    from lesson_catalog catalog
+    where not exists (select 1 from mine where mine.lesson_id = catalog.id)
+  ),
+  ranked_in_category as (
+    select
+      unstarted.id,
+      row_number() over (
+        partition by unstarted.category
+        order by unstarted.completion_count desc, unstarted.created_at desc
+      ) as category_rank
+    from unstarted
+    where unstarted.category in (
+      select lesson.category
+      from mine
+      join lessons lesson on lesson.id = mine.lesson_id
+      where mine.completed
+    )
+  ),
+  candidate_ids as (
+    select lesson_id as id from mine
+    union
+    select path_lesson.lesson_id
+    from learning_path_lessons path_lesson
+    where path_lesson.path_id in (
+      select started.path_id
+      from learning_path_lessons started
+      join mine on mine.lesson_id = started.lesson_id
+    )
+    union
+    (select id from unstarted order by completion_count desc, created_at desc limit p_limit)
+    union
+    (select lesson_id from peer_lesson_popularity() order by completion_count desc limit p_limit)
+    union
+    select id from ranked_in_category where category_rank <= p_limit
+  )
+  select catalog.*
+  from lesson_catalog catalog
+  where catalog.id in (select id from candidate_ids);
+$$;
+
+grant execute on function recommendation_candidates(integer) to authenticated;
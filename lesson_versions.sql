@@ -0,0 +1,400 @@
+-- Lesson review workflow and version history, used by AuthoringService and
+-- ReviewService. Run after lesson_authoring.sql.
+--
+-- The lessons row is what learners see. Authors edit the lesson's revision,
+-- submit it for review, and a reviewer's approval snapshots it into
+-- lesson_versions and copies it onto the lesson:
+--
+--   draft -> in_review -> published -> archived
+--
+-- A published lesson keeps a revision of its own, so later edits also go
+-- through review before they reach learners.
+
+-- The author's working copy of a lesson, one per lesson
+create table if not exists lesson_revisions (
+  lesson_id uuid primary key references lessons(id) on delete cascade,
+  title text not null,
+  description text,
+  category text not null,
+  difficulty text not null,
+  duration text,
+  xp_reward integer not null default 0,
+  content text,
+  status text not null default 'draft' check (status in ('draft', 'in_review')),
+  base_version integer, -- the version the revision was last synced with
+  review_note text, -- set when a reviewer asks for changes
+  reviewed_by uuid references profiles(id) on delete set null,
+  reviewed_at timestamptz,
+  submitted_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+-- Immutable snapshots of every published version of a lesson
+create table if not exists lesson_versions (
+  id uuid primary key default gen_random_uuid(),
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  version integer not null,
+  title text not null,
+  description text,
+  category text not null,
+  difficulty text not null,
+  duration text,
+  xp_reward integer not null default 0,
+  content text,
+  note text,
+  -- Renamed section ids, { old: new }, applied to learners' progress
+  section_map jsonb not null default '{}'::jsonb,
+  created_by uuid references profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (lesson_id, version)
+);
+
+create index if not exists lesson_revisions_status_idx on lesson_revisions (status, submitted_at);
+
+create or replace function prevent_version_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Lesson versions cannot be changed';
+end;
+$$;
+
+drop trigger if exists lesson_versions_immutable on lesson_versions;
+create trigger lesson_versions_immutable
+  before update on lesson_versions
+  for each row execute function prevent_version_changes();
+
+-- Every new lesson starts with a revision holding its first draft
+create or replace function create_lesson_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into lesson_revisions (lesson_id, title, description, category, difficulty, duration, xp_reward, content)
+  values (new.id, new.title, new.description, new.category, new.difficulty, new.duration, new.xp_reward, new.content)
+  on conflict (lesson_id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists lessons_create_revision on lessons;
+create trigger lessons_create_revision
+  after insert on lessons
+  for each row execute function create_lesson_revision();
+
+-- Lessons from before the workflow: published ones become version 1
+insert into lesson_versions (lesson_id, version, title, description, category, difficulty, duration, xp_reward, content, note)
+select id, 1, title, description, category, difficulty, duration, coalesce(xp_reward, 0), content, 'Initial version'
+from lessons
+where status = 'published'
+  and not exists (select 1 from lesson_versions version where version.lesson_id = lessons.id);
+
+update lessons
+set current_version = 1
+where current_version is null
+  and exists (select 1 from lesson_versions version where version.lesson_id = lessons.id);
+
+insert into lesson_revisions (lesson_id, title, description, category, difficulty, duration, xp_reward, content, base_version)
+select id, title, description, category, difficulty, duration, coalesce(xp_reward, 0), content, current_version
+from lessons
+on conflict (lesson_id) do nothing;
+
+-- Rename section ids in a learner's section progress. Sections mapped onto
+-- the same id are merged as in merge_section_progress.
+create or replace function remap_section_progress(p_progress jsonb, p_section_map jsonb)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  v_result jsonb := '{}'::jsonb;
+  v_section_id text;
+  v_state jsonb;
+begin
+  for v_section_id, v_state in select key, value from jsonb_each(coalesce(p_progress, '{}'::jsonb)) loop
+    v_result := merge_section_progress(
+      v_result,
+      jsonb_build_object(coalesce(p_section_map ->> v_section_id, v_section_id), v_state)
+    );
+  end loop;
+  return v_result;
+end;
+$$;
+
+-- Snapshot p_fields (a revision or version row as jsonb) as the lesson's
+-- next version, make it the published lesson, and move learners' section
+-- progress onto renamed sections. Only called by the functions below.
+create or replace function publish_lesson_version(
+  p_lesson_id uuid,
+  p_fields jsonb,
+  p_note text,
+  p_section_map jsonb
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_version integer;
+begin
+  select coalesce(max(version), 0) + 1 into v_version
+  from lesson_versions
+  where lesson_id = p_lesson_id;
+
+  insert into lesson_versions (
+    lesson_id, version, title, description, category, difficulty, duration, xp_reward, content, note, section_map, created_by
+  )
+  values (
+    p_lesson_id,
+    v_version,
+    p_fields ->> 'title',
+    p_fields ->> 'description',
+    p_fields ->> 'category',
+    p_fields ->> 'difficulty',
+    p_fields ->> 'duration',
+    coalesce((p_fields ->> 'xp_reward')::integer, 0),
+    p_fields ->> 'content',
+    p_note,
+    coalesce(p_section_map, '{}'::jsonb),
+    auth.uid()
+  );
+
+  update lessons
+  set title = p_fields ->> 'title',
+      description = p_fields ->> 'description',
+      category = p_fields ->> 'category',
+      difficulty = p_fields ->> 'difficulty',
+      duration = p_fields ->> 'duration',
+      xp_reward = coalesce((p_fields ->> 'xp_reward')::integer, 0),
+      content = p_fields ->> 'content',
+      status = 'published',
+      current_version = v_version,
+      updated_at = now()
+  where id = p_lesson_id;
+
+  if coalesce(p_section_map, '{}'::jsonb) <> '{}'::jsonb then
+    update user_lesson_progress
+    set section_progress = remap_section_progress(section_progress, p_section_map)
+    where lesson_id = p_lesson_id
+      and section_progress is not null;
+  end if;
+
+  return v_version;
+end;
+$$;
+
+revoke execute on function publish_lesson_version(uuid, jsonb, text, jsonb) from public, anon, authenticated;
+
+-- The author hands their revision to reviewers. It can't be edited until
+-- it's reviewed or withdrawn.
+create or replace function submit_lesson_for_review(p_lesson_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not (has_capability('author_lessons') and is_lesson_author(p_lesson_id)) then
+    raise exception 'Only the lesson''s author can submit it for review';
+  end if;
+
+  update lesson_revisions
+  set status = 'in_review', submitted_at = now(), review_note = null
+  where lesson_id = p_lesson_id and status = 'draft';
+
+  if not found then
+    raise exception 'This lesson is already waiting for review';
+  end if;
+
+  update lessons set status = 'in_review' where id = p_lesson_id and status = 'draft';
+end;
+$$;
+
+-- Take a revision back out of review to keep editing it
+create or replace function withdraw_lesson_review(p_lesson_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not is_lesson_author(p_lesson_id) then
+    raise exception 'Only the lesson''s author can withdraw it from review';
+  end if;
+
+  update lesson_revisions
+  set status = 'draft', submitted_at = null
+  where lesson_id = p_lesson_id and status = 'in_review';
+
+  update lessons set status = 'draft' where id = p_lesson_id and status = 'in_review';
+end;
+$$;
+
+-- Approve a revision in review, publishing it as a new version, or send it
+-- back to the author with a note. Returns the new version number, or null
+-- when changes were requested. p_section_map renames section ids in
+-- learners' progress (see mapSectionIds in utils/lessonVersions.ts).
+create or replace function review_lesson(
+  p_lesson_id uuid,
+  p_approve boolean,
+  p_note text default null,
+  p_section_map jsonb default '{}'::jsonb
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_revision lesson_revisions;
+  v_version integer;
+begin
+  if not has_capability('review_lessons') then
+    raise exception 'Only reviewers can review lessons';
+  end if;
+  if is_lesson_author(p_lesson_id) then
+    raise exception 'Lessons can''t be reviewed by their author';
+  end if;
+
+  select * into v_revision
+  from lesson_revisions
+  where lesson_id = p_lesson_id
+  for update;
+
+  if not found or v_revision.status <> 'in_review' then
+    raise exception 'This lesson is not waiting for review';
+  end if;
+
+  if not p_approve then
+    update lesson_revisions
+    set status = 'draft', review_note = p_note, reviewed_by = auth.uid(), reviewed_at = now()
+    where lesson_id = p_lesson_id;
+
+    update lessons set status = 'draft' where id = p_lesson_id and status = 'in_review';
+    return null;
+  end if;
+
+  v_version := publish_lesson_version(p_lesson_id, to_jsonb(v_revision), p_note, p_section_map);
+
+  update lesson_revisions
+  set status = 'draft', base_version = v_version, review_note = null, reviewed_by = auth.uid(), reviewed_at = now()
+  where lesson_id = p_lesson_id;
+
+  return v_version;
+end;
+$$;
+
+-- Publish an earlier version again, as a new version so history is kept.
+-- Earlier versions were already approved, so this skips review. The
+-- revision is reset to the restored content.
+create or replace function rollback_lesson(
+  p_lesson_id uuid,
+  p_version integer,
+  p_section_map jsonb default '{}'::jsonb
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_source lesson_versions;
+  v_version integer;
+begin
+  if not ((has_capability('author_lessons') and is_lesson_author(p_lesson_id)) or has_capability('review_lessons')) then
+    raise exception 'Only the lesson''s author or a reviewer can roll it back';
+  end if;
+  if not exists (select 1 from lessons where id = p_lesson_id and status = 'published') then
+    raise exception 'Only published lessons can be rolled back';
+  end if;
+  if exists (select 1 from lesson_revisions where lesson_id = p_lesson_id and status = 'in_review') then
+    raise exception 'Withdraw the changes waiting for review first';
+  end if;
+
+  select * into v_source
+  from lesson_versions
+  where lesson_id = p_lesson_id and version = p_version;
+
+  if not found then
+    raise exception 'Version % of this lesson does not exist', p_version;
+  end if;
+
+  v_version := publish_lesson_version(
+    p_lesson_id,
+    to_jsonb(v_source),
+    format('Rolled back to version %s', p_version),
+    p_section_map
+  );
+
+  update lesson_revisions
+  set title = v_source.title,
+      description = v_source.description,
+      category = v_source.category,
+      difficulty = v_source.difficulty,
+      duration = v_source.duration,
+      xp_reward = v_source.xp_reward,
+      content = v_source.content,
+      base_version = v_version,
+      review_note = null,
+      updated_at = now()
+  where lesson_id = p_lesson_id;
+
+  return v_version;
+end;
+$$;
+
+-- Archive a published lesson, hiding it from the catalog, or publish it again
+create or replace function set_lesson_archived(p_lesson_id uuid, p_archived boolean)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not ((has_capability('author_lessons') and is_lesson_author(p_lesson_id)) or has_capability('review_lessons')) then
+    raise exception 'Only the lesson''s author or a reviewer can archive it';
+  end if;
+
+  update lessons
+  set status = case when p_archived then 'archived' else 'published' end,
+      updated_at = now()
+  where id = p_lesson_id
+    and status = case when p_archived then 'published' else 'archived' end
+    and current_version is not null;
+
+  if not found then
+    raise exception 'Only published lessons can be archived, and only archived ones restored';
+  end if;
+end;
+$$;
+
+grant execute on function submit_lesson_for_review(uuid) to authenticated;
+grant execute on function withdraw_lesson_review(uuid) to authenticated;
+grant execute on function review_lesson(uuid, boolean, text, jsonb) to authenticated;
+grant execute on function rollback_lesson(uuid, integer, jsonb) to authenticated;
+grant execute on function set_lesson_archived(uuid, boolean) to authenticated;
+
+alter table lesson_revisions enable row level security;
+alter table lesson_versions enable row level security;
+
+drop policy if exists "Authors and reviewers read revisions" on lesson_revisions;
+create policy "Authors and reviewers read revisions" on lesson_revisions
+  for select
+  using (is_lesson_author(lesson_id) or has_capability('review_lessons'));
+
+-- Revisions in review are locked
+drop policy if exists "Authors edit their draft revisions" on lesson_revisions;
+create policy "Authors edit their draft revisions" on lesson_revisions
+  for update
+  using (has_capability('author_lessons') and is_lesson_author(lesson_id) and status = 'draft')
+  with check (has_capability('author_lessons') and is_lesson_author(lesson_id) and status = 'draft');
+
+-- Versions are only ever written by the functions above
+drop policy if exists "Authors and reviewers read versions" on lesson_versions;
+create policy "Authors and reviewers read versions" on lesson_versions
+  for select
+  using (is_lesson_author(lesson_id) or has_capability('review_lessons'));
@@ -1,66 +1,172 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../config/supabase';
-import { Lesson, UserProgress, LessonFilter, UserStats, ApiResponse } from '../types';
+import { Lesson, UserProgress, UserStats, ApiResponse } from '../types';
+import { XPService } from './xp';
+import { StreakService } from './streaks';
+import { BadgesService } from './badges';
+import { LevelingService } from './leveling';
+import { PathsService } from './paths';
+import { LessonCacheService } from './lessonCache';
+import { NetworkService } from './network';
+import { SyncQueueService } from './syncQueue';
+import { BookmarksService } from './bookmarks';
+import { AssignmentService } from './assignments';
+import { parseLessonContent } from '../utils/lessonContent';
+import {
+  SectionProgress,
+  SectionUpdate,
+  applySectionUpdate,
+  calculateLessonProgress,
+  getRequiredSections,
+  getSectionActivityIds,
+} from '../utils/sectionProgress';
+import { ProgressState, resolveProgress } from '../utils/progressConflict';
+import { LessonSearchResult, getSearchTerms, matchLesson, rankLessons } from '../utils/lessonSearch';
+import {
+  LessonFilters,
+  LessonSort,
+  LessonUserState,
+  CatalogLesson,
+  SORT_KEYS,
+  compareLessons,
+  compareSortPositions,
+  getLessonStatus,
+  getSortValue,
+  isStatusFilterSet,
+  matchesLessonFilters,
+  normalizeLessonFilters,
+} from '../utils/lessonFilters';
+
+// Lesson progress together with its per-section completion state.
+// pending_sync is set while some of it is still waiting in the sync outbox.
+export type LessonProgress = UserProgress & {
+  section_progress?: SectionProgress | null;
+  last_activity_at?: string | null; // set by the server on every write
+  xp_awarded?: number; // XP the write just awarded, as returned by saveProgress
+  pending_sync?: boolean;
+};
+
+const progressCacheKey = (userId: string) => `progressCache:${userId}`;
+
+export const LESSONS_PAGE_SIZE = 20;
+const SEARCH_RESULTS_LIMIT = 50;
+
+const FILTERS_KEY = 'lessonFilters';
+
+// Position in the lessons list: the sort value and id of the last lesson of
+// the previous page
+export interface LessonCursor {
+  value: string | number;
+  id: string;
+}
+
+export interface LessonPage {
+  lessons: CatalogLesson[];
+  nextCursor: LessonCursor | null; // null on the last page
+}
+
+type ProgressByLesson = { [lessonId: string]: UserProgress };
+
+// Lessons to include or leave out for the status and saved filters, by id
+interface FilterScope {
+  include?: string[];
+  exclude?: string[];
+}
+
+// Trim the extra row fetched to detect a following page
+const toLessonPage = (rows: CatalogLesson[], pageSize: number | null, sort: LessonSort): LessonPage => {
+  if (pageSize === null || rows.length <= pageSize) {
+    return { lessons: rows, nextCursor: null };
+  }
+  const lessons = rows.slice(0, pageSize);
+  const last = lessons[lessons.length - 1];
+  return { lessons, nextCursor: { value: getSortValue(last, sort), id: last.id } };
+};
+
+// Raised by record_lesson_progress when a lesson's prerequisites aren't complete
+const PREREQUISITES_ERROR = 'prerequisites_incomplete';
+// ... and when a lesson would complete before all of its quizzes are passed
+const QUIZZES_ERROR = 'quizzes_incomplete';
+// ... or before all of its exercises are passed
+const EXERCISES_ERROR = 'exercises_incomplete';
+
+// What the record_lesson_progress function returns
+interface RecordProgressResult {
+  progress: LessonProgress;
+  newly_completed: boolean;
+  xp_awarded: number;
+}
 
 export class LessonsService {
-  // Fetch all published lessons
-  static async fetchLessons(filter?: LessonFilter): Promise<ApiResponse<Lesson[]>> {
+  // Fetch all published lessons. Offline, only downloaded lessons are listed.
+  static async fetchLessons(filters?: Partial<LessonFilters>, userId?: string): Promise<ApiResponse<CatalogLesson[]>> {
+    const result = await this.fetchLessonsPage(filters, null, null, userId);
+    return result.success
+      ? { success: true, data: result.data!.lessons }
+      : { success: false, error: result.error };
+  }
+
+  // Fetch one page of published lessons in the filters' sort order, starting
+  // after `cursor` (null for the first page). Keyset pagination on the sort
+  // value and id keeps pages stable while lessons are being published. A null
+  // pageSize fetches everything after the cursor. Status and saved filters
+  // need the user's id.
+  static async fetchLessonsPage(
+    filters?: Partial<LessonFilters>,
+    cursor?: LessonCursor | null,
+    pageSize: number | null = LESSONS_PAGE_SIZE,
+    userId?: string
+  ): Promise<ApiResponse<LessonPage>> {
     try {
+      const resolved = normalizeLessonFilters(filters);
+      const userState = await this.getUserState(resolved, userId);
+
+      if (!(await NetworkService.isOnline())) {
+        return await this.fetchCachedLessonsPage(resolved, userState, cursor, pageSize);
+      }
+
+      const scope = this.getScope(resolved, userState);
+      if (scope.include && scope.include.length === 0) {
+        return { success: true, data: { lessons: [], nextCursor: null } };
+      }
+
       // Try with author join first
-      let query = supabase
-        .from('lessons')
-        .select(`
+      let { data, error } = await this.queryLessons(`
           *,
           profiles!lessons_author_id_fkey (
             first_name,
             last_name
           )
-        `)
-        .eq('status', 'published')
-        .order('created_at', { ascending: false });
-
-      // Apply filters
-      if (filter?.category) {
-        query = query.eq('category', filter.category);
-      }
-      if (filter?.difficulty) {
-        query = query.eq('difficulty', filter.difficulty);
-      }
-
-      let { data, error } = await query;
+        `, resolved, scope, cursor, pageSize);
 
       // If join fails, try without author information
       if (error) {
         console.log('Trying lessons query without author join...');
-        let simpleQuery = supabase
-          .from('lessons')
-          .select('*')
-          .eq('status', 'published')
-          .order('created_at', { ascending: false });
-
-        // Apply filters
-        if (filter?.category) {
-          simpleQuery = simpleQuery.eq('category', filter.category);
-        }
-        if (filter?.difficulty) {
-          simpleQuery = simpleQuery.eq('difficulty', filter.difficulty);
-        }
-
-        const simpleResult = await simpleQuery;
+        const simpleResult = await this.queryLessons('*', resolved, scope, cursor, pageSize);
         data = simpleResult.data;
         error = simpleResult.error;
       }
 
       if (error) {
         console.error('Error fetching lessons:', error);
+        const cached = await this.fetchCachedLessonsPage(resolved, userState, cursor, pageSize);
+        if (cached.data && cached.data.lessons.length > 0) {
+          return cached;
+        }
         return {
           success: false,
           error: error.message,
         };
       }
 
+      const lessons = (data || []) as unknown as CatalogLesson[];
+
+      // Keep downloaded copies current without holding up the list
+      LessonCacheService.refreshIfChanged(lessons);
+
       return {
         success: true,
-        data: (data || []) as Lesson[],
+        data: toLessonPage(lessons, pageSize, resolved.sort),
       };
     } catch (error) {
       console.error('Error fetching lessons:', error);
@@ -71,81 +177,170 @@ export class LessonsService {
     }
   }
 
-  // Get single lesson by ID
-  static async getLesson(lessonId: string): Promise<ApiResponse<Lesson | null>> {
+  // Search published lessons by title, tags, description and content, most
+  // relevant first, within the filters (their sort order is ignored).
+  // Offline, or when the search request fails, downloaded lessons are
+  // searched on the device instead.
+  static async searchLessons(
+    query: string,
+    filters?: Partial<LessonFilters>,
+    userId?: string
+  ): Promise<ApiResponse<LessonSearchResult[]>> {
     try {
-      const { data, error } = await supabase
-        .from('lessons')
-        .select('*')
-        .eq('id', lessonId)
-        .single();
+      const terms = getSearchTerms(query);
+      if (terms.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const resolved = normalizeLessonFilters(filters);
+      const userState = await this.getUserState(resolved, userId);
+
+      if (!(await NetworkService.isOnline())) {
+        return await this.searchCachedLessons(query, resolved, userState);
+      }
+
+      const scope = this.getScope(resolved, userState);
+      if (scope.include && scope.include.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      // Filtered on the server so the limit counts only matching lessons
+      const { data, error } = await supabase.rpc('search_lessons', {
+        p_query: query.trim(),
+        p_categories: resolved.categories.length > 0 ? resolved.categories : null,
+        p_difficulties: resolved.difficulties.length > 0 ? resolved.difficulties : null,
+        p_limit: SEARCH_RESULTS_LIMIT,
+        p_min_duration: resolved.duration.min,
+        p_max_duration: resolved.duration.max,
+        p_min_xp: resolved.xp.min,
+        p_max_xp: resolved.xp.max,
+        p_include_ids: scope.include ?? null,
+        p_exclude_ids: scope.exclude && scope.exclude.length > 0 ? scope.exclude : null,
+      });
 
       if (error) {
+        console.error('Error searching lessons:', error);
+        const cached = await this.searchCachedLessons(query, resolved, userState);
+        if (cached.data && cached.data.length > 0) {
+          return cached;
+        }
         return {
           success: false,
           error: error.message,
         };
       }
 
+      // Keep the server's ranking; matching locally only finds what to
+      // highlight. Stemmed matches the device can't see get no snippet.
+      const results = ((data || []) as Lesson[])
+        .map(lesson =>
+          matchLesson(lesson, terms) || { lesson, score: 0, matchedField: 'content' as const, snippet: null }
+        );
+
       return {
         success: true,
-        data: data as Lesson,
+        data: results,
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to fetch lesson',
+        error: error instanceof Error ? error.message : 'Failed to search lessons',
       };
     }
   }
 
-  // Get user progress for a specific lesson
-  static async getUserProgress(userId: string, lessonId: string): Promise<ApiResponse<UserProgress | null>> {
+  // The catalog filters and sort order the user last chose
+  static async getSavedFilters(): Promise<LessonFilters> {
+    try {
+      const stored = await AsyncStorage.getItem(FILTERS_KEY);
+      return normalizeLessonFilters(stored ? JSON.parse(stored) : null);
+    } catch (error) {
+      console.error('Error reading saved filters:', error);
+      return normalizeLessonFilters(null);
+    }
+  }
+
+  static async saveFilters(filters: LessonFilters): Promise<void> {
     try {
+      await AsyncStorage.setItem(FILTERS_KEY, JSON.stringify(filters));
+    } catch (error) {
+      console.error('Error saving filters:', error);
+    }
+  }
+
+  // Get single lesson by ID, from the download cache when offline
+  static async getLesson(lessonId: string): Promise<ApiResponse<Lesson | null>> {
+    try {
+      if (!(await NetworkService.isOnline())) {
+        return await this.getCachedLesson(lessonId);
+      }
+
       const { data, error } = await supabase
-        .from('user_lesson_progress')
+        .from('lessons')
         .select('*')
-        .eq('user_id', userId)
-        .eq('lesson_id', lessonId)
+        .eq('id', lessonId)
         .single();
 
-      if (error && error.code !== 'PGRST116') { // PGRST116 is "not found" error
+      if (error) {
+        const cached = await LessonCacheService.getCachedLesson(lessonId);
+        if (cached) {
+          return { success: true, data: cached };
+        }
         return {
           success: false,
           error: error.message,
         };
       }
 
+      LessonCacheService.refreshIfChanged([data as Lesson]);
+
       return {
         success: true,
-        data: data as UserProgress || null,
+        data: data as Lesson,
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to fetch user progress',
+        error: error instanceof Error ? error.message : 'Failed to fetch lesson',
       };
     }
   }
 
-  // Get all user progress
-  static async getAllUserProgress(userId: string): Promise<ApiResponse<UserProgress[]>> {
+  // Get user progress for a specific lesson, including writes still waiting
+  // to sync. Offline, the last progress seen on this device is used.
+  static async getUserProgress(userId: string, lessonId: string): Promise<ApiResponse<LessonProgress | null>> {
     try {
-      const { data, error } = await supabase
-        .from('user_lesson_progress')
-        .select('*')
-        .eq('user_id', userId);
+      if (await NetworkService.isOnline()) {
+        const { data, error } = await supabase
+          .from('user_lesson_progress')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('lesson_id', lessonId)
+          .single();
 
-      if (error) {
-        return {
-          success: false,
-          error: error.message,
-        };
+        if (!error || error.code === 'PGRST116') { // PGRST116 is "not found" error
+          if (data) {
+            await this.cacheProgress(userId, [data as LessonProgress]);
+          }
+          const merged = await this.withPendingProgress(userId, data ? [data as LessonProgress] : [], lessonId);
+          return {
+            success: true,
+            data: merged[0] || null,
+          };
+        }
+
+        if (!NetworkService.isNetworkError(error)) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
       }
 
+      const local = await this.getLocalProgress(userId);
       return {
         success: true,
-        data: data as UserProgress[],
+        data: local.find(p => p.lesson_id === lessonId) || null,
       };
     } catch (error) {
       return {
@@ -155,54 +350,194 @@ export class LessonsService {
     }
   }
 
-  // Update user progress for a lesson
-  static async updateProgress(userId: string, lessonId: string, progress: number): Promise<ApiResponse<UserProgress>> {
+  // Get all user progress, including writes still waiting to sync
+  static async getAllUserProgress(userId: string): Promise<ApiResponse<LessonProgress[]>> {
     try {
-      // Check if progress record exists
-      const existingProgress = await this.getUserProgress(userId, lessonId);
-      
-      const progressData = {
-        user_id: userId,
-        lesson_id: lessonId,
-        progress: Math.min(Math.max(progress, 0), 100), // Clamp between 0-100
-        completed: progress >= 100,
-        completed_at: progress >= 100 ? new Date().toISOString() : null,
-      };
-
-      let result;
-      if (existingProgress.data) {
-        // Update existing progress
-        const { data, error } = await supabase
-          .from('user_lesson_progress')
-          .update(progressData)
-          .eq('user_id', userId)
-          .eq('lesson_id', lessonId)
-          .select()
-          .single();
-        
-        result = { data, error };
-      } else {
-        // Create new progress record
+      if (await NetworkService.isOnline()) {
         const { data, error } = await supabase
           .from('user_lesson_progress')
-          .insert([progressData])
-          .select()
-          .single();
-        
-        result = { data, error };
+          .select('*')
+          .eq('user_id', userId);
+
+        if (!error) {
+          await this.cacheProgress(userId, (data || []) as LessonProgress[]);
+          return {
+            success: true,
+            data: await this.withPendingProgress(userId, (data || []) as LessonProgress[]),
+          };
+        }
+
+        if (!NetworkService.isNetworkError(error)) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
       }
 
-      if (result.error) {
+      return {
+        success: true,
+        data: await this.getLocalProgress(userId),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch user progress',
+      };
+    }
+  }
+
+  // Update user progress for a lesson, optionally with its per-section state.
+  // Without a connection the write goes into the sync outbox and the result
+  // is what the progress will be once it syncs, flagged with pending_sync.
+  static async updateProgress(
+    userId: string,
+    lessonId: string,
+    progress: number,
+    sectionProgress?: SectionProgress
+  ): Promise<ApiResponse<LessonProgress>> {
+    const clamped = Math.min(Math.max(progress, 0), 100); // Clamp between 0-100
+    const state: ProgressState = {
+      progress: clamped,
+      completed: clamped >= 100,
+      completed_at: clamped >= 100 ? new Date().toISOString() : null,
+      ...(sectionProgress ? { section_progress: sectionProgress } : {}),
+    };
+
+    if (!(await NetworkService.isOnline())) {
+      return this.queueProgress(userId, lessonId, state);
+    }
+
+    const result = await this.saveProgress(userId, lessonId, state);
+    if (!result.success && NetworkService.isNetworkError(result.error)) {
+      return this.queueProgress(userId, lessonId, state);
+    }
+    return result;
+  }
+
+  // Write progress to the server in one atomic upsert (the
+  // record_lesson_progress function): progress only increases, completion
+  // keeps its first completed_at and the first completion awards the lesson's
+  // XP in the same transaction. Also used to replay queued offline writes,
+  // with the times the learner made them as `activityAt`.
+  static async saveProgress(
+    userId: string,
+    lessonId: string,
+    state: ProgressState,
+    activityAt: string[] = [new Date().toISOString()]
+  ): Promise<ApiResponse<LessonProgress>> {
+    try {
+      const { data, error } = await supabase.rpc('record_lesson_progress', {
+        p_user_id: userId,
+        p_lesson_id: lessonId,
+        p_progress: Math.round(state.progress),
+        p_completed: state.completed,
+        p_completed_at: state.completed_at,
+        p_section_progress: state.section_progress ?? null,
+      });
+
+      if (error) {
+        // Lessons can't be started until their prerequisites are complete
+        if (error.message.includes(PREREQUISITES_ERROR)) {
+          return {
+            success: false,
+            error: await this.getPrerequisitesError(userId, lessonId),
+          };
+        }
+        if (error.message.includes(QUIZZES_ERROR)) {
+          return {
+            success: false,
+            error: 'Pass every quiz in this lesson to complete it',
+          };
+        }
+        if (error.message.includes(EXERCISES_ERROR)) {
+          return {
+            success: false,
+            error: 'Pass every exercise in this lesson to complete it',
+          };
+        }
         return {
           success: false,
-          error: result.error.message,
+          error: error.message,
         };
       }
 
+      const result = data as RecordProgressResult;
+      await this.cacheProgress(userId, [result.progress]);
+
+      if (result.xp_awarded > 0) {
+        await XPService.checkLevelUp(userId, result.xp_awarded);
+      }
+
+      // Completing a lesson may also finish a learning path
+      if (result.newly_completed) {
+        const pathsResult = await PathsService.awardCompletedPaths(userId);
+        if (!pathsResult.success) {
+          console.error('Error awarding path completion:', pathsResult.error);
+        }
+      }
+
+      // Completing the lesson or passing an exercise may submit classroom
+      // assignments
+      const assignmentsResult = await AssignmentService.submitForLesson(lessonId);
+      if (!assignmentsResult.success) {
+        console.error('Error submitting assignments:', assignmentsResult.error);
+      }
+
+      // Any progress counts as learning activity for the day it was made
+      for (const activeAt of activityAt) {
+        const streakResult = await StreakService.recordActivity(userId, activeAt);
+        if (!streakResult.success) {
+          console.error('Error recording activity:', streakResult.error);
+        }
+      }
+
+      const badgesResult = await BadgesService.evaluateBadges(userId);
+      if (!badgesResult.success) {
+        console.error('Error evaluating badges:', badgesResult.error);
+      }
+
       return {
         success: true,
-        data: result.data as UserProgress,
+        data: { ...result.progress, xp_awarded: result.xp_awarded },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update progress',
       };
+    }
+  }
+
+  // Mark a section as viewed, or one of its quizzes/exercises as passed. The
+  // lesson's progress is derived from its completed required sections, so the
+  // lesson completes once every one of them is done.
+  static async updateSectionProgress(
+    userId: string,
+    lesson: Lesson,
+    sectionId: string,
+    update: SectionUpdate
+  ): Promise<ApiResponse<LessonProgress>> {
+    try {
+      const existingProgress = await this.getUserProgress(userId, lesson.id);
+      if (!existingProgress.success) {
+        return {
+          success: false,
+          error: existingProgress.error || 'Failed to update progress',
+        };
+      }
+
+      const existing = existingProgress.data as LessonProgress | null;
+      const sectionProgress = applySectionUpdate(existing?.section_progress, sectionId, update);
+      const derivedProgress = calculateLessonProgress(parseLessonContent(lesson.content), sectionProgress);
+
+      // Never move progress backwards
+      return await this.updateProgress(
+        userId,
+        lesson.id,
+        Math.max(derivedProgress, existing?.progress || 0),
+        sectionProgress
+      );
     } catch (error) {
       return {
         success: false,
@@ -212,7 +547,7 @@ export class LessonsService {
   }
 
   // Mark lesson as completed and award XP
-  static async completeLesson(userId: string, lessonId: string): Promise<ApiResponse<UserProgress>> {
+  static async completeLesson(userId: string, lessonId: string): Promise<ApiResponse<LessonProgress>> {
     try {
       // Get the lesson to know XP reward
       const lessonResult = await this.getLesson(lessonId);
@@ -223,17 +558,22 @@ export class LessonsService {
         };
       }
 
-      // Update progress to 100%
-      const progressResult = await this.updateProgress(userId, lessonId, 100);
-      
-      if (!progressResult.success) {
-        return progressResult;
+      // Lessons with quizzes or exercises only complete once they are passed
+      const content = parseLessonContent(lessonResult.data.content);
+      const hasActivities = getRequiredSections(content).some(section => getSectionActivityIds(section).length > 0);
+      if (hasActivities) {
+        const existingProgress = await this.getUserProgress(userId, lessonId);
+        const sectionProgress = (existingProgress.data as LessonProgress | null)?.section_progress;
+        if (calculateLessonProgress(content, sectionProgress) < 100) {
+          return {
+            success: false,
+            error: 'Pass every quiz and exercise in this lesson to complete it',
+          };
+        }
       }
 
-      // TODO: Award XP to user profile (would need to add XP field to profiles table)
-      // For now, we just return the progress update
-
-      return progressResult;
+      // Update progress to 100%, which also awards the lesson's XP
+      return await this.updateProgress(userId, lessonId, 100);
     } catch (error) {
       return {
         success: false,
@@ -242,6 +582,236 @@ export class LessonsService {
     }
   }
 
+  // Published lessons matching the filters, in their sort order, after the
+  // cursor. Fetches one extra row so toLessonPage can tell whether there are
+  // more.
+  private static queryLessons(
+    columns: string,
+    filters: LessonFilters,
+    scope: FilterScope,
+    cursor: LessonCursor | null | undefined,
+    pageSize: number | null
+  ) {
+    const { column, ascending } = SORT_KEYS[filters.sort];
+    let query = supabase
+      .from('lesson_catalog')
+      .select(columns)
+      .order(column, { ascending })
+      .order('id', { ascending });
+
+    // Apply filters
+    if (filters.categories.length > 0) {
+      query = query.in('category', filters.categories);
+    }
+    if (filters.difficulties.length > 0) {
+      query = query.in('difficulty', filters.difficulties);
+    }
+    if (filters.duration.min !== null) {
+      query = query.gte('duration_minutes', filters.duration.min);
+    }
+    if (filters.duration.max !== null) {
+      query = query.lte('duration_minutes', filters.duration.max);
+    }
+    if (filters.xp.min !== null) {
+      query = query.gte('xp_reward', filters.xp.min);
+    }
+    if (filters.xp.max !== null) {
+      query = query.lte('xp_reward', filters.xp.max);
+    }
+    if (scope.include) {
+      query = query.in('id', scope.include);
+    }
+    if (scope.exclude && scope.exclude.length > 0) {
+      query = query.not('id', 'in', `(${scope.exclude.join(',')})`);
+    }
+
+    if (cursor) {
+      const op = ascending ? 'gt' : 'lt';
+      const value = typeof cursor.value === 'string' ? `"${cursor.value}"` : cursor.value;
+      query = query.or(`${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`);
+    }
+    if (pageSize !== null) {
+      query = query.limit(pageSize + 1);
+    }
+    return query;
+  }
+
+  // Which lessons the status and saved filters keep, by id. Lessons without
+  // progress are not started, so when that status is wanted the filter
+  // leaves out the others rather than listing what to include.
+  private static getScope(filters: LessonFilters, { progressByLesson = {}, bookmarkedIds }: LessonUserState): FilterScope {
+    let scope: FilterScope = {};
+    if (isStatusFilterSet(filters.statuses)) {
+      const wanted = (lessonId: string) => filters.statuses.includes(getLessonStatus(progressByLesson[lessonId]));
+      const started = Object.keys(progressByLesson);
+      scope = filters.statuses.includes('not_started')
+        ? { exclude: started.filter(lessonId => !wanted(lessonId)) }
+        : { include: started.filter(wanted) };
+    }
+
+    if (filters.savedOnly) {
+      const saved = bookmarkedIds || new Set<string>();
+      scope = {
+        ...scope,
+        include: (scope.include || Array.from(saved.values())).filter(lessonId => saved.has(lessonId)),
+      };
+    }
+    return scope;
+  }
+
+  // The user's progress and bookmarks, when the filters need them
+  private static async getUserState(filters: LessonFilters, userId?: string): Promise<LessonUserState> {
+    if (!userId) return {};
+
+    const userState: LessonUserState = {};
+    if (isStatusFilterSet(filters.statuses)) {
+      const progressResult = await this.getAllUserProgress(userId);
+      const progressByLesson: ProgressByLesson = {};
+      (progressResult.data || []).forEach(progress => {
+        progressByLesson[progress.lesson_id] = progress;
+      });
+      userState.progressByLesson = progressByLesson;
+    }
+    if (filters.savedOnly) {
+      userState.bookmarkedIds = new Set(await BookmarksService.getBookmarkedIds(userId));
+    }
+    return userState;
+  }
+
+  private static async searchCachedLessons(
+    query: string,
+    filters: LessonFilters,
+    userState: LessonUserState
+  ): Promise<ApiResponse<LessonSearchResult[]>> {
+    const lessons = (await LessonCacheService.getCachedLessons())
+      .filter(lesson => matchesLessonFilters(lesson, filters, userState));
+
+    return {
+      success: true,
+      data: rankLessons(lessons, query).slice(0, SEARCH_RESULTS_LIMIT),
+    };
+  }
+
+  // The same page, built from downloaded lessons. Popularity isn't known
+  // offline, so 'most_popular' falls back to newest first.
+  private static async fetchCachedLessonsPage(
+    filters: LessonFilters,
+    userState: LessonUserState,
+    cursor: LessonCursor | null | undefined,
+    pageSize: number | null
+  ): Promise<ApiResponse<LessonPage>> {
+    const sort: LessonSort = filters.sort === 'most_popular' ? 'newest' : filters.sort;
+    const lessons = (await LessonCacheService.getCachedLessons())
+      .filter(lesson => matchesLessonFilters(lesson, filters, userState))
+      .sort((a, b) => compareLessons(a, b, sort))
+      .filter(lesson => !cursor || compareSortPositions(cursor, { value: getSortValue(lesson, sort), id: lesson.id }, sort) < 0);
+
+    return {
+      success: true,
+      data: toLessonPage(pageSize === null ? lessons : lessons.slice(0, pageSize + 1), pageSize, sort),
+    };
+  }
+
+  private static async getCachedLesson(lessonId: string): Promise<ApiResponse<Lesson | null>> {
+    const lesson = await LessonCacheService.getCachedLesson(lessonId);
+    if (!lesson) {
+      return {
+        success: false,
+        error: "You're offline and this lesson hasn't been downloaded",
+      };
+    }
+
+    return {
+      success: true,
+      data: lesson,
+    };
+  }
+
+  // Queue a progress write for later and return the optimistic result
+  private static async queueProgress(userId: string, lessonId: string, state: ProgressState): Promise<ApiResponse<LessonProgress>> {
+    try {
+      await SyncQueueService.enqueue({
+        type: 'progress',
+        user_id: userId,
+        lesson_id: lessonId,
+        state,
+        activity_at: [new Date().toISOString()],
+      });
+      const local = await this.getLocalProgress(userId);
+      return {
+        success: true,
+        data: local.find(p => p.lesson_id === lessonId)!,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save progress offline',
+      };
+    }
+  }
+
+  // Remember the latest server progress so it can be shown offline
+  private static async cacheProgress(userId: string, records: LessonProgress[]): Promise<void> {
+    try {
+      const cached = await this.getCachedProgress(userId);
+      records.forEach(record => {
+        cached[record.lesson_id] = record;
+      });
+      await AsyncStorage.setItem(progressCacheKey(userId), JSON.stringify(cached));
+    } catch (error) {
+      console.error('Error caching progress:', error);
+    }
+  }
+
+  private static async getCachedProgress(userId: string): Promise<{ [lessonId: string]: LessonProgress }> {
+    const stored = await AsyncStorage.getItem(progressCacheKey(userId));
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  // Cached server progress with queued writes applied
+  private static async getLocalProgress(userId: string): Promise<LessonProgress[]> {
+    const cached = await this.getCachedProgress(userId);
+    return this.withPendingProgress(userId, Object.values(cached));
+  }
+
+  // Apply queued writes on top of progress records. Lessons that only have a
+  // queued write get a record of their own unless `onlyLessonId` excludes them.
+  private static async withPendingProgress(
+    userId: string,
+    records: LessonProgress[],
+    onlyLessonId?: string
+  ): Promise<LessonProgress[]> {
+    const pending = await SyncQueueService.getPendingProgress(userId);
+    const merged = records.map(record => pending[record.lesson_id]
+      ? { ...record, ...resolveProgress(record, pending[record.lesson_id]), pending_sync: true }
+      : record
+    );
+
+    Object.entries(pending).forEach(([lessonId, state]) => {
+      if (records.some(record => record.lesson_id === lessonId)) return;
+      if (onlyLessonId && lessonId !== onlyLessonId) return;
+      merged.push({
+        id: `pending-${lessonId}`,
+        user_id: userId,
+        lesson_id: lessonId,
+        created_at: new Date().toISOString(),
+        ...state,
+        pending_sync: true,
+      } as LessonProgress);
+    });
+    return merged;
+  }
+
+  // Name the prerequisites that are still missing for a lesson the server
+  // refused to start
+  private static async getPrerequisitesError(userId: string, lessonId: string): Promise<string> {
+    const missingResult = await PathsService.getMissingPrerequisites(userId, lessonId);
+    if (!missingResult.success || missingResult.data!.length === 0) {
+      return 'Complete the prerequisite lessons first';
+    }
+    return `Complete ${missingResult.data!.map(lesson => lesson.title).join(', ')} first`;
+  }
+
   // Get user statistics
   static async getUserStats(userId: string): Promise<ApiResponse<UserStats>> {
     try {
@@ -257,20 +827,38 @@ export class LessonsService {
       const allProgress = progressResult.data || [];
       const completedLessons = allProgress.filter(p => p.completed).length;
       
-      // Calculate total XP (would need to join with lessons table in a real implementation)
-      // For now, assume 50 XP per completed lesson
-      const totalXP = completedLessons * 50;
-      
-      // Calculate level (every 200 XP = 1 level)
-      const level = Math.floor(totalXP / 200) + 1;
+      // Total XP is the sum of the user's XP ledger
+      const xpResult = await XPService.getTotalXP(userId);
+      if (!xpResult.success) {
+        return {
+          success: false,
+          error: xpResult.error || 'Failed to fetch user stats',
+        };
+      }
+      const totalXP = xpResult.data || 0;
+
+      const streakResult = await StreakService.getStreak(userId);
+      if (!streakResult.success) {
+        return {
+          success: false,
+          error: streakResult.error || 'Failed to fetch user stats',
+        };
+      }
+
+      const badgesResult = await BadgesService.getEarnedBadges(userId);
+      if (!badgesResult.success) {
+        return {
+          success: false,
+          error: badgesResult.error || 'Failed to fetch user stats',
+        };
+      }
 
-      // TODO: Calculate streak and badges from actual data
       const stats: UserStats = {
         totalXP,
-        level,
+        level: LevelingService.getLevelInfo(totalXP).level,
         completedLessons,
-        streakDays: 0, // Would need streak tracking
-        badgesEarned: Math.floor(completedLessons / 5), // 1 badge per 5 lessons
+        streakDays: streakResult.data!.currentStreak,
+        badgesEarned: (badgesResult.data || []).length,
       };
 
       return {
@@ -0,0 +1,132 @@
+// A level curve maps a level to the total XP needed to reach it. Level 1
+// always starts at 0 XP.
+export type LevelCurve =
+  // Cumulative XP needed for level 2, 3, ...; levels past the end keep the last gap
+  | { type: 'thresholds'; thresholds: number[] }
+  // XP for level n is base * (n - 1) ^ exponent
+  | { type: 'formula'; base: number; exponent: number };
+
+export const DEFAULT_LEVEL_CURVE: LevelCurve = { type: 'formula', base: 100, exponent: 1.5 };
+
+// getLevelInfo stops counting here, so a very flat curve can't keep it
+// looping over millions of levels
+export const MAX_LEVEL = 1000;
+
+export interface LevelInfo {
+  level: number;
+  totalXP: number;
+  xpIntoLevel: number; // XP earned since reaching the current level
+  xpForNextLevel: number; // XP span of the current level
+  xpToNextLevel: number; // XP still needed to level up
+  progress: number; // 0-1 through the current level
+}
+
+export interface LevelUpEvent {
+  previousLevel: number;
+  level: number;
+  levelInfo: LevelInfo;
+}
+
+type LevelUpListener = (event: LevelUpEvent) => void;
+
+export class LevelingService {
+  private static curve: LevelCurve = DEFAULT_LEVEL_CURVE;
+  private static listeners: LevelUpListener[] = [];
+
+  // Replace the level curve used across the app. Throws if the curve doesn't
+  // keep increasing, since levels past that point could never be reached.
+  static setCurve(curve: LevelCurve) {
+    const problem = this.validateCurve(curve);
+    if (problem) {
+      throw new Error(`Invalid level curve: ${problem}`);
+    }
+    this.curve = curve;
+  }
+
+  // Why a curve can't be used, or null if it can
+  static validateCurve(curve: LevelCurve): string | null {
+    if (curve.type === 'formula') {
+      if (!isFinite(curve.base) || curve.base <= 0) return 'base must be a positive number';
+      if (!isFinite(curve.exponent) || curve.exponent <= 0) return 'exponent must be a positive number';
+      return null;
+    }
+
+    const { thresholds } = curve;
+    if (thresholds.length === 0) return 'at least one threshold is needed';
+    for (let index = 0; index < thresholds.length; index++) {
+      const previous = index === 0 ? 0 : thresholds[index - 1];
+      if (!isFinite(thresholds[index]) || thresholds[index] <= previous) {
+        return 'thresholds must be positive and strictly increasing';
+      }
+    }
+    return null;
+  }
+
+  static getCurve(): LevelCurve {
+    return this.curve;
+  }
+
+  // Total XP needed to reach a level
+  static getXPForLevel(level: number, curve: LevelCurve = this.curve): number {
+    if (level <= 1) return 0;
+
+    if (curve.type === 'formula') {
+      return Math.round(curve.base * Math.pow(level - 1, curve.exponent));
+    }
+
+    const { thresholds } = curve;
+    if (thresholds.length === 0) return Infinity;
+    if (level - 2 < thresholds.length) {
+      return thresholds[level - 2];
+    }
+    const last = thresholds[thresholds.length - 1];
+    const lastGap = thresholds.length > 1 ? last - thresholds[thresholds.length - 2] : last;
+    if (lastGap <= 0) return Infinity;
+    return last + lastGap * (level - 1 - thresholds.length);
+  }
+
+  // Work out the level and progress towards the next one for a total XP
+  static getLevelInfo(totalXP: number, curve: LevelCurve = this.curve): LevelInfo {
+    const xp = Math.max(totalXP, 0);
+    let level = 1;
+    while (level < MAX_LEVEL && this.getXPForLevel(level + 1, curve) <= xp) {
+      level++;
+    }
+
+    const levelStart = this.getXPForLevel(level, curve);
+    const nextLevelStart = this.getXPForLevel(level + 1, curve);
+    const xpForNextLevel = nextLevelStart - levelStart;
+    const xpIntoLevel = xp - levelStart;
+
+    return {
+      level,
+      totalXP: xp,
+      xpIntoLevel,
+      xpForNextLevel,
+      // Past MAX_LEVEL the next level can already be paid for
+      xpToNextLevel: Math.max(nextLevelStart - xp, 0),
+      progress: isFinite(xpForNextLevel) && xpForNextLevel > 0 ? Math.min(xpIntoLevel / xpForNextLevel, 1) : 0,
+    };
+  }
+
+  // Emit a level-up event if an XP award crossed a level threshold
+  static checkLevelUp(previousXP: number, totalXP: number): LevelUpEvent | null {
+    const previousLevel = this.getLevelInfo(previousXP).level;
+    const levelInfo = this.getLevelInfo(totalXP);
+    if (levelInfo.level <= previousLevel) return null;
+
+    const event: LevelUpEvent = { previousLevel, level: levelInfo.level, levelInfo };
+    this.listeners.forEach(listener => listener(event));
+    return event;
+  }
+
+  // Listen for level-ups
+  static onLevelUp(listener: LevelUpListener) {
+    this.listeners.push(listener);
+    return {
+      unsubscribe: () => {
+        this.listeners = this.listeners.filter(l => l !== listener);
+      },
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+
+// Treat unknown reachability as online; requests fail over to the cache anyway
+const isConnected = (state: NetInfoState) =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+export class NetworkService {
+  // Check whether the device currently has a network connection
+  static async isOnline(): Promise<boolean> {
+    try {
+      return isConnected(await NetInfo.fetch());
+    } catch {
+      return true;
+    }
+  }
+
+  // Whether a failed request's error came from the connection rather than
+  // the server, i.e. whether it's worth retrying later
+  static isNetworkError(error: unknown): boolean {
+    const message = typeof error === 'object' && error !== null && 'message' in error
+      ? String((error as { message: unknown }).message)
+      : String(error ?? '');
+    return /network request failed|failed to fetch|network ?error|load failed|timed? ?out|offline/i.test(message);
+  }
+
+  // Listen for connectivity changes
+  static onChange(listener: (online: boolean) => void): { unsubscribe: () => void } {
+    const unsubscribe = NetInfo.addEventListener(state => listener(isConnected(state)));
+    return { unsubscribe };
+  }
+}
@@ -0,0 +1,183 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { NetworkService } from './network';
+import { SyncQueueService, createId } from './syncQueue';
+import { LessonNote, HighlightColor } from '../utils/studyNotes';
+
+// What the learner fills in when adding or editing a note
+export interface NoteInput {
+  section_id: string;
+  section_title: string;
+  block_index: number | null;
+  block_type: LessonNote['block_type'];
+  quote: string | null;
+  body: string;
+  color: HighlightColor;
+}
+
+// Notes are private, so every note the user has is mirrored on the device
+// and can be read and edited offline
+const notesCacheKey = (userId: string) => `notesCache:${userId}`;
+
+const newestFirst = (a: LessonNote, b: LessonNote) => b.updated_at.localeCompare(a.updated_at);
+
+// The columns of lesson_notes, without the joined lesson
+const toRow = ({ lessons, ...row }: LessonNote) => row;
+
+export class NotesService {
+  // Get all of the user's notes, most recently edited first, including
+  // changes still waiting to sync
+  static async getNotes(userId: string): Promise<ApiResponse<LessonNote[]>> {
+    try {
+      if (await NetworkService.isOnline()) {
+        const { data, error } = await supabase
+          .from('lesson_notes')
+          .select('*, lessons(title)')
+          .eq('user_id', userId)
+          .order('updated_at', { ascending: false });
+
+        if (!error) {
+          await this.cacheNotes(userId, (data || []) as LessonNote[]);
+        } else if (!NetworkService.isNetworkError(error)) {
+          return {
+            success: false,
+            error: error.message,
+          };
+        }
+      }
+
+      return {
+        success: true,
+        data: await this.withPendingNotes(userId, await this.getCachedNotes(userId)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch notes',
+      };
+    }
+  }
+
+  // The user's notes on one lesson
+  static async getLessonNotes(userId: string, lessonId: string): Promise<ApiResponse<LessonNote[]>> {
+    const result = await this.getNotes(userId);
+    if (!result.success) return result;
+
+    return {
+      success: true,
+      data: result.data!.filter(note => note.lesson_id === lessonId),
+    };
+  }
+
+  // Add a note to a lesson
+  static async addNote(
+    userId: string,
+    lesson: { id: string; title: string },
+    input: NoteInput
+  ): Promise<ApiResponse<LessonNote>> {
+    const now = new Date().toISOString();
+    return this.writeNote({
+      ...input,
+      id: createId(),
+      user_id: userId,
+      lesson_id: lesson.id,
+      created_at: now,
+      updated_at: now,
+      lessons: { title: lesson.title },
+    }, false);
+  }
+
+  static async updateNote(note: LessonNote, changes: Partial<Pick<LessonNote, 'quote' | 'body' | 'color'>>): Promise<ApiResponse<LessonNote>> {
+    return this.writeNote({ ...note, ...changes, updated_at: new Date().toISOString() }, false);
+  }
+
+  static async deleteNote(note: LessonNote): Promise<ApiResponse<LessonNote>> {
+    return this.writeNote(note, true);
+  }
+
+  // Write a note change to the server. Also used to replay queued changes.
+  static async saveNote(note: LessonNote, deleted: boolean): Promise<ApiResponse<null>> {
+    try {
+      const { error } = deleted
+        ? await supabase
+            .from('lesson_notes')
+            .delete()
+            .eq('id', note.id)
+        : await supabase
+            .from('lesson_notes')
+            .upsert([toRow(note)], { onConflict: 'id' });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return { success: true, data: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save note',
+      };
+    }
+  }
+
+  // Apply a change to the device copy right away, then send it, queueing it
+  // when there's no connection
+  private static async writeNote(note: LessonNote, deleted: boolean): Promise<ApiResponse<LessonNote>> {
+    try {
+      const cached = (await this.getCachedNotes(note.user_id)).filter(existing => existing.id !== note.id);
+      await this.cacheNotes(note.user_id, deleted ? cached : [note, ...cached]);
+
+      const saved = (await NetworkService.isOnline())
+        ? await this.saveNote(note, deleted)
+        : null;
+
+      if (!saved || (!saved.success && NetworkService.isNetworkError(saved.error))) {
+        await SyncQueueService.enqueue({ type: 'note', note, deleted });
+      } else if (!saved.success) {
+        return {
+          success: false,
+          error: saved.error,
+        };
+      }
+
+      return { success: true, data: note };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save note',
+      };
+    }
+  }
+
+  private static async cacheNotes(userId: string, notes: LessonNote[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(notesCacheKey(userId), JSON.stringify(notes));
+    } catch (error) {
+      console.error('Error caching notes:', error);
+    }
+  }
+
+  private static async getCachedNotes(userId: string): Promise<LessonNote[]> {
+    try {
+      const stored = await AsyncStorage.getItem(notesCacheKey(userId));
+      return stored ? (JSON.parse(stored) as LessonNote[]) : [];
+    } catch (error) {
+      console.error('Error reading cached notes:', error);
+      return [];
+    }
+  }
+
+  // Apply queued changes on top of what the server last returned
+  private static async withPendingNotes(userId: string, notes: LessonNote[]): Promise<LessonNote[]> {
+    const pending = await SyncQueueService.getPendingNotes(userId);
+    const pendingIds = Object.keys(pending);
+    if (pendingIds.length === 0) return notes;
+
+    const changed = pendingIds.filter(id => !pending[id].deleted).map(id => pending[id].note);
+    return [...changed, ...notes.filter(note => !pending[note.id])].sort(newestFirst);
+  }
+}
@@ -0,0 +1,276 @@
+import { supabase } from '../config/supabase';
+import { Lesson, ApiResponse } from '../types';
+import { XPService } from './xp';
+import {
+  PrerequisiteMap,
+  buildPrerequisiteMap,
+  getMissingPrerequisites,
+} from '../utils/learningPaths';
+
+export interface LearningPath {
+  id: string;
+  title: string;
+  description: string | null;
+  icon: string | null; // Ionicons name
+  xp_reward: number; // bonus for finishing every lesson in the path
+  lesson_ids: string[]; // in path order
+  created_at: string;
+}
+
+export interface LessonPrerequisite {
+  lesson_id: string;
+  prerequisite_id: string;
+}
+
+type LearningPathRow = Omit<LearningPath, 'lesson_ids'> & {
+  learning_path_lessons: { lesson_id: string; position: number }[] | null;
+};
+
+const toLearningPath = ({ learning_path_lessons, ...path }: LearningPathRow): LearningPath => ({
+  ...path,
+  lesson_ids: [...(learning_path_lessons || [])]
+    .sort((a, b) => a.position - b.position)
+    .map(item => item.lesson_id),
+});
+
+export class PathsService {
+  // Fetch all published learning paths with their lessons in order
+  static async fetchPaths(): Promise<ApiResponse<LearningPath[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('learning_paths')
+        .select('*, learning_path_lessons (lesson_id, position)')
+        .eq('status', 'published')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: ((data || []) as LearningPathRow[]).map(toLearningPath),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch learning paths',
+      };
+    }
+  }
+
+  // Get a single learning path by ID
+  static async getPath(pathId: string): Promise<ApiResponse<LearningPath | null>> {
+    try {
+      const { data, error } = await supabase
+        .from('learning_paths')
+        .select('*, learning_path_lessons (lesson_id, position)')
+        .eq('id', pathId)
+        .single();
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: toLearningPath(data as LearningPathRow),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch learning path',
+      };
+    }
+  }
+
+  // Get the lessons of a path, in path order
+  static async getPathLessons(path: LearningPath): Promise<ApiResponse<Lesson[]>> {
+    try {
+      if (path.lesson_ids.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const { data, error } = await supabase
+        .from('lessons')
+        .select('*')
+        .in('id', path.lesson_ids);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      const lessons = (data || []) as Lesson[];
+      return {
+        success: true,
+        data: path.lesson_ids
+          .map(id => lessons.find(lesson => lesson.id === id))
+          .filter((lesson): lesson is Lesson => !!lesson),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch path lessons',
+      };
+    }
+  }
+
+  // Get every lesson's prerequisites
+  static async getPrerequisites(): Promise<ApiResponse<PrerequisiteMap>> {
+    try {
+      const { data, error } = await supabase
+        .from('lesson_prerequisites')
+        .select('lesson_id, prerequisite_id');
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: buildPrerequisiteMap((data || []) as LessonPrerequisite[]),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch prerequisites',
+      };
+    }
+  }
+
+  // Get the prerequisite lessons the user still has to complete before they
+  // can start this one; empty when the lesson is unlocked
+  static async getMissingPrerequisites(userId: string, lessonId: string): Promise<ApiResponse<Lesson[]>> {
+    try {
+      const { data: rows, error } = await supabase
+        .from('lesson_prerequisites')
+        .select('lesson_id, prerequisite_id')
+        .eq('lesson_id', lessonId);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+      if (!rows || rows.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const completedResult = await this.getCompletedLessonIds(userId);
+      if (!completedResult.success) {
+        return {
+          success: false,
+          error: completedResult.error || 'Failed to fetch prerequisites',
+        };
+      }
+
+      const missingIds = getMissingPrerequisites(
+        lessonId,
+        buildPrerequisiteMap(rows as LessonPrerequisite[]),
+        completedResult.data!
+      );
+      if (missingIds.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      const { data: lessons, error: lessonsError } = await supabase
+        .from('lessons')
+        .select('*')
+        .in('id', missingIds);
+
+      if (lessonsError) {
+        return {
+          success: false,
+          error: lessonsError.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: (lessons || []) as Lesson[],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch prerequisites',
+      };
+    }
+  }
+
+  // Get the ids of every lesson the user has completed
+  static async getCompletedLessonIds(userId: string): Promise<ApiResponse<Set<string>>> {
+    try {
+      const { data, error } = await supabase
+        .from('user_lesson_progress')
+        .select('lesson_id')
+        .eq('user_id', userId)
+        .eq('completed', true);
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: new Set((data || []).map(row => row.lesson_id as string)),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch completed lessons',
+      };
+    }
+  }
+
+  // Award the completion bonus for every path the user has now finished, on
+  // the server (award_completed_paths in learning_paths.sql), which checks
+  // every lesson is complete and reads the reward from the path. Awards are
+  // idempotent, so this is safe to call after any lesson completes.
+  // Returns the paths that were newly completed.
+  static async awardCompletedPaths(userId: string): Promise<ApiResponse<LearningPath[]>> {
+    try {
+      const { data, error } = await supabase
+        .rpc('award_completed_paths', { p_user_id: userId })
+        .select('*, learning_path_lessons (lesson_id, position)');
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      const newlyCompleted = ((data || []) as LearningPathRow[]).map(toLearningPath);
+      const awarded = newlyCompleted.reduce((sum, path) => sum + path.xp_reward, 0);
+      if (awarded > 0) {
+        await XPService.checkLevelUp(userId, awarded);
+      }
+
+      return {
+        success: true,
+        data: newlyCompleted,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to award path completion',
+      };
+    }
+  }
+}
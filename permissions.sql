@@ -0,0 +1,178 @@
+-- Roles and what each one can do. Run before the other scripts: their row
+-- level security and functions check has_capability(). The role ->
+-- capability map mirrors ROLE_CAPABILITIES in services/permissions.ts.
+
+-- 'admin' is now 'super_admin'
+alter table profiles
+  drop constraint if exists profiles_role_check;
+update profiles set role = 'super_admin' where role = 'admin';
+alter table profiles
+  add constraint profiles_role_check
+  check (role in ('student', 'instructor', 'reviewer', 'teacher', 'org_admin', 'super_admin'));
+
+create table if not exists role_capabilities (
+  role text not null,
+  capability text not null,
+  primary key (role, capability)
+);
+
+delete from role_capabilities;
+insert into role_capabilities (role, capability) values
+  ('student', 'join_classrooms'),
+  ('instructor', 'join_classrooms'),
+  ('instructor', 'author_lessons'),
+  ('reviewer', 'join_classrooms'),
+  ('reviewer', 'review_lessons'),
+  ('teacher', 'manage_classrooms'),
+  ('org_admin', 'author_lessons'),
+  ('org_admin', 'review_lessons'),
+  ('org_admin', 'manage_classrooms'),
+  ('org_admin', 'manage_roles'),
+  ('super_admin', 'author_lessons'),
+  ('super_admin', 'review_lessons'),
+  ('super_admin', 'manage_classrooms'),
+  ('super_admin', 'manage_roles');
+
+alter table role_capabilities enable row level security;
+
+drop policy if exists "Capabilities are readable" on role_capabilities;
+create policy "Capabilities are readable" on role_capabilities
+  for select
+  using (auth.uid() is not null);
+
+-- Whether the signed in user's role grants a capability
+create or replace function has_capability(p_capability text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from profiles
+    join role_capabilities on role_capabilities.role = profiles.role
+    where profiles.id = auth.uid() and role_capabilities.capability = p_capability
+  );
+$$;
+
+grant execute on function has_capability(text) to authenticated;
+
+-- Users can't change their own role
+create or replace function prevent_role_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.role is distinct from old.role and auth.uid() = old.id then
+    raise exception 'You cannot change your own role';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_prevent_role_change on profiles;
+create trigger profiles_prevent_role_change
+  before update on profiles
+  for each row execute function prevent_role_change();
+
+-- The role someone asked for when signing up, until an admin grants it.
+-- Mirrors SIGN_UP_ROLES in services/auth.ts.
+alter table profiles
+  add column if not exists requested_role text;
+alter table profiles
+  drop constraint if exists profiles_requested_role_check;
+alter table profiles
+  add constraint profiles_requested_role_check check (requested_role in ('instructor', 'teacher'));
+
+-- Everyone starts out as a student; every other role is granted by an
+-- admin through grant_role
+drop policy if exists "Users create their own profile" on profiles;
+create policy "Users create their own profile" on profiles
+  for insert
+  with check (id = auth.uid() and role = 'student');
+
+-- Give a user a role, through AuthService.grantRole, and clear their
+-- request. Organization admins manage the learners, instructors, reviewers
+-- and teachers of their own organization; only super admins grant or take
+-- away the admin roles. Nobody changes their own role.
+create or replace function grant_role(p_user_id uuid, p_role text)
+returns profiles
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_admin profiles;
+  v_target profiles;
+begin
+  if not has_capability('manage_roles') then
+    raise exception 'Only admins can change roles';
+  end if;
+  if p_user_id = auth.uid() then
+    raise exception 'You cannot change your own role';
+  end if;
+
+  select * into v_admin from profiles where id = auth.uid();
+  select * into v_target from profiles where id = p_user_id for update;
+  if not found then
+    raise exception 'User not found';
+  end if;
+
+  if v_admin.role <> 'super_admin' then
+    if p_role in ('org_admin', 'super_admin') or v_target.role in ('org_admin', 'super_admin') then
+      raise exception 'Only administrators can change admin roles';
+    end if;
+    if coalesce(trim(v_admin.organization), '') = '' or v_target.organization is distinct from v_admin.organization then
+      raise exception 'User not found';
+    end if;
+  end if;
+
+  update profiles
+  set role = p_role, requested_role = null
+  where id = p_user_id
+  returning * into v_target;
+
+  return v_target;
+end;
+$$;
+
+grant execute on function grant_role(uuid, text) to authenticated;
+
+-- The sign up role requests an admin can settle with grant_role, by name,
+-- for the Role Requests screen. Scoped like grant_role: super admins
+-- see every request, organization admins those from their organization.
+create or replace function list_role_requests()
+returns setof profiles
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_admin profiles;
+begin
+  if not has_capability('manage_roles') then
+    raise exception 'Only admins can change roles';
+  end if;
+
+  select * into v_admin from profiles where id = auth.uid();
+
+  return query
+  select requester.*
+  from profiles requester
+  where requester.requested_role is not null
+    and requester.id <> v_admin.id
+    and (
+      v_admin.role = 'super_admin'
+      or (
+        coalesce(trim(v_admin.organization), '') <> ''
+        and requester.organization = v_admin.organization
+        and requester.role not in ('org_admin', 'super_admin')
+      )
+    )
+  order by requester.first_name, requester.last_name;
+end;
+$$;
+
+grant execute on function list_role_requests() to authenticated;
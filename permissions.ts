@@ -0,0 +1,75 @@
+import { supabase } from '../config/supabase';
+import { AuthUser } from '../types';
+
+export type UserRole = 'student' | 'instructor' | 'reviewer' | 'teacher' | 'org_admin' | 'super_admin';
+
+// Things a role lets someone do. Screens check these to decide what to
+// show, services check them before writing, and the database checks them
+// again in row level security (has_capability in permissions.sql).
+export type Capability =
+  | 'author_lessons'
+  | 'review_lessons'
+  | 'manage_classrooms'
+  | 'join_classrooms'
+  | 'manage_roles';
+
+// Mirrors role_capabilities in permissions.sql
+export const ROLE_CAPABILITIES: { [role in UserRole]: Capability[] } = {
+  student: ['join_classrooms'],
+  instructor: ['join_classrooms', 'author_lessons'],
+  reviewer: ['join_classrooms', 'review_lessons'],
+  teacher: ['manage_classrooms'],
+  org_admin: ['author_lessons', 'review_lessons', 'manage_classrooms', 'manage_roles'],
+  super_admin: ['author_lessons', 'review_lessons', 'manage_classrooms', 'manage_roles'],
+};
+
+export const ROLE_LABELS: { [role in UserRole]: string } = {
+  student: 'Learner',
+  instructor: 'Instructor',
+  reviewer: 'Reviewer',
+  teacher: 'Teacher',
+  org_admin: 'Organization Admin',
+  super_admin: 'Administrator',
+};
+
+const CAPABILITY_ERRORS: { [capability in Capability]: string } = {
+  author_lessons: 'Only instructors can write lessons',
+  review_lessons: 'Only reviewers can review lessons',
+  manage_classrooms: 'Only teachers can manage classrooms',
+  join_classrooms: 'Your account can\'t join classrooms',
+  manage_roles: 'Only admins can change roles',
+};
+
+// Unknown or missing roles get no capabilities
+export const hasCapability = (role: string | null | undefined, capability: Capability) =>
+  !!role && (ROLE_CAPABILITIES[role as UserRole] || []).includes(capability);
+
+export const userCan = (user: AuthUser | null | undefined, capability: Capability) =>
+  hasCapability(user?.profile?.role, capability);
+
+// Whether a role grants any one of the capabilities
+export const hasAnyCapability = (role: string | null | undefined, capabilities: Capability | Capability[]) =>
+  ([] as Capability[]).concat(capabilities).some(capability => hasCapability(role, capability));
+
+// Throws unless the signed in user's role grants the capability, or any one
+// of a list of them. Services call this before changing anything so a
+// hidden button isn't the only thing standing in the way; the role is read
+// fresh from the profile.
+export async function requireCapability(capabilities: Capability | Capability[]): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('You need to be signed in');
+  }
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (error) throw new Error(error.message);
+
+  if (!hasAnyCapability(data?.role, capabilities)) {
+    throw new Error(CAPABILITY_ERRORS[([] as Capability[]).concat(capabilities)[0]]);
+  }
+}
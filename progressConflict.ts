@@ -0,0 +1,34 @@
+import { SectionProgress, mergeSectionProgress } from './sectionProgress';
+
+// The parts of a lesson progress record that a write can change
+export interface ProgressState {
+  progress: number; // 0-100
+  completed: boolean;
+  completed_at: string | null;
+  section_progress?: SectionProgress | null;
+}
+
+// Resolve two writes of the same lesson's progress, e.g. a queued offline
+// write and what another device saved meanwhile. The result doesn't depend on
+// which write arrives first: the highest progress wins, a completion is never
+// undone and keeps its earliest completed_at, and section state is merged.
+export function resolveProgress(existing: ProgressState | null | undefined, incoming: ProgressState): ProgressState {
+  if (!existing) return incoming;
+
+  const completed = existing.completed || incoming.completed;
+  const completedAt = [existing, incoming]
+    .filter(state => state.completed && state.completed_at)
+    .map(state => state.completed_at!)
+    .sort()[0] || null;
+
+  const resolved: ProgressState = {
+    progress: completed ? 100 : Math.max(existing.progress, incoming.progress),
+    completed,
+    completed_at: completed ? completedAt || new Date().toISOString() : null,
+  };
+
+  if (existing.section_progress || incoming.section_progress) {
+    resolved.section_progress = mergeSectionProgress(existing.section_progress, incoming.section_progress);
+  }
+  return resolved;
+}
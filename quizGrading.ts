@@ -0,0 +1,147 @@
+import { QuizBlock, QuizQuestion } from './lessonContent';
+
+export const DEFAULT_PASS_THRESHOLD = 0.7;
+
+// A learner's answer: an option index (multiple choice), option indexes
+// (multi-select), typed text (fill in the blank) or the order they put the
+// lines in, as indexes into the question's correct order (order the lines)
+export type QuizResponse = number | number[] | string;
+
+export type QuizResponses = { [questionId: string]: QuizResponse | undefined };
+
+export interface QuestionResult {
+  questionId: string;
+  correct: boolean;
+  explanation?: string;
+}
+
+export interface QuizResult {
+  score: number; // 0-1
+  correctCount: number;
+  total: number;
+  passed: boolean;
+  results: QuestionResult[];
+}
+
+const normalizeText = (text: string, caseSensitive?: boolean) => {
+  const collapsed = text.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+const isIndexList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => Number.isInteger(item));
+
+// Grade a single question; malformed responses are simply wrong
+export function gradeQuestion(question: QuizQuestion, response: QuizResponse | undefined): boolean {
+  switch (question.type) {
+    case 'multiple_choice':
+      return response === question.answer;
+    case 'multi_select': {
+      if (!isIndexList(response)) return false;
+      const selected = [...new Set(response)].sort();
+      const expected = [...new Set(question.answers)].sort();
+      return selected.length === expected.length && selected.every((value, index) => value === expected[index]);
+    }
+    case 'fill_blank':
+      if (typeof response !== 'string' || !response.trim()) return false;
+      return question.answers.some(
+        answer => normalizeText(answer, question.caseSensitive) === normalizeText(response, question.caseSensitive)
+      );
+    case 'order_lines':
+      if (!isIndexList(response) || response.length !== question.lines.length) return false;
+      // Lines with identical text are interchangeable
+      return response.every((lineIndex, position) => question.lines[lineIndex] === question.lines[position]);
+    default:
+      return false;
+  }
+}
+
+// Grade a quiz attempt against the quiz's answer key and pass threshold
+export function gradeQuiz(quiz: QuizBlock, responses: QuizResponses): QuizResult {
+  const results = quiz.questions.map(question => ({
+    questionId: question.id,
+    correct: gradeQuestion(question, responses[question.id]),
+    explanation: question.explanation,
+  }));
+  const correctCount = results.filter(result => result.correct).length;
+  const total = quiz.questions.length;
+  const score = total > 0 ? correctCount / total : 0;
+
+  return {
+    score,
+    correctCount,
+    total,
+    passed: total > 0 && score >= (quiz.passThreshold ?? DEFAULT_PASS_THRESHOLD),
+    results,
+  };
+}
+
+// Check a quiz definition for authoring mistakes. Returns a list of problems.
+export function validateQuiz(quiz: QuizBlock): string[] {
+  const problems: string[] = [];
+  if (!quiz.id) problems.push('Quiz is missing an id');
+  if (!Array.isArray(quiz.questions) || quiz.questions.length === 0) {
+    problems.push('Quiz has no questions');
+    return problems;
+  }
+
+  const ids = new Set<string>();
+  quiz.questions.forEach((question, index) => {
+    const label = `Question ${index + 1}`;
+    if (!question.id) problems.push(`${label} is missing an id`);
+    else if (ids.has(question.id)) problems.push(`${label} reuses the id "${question.id}"`);
+    ids.add(question.id);
+    if (!question.prompt) problems.push(`${label} has no prompt`);
+
+    switch (question.type) {
+      case 'multiple_choice':
+        if (!question.options?.[question.answer]) problems.push(`${label} answer is not one of its options`);
+        break;
+      case 'multi_select':
+        if (!isIndexList(question.answers) || question.answers.length === 0 ||
+            question.answers.some(answer => !question.options?.[answer])) {
+          problems.push(`${label} answers must be indexes of its options`);
+        }
+        break;
+      case 'fill_blank':
+        if (!Array.isArray(question.answers) || question.answers.length === 0) {
+          problems.push(`${label} has no accepted answers`);
+        }
+        break;
+      case 'order_lines':
+        if (!Array.isArray(question.lines) || question.lines.length < 2) {
+          problems.push(`${label} needs at least two lines to order`);
+        }
+        break;
+      default:
+        problems.push(`${label} has an unknown type`);
+    }
+  });
+
+  if (quiz.passThreshold !== undefined && (quiz.passThreshold <= 0 || quiz.passThreshold > 1)) {
+    problems.push('Pass threshold must be between 0 and 1');
+  }
+
+  return problems;
+}
+
+// Shuffle the lines of an order-the-lines question. Seeded by the question id
+// so the starting order is stable between renders, and never already solved.
+export function shuffleLineOrder(question: { id: string; lines: string[] }): number[] {
+  const order = question.lines.map((_, index) => index);
+  let seed = [...question.id].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    return seed / 0x100000000;
+  };
+
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  if (order.length > 1 && order.every((lineIndex, position) => question.lines[lineIndex] === question.lines[position])) {
+    order.push(order.shift()!);
+  }
+  return order;
+}
@@ -0,0 +1,49 @@
+-- Quiz attempts, written by QuizService (or replayed from the offline
+-- outbox with their device-generated ids). record_lesson_progress won't
+-- complete a lesson until every quiz in its required sections has a passed
+-- attempt. Run after section_progress.sql and before
+-- record_lesson_progress.sql.
+
+create table if not exists quiz_attempts (
+  id uuid primary key,
+  user_id uuid not null references profiles(id) on delete cascade,
+  lesson_id uuid not null references lessons(id) on delete cascade,
+  quiz_id text not null,
+  responses jsonb not null default '{}'::jsonb,
+  score real not null check (score between 0 and 1),
+  passed boolean not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quiz_attempts_user_lesson_idx on quiz_attempts (user_id, lesson_id, created_at desc);
+
+alter table quiz_attempts enable row level security;
+
+-- Every attempt is kept, so attempts can't be changed or deleted
+drop policy if exists "Users read their own quiz attempts" on quiz_attempts;
+create policy "Users read their own quiz attempts" on quiz_attempts
+  for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users record their own quiz attempts" on quiz_attempts;
+create policy "Users record their own quiz attempts" on quiz_attempts
+  for insert
+  with check (user_id = auth.uid());
+
+-- Ids of the quizzes in a lesson's required sections. Like
+-- getSectionActivityIds, quizzes validateQuiz rejects for a missing id or
+-- questions don't count; the rest of validateQuiz is checked before a lesson
+-- can be published.
+create or replace function lesson_required_quiz_ids(p_content text)
+returns text[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(distinct content_block ->> 'id'), '{}')
+  from lesson_content_blocks(p_content)
+  where section_required
+    and content_block ->> 'type' = 'quiz'
+    and coalesce(content_block ->> 'id', '') <> ''
+    and jsonb_typeof(content_block -> 'questions') = 'array'
+    and jsonb_array_length(content_block -> 'questions') > 0;
+$$;
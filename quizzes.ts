@@ -0,0 +1,107 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { QuizBlock } from '../utils/lessonContent';
+import { QuizResponses, QuizResult, gradeQuiz } from '../utils/quizGrading';
+import { NetworkService } from './network';
+import { SyncQueueService, createId } from './syncQueue';
+
+export interface QuizAttempt {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  quiz_id: string;
+  responses: QuizResponses;
+  score: number;
+  passed: boolean;
+  created_at: string;
+}
+
+export class QuizService {
+  // Grade a quiz attempt and store it. Grading happens on the client against
+  // the quiz's answer key; every attempt is kept, passed or not. Offline, the
+  // attempt is queued and synced later.
+  static async submitAttempt(
+    userId: string,
+    lessonId: string,
+    quiz: QuizBlock,
+    responses: QuizResponses
+  ): Promise<ApiResponse<{ attempt: QuizAttempt; result: QuizResult }>> {
+    try {
+      const result = gradeQuiz(quiz, responses);
+      const attempt: QuizAttempt = {
+        id: createId(),
+        user_id: userId,
+        lesson_id: lessonId,
+        quiz_id: quiz.id,
+        responses,
+        score: result.score,
+        passed: result.passed,
+        created_at: new Date().toISOString(),
+      };
+
+      if (!(await NetworkService.isOnline())) {
+        await SyncQueueService.enqueue({ type: 'insert', table: 'quiz_attempts', row: attempt });
+        return { success: true, data: { attempt, result } };
+      }
+
+      const { data, error } = await supabase
+        .from('quiz_attempts')
+        .insert([attempt])
+        .select()
+        .single();
+
+      if (error) {
+        if (NetworkService.isNetworkError(error)) {
+          await SyncQueueService.enqueue({ type: 'insert', table: 'quiz_attempts', row: attempt });
+          return { success: true, data: { attempt, result } };
+        }
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: {
+          attempt: data as QuizAttempt,
+          result,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to submit quiz',
+      };
+    }
+  }
+
+  // Get a user's attempts for a lesson's quizzes, newest first
+  static async getAttempts(userId: string, lessonId: string): Promise<ApiResponse<QuizAttempt[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('quiz_attempts')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('lesson_id', lessonId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []) as QuizAttempt[],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch quiz attempts',
+      };
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { LessonsService, LessonProgress } from './lessons';
+import { PathsService } from './paths';
+import { NetworkService } from './network';
+import { CatalogLesson } from '../utils/lessonFilters';
+import {
+  Recommendation,
+  getContinueLearning,
+  recommendLessons,
+} from '../utils/lessonRecommendations';
+
+export const RECOMMENDATION_COUNT = 5;
+
+// How many of the most completed lessons, overall, among peers and in each
+// category, are ranked besides the learner's own and their paths' lessons
+const CANDIDATE_LIMIT = 50;
+
+export interface ContinueLearning {
+  lesson: CatalogLesson;
+  progress: LessonProgress;
+}
+
+export interface DashboardLearning {
+  continueLearning: ContinueLearning | null;
+  recommendations: Recommendation[];
+}
+
+export class RecommendationsService {
+  // The lesson to pick up again and the lessons to take next. Paths,
+  // prerequisites and peer popularity only sharpen the ranking, so they're
+  // skipped when they can't be loaded, e.g. offline.
+  static async getDashboardLearning(userId: string): Promise<ApiResponse<DashboardLearning>> {
+    try {
+      const online = await NetworkService.isOnline();
+      const [lessonsResult, progressResult] = await Promise.all([
+        this.getCandidateLessons(userId, online),
+        LessonsService.getAllUserProgress(userId),
+      ]);
+
+      if (!lessonsResult.success) {
+        return { success: false, error: lessonsResult.error };
+      }
+      if (!progressResult.success) {
+        return { success: false, error: progressResult.error };
+      }
+
+      const lessons = lessonsResult.data!;
+      const progress = progressResult.data!;
+      const [pathsResult, prerequisitesResult, peerCompletions] = online
+        ? await Promise.all([PathsService.fetchPaths(), PathsService.getPrerequisites(), this.getPeerCompletions()])
+        : [null, null, {}];
+
+      return {
+        success: true,
+        data: {
+          continueLearning: await this.getContinueLearning(lessons, progress),
+          recommendations: recommendLessons({
+            lessons,
+            progress,
+            paths: pathsResult?.success ? pathsResult.data! : [],
+            prerequisites: prerequisitesResult?.success ? prerequisitesResult.data! : {},
+            peerCompletions,
+          }, RECOMMENDATION_COUNT),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to load recommendations',
+      };
+    }
+  }
+
+  // The lessons worth ranking (recommendation_candidates in
+  // lesson_recommendations.sql) rather than the whole catalog. Offline, the
+  // downloaded lessons.
+  static async getCandidateLessons(userId: string, online: boolean): Promise<ApiResponse<CatalogLesson[]>> {
+    if (!online) {
+      return LessonsService.fetchLessons({}, userId);
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('recommendation_candidates', {
+        p_limit: CANDIDATE_LIMIT,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []) as CatalogLesson[],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch lessons',
+      };
+    }
+  }
+
+  // Recent completions of each lesson by learners in the user's
+  // organization. Failures are logged and treated as no data.
+  static async getPeerCompletions(): Promise<{ [lessonId: string]: number }> {
+    try {
+      const { data, error } = await supabase.rpc('peer_lesson_popularity');
+      if (error) {
+        console.error('Error fetching peer popularity:', error);
+        return {};
+      }
+
+      const completions: { [lessonId: string]: number } = {};
+      ((data || []) as { lesson_id: string; completion_count: number }[]).forEach(row => {
+        completions[row.lesson_id] = row.completion_count;
+      });
+      return completions;
+    } catch (error) {
+      console.error('Error fetching peer popularity:', error);
+      return {};
+    }
+  }
+
+  // The most recently worked-on unfinished lesson, fetched separately when
+  // it's no longer in the catalog (e.g. unpublished) or not downloaded
+  private static async getContinueLearning(
+    lessons: CatalogLesson[],
+    progress: LessonProgress[]
+  ): Promise<ContinueLearning | null> {
+    const latest = getContinueLearning(progress) as LessonProgress | null;
+    if (!latest) return null;
+
+    const listed = lessons.find(lesson => lesson.id === latest.lesson_id);
+    if (listed) return { lesson: listed, progress: latest };
+
+    const lessonResult = await LessonsService.getLesson(latest.lesson_id);
+    return lessonResult.success && lessonResult.data
+      ? { lesson: lessonResult.data, progress: latest }
+      : null;
+  }
+}
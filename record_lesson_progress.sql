@@ -0,0 +1,254 @@
+-- Atomic lesson progress writes, called from LessonsService.saveProgress via
+-- supabase.rpc('record_lesson_progress', ...). Run after xp_ledger.sql,
+-- learning_paths.sql, section_progress.sql, quiz_attempts.sql and
+-- exercise_submissions.sql. The XP
+-- ledger's unique indexes, which make awards idempotent, are in xp_ledger.sql.
+
+-- When the learner last worked on the lesson, for "Continue learning"
+alter table user_lesson_progress
+  add column if not exists last_activity_at timestamptz not null default now();
+
+-- When the server first recorded progress on the lesson. A completion time
+-- the device sends can't be earlier.
+alter table user_lesson_progress
+  add column if not exists first_recorded_at timestamptz not null default now();
+
+-- Merge rows written twice before the unique constraint below existed into
+-- the first one, the same way record_lesson_progress merges a write
+update user_lesson_progress kept set
+  progress = merged.progress,
+  completed = merged.completed,
+  completed_at = merged.completed_at,
+  section_progress = merged.section_progress,
+  last_activity_at = merged.last_activity_at,
+  first_recorded_at = merged.first_recorded_at
+from (
+  select
+    user_id,
+    lesson_id,
+    min(ctid) as kept_ctid,
+    max(progress) as progress,
+    bool_or(completed) as completed,
+    min(completed_at) as completed_at,
+    -- Every row's section state combined as merge_section_progress would
+    (
+      select coalesce(jsonb_object_agg(section_id, jsonb_build_object(
+        'viewed_at', to_jsonb(viewed_at),
+        'passed', passed
+      )), '{}'::jsonb)
+      from (
+        select
+          section.key as section_id,
+          min(section.value ->> 'viewed_at') as viewed_at,
+          coalesce(jsonb_agg(distinct activity_id) filter (where activity_id is not null), '[]'::jsonb) as passed
+        from user_lesson_progress duplicate
+        cross join lateral jsonb_each(duplicate.section_progress) as section
+        left join lateral jsonb_array_elements_text(
+          case when jsonb_typeof(section.value -> 'passed') = 'array' then section.value -> 'passed' else '[]'::jsonb end
+        ) as activity_id on true
+        where duplicate.user_id = grouped.user_id and duplicate.lesson_id = grouped.lesson_id
+        group by section.key
+      ) as sections
+    ) as section_progress,
+    max(last_activity_at) as last_activity_at,
+    min(first_recorded_at) as first_recorded_at
+  from user_lesson_progress grouped
+  group by user_id, lesson_id
+  having count(*) > 1
+) as merged
+where kept.ctid = merged.kept_ctid;
+
+delete from user_lesson_progress duplicate
+using user_lesson_progress kept
+where duplicate.user_id = kept.user_id
+  and duplicate.lesson_id = kept.lesson_id
+  and duplicate.ctid > kept.ctid;
+
+-- One row per learner and lesson, which record_lesson_progress's upsert
+-- relies on
+alter table user_lesson_progress
+  drop constraint if exists user_lesson_progress_user_lesson_key;
+alter table user_lesson_progress
+  add constraint user_lesson_progress_user_lesson_key unique (user_id, lesson_id);
+
+-- Mirrors mergeSectionProgress in utils/sectionProgress.ts: a section keeps
+-- its earliest viewed_at and the union of the activities passed on either side.
+create or replace function merge_section_progress(a jsonb, b jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_object_agg(section_id, state), '{}'::jsonb)
+  from (
+    select
+      section_id,
+      jsonb_build_object(
+        'viewed_at', to_jsonb(least(a -> section_id ->> 'viewed_at', b -> section_id ->> 'viewed_at')),
+        'passed', (
+          select coalesce(jsonb_agg(distinct activity_id), '[]'::jsonb)
+          from jsonb_array_elements_text(
+            coalesce(a -> section_id -> 'passed', '[]'::jsonb) || coalesce(b -> section_id -> 'passed', '[]'::jsonb)
+          ) as activity_id
+        )
+      ) as state
+    from (
+      select jsonb_object_keys(coalesce(a, '{}'::jsonb)) as section_id
+      union
+      select jsonb_object_keys(coalesce(b, '{}'::jsonb))
+    ) as section_ids
+  ) as merged;
+$$;
+
+-- Upsert a learner's progress on a lesson in one statement. Progress only
+-- ever increases, a completion is never undone and keeps its first
+-- completed_at, and section state is merged. The first completion pays out
+-- the lesson's XP in the same transaction (the ledger's unique key makes it
+-- idempotent).
+--
+-- Security definer because learners can't write the XP ledger themselves;
+-- it only ever records progress for the signed in user.
+--
+-- Returns { progress: <row>, newly_completed: boolean, xp_awarded: integer }.
+-- Raises 'prerequisites_incomplete' when a lesson is started or completed
+-- before its prerequisites are complete, 'quizzes_incomplete' when it would
+-- be completed before every quiz in its required sections has a passed
+-- attempt, and 'exercises_incomplete' before every exercise in them has a
+-- passed submission.
+create or replace function record_lesson_progress(
+  p_user_id uuid,
+  p_lesson_id uuid,
+  p_progress integer,
+  p_completed boolean,
+  p_completed_at timestamptz default null,
+  p_section_progress jsonb default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_started boolean;
+  v_was_completed boolean;
+  v_first_recorded_at timestamptz;
+  v_completed_at timestamptz;
+  v_row user_lesson_progress;
+  v_xp_awarded integer := 0;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Cannot record progress for another user';
+  end if;
+
+  -- Lock the existing row so concurrent writes for this lesson apply in turn
+  select completed, first_recorded_at into v_was_completed, v_first_recorded_at
+  from user_lesson_progress
+  where user_id = p_user_id and lesson_id = p_lesson_id
+  for update;
+
+  v_started := found;
+  v_was_completed := coalesce(v_was_completed, false);
+
+  -- Checked when the lesson is started, and again when it is completed in
+  -- case a prerequisite was added while it was under way
+  if (not v_started or (p_completed and not v_was_completed)) and exists (
+    select 1
+    from lesson_prerequisites prerequisite
+    where prerequisite.lesson_id = p_lesson_id
+      and not exists (
+        select 1
+        from user_lesson_progress done
+        where done.user_id = p_user_id
+          and done.lesson_id = prerequisite.prerequisite_id
+          and done.completed
+      )
+  ) then
+    raise exception 'prerequisites_incomplete';
+  end if;
+
+  if p_completed and not v_was_completed and exists (
+    select 1
+    from lessons lesson
+    cross join lateral unnest(lesson_required_quiz_ids(lesson.content)) as quiz(id)
+    where lesson.id = p_lesson_id
+      and not exists (
+        select 1
+        from quiz_attempts attempt
+        where attempt.user_id = p_user_id
+          and attempt.lesson_id = p_lesson_id
+          and attempt.quiz_id = quiz.id
+          and attempt.passed
+      )
+  ) then
+    raise exception 'quizzes_incomplete';
+  end if;
+
+  if p_completed and not v_was_completed and exists (
+    select 1
+    from lessons lesson
+    cross join lateral unnest(lesson_required_exercise_ids(lesson.content)) as exercise(id)
+    where lesson.id = p_lesson_id
+      and not exists (
+        select 1
+        from exercise_submissions submission
+        where submission.user_id = p_user_id
+          and submission.lesson_id = p_lesson_id
+          and submission.exercise_id = exercise.id
+          and submission.passed
+      )
+  ) then
+    raise exception 'exercises_incomplete';
+  end if;
+
+  -- The device's completion time, for one made offline, but never in the
+  -- future or before the server first heard of the lesson. Assignments are
+  -- marked late from it.
+  if p_completed then
+    v_completed_at := greatest(least(coalesce(p_completed_at, now()), now()), coalesce(v_first_recorded_at, now()));
+  end if;
+
+  insert into user_lesson_progress as existing (
+    user_id, lesson_id, progress, completed, completed_at, section_progress, last_activity_at
+  )
+  values (
+    p_user_id,
+    p_lesson_id,
+    case when p_completed then 100 else least(greatest(p_progress, 0), 100) end,
+    p_completed,
+    v_completed_at,
+    coalesce(p_section_progress, '{}'::jsonb),
+    now()
+  )
+  on conflict (user_id, lesson_id) do update set
+    progress = greatest(existing.progress, excluded.progress),
+    completed = existing.completed or excluded.completed,
+    -- least() ignores nulls, so the first completion's timestamp sticks
+    completed_at = least(existing.completed_at, excluded.completed_at),
+    section_progress = merge_section_progress(existing.section_progress, excluded.section_progress),
+    last_activity_at = greatest(existing.last_activity_at, excluded.last_activity_at)
+  returning * into v_row;
+
+  if v_row.completed and not v_was_completed then
+    with award as (
+      insert into xp_ledger (user_id, source, lesson_id, amount)
+      select p_user_id, 'lesson_completion', lesson.id, lesson.xp_reward
+      from lessons lesson
+      where lesson.id = p_lesson_id
+      on conflict (user_id, source, lesson_id) do nothing
+      returning amount
+    )
+    select coalesce(sum(amount), 0) into v_xp_awarded from award;
+  end if;
+
+  return jsonb_build_object(
+    'progress', to_jsonb(v_row),
+    'newly_completed', v_row.completed and not v_was_completed,
+    'xp_awarded', v_xp_awarded
+  );
+end;
+$$;
+
+grant execute on function record_lesson_progress(uuid, uuid, integer, boolean, timestamptz, jsonb) to authenticated;
+
+-- Progress is only written through record_lesson_progress, so its checks
+-- can't be skipped by writing the table directly
+revoke insert, update, delete on user_lesson_progress from anon, authenticated;
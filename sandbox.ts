@@ -0,0 +1,188 @@
+// Sandboxed JavaScript execution for the code playground. Learner code runs in
+// a fresh Web Worker inside a hidden WebView: the worker has no DOM, network
+// APIs are removed and blocked by the page's Content-Security-Policy, and the
+// worker is terminated if it runs past its time limit (e.g. an infinite loop).
+// Results come back over a MessageChannel port that only the worker's own
+// code holds, so learner code can't post a result of its own.
+
+export const DEFAULT_RUN_TIMEOUT_MS = 3000;
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  message: string;
+}
+
+export interface RunResult {
+  logs: ConsoleEntry[];
+  error: string | null;
+  timedOut: boolean;
+  durationMs: number;
+  // What the exercise harness reported for each test case, in order;
+  // undefined when the run had no harness or the code failed to load
+  reported?: HarnessCase[];
+}
+
+// Calls to make to the learner's function once their code has run
+export interface RunHarness {
+  functionName: string;
+  cases: unknown[][]; // arguments for each call
+}
+
+// What the harness reports for each call
+export interface HarnessCase {
+  actual?: string; // JSON of the returned value; missing when undefined
+  error?: string;
+}
+
+export interface RunRequest {
+  id: string;
+  code: string;
+  timeoutMs: number;
+  harness?: RunHarness;
+}
+
+// Messages posted from the WebView back to the app
+export type SandboxMessage =
+  | { type: 'ready' }
+  | { type: 'result'; id: string; result: RunResult };
+
+// Runs inside the worker. Formats console arguments, strips network access and
+// runs the learner's code as the body of an async function. With a harness,
+// the worker then calls the learner's function itself. Everything the
+// harness relies on is captured before learner code runs, and the result
+// port only exists inside the message handler, out of the learner's reach.
+const WORKER_SOURCE = `
+const stringify = JSON.stringify;
+const parse = JSON.parse;
+const apply = Reflect.apply;
+const defineProperty = Object.defineProperty;
+const postToPort = MessagePort.prototype.postMessage;
+const describeError = (e) => e && e.name ? e.name + ': ' + e.message : String(e);
+
+const format = (value, seen) => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'function') return '[Function' + (value.name ? ': ' + value.name : '') + ']';
+  if (typeof value === 'undefined') return 'undefined';
+  if (typeof value === 'bigint') return value + 'n';
+  if (typeof value === 'symbol') return value.toString();
+  if (value instanceof Error) return value.name + ': ' + value.message;
+  if (value === null || typeof value !== 'object') return String(value);
+  seen = seen || [];
+  if (seen.indexOf(value) !== -1) return '[Circular]';
+  seen.push(value);
+  if (Array.isArray(value)) {
+    return '[' + value.map(item => typeof item === 'string' ? JSON.stringify(item) : format(item, seen)).join(', ') + ']';
+  }
+  const entries = Object.keys(value).map(key => {
+    const item = value[key];
+    return key + ': ' + (typeof item === 'string' ? JSON.stringify(item) : format(item, seen));
+  });
+  return '{ ' + entries.join(', ') + ' }';
+};
+
+const logs = [];
+['log', 'info', 'warn', 'error'].forEach(level => {
+  console[level] = (...args) => {
+    if (logs.length < 500) logs.push({ level, message: args.map(arg => format(arg)).join(' ') });
+  };
+});
+
+['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches'].forEach(name => {
+  try { self[name] = undefined; } catch (e) {}
+});
+
+self.onmessage = async (event) => {
+  const port = event.ports[0];
+  const harness = event.data.harness;
+  const started = Date.now();
+  let error = null;
+  let reported;
+  try {
+    // With a harness, the code's last statement hands back the function to test
+    const lookup = harness
+      ? '\\n;return typeof ' + harness.functionName + " === 'function' ? " + harness.functionName + ' : undefined;'
+      : '';
+    const run = new Function('"use strict"; return (async () => {\\n' + event.data.code + lookup + '\\n})();');
+    const fn = await run();
+
+    if (harness) {
+      reported = [];
+      for (let index = 0; index < harness.cases.length; index++) {
+        let outcome;
+        try {
+          if (typeof fn !== 'function') throw new ReferenceError(harness.functionName + ' is not defined as a function');
+          const value = await apply(fn, undefined, parse(stringify(harness.cases[index])));
+          let json;
+          try {
+            json = stringify(value);
+          } catch (e) {
+            throw new TypeError(harness.functionName + " returned a value that can't be compared");
+          }
+          outcome = json === undefined ? {} : { actual: json };
+        } catch (e) {
+          outcome = { error: describeError(e) };
+        }
+        defineProperty(reported, index, { value: outcome, enumerable: true, writable: true, configurable: true });
+      }
+    }
+  } catch (e) {
+    error = describeError(e);
+  }
+  apply(postToPort, port, [{ logs, error, timedOut: false, durationMs: Date.now() - started, reported }]);
+};
+`;
+
+// HTML for the hidden WebView that hosts the worker
+export const SANDBOX_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:;">
+</head>
+<body>
+<script>
+(function () {
+  var workerUrl = URL.createObjectURL(new Blob([${JSON.stringify(WORKER_SOURCE)}], { type: 'text/javascript' }));
+  var send = function (message) { window.ReactNativeWebView.postMessage(JSON.stringify(message)); };
+
+  window.__runCode = function (request) {
+    var started = Date.now();
+    var worker = new Worker(workerUrl);
+    // Results only count when they arrive on this channel, never from the
+    // worker's own postMessage, which learner code can call too
+    var channel = new MessageChannel();
+    var finished = false;
+    var finish = function (result) {
+      if (finished) return;
+      finished = true;
+      clearTimeout(timer);
+      worker.terminate();
+      send({ type: 'result', id: request.id, result: result });
+    };
+    var timer = setTimeout(function () {
+      finish({
+        logs: [],
+        error: 'Timed out after ' + request.timeoutMs + 'ms. Check for infinite loops.',
+        timedOut: true,
+        durationMs: Date.now() - started,
+      });
+    }, request.timeoutMs);
+    channel.port1.onmessage = function (event) { finish(event.data); };
+    worker.onerror = function (event) {
+      event.preventDefault();
+      finish({ logs: [], error: event.message || 'Script error', timedOut: false, durationMs: Date.now() - started });
+    };
+    worker.postMessage({ code: request.code, harness: request.harness }, [channel.port2]);
+  };
+
+  send({ type: 'ready' });
+})();
+</script>
+</body>
+</html>`;
+
+// JavaScript to inject into the WebView to start a run
+export function buildRunScript(request: RunRequest): string {
+  return `window.__runCode(${JSON.stringify(request)}); true;`;
+}
@@ -0,0 +1,98 @@
+-- Full-text lesson search, called from LessonsService.searchLessons via
+-- supabase.rpc('search_lessons', ...). Run before lesson_catalog.sql, which
+-- lists the tags column and uses parse_duration_minutes.
+
+create extension if not exists pg_trgm;
+
+alter table lessons add column if not exists tags text[] not null default '{}';
+
+-- Weighted document: title, then tags, then description, then content.
+-- Wrapped in an immutable function so it can back a generated column.
+create or replace function lesson_search_vector(title text, tags text[], description text, content text)
+returns tsvector
+language sql
+immutable
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'D');
+$$;
+
+alter table lessons add column if not exists search_vector tsvector
+  generated always as (lesson_search_vector(title, tags, description, content)) stored;
+
+create index if not exists lessons_search_vector_idx on lessons using gin (search_vector);
+create index if not exists lessons_title_trgm_idx on lessons using gin (title gin_trgm_ops);
+
+-- Minutes from a free-text duration such as '15 min', '1 hour' or '1h 30m'.
+-- Mirrors parseDurationMinutes in utils/lessonFilters.ts.
+create or replace function parse_duration_minutes(duration text)
+returns integer
+language sql
+immutable
+as $$
+  select case
+    when lower(duration) ~ '\d+(\.\d+)?\s*h' or lower(duration) ~ '\d+\s*m' then round(
+      coalesce((regexp_match(lower(duration), '(\d+(?:\.\d+)?)\s*h'))[1]::numeric * 60, 0) +
+      coalesce((regexp_match(lower(duration), '(\d+)\s*m'))[1]::numeric, 0)
+    )::integer
+    when duration ~ '^\s*\d+\s*$' then trim(duration)::integer
+  end;
+$$;
+
+-- Published lessons matching a query, most relevant first. Words are matched
+-- with stemming against the whole lesson, and titles and tags are also
+-- matched by trigram similarity so misspelled queries still find them.
+--
+-- Every catalog filter is applied before the limit. Like the lesson_catalog
+-- query in LessonsService.fetchLessonsPage, the status and saved filters
+-- arrive as the lesson ids to keep (p_include_ids) or leave out
+-- (p_exclude_ids); a null p_include_ids keeps every lesson. A duration the
+-- lesson doesn't state only matches when no duration range is set.
+create or replace function search_lessons(
+  p_query text,
+  p_categories text[] default null,
+  p_difficulties text[] default null,
+  p_limit integer default 50,
+  p_min_duration integer default null,
+  p_max_duration integer default null,
+  p_min_xp integer default null,
+  p_max_xp integer default null,
+  p_include_ids uuid[] default null,
+  p_exclude_ids uuid[] default null
+)
+returns setof lessons
+language sql
+stable
+as $$
+  select lesson.*
+  from lessons lesson,
+    websearch_to_tsquery('english', p_query) as query
+  where lesson.status = 'published'
+    and (p_categories is null or lesson.category = any(p_categories))
+    and (p_difficulties is null or lesson.difficulty = any(p_difficulties))
+    and (p_min_duration is null or parse_duration_minutes(lesson.duration) >= p_min_duration)
+    and (p_max_duration is null or parse_duration_minutes(lesson.duration) <= p_max_duration)
+    and (p_min_xp is null or lesson.xp_reward >= p_min_xp)
+    and (p_max_xp is null or lesson.xp_reward <= p_max_xp)
+    and (p_include_ids is null or lesson.id = any(p_include_ids))
+    and (p_exclude_ids is null or lesson.id <> all(p_exclude_ids))
+    and (
+      lesson.search_vector @@ query
+      or word_similarity(p_query, lesson.title) > 0.4
+      or word_similarity(p_query, array_to_string(lesson.tags, ' ')) > 0.4
+    )
+  order by
+    ts_rank(lesson.search_vector, query)
+      + word_similarity(p_query, lesson.title)
+      + 0.5 * word_similarity(p_query, array_to_string(lesson.tags, ' ')) desc,
+    lesson.created_at desc
+  limit p_limit;
+$$;
+
+drop function if exists search_lessons(text, text, text, integer);
+drop function if exists search_lessons(text, text[], text[], integer);
+
+grant execute on function search_lessons(text, text[], text[], integer, integer, integer, integer, integer, uuid[], uuid[]) to authenticated;
@@ -0,0 +1,101 @@
+import { LessonContent, LessonSection } from './lessonContent';
+import { validateExercise } from './exerciseGrading';
+import { validateQuiz } from './quizGrading';
+
+// Per-section completion state stored with a learner's lesson progress
+export interface SectionState {
+  viewed_at: string | null;
+  passed: string[]; // ids of the section's quizzes and exercises that were passed
+}
+
+export type SectionProgress = { [sectionId: string]: SectionState };
+
+// Quiz and exercise blocks must be passed before their section is complete.
+// Exercises without tests are just practice, since they can't be passed, and
+// quizzes with authoring mistakes are skipped since they show as broken.
+export function getSectionActivityIds(section: LessonSection): string[] {
+  return section.blocks
+    .filter(block =>
+      (block.type === 'quiz' && validateQuiz(block).length === 0) ||
+      (block.type === 'exercise' && validateExercise(block).length === 0)
+    )
+    .map(block => (block as { id: string }).id);
+}
+
+export function isSectionComplete(section: LessonSection, state: SectionState | undefined): boolean {
+  if (!state?.viewed_at) return false;
+  return getSectionActivityIds(section).every(id => state.passed.includes(id));
+}
+
+export function getRequiredSections(content: LessonContent): LessonSection[] {
+  return content.sections.filter(section => section.required !== false);
+}
+
+// Lesson progress (0-100) from the share of required sections completed
+export function calculateLessonProgress(content: LessonContent, progress: SectionProgress | null | undefined): number {
+  const required = getRequiredSections(content);
+  if (required.length === 0) return 0;
+
+  const completed = required.filter(section => isSectionComplete(section, progress?.[section.id])).length;
+  return Math.round((completed / required.length) * 100);
+}
+
+export function getCompletedSectionIds(content: LessonContent, progress: SectionProgress | null | undefined): string[] {
+  return content.sections
+    .filter(section => isSectionComplete(section, progress?.[section.id]))
+    .map(section => section.id);
+}
+
+// Index of the first required section that isn't complete yet (0 if all are)
+export function getResumeSectionIndex(content: LessonContent, progress: SectionProgress | null | undefined): number {
+  const index = content.sections.findIndex(
+    section => section.required !== false && !isSectionComplete(section, progress?.[section.id])
+  );
+  return index === -1 ? 0 : index;
+}
+
+export interface SectionUpdate {
+  viewed?: boolean;
+  passedActivityId?: string;
+}
+
+// Apply an update to one section without mutating the existing progress
+export function applySectionUpdate(
+  progress: SectionProgress | null | undefined,
+  sectionId: string,
+  update: SectionUpdate
+): SectionProgress {
+  const current: SectionState = progress?.[sectionId] || { viewed_at: null, passed: [] };
+  const next: SectionState = {
+    // Passing an activity implies the section was viewed
+    viewed_at: current.viewed_at || (update.viewed || update.passedActivityId ? new Date().toISOString() : null),
+    passed: update.passedActivityId && !current.passed.includes(update.passedActivityId)
+      ? [...current.passed, update.passedActivityId]
+      : current.passed,
+  };
+
+  return { ...(progress || {}), [sectionId]: next };
+}
+
+// Combine two copies of a lesson's section state (e.g. from two devices)
+// without losing anything either recorded: the earliest view wins and passed
+// activities are unioned
+export function mergeSectionProgress(
+  a: SectionProgress | null | undefined,
+  b: SectionProgress | null | undefined
+): SectionProgress {
+  const merged: SectionProgress = { ...(a || {}) };
+  Object.entries(b || {}).forEach(([sectionId, state]) => {
+    const current = merged[sectionId];
+    if (!current) {
+      merged[sectionId] = state;
+      return;
+    }
+    const viewedAt = [current.viewed_at, state.viewed_at].filter((value): value is string => !!value).sort()[0] || null;
+    merged[sectionId] = {
+      viewed_at: viewedAt,
+      passed: [...new Set([...current.passed, ...state.passed])],
+    };
+  });
+  return merged;
+}
@@ -0,0 +1,60 @@
+-- Per-section lesson progress: when each section was first viewed and which
+-- of its quizzes and exercises were passed, keyed by section id (see
+-- SectionProgress in utils/sectionProgress.ts). Run before
+-- record_lesson_progress.sql.
+
+alter table user_lesson_progress
+  add column if not exists section_progress jsonb not null default '{}'::jsonb;
+
+-- In case the column was added by hand without the default
+update user_lesson_progress set section_progress = '{}'::jsonb where section_progress is null;
+alter table user_lesson_progress
+  alter column section_progress set default '{}'::jsonb,
+  alter column section_progress set not null;
+
+-- The blocks of a lesson's content and whether their section is required,
+-- for checks the server makes against it (quizzes to pass, exercises to
+-- grade). Reads the JSON shapes parseLessonContent in utils/lessonContent.ts
+-- accepts: { sections }, { blocks } or a bare array of blocks, whose sections
+-- are all required. Markdown lessons have no quizzes or exercises, so none
+-- of their blocks are returned.
+create or replace function lesson_content_blocks(p_content text)
+returns table (section_required boolean, content_block jsonb)
+language plpgsql
+immutable
+as $$
+declare
+  v_json jsonb;
+begin
+  if p_content is null or btrim(p_content) !~ '^[\[{]' then
+    return;
+  end if;
+
+  begin
+    v_json := p_content::jsonb;
+  exception when others then
+    -- Not JSON after all, so parsed as Markdown
+    return;
+  end;
+
+  if jsonb_typeof(v_json -> 'sections') = 'array' then
+    return query
+      select (section -> 'required') is distinct from 'false'::jsonb, item
+      from jsonb_array_elements(v_json -> 'sections') as section
+      cross join lateral jsonb_array_elements(
+        case when jsonb_typeof(section -> 'blocks') = 'array' then section -> 'blocks' else '[]'::jsonb end
+      ) as item
+      where jsonb_typeof(section) = 'object' and jsonb_typeof(item) = 'object';
+  elsif jsonb_typeof(v_json) = 'array' then
+    return query
+      select true, item
+      from jsonb_array_elements(v_json) as item
+      where jsonb_typeof(item) = 'object';
+  elsif jsonb_typeof(v_json -> 'blocks') = 'array' then
+    return query
+      select true, item
+      from jsonb_array_elements(v_json -> 'blocks') as item
+      where jsonb_typeof(item) = 'object';
+  end if;
+end;
+$$;
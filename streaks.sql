@@ -0,0 +1,207 @@
+-- Daily learning activity and streak state, written by
+-- record_learning_activity, which StreakService calls for every piece of
+-- progress. Days are the learner's local calendar days, in the timezone the
+-- device reports.
+
+create table if not exists learning_activity (
+  user_id uuid not null references profiles(id) on delete cascade,
+  activity_date date not null,
+  activity_count integer not null default 0 check (activity_count >= 0),
+  -- A missed day covered by a streak freeze
+  frozen boolean not null default false,
+  primary key (user_id, activity_date)
+);
+
+create table if not exists user_streaks (
+  user_id uuid primary key references profiles(id) on delete cascade,
+  longest_streak integer not null default 0 check (longest_streak >= 0),
+  -- Mirrors STREAK_FREEZE_LIMIT in services/streaks.ts
+  freezes_available integer not null default 0 check (freezes_available between 0 and 2),
+  timezone text,
+  updated_at timestamptz not null default now()
+);
+
+alter table learning_activity enable row level security;
+alter table user_streaks enable row level security;
+
+-- Activity and streaks are only written through record_learning_activity
+drop policy if exists "Users manage their own activity" on learning_activity;
+drop policy if exists "Users read their own activity" on learning_activity;
+create policy "Users read their own activity" on learning_activity
+  for select
+  using (user_id = auth.uid());
+
+drop policy if exists "Users manage their own streak" on user_streaks;
+drop policy if exists "Users read their own streak" on user_streaks;
+create policy "Users read their own streak" on user_streaks
+  for select
+  using (user_id = auth.uid());
+
+revoke insert, update, delete on learning_activity from anon, authenticated;
+revoke insert, update, delete on user_streaks from anon, authenticated;
+
+-- The user's current and longest streaks as of p_today, the same way as
+-- StreakService.calculateStreak: frozen days keep a streak alive without
+-- adding to it, and a streak that hasn't been extended today still counts
+-- until the day is over.
+create or replace function streak_lengths(
+  p_user_id uuid,
+  p_today date,
+  out current_streak integer,
+  out longest_streak integer
+)
+language sql
+stable
+as $$
+  with kept as (
+    select
+      activity_date,
+      activity_count > 0 as active,
+      -- Consecutive kept days share a run
+      activity_date - (row_number() over (order by activity_date))::integer as run
+    from learning_activity
+    where user_id = p_user_id
+      and (activity_count > 0 or frozen)
+  ),
+  streak_end as (
+    select kept.*
+    from kept
+    where kept.activity_date = p_today
+       or (kept.activity_date = p_today - 1 and not exists (select 1 from kept today where today.activity_date = p_today))
+  )
+  select
+    coalesce((
+      select count(*) filter (where kept.active)
+      from kept
+      join streak_end on streak_end.run = kept.run
+      where kept.activity_date <= streak_end.activity_date
+    ), 0)::integer,
+    coalesce((
+      select max(run_length)
+      from (select count(*) filter (where kept.active) as run_length from kept group by kept.run) as runs
+    ), 0)::integer;
+$$;
+
+-- Record a piece of learning activity on the local day it happened and
+-- update the user's streak. The streak row is locked first so concurrent
+-- writes apply in turn. Then:
+--   * freezes cover the days missed before the activity, if there are enough
+--     to cover them all
+--   * a freeze spent on a day whose activity only synced later is given back
+--   * a freeze is earned on the first activity of every seventh streak day
+-- The 7 and the limit of 2 mirror STREAK_FREEZE_INTERVAL and
+-- STREAK_FREEZE_LIMIT in services/streaks.ts.
+--
+-- The activity time is the device's (for a write replayed from the offline
+-- outbox it can be days old) but never later than now. Security definer
+-- because learners can't write their activity or streak themselves.
+create or replace function record_learning_activity(
+  p_user_id uuid,
+  p_active_at timestamptz default null,
+  p_timezone text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_streak user_streaks;
+  v_timezone text;
+  v_today date;
+  v_activity_date date;
+  v_last_kept date;
+  v_missed integer;
+  v_was_frozen boolean;
+  v_activity_count integer;
+  v_streak_on_day integer;
+  v_current_streak integer;
+  v_longest_streak integer;
+begin
+  if p_user_id is distinct from auth.uid() then
+    raise exception 'Cannot record activity for another user';
+  end if;
+
+  insert into user_streaks (user_id)
+  values (p_user_id)
+  on conflict (user_id) do nothing;
+
+  select * into v_streak
+  from user_streaks
+  where user_id = p_user_id
+  for update;
+
+  -- An unknown timezone keeps the last one reported
+  if exists (select 1 from pg_timezone_names where name = p_timezone) then
+    v_timezone := p_timezone;
+  else
+    v_timezone := coalesce(v_streak.timezone, 'UTC');
+  end if;
+
+  v_today := (now() at time zone v_timezone)::date;
+  v_activity_date := (least(coalesce(p_active_at, now()), now()) at time zone v_timezone)::date;
+
+  -- Spend freezes on the days missed since the last kept day
+  select max(activity_date) into v_last_kept
+  from learning_activity
+  where user_id = p_user_id
+    and activity_date < v_activity_date
+    and (activity_count > 0 or frozen);
+
+  v_missed := v_activity_date - v_last_kept - 1;
+  if v_missed > 0 and v_missed <= v_streak.freezes_available then
+    insert into learning_activity (user_id, activity_date, frozen)
+    select p_user_id, missed_day::date, true
+    from generate_series(v_last_kept + 1, v_activity_date - 1, interval '1 day') as missed_day
+    on conflict (user_id, activity_date) do nothing;
+
+    v_streak.freezes_available := v_streak.freezes_available - v_missed;
+  end if;
+
+  select frozen into v_was_frozen
+  from learning_activity
+  where user_id = p_user_id and activity_date = v_activity_date;
+
+  insert into learning_activity (user_id, activity_date, activity_count, frozen)
+  values (p_user_id, v_activity_date, 1, false)
+  on conflict (user_id, activity_date) do update
+    set activity_count = learning_activity.activity_count + 1,
+        frozen = false
+  returning activity_count into v_activity_count;
+
+  if v_was_frozen then
+    v_streak.freezes_available := least(v_streak.freezes_available + 1, 2);
+  end if;
+
+  select current_streak into v_streak_on_day
+  from streak_lengths(p_user_id, v_activity_date);
+
+  if v_activity_count = 1 and v_streak_on_day > 0 and v_streak_on_day % 7 = 0 then
+    v_streak.freezes_available := least(v_streak.freezes_available + 1, 2);
+  end if;
+
+  select current_streak, longest_streak into v_current_streak, v_longest_streak
+  from streak_lengths(p_user_id, v_today);
+
+  update user_streaks set
+    longest_streak = greatest(user_streaks.longest_streak, v_longest_streak),
+    freezes_available = v_streak.freezes_available,
+    timezone = v_timezone,
+    updated_at = now()
+  where user_id = p_user_id
+  returning * into v_streak;
+
+  return jsonb_build_object(
+    'current_streak', v_current_streak,
+    'longest_streak', v_streak.longest_streak,
+    'freezes_available', v_streak.freezes_available,
+    'active_today', exists (
+      select 1
+      from learning_activity
+      where user_id = p_user_id and activity_date = v_today and activity_count > 0
+    )
+  );
+end;
+$$;
+
+grant execute on function record_learning_activity(uuid, timestamptz, text) to authenticated;
@@ -0,0 +1,231 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { toLocalDateKey, addDays, daysBetween } from '../utils/dates';
+
+// A freeze is earned every STREAK_FREEZE_INTERVAL streak days, up to the limit.
+// Mirrored in record_learning_activity in streaks.sql.
+export const STREAK_FREEZE_INTERVAL = 7;
+export const STREAK_FREEZE_LIMIT = 2;
+
+export interface ActivityDay {
+  activity_date: string; // YYYY-MM-DD in the learner's timezone
+  activity_count: number;
+  frozen: boolean;
+}
+
+export interface StreakInfo {
+  currentStreak: number;
+  longestStreak: number;
+  freezesAvailable: number;
+  activeToday: boolean;
+}
+
+interface RecordActivityResult {
+  current_streak: number;
+  longest_streak: number;
+  freezes_available: number;
+  active_today: boolean;
+}
+
+interface StreakRecord {
+  user_id: string;
+  longest_streak: number;
+  freezes_available: number;
+  timezone: string | null;
+}
+
+export class StreakService {
+  // Record learning activity and return the updated streak. Activity counts
+  // towards the day it happened (`activeAt`), which for a write replayed from
+  // the offline outbox can be earlier than today. The count, freezes and
+  // streak are updated on the server (record_learning_activity in
+  // streaks.sql), so writes from several devices can't overwrite each other.
+  static async recordActivity(userId: string, activeAt: string = new Date().toISOString()): Promise<ApiResponse<StreakInfo>> {
+    try {
+      const { data, error } = await supabase.rpc('record_learning_activity', {
+        p_user_id: userId,
+        p_active_at: activeAt,
+        p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || null,
+      });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      const result = data as RecordActivityResult;
+      return {
+        success: true,
+        data: {
+          currentStreak: result.current_streak,
+          longestStreak: result.longest_streak,
+          freezesAvailable: result.freezes_available,
+          activeToday: result.active_today,
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to record activity',
+      };
+    }
+  }
+
+  // Get the user's current streak. Freezes that would cover the days missed
+  // since the last activity are counted as spent, but are only spent on the
+  // server when the next activity is recorded.
+  static async getStreak(userId: string): Promise<ApiResponse<StreakInfo>> {
+    try {
+      const today = toLocalDateKey();
+      const [record, activity] = await Promise.all([
+        this.getStreakRecord(userId),
+        this.fetchActivity(userId),
+      ]);
+      const { days, freezesAvailable } = this.applyFreezes(record, activity, today);
+      const { currentStreak, longestStreak } = this.calculateStreak(days, today);
+
+      return {
+        success: true,
+        data: {
+          currentStreak,
+          longestStreak: Math.max(record.longest_streak, longestStreak),
+          freezesAvailable,
+          activeToday: days.some(day => day.activity_date === today && day.activity_count > 0),
+        },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch streak',
+      };
+    }
+  }
+
+  // Get per-day activity for the last `days` days (for the activity heatmap)
+  static async getActivityHistory(userId: string, days: number = 84): Promise<ApiResponse<ActivityDay[]>> {
+    try {
+      const since = addDays(toLocalDateKey(), -(days - 1));
+      const { data, error } = await supabase
+        .from('learning_activity')
+        .select('activity_date, activity_count, frozen')
+        .eq('user_id', userId)
+        .gte('activity_date', since)
+        .order('activity_date', { ascending: true });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []) as ActivityDay[],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch activity history',
+      };
+    }
+  }
+
+  // Calculate current and longest streaks from activity days. Frozen days keep
+  // a streak alive without adding to it, and a streak that hasn't been extended
+  // today still counts until the day is over.
+  static calculateStreak(days: ActivityDay[], today: string): { currentStreak: number; longestStreak: number } {
+    const byDate = new Map(days.map(day => [day.activity_date, day]));
+    const isKept = (date: string) => {
+      const day = byDate.get(date);
+      return !!day && (day.activity_count > 0 || day.frozen);
+    };
+    const isActive = (date: string) => (byDate.get(date)?.activity_count || 0) > 0;
+
+    let currentStreak = 0;
+    let cursor = isKept(today) ? today : addDays(today, -1);
+    while (isKept(cursor)) {
+      if (isActive(cursor)) currentStreak++;
+      cursor = addDays(cursor, -1);
+    }
+
+    let longestStreak = 0;
+    let run = 0;
+    let previous: string | null = null;
+    const keptDates = [...byDate.keys()].filter(isKept).sort();
+    for (const date of keptDates) {
+      if (previous === null || daysBetween(previous, date) !== 1) {
+        run = 0;
+      }
+      if (isActive(date)) run++;
+      longestStreak = Math.max(longestStreak, run);
+      previous = date;
+    }
+
+    return { currentStreak, longestStreak };
+  }
+
+  // Spend freezes on the days missed since the last kept day, if there are
+  // enough freezes to cover the whole gap, the way record_learning_activity
+  // does. Returns the activity days with the frozen ones added.
+  private static applyFreezes(
+    record: StreakRecord,
+    days: ActivityDay[],
+    today: string
+  ): { days: ActivityDay[]; freezesAvailable: number } {
+    const unchanged = { days, freezesAvailable: record.freezes_available };
+    const keptDates = days
+      .filter(day => day.activity_date < today && (day.activity_count > 0 || day.frozen))
+      .map(day => day.activity_date)
+      .sort();
+    const lastKept = keptDates[keptDates.length - 1];
+    if (!lastKept) return unchanged;
+
+    const missedDays = daysBetween(lastKept, today) - 1;
+    if (missedDays <= 0 || missedDays > record.freezes_available) return unchanged;
+
+    const frozenDays: ActivityDay[] = [];
+    for (let offset = 1; offset <= missedDays; offset++) {
+      frozenDays.push({ activity_date: addDays(lastKept, offset), activity_count: 0, frozen: true });
+    }
+
+    return {
+      days: [...days, ...frozenDays],
+      freezesAvailable: record.freezes_available - missedDays,
+    };
+  }
+
+  private static async fetchActivity(userId: string): Promise<ActivityDay[]> {
+    const { data, error } = await supabase
+      .from('learning_activity')
+      .select('activity_date, activity_count, frozen')
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return (data || []) as ActivityDay[];
+  }
+
+  private static async getStreakRecord(userId: string): Promise<StreakRecord> {
+    const { data, error } = await supabase
+      .from('user_streaks')
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // PGRST116 is "not found" error
+      throw new Error(error.message);
+    }
+
+    return (data as StreakRecord) || {
+      user_id: userId,
+      longest_streak: 0,
+      freezes_available: 0,
+      timezone: null,
+    };
+  }
+}
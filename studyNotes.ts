@@ -0,0 +1,122 @@
+import { ContentBlock } from './lessonContent';
+import { getSearchTerms, matchesAllTerms } from './lessonSearch';
+
+// Learners' private notes on lesson content. A note belongs to a section and
+// may be anchored to one block in it (a paragraph, code snippet, ...), with
+// the highlighted passage kept as its quote.
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink';
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ['yellow', 'green', 'blue', 'pink'];
+
+export interface LessonNote {
+  id: string;
+  user_id: string;
+  lesson_id: string;
+  section_id: string;
+  section_title: string;
+  block_index: number | null; // null for a note on the whole section
+  block_type: ContentBlock['type'] | null;
+  quote: string | null; // the highlighted passage
+  body: string;
+  color: HighlightColor;
+  created_at: string;
+  updated_at: string;
+  lessons?: { title: string } | null; // joined lesson
+}
+
+// Blocks that can be highlighted. Interactive blocks can't.
+export function isNotableBlock(block: ContentBlock): boolean {
+  return ['heading', 'paragraph', 'callout', 'code', 'image'].includes(block.type);
+}
+
+// The passage a highlight of a block starts out with, without markup
+export function getBlockQuote(block: ContentBlock): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+    case 'callout':
+      return block.text.replace(/\*\*|`/g, '');
+    case 'code':
+      return block.code;
+    case 'image':
+      return block.caption || block.alt || '';
+    default:
+      return '';
+  }
+}
+
+const newestFirst = (a: LessonNote, b: LessonNote) => b.updated_at.localeCompare(a.updated_at);
+
+// Notes matching a search in their text, passage, section or lesson title,
+// most recently edited first
+export function searchNotes(notes: LessonNote[], query: string): LessonNote[] {
+  const terms = getSearchTerms(query);
+  const matches = terms.length === 0
+    ? notes
+    : notes.filter(note => matchesAllTerms(
+        [note.body, note.quote, note.section_title, note.lessons?.title].filter(Boolean).join(' '),
+        terms
+      ));
+  return [...matches].sort(newestFirst);
+}
+
+export interface NoteGroup {
+  lessonId: string;
+  lessonTitle: string;
+  notes: LessonNote[];
+}
+
+// Notes grouped by lesson, keeping the order they're given in
+export function groupNotesByLesson(notes: LessonNote[]): NoteGroup[] {
+  const groups = new Map<string, NoteGroup>();
+  notes.forEach(note => {
+    const group = groups.get(note.lesson_id);
+    if (group) {
+      group.notes.push(note);
+    } else {
+      groups.set(note.lesson_id, {
+        lessonId: note.lesson_id,
+        lessonTitle: note.lessons?.title || 'Untitled lesson',
+        notes: [note],
+      });
+    }
+  });
+  return Array.from(groups.values());
+}
+
+function quoteToMarkdown(note: LessonNote): string {
+  if (!note.quote) return '';
+  if (note.block_type === 'code') {
+    const fence = note.quote.includes('```') ? '~~~' : '```';
+    return `${fence}\n${note.quote}\n${fence}`;
+  }
+  return note.quote.split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+}
+
+// Study notes as a Markdown document: one heading per lesson, then per
+// section, with each highlight quoted above its note
+export function notesToMarkdown(notes: LessonNote[], exportedAt = new Date()): string {
+  const lines = ['# My Notes', '', `_Exported ${exportedAt.toLocaleDateString()}_`];
+
+  groupNotesByLesson(notes).forEach(group => {
+    lines.push('', `## ${group.lessonTitle}`);
+
+    const sections = new Map<string, LessonNote[]>();
+    group.notes.forEach(note => sections.set(note.section_id, [...(sections.get(note.section_id) || []), note]));
+
+    // Within a section, notes follow the content: section notes, then by block
+    sections.forEach(sectionNotes => {
+      lines.push('', `### ${sectionNotes[0].section_title}`);
+      [...sectionNotes]
+        .sort((a, b) => (a.block_index ?? -1) - (b.block_index ?? -1))
+        .forEach(note => {
+          const quote = quoteToMarkdown(note);
+          if (quote) lines.push('', quote);
+          if (note.body.trim()) lines.push('', note.body.trim());
+        });
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+}
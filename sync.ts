@@ -0,0 +1,138 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { LessonsService } from './lessons';
+import { BookmarksService } from './bookmarks';
+import { NotesService } from './notes';
+import { FeedbackService } from './feedback';
+import { NetworkService } from './network';
+import { SyncQueueService, OutboxItem } from './syncQueue';
+
+export class SyncService {
+  private static flushing: Promise<void> | null = null;
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private static running = false;
+
+  // Replay queued writes that are due, in queue order. Stops at the first
+  // network failure, since the rest would fail the same way.
+  static flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.replay()
+        .catch(error => console.error('Error syncing outbox:', error))
+        .finally(() => {
+          this.flushing = null;
+          this.scheduleRetry();
+        });
+    }
+    return this.flushing;
+  }
+
+  // Sync now and whenever the connection comes back. Returns a function that
+  // stops syncing.
+  static start(): () => void {
+    this.running = true;
+    this.flush();
+    const network = NetworkService.onChange(online => {
+      if (online) this.flush();
+    });
+    // Writes can also be queued while online, after a request fails
+    const queue = SyncQueueService.onChange(pendingCount => {
+      if (pendingCount > 0 && !this.flushing) this.scheduleRetry();
+    });
+
+    return () => {
+      this.running = false;
+      network.unsubscribe();
+      queue.unsubscribe();
+      if (this.retryTimer) {
+        clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+      }
+    };
+  }
+
+  private static async replay(): Promise<void> {
+    if (!(await NetworkService.isOnline())) return;
+
+    const now = Date.now();
+    for (const item of await SyncQueueService.getItems()) {
+      if (Date.parse(item.next_attempt_at) > now) continue;
+
+      const result = await this.apply(item);
+      if (result.success) {
+        await SyncQueueService.remove(item.id);
+        continue;
+      }
+
+      const networkFailure = NetworkService.isNetworkError(result.error);
+      await SyncQueueService.recordFailure(item.id, result.error || 'Sync failed', networkFailure);
+      if (networkFailure) break;
+    }
+  }
+
+  private static async apply({ operation, created_at }: OutboxItem): Promise<ApiResponse<unknown>> {
+    try {
+      switch (operation.type) {
+        case 'progress':
+          // Writes queued before activity_at existed count as activity when they were queued
+          return await LessonsService.saveProgress(
+            operation.user_id,
+            operation.lesson_id,
+            operation.state,
+            operation.activity_at || [created_at]
+          );
+        case 'bookmark':
+          return await BookmarksService.saveBookmark(operation.user_id, operation.lesson_id, operation.bookmarked);
+        case 'note':
+          return await NotesService.saveNote(operation.note, operation.deleted);
+        case 'rating':
+          return await FeedbackService.saveRating({
+            user_id: operation.user_id,
+            lesson_id: operation.lesson_id,
+            rating: operation.rating,
+            feedback: operation.feedback,
+            updated_at: operation.rated_at,
+          });
+        case 'insert': {
+          // Rows carry their own id, so a row that already made it is skipped
+          const { error } = await supabase
+            .from(operation.table)
+            .upsert([operation.row], { onConflict: 'id', ignoreDuplicates: true });
+
+          if (error) {
+            return {
+              success: false,
+              error: error.message,
+            };
+          }
+          return { success: true };
+        }
+        default:
+          return { success: false, error: 'Unknown sync operation' };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Sync failed',
+      };
+    }
+  }
+
+  // Wake up for the next item whose backoff has passed. Offline, the
+  // reconnect listener takes care of it instead.
+  private static async scheduleRetry(): Promise<void> {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (!this.running || !(await NetworkService.isOnline())) return;
+
+    const items = await SyncQueueService.getItems();
+    if (items.length === 0) return;
+
+    const nextAttempt = Math.min(...items.map(item => Date.parse(item.next_attempt_at)));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, Math.max(nextAttempt - Date.now(), 1000));
+  }
+}
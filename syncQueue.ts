@@ -0,0 +1,235 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ProgressState, resolveProgress } from '../utils/progressConflict';
+import { LessonNote } from '../utils/studyNotes';
+import { firstPerDay } from '../utils/dates';
+
+// Persistent outbox of writes made while offline (or whose request failed on
+// a bad connection). Items are replayed in order by SyncService once the
+// network is back, with exponential backoff between failed attempts.
+const OUTBOX_KEY = 'syncQueue:outbox';
+
+export const SYNC_RETRY_BASE_MS = 5000;
+export const SYNC_RETRY_MAX_MS = 5 * 60 * 1000;
+// A write the server keeps refusing is dropped after this many tries.
+// Failures caused by the network don't count.
+export const SYNC_MAX_REJECTIONS = 10;
+
+export type SyncOperation =
+  // activity_at: when the learner made the queued writes, one per local day,
+  // so the streak credits the days they happened on
+  | { type: 'progress'; user_id: string; lesson_id: string; state: ProgressState; activity_at: string[] }
+  | { type: 'bookmark'; user_id: string; lesson_id: string; bookmarked: boolean }
+  | { type: 'note'; note: LessonNote; deleted: boolean }
+  | { type: 'rating'; user_id: string; lesson_id: string; rating: number; feedback: string | null; rated_at: string }
+  | { type: 'insert'; table: 'quiz_attempts' | 'lesson_reports'; row: { id: string } };
+
+export interface OutboxItem {
+  id: string;
+  operation: SyncOperation;
+  created_at: string;
+  attempts: number; // failed replays, which set the backoff
+  rejections: number; // failed replays the server refused
+  next_attempt_at: string;
+  last_error: string | null;
+}
+
+type Listener = (pendingCount: number) => void;
+
+// Random v4 UUID. Queued rows get their id up front so a replay that reached
+// the server before failing can't insert them twice.
+export function createId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(SYNC_RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), SYNC_RETRY_MAX_MS);
+}
+
+export class SyncQueueService {
+  private static listeners = new Set<Listener>();
+  // Serializes read-modify-write cycles on the stored outbox
+  private static pending: Promise<unknown> = Promise.resolve();
+
+  // Add a write to the outbox. Progress for a lesson that is already queued
+  // is merged into the queued write, which moves to the end, and a queued
+  // bookmark, note or rating change is replaced by the newer one. A changed item gets a new
+  // id, so a replay of the old version that's in flight can't remove it.
+  static async enqueue(operation: SyncOperation): Promise<void> {
+    await this.update(items => {
+      if (operation.type === 'bookmark') {
+        const queued = items.find(item =>
+          item.operation.type === 'bookmark' &&
+          item.operation.user_id === operation.user_id &&
+          item.operation.lesson_id === operation.lesson_id
+        );
+        if (queued) {
+          queued.id = createId();
+          queued.operation = operation;
+          return items;
+        }
+      }
+
+      if (operation.type === 'rating') {
+        const queued = items.find(item =>
+          item.operation.type === 'rating' &&
+          item.operation.user_id === operation.user_id &&
+          item.operation.lesson_id === operation.lesson_id
+        );
+        if (queued) {
+          queued.id = createId();
+          queued.operation = operation;
+          return items;
+        }
+      }
+
+      if (operation.type === 'note') {
+        const queued = items.find(item =>
+          item.operation.type === 'note' && item.operation.note.id === operation.note.id
+        );
+        if (queued) {
+          queued.id = createId();
+          queued.operation = operation;
+          return items;
+        }
+      }
+
+      if (operation.type === 'progress') {
+        const queued = items.find(item =>
+          item.operation.type === 'progress' &&
+          item.operation.user_id === operation.user_id &&
+          item.operation.lesson_id === operation.lesson_id
+        );
+        if (queued && queued.operation.type === 'progress') {
+          // Moved to the end so it replays after anything queued since that
+          // it depends on, such as the quiz attempts a completion needs
+          return [...items.filter(item => item !== queued), {
+            ...queued,
+            id: createId(),
+            operation: {
+              ...queued.operation,
+              state: resolveProgress(queued.operation.state, operation.state),
+              activity_at: firstPerDay([...(queued.operation.activity_at || []), ...operation.activity_at]),
+            },
+          }];
+        }
+      }
+
+      const now = new Date().toISOString();
+      return [...items, {
+        id: createId(),
+        operation,
+        created_at: now,
+        attempts: 0,
+        rejections: 0,
+        next_attempt_at: now,
+        last_error: null,
+      }];
+    });
+  }
+
+  // Get queued writes in the order they replay
+  static async getItems(): Promise<OutboxItem[]> {
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      return stored ? (JSON.parse(stored) as OutboxItem[]) : [];
+    } catch (error) {
+      console.error('Error reading sync outbox:', error);
+      return [];
+    }
+  }
+
+  static async getPendingCount(): Promise<number> {
+    return (await this.getItems()).length;
+  }
+
+  // Queued progress for a user's lessons, keyed by lesson id
+  static async getPendingProgress(userId: string): Promise<{ [lessonId: string]: ProgressState }> {
+    const pending: { [lessonId: string]: ProgressState } = {};
+    (await this.getItems()).forEach(item => {
+      if (item.operation.type === 'progress' && item.operation.user_id === userId) {
+        pending[item.operation.lesson_id] = item.operation.state;
+      }
+    });
+    return pending;
+  }
+
+  // Queued bookmark changes for a user, keyed by lesson id
+  static async getPendingBookmarks(userId: string): Promise<{ [lessonId: string]: boolean }> {
+    const pending: { [lessonId: string]: boolean } = {};
+    (await this.getItems()).forEach(item => {
+      if (item.operation.type === 'bookmark' && item.operation.user_id === userId) {
+        pending[item.operation.lesson_id] = item.operation.bookmarked;
+      }
+    });
+    return pending;
+  }
+
+  // Queued note changes for a user, keyed by note id
+  static async getPendingNotes(userId: string): Promise<{ [noteId: string]: { note: LessonNote; deleted: boolean } }> {
+    const pending: { [noteId: string]: { note: LessonNote; deleted: boolean } } = {};
+    (await this.getItems()).forEach(item => {
+      if (item.operation.type === 'note' && item.operation.note.user_id === userId) {
+        pending[item.operation.note.id] = { note: item.operation.note, deleted: item.operation.deleted };
+      }
+    });
+    return pending;
+  }
+
+  // A user's queued rating of a lesson, if any
+  static async getPendingRating(userId: string, lessonId: string): Promise<Extract<SyncOperation, { type: 'rating' }> | null> {
+    const item = (await this.getItems()).find(queued =>
+      queued.operation.type === 'rating' &&
+      queued.operation.user_id === userId &&
+      queued.operation.lesson_id === lessonId
+    );
+    return item && item.operation.type === 'rating' ? item.operation : null;
+  }
+
+  static async remove(itemId: string): Promise<void> {
+    await this.update(items => items.filter(item => item.id !== itemId));
+  }
+
+  // Schedule the next attempt after a failed replay. Returns false when the
+  // item was dropped after too many rejections.
+  static async recordFailure(itemId: string, error: string, networkFailure: boolean): Promise<boolean> {
+    let kept = true;
+    await this.update(items => items.flatMap(item => {
+      if (item.id !== itemId) return [item];
+
+      const rejections = networkFailure ? item.rejections : item.rejections + 1;
+      if (rejections >= SYNC_MAX_REJECTIONS) {
+        console.error('Dropping sync item after repeated failures:', item.operation, error);
+        kept = false;
+        return [];
+      }
+
+      return [{
+        ...item,
+        attempts: item.attempts + 1,
+        rejections,
+        last_error: error,
+        next_attempt_at: new Date(Date.now() + getRetryDelay(item.attempts + 1)).toISOString(),
+      }];
+    }));
+    return kept;
+  }
+
+  // Listen for changes to the number of queued writes
+  static onChange(listener: Listener): { unsubscribe: () => void } {
+    this.listeners.add(listener);
+    return { unsubscribe: () => this.listeners.delete(listener) };
+  }
+
+  private static update(change: (items: OutboxItem[]) => OutboxItem[]): Promise<void> {
+    const run = this.pending.then(async () => {
+      const items = change(await this.getItems());
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(items));
+      this.listeners.forEach(listener => listener(items.length));
+    });
+    this.pending = run.catch(error => console.error('Error updating sync outbox:', error));
+    return run;
+  }
+}
@@ -0,0 +1,114 @@
+// Lightweight syntax highlighting for lesson code snippets. Splits code into
+// typed tokens per line; colours are applied by the CodeBlock component.
+
+export type TokenType = 'keyword' | 'string' | 'comment' | 'number' | 'function' | 'tag' | 'plain';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete',
+  'do', 'else', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'import',
+  'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'return', 'static', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void',
+  'while', 'yield',
+];
+
+const PYTHON_KEYWORDS = [
+  'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif',
+  'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is',
+  'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'True', 'try', 'while',
+  'with', 'yield',
+];
+
+const CSS_KEYWORDS = ['important', 'inherit', 'initial', 'none', 'auto'];
+
+interface LanguageRules {
+  keywords: Set<string>;
+  lineComment: string | null;
+  blockComment: [string, string] | null;
+  markup: boolean;
+}
+
+const getRules = (language?: string): LanguageRules => {
+  switch ((language || '').toLowerCase()) {
+    case 'python':
+    case 'py':
+      return { keywords: new Set(PYTHON_KEYWORDS), lineComment: '#', blockComment: null, markup: false };
+    case 'html':
+    case 'xml':
+      return { keywords: new Set(), lineComment: null, blockComment: ['<!--', '-->'], markup: true };
+    case 'css':
+      return { keywords: new Set(CSS_KEYWORDS), lineComment: null, blockComment: ['/*', '*/'], markup: false };
+    default:
+      return { keywords: new Set(JS_KEYWORDS), lineComment: '//', blockComment: ['/*', '*/'], markup: false };
+  }
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Tokenize code and split the tokens into lines
+export function highlightCode(code: string, language?: string): Token[][] {
+  const rules = getRules(language);
+  const patterns: string[] = [];
+  if (rules.blockComment) {
+    patterns.push(`${escapeRegex(rules.blockComment[0])}[\\s\\S]*?(?:${escapeRegex(rules.blockComment[1])}|$)`);
+  }
+  if (rules.lineComment) {
+    patterns.push(`${escapeRegex(rules.lineComment)}[^\\n]*`);
+  }
+  const commentPattern = patterns.length > 0 ? `(${patterns.join('|')})` : '((?!))';
+  const tagPattern = rules.markup ? '(<\\/?[A-Za-z][\\w-]*|\\/?>)' : '((?!))';
+
+  const tokenizer = new RegExp(
+    [
+      commentPattern,
+      '("(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\'|`(?:\\\\.|[^`\\\\])*`)',
+      tagPattern,
+      '(\\b\\d+(?:\\.\\d+)?\\b)',
+      '([A-Za-z_$][\\w$]*)(?=\\s*\\()',
+      '([A-Za-z_$][\\w$]*)',
+    ].join('|'),
+    'g'
+  );
+
+  const tokens: Token[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tokenizer.exec(code)) !== null) {
+    if (match[0].length === 0) {
+      tokenizer.lastIndex++;
+      continue;
+    }
+    if (match.index > lastIndex) {
+      tokens.push({ type: 'plain', text: code.slice(lastIndex, match.index) });
+    }
+
+    let type: TokenType = 'plain';
+    if (match[1] !== undefined) type = 'comment';
+    else if (match[2] !== undefined) type = 'string';
+    else if (match[3] !== undefined) type = 'tag';
+    else if (match[4] !== undefined) type = 'number';
+    else if (match[5] !== undefined) type = rules.keywords.has(match[5]) ? 'keyword' : 'function';
+    else if (match[6] !== undefined && rules.keywords.has(match[6])) type = 'keyword';
+
+    tokens.push({ type, text: match[0] });
+    lastIndex = tokenizer.lastIndex;
+  }
+  if (lastIndex < code.length) {
+    tokens.push({ type: 'plain', text: code.slice(lastIndex) });
+  }
+
+  // Break multi-line tokens (block comments, template strings) at newlines
+  const lines: Token[][] = [[]];
+  tokens.forEach(token => {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+    });
+  });
+
+  return lines;
+}
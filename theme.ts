@@ -40,6 +40,18 @@ export const theme = {
       secondary: ['#8B5CF6', '#EC4899'], // Purple to Pink
       card: ['#F8FAFC', '#FFFFFF'],
     },
+    
+    code: {
+      background: '#1F2937',
+      text: '#F9FAFB',
+      lineNumber: '#6B7280',
+      keyword: '#C084FC',
+      string: '#86EFAC',
+      comment: '#9CA3AF',
+      number: '#FBBF24',
+      function: '#93C5FD',
+      tag: '#F472B6',
+    },
   },
   
   spacing: {
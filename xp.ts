@@ -0,0 +1,78 @@
+import { supabase } from '../config/supabase';
+import { ApiResponse } from '../types';
+import { LevelingService } from './leveling';
+
+export type XPSource = 'lesson_completion' | 'path_completion';
+
+export interface XPLedgerEntry {
+  id: string;
+  user_id: string;
+  source: XPSource;
+  lesson_id: string | null;
+  path_id: string | null;
+  amount: number;
+  created_at: string;
+}
+
+// Awards are paid out by database functions: lesson completions by
+// record_lesson_progress (see LessonsService.saveProgress) and path
+// completions by award_completed_paths (see PathsService.awardCompletedPaths).
+// The ledger is append-only and unique per lesson and per path, so each only
+// ever pays out once. Learners can read their own entries but not write them
+// (xp_ledger.sql).
+export class XPService {
+  // Emit a level-up event if an award of `amount` XP, already in the ledger,
+  // crossed a level threshold. Also used for awards made on the server.
+  static async checkLevelUp(userId: string, amount: number): Promise<void> {
+    const totalResult = await this.getTotalXP(userId);
+    if (totalResult.success) {
+      LevelingService.checkLevelUp(totalResult.data! - amount, totalResult.data!);
+    }
+  }
+
+  // Get all ledger entries for a user, newest first
+  static async getLedger(userId: string): Promise<ApiResponse<XPLedgerEntry[]>> {
+    try {
+      const { data, error } = await supabase
+        .from('xp_ledger')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        return {
+          success: false,
+          error: error.message,
+        };
+      }
+
+      return {
+        success: true,
+        data: (data || []) as XPLedgerEntry[],
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch XP ledger',
+      };
+    }
+  }
+
+  // Get the user's total XP by summing the ledger
+  static async getTotalXP(userId: string): Promise<ApiResponse<number>> {
+    const ledgerResult = await this.getLedger(userId);
+    if (!ledgerResult.success) {
+      return {
+        success: false,
+        error: ledgerResult.error || 'Failed to calculate total XP',
+      };
+    }
+
+    const totalXP = (ledgerResult.data || []).reduce((sum, entry) => sum + entry.amount, 0);
+
+    return {
+      success: true,
+      data: totalXP,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+-- The append-only XP ledger summed by XPService. Learners can read their own
+-- entries but never write them: awards are made by database functions such
+-- as record_lesson_progress, so a client can't grant itself XP.
+
+create table if not exists xp_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references profiles(id) on delete cascade,
+  source text not null check (source in ('lesson_completion', 'path_completion')),
+  lesson_id uuid references lessons(id) on delete cascade,
+  path_id uuid,
+  amount integer not null check (amount >= 0),
+  created_at timestamptz not null default now(),
+  check (
+    (source = 'lesson_completion' and lesson_id is not null and path_id is null)
+    or (source = 'path_completion' and path_id is not null and lesson_id is null)
+  )
+);
+
+-- Keep the first award of anything paid out twice before the unique indexes
+-- below existed
+delete from xp_ledger duplicate
+using xp_ledger original
+where duplicate.user_id = original.user_id
+  and duplicate.source = original.source
+  and (duplicate.lesson_id = original.lesson_id or duplicate.path_id = original.path_id)
+  and (duplicate.created_at, duplicate.id) > (original.created_at, original.id);
+
+-- Each lesson and each path pays out once. The other column is null, and
+-- nulls never collide, so one index per kind of award.
+create unique index if not exists xp_ledger_lesson_award_key on xp_ledger (user_id, source, lesson_id);
+create unique index if not exists xp_ledger_path_award_key on xp_ledger (user_id, source, path_id);
+
+alter table xp_ledger enable row level security;
+
+-- No insert, update or delete policies: only security definer functions
+-- and the service role write the ledger
+drop policy if exists "Users read their own XP" on xp_ledger;
+create policy "Users read their own XP" on xp_ledger
+  for select
+  using (user_id = auth.uid());